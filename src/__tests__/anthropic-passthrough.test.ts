@@ -0,0 +1,181 @@
+/**
+ * Anthropic原生协议透传测试用例
+ * 测试protocol: "anthropic" Provider的流水线配置生成和Protocol/Server层的透传
+ */
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { RouterPreprocessor } from '../modules/router/src/router-preprocessor';
+import { AnthropicProtocolModule } from '../modules/pipeline-modules/protocol/anthropic-protocol';
+import { AnthropicServerModule } from '../modules/pipeline-modules/server/anthropic-server';
+import { isStreamingResponseBody } from '../modules/pipeline/src/module-interface';
+import { RCCError, RCCErrorCode } from '../modules/types/src/index';
+
+interface CapturedRequest {
+    url?: string;
+    headers: http.IncomingHttpHeaders;
+    body: any;
+}
+
+describe('Anthropic Passthrough Tests', () => {
+    let upstream: http.Server;
+    let endpoint: string;
+    let captured: CapturedRequest[];
+    let respond: (req: CapturedRequest, res: http.ServerResponse) => void;
+
+    beforeAll(async () => {
+        upstream = http.createServer((req, res) => {
+            let data = '';
+            req.on('data', chunk => data += chunk);
+            req.on('end', () => {
+                const request = { url: req.url, headers: req.headers, body: JSON.parse(data) };
+                captured.push(request);
+                respond(request, res);
+            });
+        });
+        await new Promise<void>(resolve => upstream.listen(0, '127.0.0.1', resolve));
+        endpoint = `http://127.0.0.1:${(upstream.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+        await new Promise(resolve => upstream.close(resolve));
+    });
+
+    beforeEach(() => {
+        captured = [];
+    });
+
+    const context = () => ({
+        requestId: 'req-test',
+        pipelineId: 'pipeline_relay_claude-sonnet-4_0',
+        providerName: 'relay',
+        model: 'claude-sonnet-4',
+        config: { endpoint, apiKey: 'sk-ant-relay', timeout: 5000 }
+    });
+
+    const clientRequest = {
+        model: 'claude-3-5-sonnet-20241022',
+        max_tokens: 1024,
+        system: [{ type: 'text', text: 'You are terse.', cache_control: { type: 'ephemeral' } }],
+        thinking: { type: 'enabled', budget_tokens: 2048 },
+        metadata: { user_id: 'user-42' },
+        messages: [{ role: 'user', content: 'Hello' }]
+    };
+
+    async function runPipeline(body: any): Promise<any> {
+        const protocol = new AnthropicProtocolModule();
+        const server = new AnthropicServerModule();
+        const pipelineInput = {
+            endpoint: '/v1/messages',
+            method: 'POST',
+            headers: { 'anthropic-beta': 'prompt-caching-2024-07-31', 'x-api-key': 'client-key' },
+            body,
+            requestId: 'req-test',
+            isAnthropicFormat: true
+        };
+        const upstreamRequest = await protocol.process(pipelineInput, context());
+        return server.process(upstreamRequest, context());
+    }
+
+    test('should generate transformer-less layers for anthropic providers', async () => {
+        const result = await RouterPreprocessor.preprocess({
+            providers: [{
+                name: 'relay',
+                api_base_url: 'https://relay.example.com',
+                api_key: 'sk-ant-relay',
+                protocol: 'anthropic',
+                models: ['claude-sonnet-4']
+            }],
+            routes: { default: 'relay,claude-sonnet-4' },
+            server: { port: 5506, host: '127.0.0.1' },
+            apiKey: 'rcc4-proxy-key'
+        });
+
+        expect(result.success).toBe(true);
+        const pipeline = result.pipelineConfigs![0];
+        expect(pipeline.protocol).toBe('anthropic');
+        expect(pipeline.layers.map(layer => layer.type)).toEqual(['protocol', 'server']);
+        expect(pipeline.layers.every(layer => layer.config.protocol === 'anthropic')).toBe(true);
+    });
+
+    test('should forward the request unchanged except for the routed model', async () => {
+        respond = (_req, res) => {
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({
+                id: 'msg_1',
+                type: 'message',
+                role: 'assistant',
+                model: 'claude-sonnet-4',
+                content: [{ type: 'text', text: 'Hi' }],
+                stop_reason: 'end_turn',
+                usage: { input_tokens: 10, output_tokens: 1, cache_read_input_tokens: 8 }
+            }));
+        };
+
+        const response = await runPipeline(clientRequest);
+
+        expect(captured).toHaveLength(1);
+        expect(captured[0].url).toBe('/v1/messages');
+        expect(captured[0].body).toEqual({ ...clientRequest, model: 'claude-sonnet-4' });
+        expect(captured[0].headers['x-api-key']).toBe('sk-ant-relay');
+        expect(captured[0].headers['anthropic-version']).toBe('2023-06-01');
+        expect(captured[0].headers['anthropic-beta']).toBe('prompt-caching-2024-07-31');
+        expect(response.content).toEqual([{ type: 'text', text: 'Hi' }]);
+        expect(response.usage.cache_read_input_tokens).toBe(8);
+    });
+
+    test('should stream upstream Anthropic events one by one', async () => {
+        const upstreamEvents = [
+            { type: 'message_start', message: { id: 'msg_2', type: 'message', role: 'assistant', content: [], model: 'claude-sonnet-4' } },
+            { type: 'ping' },
+            { type: 'content_block_start', index: 0, content_block: { type: 'thinking', thinking: '' } },
+            { type: 'content_block_delta', index: 0, delta: { type: 'thinking_delta', thinking: 'Hmm' } },
+            { type: 'content_block_stop', index: 0 },
+            { type: 'message_delta', delta: { stop_reason: 'end_turn' }, usage: { output_tokens: 3 } },
+            { type: 'message_stop' }
+        ];
+        respond = (_req, res) => {
+            res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+            for (const event of upstreamEvents) {
+                res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+            }
+            res.end();
+        };
+
+        const response = await runPipeline({ ...clientRequest, stream: true });
+
+        expect(isStreamingResponseBody(response)).toBe(true);
+        const events: any[] = [];
+        for await (const event of response.stream) {
+            events.push(event);
+        }
+        expect(events).toEqual(upstreamEvents);
+        expect(captured[0].body.stream).toBe(true);
+        expect(captured[0].headers.accept).toBe('text/event-stream');
+    });
+
+    test('should surface upstream errors as RCCError with the status code', async () => {
+        respond = (_req, res) => {
+            res.writeHead(429, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ type: 'error', error: { type: 'rate_limit_error', message: 'Slow down' } }));
+        };
+
+        try {
+            await runPipeline(clientRequest);
+            fail('expected upstream error');
+        } catch (error) {
+            expect(error).toBeInstanceOf(RCCError);
+            expect((error as RCCError).code).toBe(RCCErrorCode.PROVIDER_RATE_LIMITED);
+            expect((error as RCCError).message).toContain('Slow down');
+            expect((error as RCCError).context.details.statusCode).toBe(429);
+        }
+    });
+
+    test('should resolve the messages URL from common base URL forms', () => {
+        expect(AnthropicServerModule.resolveMessagesUrl('https://relay.example.com').toString())
+            .toBe('https://relay.example.com/v1/messages');
+        expect(AnthropicServerModule.resolveMessagesUrl('https://relay.example.com/api/v1/').toString())
+            .toBe('https://relay.example.com/api/v1/messages');
+        expect(AnthropicServerModule.resolveMessagesUrl('https://relay.example.com/v1/messages').toString())
+            .toBe('https://relay.example.com/v1/messages');
+    });
+});
@@ -0,0 +1,255 @@
+/**
+ * Gemini Provider测试用例
+ * 测试Anthropic ↔ Gemini转换、Gemini流水线配置生成和generateContent调用
+ */
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { RouterPreprocessor } from '../modules/router/src/router-preprocessor';
+import { SecureGeminiTransformer } from '../modules/pipeline-modules/transformers/secure-gemini-transformer';
+import { transformAnthropicToGemini } from '../modules/pipeline-modules/transformers/anthropic-gemini-converter';
+import { GeminiProtocolModule } from '../modules/pipeline-modules/protocol/gemini-protocol';
+import { GeminiServerModule } from '../modules/pipeline-modules/server/gemini-server';
+import { isStreamingResponseBody } from '../modules/pipeline/src/module-interface';
+import { RCCError, RCCErrorCode } from '../modules/types/src/index';
+
+interface CapturedRequest {
+    url?: string;
+    body: any;
+}
+
+const weatherTool = {
+    name: 'get_weather',
+    description: 'Get the weather for a city',
+    input_schema: {
+        $schema: 'http://json-schema.org/draft-07/schema#',
+        type: 'object',
+        additionalProperties: false,
+        properties: { city: { type: 'string' } },
+        required: ['city']
+    }
+};
+
+describe('Gemini Provider Tests', () => {
+    let upstream: http.Server;
+    let endpoint: string;
+    let captured: CapturedRequest[];
+    let respond: (req: CapturedRequest, res: http.ServerResponse) => void;
+    const transformer = new SecureGeminiTransformer();
+    const protocol = new GeminiProtocolModule();
+    const server = new GeminiServerModule();
+
+    beforeAll(async () => {
+        upstream = http.createServer((req, res) => {
+            let data = '';
+            req.on('data', chunk => data += chunk);
+            req.on('end', () => {
+                const request = { url: req.url, body: JSON.parse(data) };
+                captured.push(request);
+                respond(request, res);
+            });
+        });
+        await new Promise<void>(resolve => upstream.listen(0, '127.0.0.1', resolve));
+        endpoint = `http://127.0.0.1:${(upstream.address() as AddressInfo).port}`;
+        await transformer.start();
+        await protocol.start();
+    });
+
+    afterAll(async () => {
+        await transformer.stop();
+        await protocol.stop();
+        await new Promise(resolve => upstream.close(resolve));
+    });
+
+    beforeEach(() => {
+        captured = [];
+    });
+
+    const context = () => ({
+        requestId: 'req-test',
+        pipelineId: 'pipeline_gemini_gemini-2.5-pro_0',
+        providerName: 'gemini',
+        model: 'gemini-2.5-pro',
+        config: { endpoint: `${endpoint}/v1beta`, apiKey: 'AIza-test-key', timeout: 5000 }
+    });
+
+    async function runPipeline(body: any): Promise<any> {
+        const geminiRequest = await transformer.process({ endpoint: '/v1/messages', body, isAnthropicFormat: true }, context());
+        const protocolOutput = await protocol.process(geminiRequest);
+        const response = await server.process(protocolOutput, context());
+        if (isStreamingResponseBody(response)) {
+            return { ...response, stream: transformer.processStreamResponse(response.stream) };
+        }
+        return transformer.processNonStreamResponse(response, context());
+    }
+
+    test('should convert system, tools and tool round-trips to generateContent format', () => {
+        const geminiRequest = transformAnthropicToGemini({
+            model: 'claude-3-5-sonnet-20241022',
+            max_tokens: 2048,
+            temperature: 0.2,
+            system: [{ type: 'text', text: 'You are a weather bot.' }],
+            tools: [weatherTool],
+            tool_choice: { type: 'tool', name: 'get_weather' },
+            messages: [
+                { role: 'user', content: 'Weather in Paris?' },
+                { role: 'assistant', content: [{ type: 'tool_use', id: 'toolu_1', name: 'get_weather', input: { city: 'Paris' } }] },
+                { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'toolu_1', content: [{ type: 'text', text: 'Sunny, 21C' }] }] }
+            ]
+        }, { targetModel: 'gemini-2.5-pro' });
+
+        expect(geminiRequest.model).toBe('gemini-2.5-pro');
+        expect(geminiRequest.request.systemInstruction).toEqual({ parts: [{ text: 'You are a weather bot.' }] });
+        expect(geminiRequest.request.tools).toEqual([{
+            functionDeclarations: [{
+                name: 'get_weather',
+                description: 'Get the weather for a city',
+                parameters: { type: 'object', properties: { city: { type: 'string' } }, required: ['city'] }
+            }]
+        }]);
+        expect(geminiRequest.request.toolConfig).toEqual({
+            functionCallingConfig: { mode: 'ANY', allowedFunctionNames: ['get_weather'] }
+        });
+        expect(geminiRequest.request.generationConfig).toEqual({ maxOutputTokens: 2048, temperature: 0.2 });
+        expect(geminiRequest.request.contents).toEqual([
+            { role: 'user', parts: [{ text: 'Weather in Paris?' }] },
+            { role: 'model', parts: [{ functionCall: { name: 'get_weather', args: { city: 'Paris' } } }] },
+            { role: 'user', parts: [{ functionResponse: { name: 'get_weather', response: { result: 'Sunny, 21C' } } }] }
+        ]);
+    });
+
+    test('should call generateContent with the key in the query and return an Anthropic message', async () => {
+        respond = (_req, res) => {
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({
+                candidates: [{
+                    content: {
+                        role: 'model',
+                        parts: [{ text: 'Checking.' }, { functionCall: { name: 'get_weather', args: { city: 'Oslo' } } }]
+                    },
+                    finishReason: 'STOP'
+                }],
+                usageMetadata: { promptTokenCount: 42, candidatesTokenCount: 7, totalTokenCount: 49 },
+                modelVersion: 'gemini-2.5-pro'
+            }));
+        };
+
+        const response = await runPipeline({
+            model: 'claude-3-5-sonnet-20241022',
+            max_tokens: 1024,
+            tools: [weatherTool],
+            messages: [{ role: 'user', content: 'Weather in Oslo?' }]
+        });
+
+        expect(captured).toHaveLength(1);
+        expect(captured[0].url).toBe('/v1beta/models/gemini-2.5-pro:generateContent?key=AIza-test-key');
+        expect(captured[0].body.contents).toEqual([{ role: 'user', parts: [{ text: 'Weather in Oslo?' }] }]);
+        expect(response.type).toBe('message');
+        expect(response.content[0]).toEqual({ type: 'text', text: 'Checking.' });
+        expect(response.content[1]).toMatchObject({ type: 'tool_use', name: 'get_weather', input: { city: 'Oslo' } });
+        expect(response.stop_reason).toBe('tool_use');
+        expect(response.usage).toEqual({ input_tokens: 42, output_tokens: 7 });
+    });
+
+    test('should stream Gemini chunks as Anthropic events', async () => {
+        const chunks = [
+            { candidates: [{ content: { role: 'model', parts: [{ text: 'Hel' }] } }], usageMetadata: { promptTokenCount: 5 } },
+            { candidates: [{ content: { role: 'model', parts: [{ text: 'lo' }] }, finishReason: 'MAX_TOKENS' }], usageMetadata: { promptTokenCount: 5, candidatesTokenCount: 2 } }
+        ];
+        respond = (_req, res) => {
+            res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+            for (const chunk of chunks) {
+                res.write(`data: ${JSON.stringify(chunk)}\r\n\r\n`);
+            }
+            res.end();
+        };
+
+        const response = await runPipeline({
+            model: 'claude-3-5-sonnet-20241022',
+            max_tokens: 2,
+            stream: true,
+            messages: [{ role: 'user', content: 'Say hello' }]
+        });
+
+        const events: any[] = [];
+        for await (const event of response.stream) {
+            events.push(event);
+        }
+
+        expect(captured[0].url).toBe('/v1beta/models/gemini-2.5-pro:streamGenerateContent?alt=sse&key=AIza-test-key');
+        expect(events.map(event => event.type)).toEqual([
+            'message_start',
+            'content_block_start',
+            'content_block_delta',
+            'content_block_delta',
+            'content_block_stop',
+            'message_delta',
+            'message_stop'
+        ]);
+        expect(events[0].message.usage.input_tokens).toBe(5);
+        expect(events[5].delta.stop_reason).toBe('max_tokens');
+        expect(events[5].usage.output_tokens).toBe(2);
+    });
+
+    test('should map safety blocks to RCCError', async () => {
+        respond = (_req, res) => {
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ promptFeedback: { blockReason: 'SAFETY', safetyRatings: [] } }));
+        };
+
+        try {
+            await runPipeline({ model: 'claude-3-5-sonnet-20241022', max_tokens: 16, messages: [{ role: 'user', content: 'blocked' }] });
+            fail('expected safety error');
+        } catch (error) {
+            expect(error).toBeInstanceOf(RCCError);
+            expect((error as RCCError).code).toBe(RCCErrorCode.VALIDATION_ERROR);
+            expect((error as RCCError).message).toBe('Gemini blocked the prompt: SAFETY');
+        }
+    });
+
+    test('should map upstream errors without leaking the API key', async () => {
+        respond = (_req, res) => {
+            res.writeHead(403, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ error: { code: 403, message: 'API key not valid', status: 'PERMISSION_DENIED' } }));
+        };
+
+        try {
+            await runPipeline({ model: 'claude-3-5-sonnet-20241022', max_tokens: 16, messages: [{ role: 'user', content: 'hi' }] });
+            fail('expected upstream error');
+        } catch (error) {
+            expect(error).toBeInstanceOf(RCCError);
+            expect((error as RCCError).code).toBe(RCCErrorCode.PROVIDER_AUTH_FAILED);
+            expect((error as RCCError).context.details.status).toBe('PERMISSION_DENIED');
+            expect(JSON.stringify((error as RCCError).context)).not.toContain('AIza-test-key');
+        }
+    });
+
+    test('should generate transformer, protocol and server layers for gemini providers', async () => {
+        const result = await RouterPreprocessor.preprocess({
+            providers: [{
+                name: 'gemini',
+                api_base_url: 'https://generativelanguage.googleapis.com/v1beta',
+                api_key: 'AIza-test-key',
+                protocol: 'gemini',
+                models: ['gemini-2.5-pro']
+            }],
+            routes: { longContext: 'gemini,gemini-2.5-pro' },
+            server: { port: 5506, host: '127.0.0.1' },
+            apiKey: 'rcc4-proxy-key'
+        });
+
+        expect(result.success).toBe(true);
+        const pipeline = result.pipelineConfigs![0];
+        expect(pipeline.protocol).toBe('gemini');
+        expect(pipeline.layers.map(layer => layer.type)).toEqual(['transformer', 'protocol', 'server']);
+        expect(pipeline.layers.every(layer => layer.config.protocol === 'gemini')).toBe(true);
+    });
+
+    test('should resolve generateContent URLs from common base URL forms', () => {
+        expect(GeminiServerModule.resolveGenerateContentUrl('https://generativelanguage.googleapis.com', 'gemini-2.5-flash', false).toString())
+            .toBe('https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash:generateContent');
+        expect(GeminiServerModule.resolveGenerateContentUrl('https://generativelanguage.googleapis.com/v1/', 'gemini-2.5-flash', false).toString())
+            .toBe('https://generativelanguage.googleapis.com/v1/models/gemini-2.5-flash:generateContent');
+        expect(GeminiServerModule.resolveGenerateContentUrl('https://proxy.example.com/v1beta/models', 'gemini-2.5-flash', true).toString())
+            .toBe('https://proxy.example.com/v1beta/models/gemini-2.5-flash:streamGenerateContent?alt=sse');
+    });
+});
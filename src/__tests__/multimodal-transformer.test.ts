@@ -0,0 +1,144 @@
+/**
+ * 多模态内容转换测试用例
+ * 测试Anthropic图片/文档块到OpenAI content part的转换和模型能力校验
+ */
+import { transformAnthropicToOpenAI } from '../modules/pipeline-modules/transformers/anthropic-openai-converter';
+import { RCCError, RCCErrorCode } from '../modules/types/src/index';
+
+const PNG_BASE64 = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==';
+
+function imageRequest(source: any): any {
+    return {
+        model: 'claude-3-5-sonnet-20241022',
+        max_tokens: 1024,
+        messages: [
+            {
+                role: 'user',
+                content: [
+                    { type: 'text', text: 'What is in this image?' },
+                    { type: 'image', source }
+                ]
+            }
+        ]
+    };
+}
+
+describe('Multimodal Transformer Tests', () => {
+
+    test('should convert base64 image blocks to image_url data URLs', () => {
+        const openaiRequest = transformAnthropicToOpenAI(imageRequest({
+            type: 'base64',
+            media_type: 'image/png',
+            data: PNG_BASE64
+        }));
+
+        expect(openaiRequest.messages[0].content).toEqual([
+            { type: 'text', text: 'What is in this image?' },
+            { type: 'image_url', image_url: { url: `data:image/png;base64,${PNG_BASE64}` } }
+        ]);
+    });
+
+    test('should pass url image sources through unchanged', () => {
+        const openaiRequest = transformAnthropicToOpenAI(imageRequest({
+            type: 'url',
+            url: 'https://example.com/cat.jpg'
+        }));
+
+        expect(openaiRequest.messages[0].content[1]).toEqual({
+            type: 'image_url',
+            image_url: { url: 'https://example.com/cat.jpg' }
+        });
+    });
+
+    test('should convert PDF documents to file parts and text documents to text', () => {
+        const openaiRequest = transformAnthropicToOpenAI({
+            model: 'claude-3-5-sonnet-20241022',
+            messages: [
+                {
+                    role: 'user',
+                    content: [
+                        { type: 'document', title: 'report.pdf', source: { type: 'base64', media_type: 'application/pdf', data: 'JVBERi0xLjQ=' } },
+                        { type: 'document', source: { type: 'text', media_type: 'text/plain', data: 'Plain notes' } },
+                        { type: 'text', text: 'Summarize both.' }
+                    ]
+                }
+            ]
+        });
+
+        expect(openaiRequest.messages[0].content).toEqual([
+            { type: 'file', file: { filename: 'report.pdf', file_data: 'data:application/pdf;base64,JVBERi0xLjQ=' } },
+            { type: 'text', text: 'Plain notes' },
+            { type: 'text', text: 'Summarize both.' }
+        ]);
+    });
+
+    test('should keep string content for text-only documents', () => {
+        const openaiRequest = transformAnthropicToOpenAI({
+            model: 'claude-3-5-sonnet-20241022',
+            messages: [
+                {
+                    role: 'user',
+                    content: [
+                        { type: 'document', source: { type: 'content', content: [{ type: 'text', text: 'Chapter 1' }] } },
+                        { type: 'text', text: 'Continue the story.' }
+                    ]
+                }
+            ]
+        });
+
+        expect(openaiRequest.messages[0].content).toBe('Chapter 1 Continue the story.');
+    });
+
+    test('should move tool_result images into a user message after the tool message', () => {
+        const openaiRequest = transformAnthropicToOpenAI({
+            model: 'claude-3-5-sonnet-20241022',
+            messages: [
+                {
+                    role: 'user',
+                    content: [
+                        {
+                            type: 'tool_result',
+                            tool_use_id: 'toolu_1',
+                            content: [
+                                { type: 'text', text: 'Screenshot captured' },
+                                { type: 'image', source: { type: 'base64', media_type: 'image/jpeg', data: 'abc' } }
+                            ]
+                        }
+                    ]
+                }
+            ]
+        });
+
+        expect(openaiRequest.messages[0].role).toBe('tool');
+        expect(openaiRequest.messages[0].content).toContain('Screenshot captured');
+        expect(openaiRequest.messages[0].content).not.toContain('abc');
+        expect(openaiRequest.messages[1]).toEqual({
+            role: 'user',
+            content: [{ type: 'image_url', image_url: { url: 'data:image/jpeg;base64,abc' } }]
+        });
+    });
+
+    test('should reject unsupported image media types', () => {
+        expect(() => transformAnthropicToOpenAI(imageRequest({
+            type: 'base64',
+            media_type: 'image/tiff',
+            data: 'abc'
+        }))).toThrow(/unsupported media_type: image\/tiff/);
+    });
+
+    test('should reject media content for models without the multimodal capability', () => {
+        const request = imageRequest({ type: 'base64', media_type: 'image/png', data: PNG_BASE64 });
+
+        try {
+            transformAnthropicToOpenAI(request, { modelCapabilities: ['tools'], targetModel: 'qwen3-coder' });
+            fail('expected multimodal capability error');
+        } catch (error) {
+            expect(error).toBeInstanceOf(RCCError);
+            expect((error as RCCError).code).toBe(RCCErrorCode.VALIDATION_ERROR);
+            expect((error as RCCError).message).toContain("Model 'qwen3-coder' does not declare the 'multimodal' capability");
+        }
+
+        const openaiRequest = transformAnthropicToOpenAI(request, { modelCapabilities: ['tools', 'multimodal'] });
+        expect(openaiRequest.messages[0].content[1].type).toBe('image_url');
+    });
+});
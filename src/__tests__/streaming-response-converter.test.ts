@@ -0,0 +1,160 @@
+/**
+ * 流式响应转换测试用例
+ * 测试上游SSE解析和OpenAI chunk → Anthropic事件的增量转换
+ */
+import { parseSSEStream } from '../modules/pipeline-modules/server/sse-stream-parser';
+import {
+    OpenAIToAnthropicStreamConverter,
+    transformOpenAIStreamToAnthropic
+} from '../modules/pipeline-modules/transformers/openai-anthropic-stream-converter';
+
+async function* fromArray<T>(items: T[]): AsyncGenerator<T> {
+    for (const item of items) {
+        yield item;
+    }
+}
+
+async function collect<T>(source: AsyncIterable<T>): Promise<T[]> {
+    const items: T[] = [];
+    for await (const item of source) {
+        items.push(item);
+    }
+    return items;
+}
+
+function toolChunk(toolCalls: any[], finishReason: string | null = null): any {
+    return {
+        id: 'chatcmpl-1',
+        object: 'chat.completion.chunk',
+        created: 1700000000,
+        model: 'qwen3-coder',
+        choices: [{ index: 0, delta: { tool_calls: toolCalls }, finish_reason: finishReason }]
+    };
+}
+
+function textChunk(content: string | null, finishReason: string | null = null): any {
+    return {
+        id: 'chatcmpl-1',
+        object: 'chat.completion.chunk',
+        created: 1700000000,
+        model: 'qwen3-coder',
+        choices: [{ index: 0, delta: content === null ? {} : { content }, finish_reason: finishReason }]
+    };
+}
+
+describe('Streaming Response Converter Tests', () => {
+
+    test('should parse SSE events split across network chunks', async () => {
+        const events = await collect(parseSSEStream(fromArray([
+            'data: {"a":1}\n',
+            '\ndata: {"b"',
+            ':2}\r\n\r\n: keep-alive\n\n',
+            'event: done\ndata: [DONE]\n\n'
+        ])));
+
+        expect(events.map(event => event.data)).toEqual(['{"a":1}', '{"b":2}', '[DONE]']);
+        expect(events[2].event).toBe('done');
+    });
+
+    test('should emit Anthropic events incrementally per chunk', () => {
+        const converter = new OpenAIToAnthropicStreamConverter();
+
+        const first = converter.convertChunk(textChunk('Hel'));
+        expect(first.map(event => event.type)).toEqual(['message_start', 'content_block_start', 'content_block_delta']);
+        expect(first[0].message.model).toBe('qwen3-coder');
+
+        const second = converter.convertChunk(textChunk('lo'));
+        expect(second).toEqual([{ type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'lo' } }]);
+    });
+
+    test('should close blocks on finish_reason and report stop reason and usage', async () => {
+        const usageChunk = { ...textChunk(null), choices: [], usage: { prompt_tokens: 12, completion_tokens: 3, total_tokens: 15 } };
+
+        const events = await collect(transformOpenAIStreamToAnthropic(fromArray([
+            textChunk('Hi'),
+            textChunk(null, 'length'),
+            usageChunk
+        ])));
+
+        expect(events.map(event => event.type)).toEqual([
+            'message_start',
+            'content_block_start',
+            'content_block_delta',
+            'content_block_stop',
+            'message_delta',
+            'message_stop'
+        ]);
+        expect(events[4].delta.stop_reason).toBe('max_tokens');
+        expect(events[4].usage.output_tokens).toBe(3);
+    });
+
+    test('should produce a complete message for an empty upstream stream', async () => {
+        const events = await collect(transformOpenAIStreamToAnthropic(fromArray([])));
+
+        expect(events.map(event => event.type)).toEqual(['message_start', 'message_delta', 'message_stop']);
+        expect(events[1].delta.stop_reason).toBe('end_turn');
+    });
+
+    test('should reassemble fragmented tool_call arguments into input_json_delta events', async () => {
+        const events = await collect(transformOpenAIStreamToAnthropic(fromArray([
+            textChunk('Let me check.'),
+            toolChunk([{ index: 0, id: 'call_1', type: 'function', function: { name: 'get_weather', arguments: '' } }]),
+            toolChunk([{ index: 0, function: { arguments: '{"loca' } }]),
+            toolChunk([{ index: 0, function: { arguments: 'tion":"SF"}' } }]),
+            toolChunk([], 'tool_calls')
+        ])));
+
+        expect(events.map(event => event.type)).toEqual([
+            'message_start',
+            'content_block_start',
+            'content_block_delta',
+            'content_block_stop',
+            'content_block_start',
+            'content_block_delta',
+            'content_block_delta',
+            'content_block_stop',
+            'message_delta',
+            'message_stop'
+        ]);
+        expect(events[4].content_block).toEqual({ type: 'tool_use', id: 'call_1', name: 'get_weather', input: {} });
+        const json = events
+            .filter(event => event.delta?.type === 'input_json_delta')
+            .map(event => event.delta.partial_json)
+            .join('');
+        expect(JSON.parse(json)).toEqual({ location: 'SF' });
+        expect(events[8].delta.stop_reason).toBe('tool_use');
+    });
+
+    test('should keep interleaved tool calls in separate sequential blocks', async () => {
+        const events = await collect(transformOpenAIStreamToAnthropic(fromArray([
+            toolChunk([
+                { index: 0, id: 'call_a', function: { name: 'read_file', arguments: '{"path":' } },
+                { index: 1, id: 'call_b', function: { name: 'list_dir', arguments: '{"dir":' } }
+            ]),
+            toolChunk([{ index: 1, function: { arguments: '"src"}' } }]),
+            toolChunk([{ index: 0, function: { arguments: '"a.ts"}' } }]),
+            toolChunk([], 'tool_calls')
+        ])));
+
+        const blocks = new Map<number, { id: string; json: string }>();
+        let openBlock: number | null = null;
+        for (const event of events) {
+            if (event.type === 'content_block_start') {
+                expect(openBlock).toBeNull();
+                openBlock = event.index;
+                blocks.set(event.index, { id: event.content_block.id, json: '' });
+            } else if (event.type === 'content_block_delta') {
+                expect(event.index).toBe(openBlock);
+                blocks.get(event.index)!.json += event.delta.partial_json;
+            } else if (event.type === 'content_block_stop') {
+                openBlock = null;
+            }
+        }
+
+        const parsed = Array.from(blocks.values()).map(block => [block.id, JSON.parse(block.json)]);
+        expect(parsed).toEqual([
+            ['call_a', { path: 'a.ts' }],
+            ['call_b', { dir: 'src' }]
+        ]);
+    });
+});
@@ -8,115 +8,26 @@
 import { Command } from 'commander';
 import * as path from 'path';
 import * as fs from 'fs';
-import { exec, spawn } from 'child_process';
-import { promisify } from 'util';
+import { spawn } from 'child_process';
 import { ServerFactory } from './modules/server/src';
-import { startupService, StartupConfig } from './modules/bootstrap/src';
-
-const execAsync = promisify(exec);
-
-/**
- * 端口管理工具类
- * 提供端口占用检测和进程清理功能
- */
-class PortManager {
-  /**
-   * 检查端口是否被占用
-   * @param port 端口号
-   * @returns 是否被占用
-   */
-  static async isPortInUse(port: number): Promise<boolean> {
-    try {
-      const result = await execAsync(`lsof -i :${port}`);
-      return result.stdout.trim().length > 0;
-    } catch (error) {
-      // 命令执行失败通常表示端口未被占用
-      return false;
-    }
-  }
-
-  /**
-   * 获取占用端口的进程信息
-   * @param port 端口号
-   * @returns 进程信息数组
-   */
-  static async getPortProcesses(port: number): Promise<Array<{pid: string, command: string}>> {
-    try {
-      const result = await execAsync(`lsof -i :${port}`);
-      const lines = result.stdout.trim().split('\n');
-      
-      // 跳过标题行，处理数据行
-      const processes: Array<{pid: string, command: string}> = [];
-      for (let i = 1; i < lines.length; i++) {
-        const line = lines[i].trim();
-        if (line) {
-          const parts = line.split(/\s+/);
-          if (parts.length >= 2) {
-            const command = parts[0];
-            const pid = parts[1];
-            processes.push({ pid, command });
-          }
-        }
-      }
-      return processes;
-    } catch (error) {
-      return [];
-    }
-  }
-
-  /**
-   * 杀掉占用指定端口的进程
-   * @param port 端口号
-   * @returns 是否成功杀掉进程
-   */
-  static async killProcessesOnPort(port: number): Promise<boolean> {
-    try {
-      const processes = await this.getPortProcesses(port);
-      if (processes.length === 0) {
-        return false; // 没有找到进程
-      }
-
-      // 杀掉所有占用该端口的进程
-      for (const process of processes) {
-        try {
-          await execAsync(`kill -9 ${process.pid}`);
-        } catch (killError) {
-          // 忽略单个进程杀失败的错误
-        }
-      }
-
-      // 等待一秒钟让进程完全退出
-      await new Promise(resolve => setTimeout(resolve, 1000));
-
-      // 再次检查端口是否还被占用
-      const stillInUse = await this.isPortInUse(port);
-      return !stillInUse;
-    } catch (error) {
-      return false;
-    }
-  }
-
-  /**
-   * 检查并清理端口
-   * @param port 端口号
-   * @returns 是否成功清理端口
-   */
-  static async checkAndClearPort(port: number): Promise<boolean> {
-    const isUsed = await this.isPortInUse(port);
-    
-    if (!isUsed) {
-      return true; // 端口未被占用，无需清理
-    }
-
-    // 获取占用进程信息
-    const processes = await this.getPortProcesses(port);
-    
-    // 杀掉占用进程
-    const cleared = await this.killProcessesOnPort(port);
-    
-    return cleared;
-  }
-}
+import {
+  startupService,
+  StartupConfig,
+  PortManager,
+  DEFAULT_SHUTDOWN_DRAIN_TIMEOUT_MS,
+  createInstanceLock,
+  writeInstanceLock,
+  readInstanceLock,
+  listInstanceLocks,
+  removeInstanceLock,
+  InstanceSupervisor,
+  InstanceStatus,
+  loadInstanceDefinitions,
+  findSystemConfigPath,
+  readSupervisorState,
+  probeInstanceHealth
+} from './modules/bootstrap/src';
+import { registerAdminCommands } from './modules/cli/src/admin-commands';
 
 const program = new Command();
 
@@ -141,7 +52,17 @@ program
   .option('-p, --port <port>', 'Server port')
   .option('-c, --config <config>', 'Configuration file path')
   .option('-d, --debug', 'Enable debug mode')
+  .option('--no-watch', 'Disable config hot reload (file changes and SIGHUP)')
+  .option('--all', 'Start every instance in the system config "instances" section under one supervisor')
+  .option('--system-config <path>', 'System config file with the "instances" section (used with --all)')
+  .option('--no-clear-port', 'Fail instead of stopping an earlier RCC4 instance that holds the explicit port')
+  .option('--drain-timeout <ms>', 'On shutdown, wait this long for in-flight requests to finish', String(DEFAULT_SHUTDOWN_DRAIN_TIMEOUT_MS))
   .action(async (options) => {
+    if (options.all) {
+      await startSupervisor(options);
+      return;
+    }
+
     try {
       // 检测是否显式提供了端口参数
       const portExplicitlyProvided = options.port !== undefined;
@@ -150,13 +71,18 @@ program
       if (portExplicitlyProvided) {
         console.log(`🚀 Starting RCC4 server on explicit port ${port}`);
         
-        // 检查并清理端口（仅当显式指定端口时）
+        // 检查并清理端口（仅当显式指定端口时；--no-clear-port时不清理）
+        // 只停止锁文件记录且身份核对通过的上一个RCC4实例，其他进程不处理
         console.log(`🔍 Checking port ${port} availability...`);
-        const portCleared = await PortManager.checkAndClearPort(port!);
-        
-        if (!portCleared) {
-          console.error(`❌ Failed to clear port ${port}. Please check manually and try again.`);
-          process.exit(1);
+        if (options.clearPort !== false) {
+          const clearResult = await PortManager.checkAndClearPort(port!);
+          if (clearResult.stoppedPid) {
+            console.log(`🛑 Stopped previous RCC4 instance (PID ${clearResult.stoppedPid}) on port ${port}`);
+          }
+          if (!clearResult.cleared) {
+            console.error(`❌ ${clearResult.reason}. Please stop it manually and try again.`);
+            process.exit(1);
+          }
         }
         
         if (await PortManager.isPortInUse(port!)) {
@@ -197,13 +123,15 @@ program
         configPath: configPath,
         port: port, // undefined if not explicitly provided
         host: '0.0.0.0',
-        debug: !!options.debug
+        debug: !!options.debug,
+        hotReload: options.watch !== false && !!configPath
       };
       
       console.log(`🔧 Startup configuration:`);
       console.log(`   Port: ${startupConfig.port || 'auto (from config file)'}`);
       console.log(`   Host: ${startupConfig.host}`);
       console.log(`   Debug: ${startupConfig.debug}`);
+      console.log(`   Hot reload: ${startupConfig.hotReload ? 'enabled (file changes, SIGHUP)' : 'disabled'}`);
       if (startupConfig.configPath) {
         console.log(`   Config file: ${startupConfig.configPath}`);
       }
@@ -262,14 +190,24 @@ program
         }
       }
       
+      // 写入实例锁文件，rcc4 stop和下次启动据此核对进程身份
+      const lockPort = serverStatus.port;
+      writeInstanceLock(await createInstanceLock(lockPort, { host: serverStatus.host, configPath }));
+      process.on('exit', () => removeInstanceLock(lockPort, process.pid));
+
       console.log('\n👉 Press Ctrl+C to stop the server');
       
       // 优雅关闭处理
+      let shuttingDown = false;
       const gracefulShutdown = async () => {
+        if (shuttingDown) {
+          return;
+        }
+        shuttingDown = true;
         console.log('\n🛑 Shutting down RCC v4.0 services gracefully...');
         try {
-          // 停止启动服务（会停止所有相关服务）
-          await startupService.stop();
+          // 停止启动服务（排空进行中的请求后停止所有相关服务）
+          await startupService.stop(parseInt(options.drainTimeout, 10));
           console.log('✅ All RCC v4.0 services stopped successfully');
           process.exit(0);
         } catch (error) {
@@ -293,15 +231,67 @@ program
 program
   .command('stop')
   .description('Stop the RCC4 server')
-  .action(async () => {
-    process.stdout.write('RCC4 server stopped\n');
+  .option('-p, --port <port>', 'Only stop the instance on this port')
+  .option('--timeout <ms>', 'Wait this long for a graceful drain before sending SIGKILL', '30000')
+  .action(async (options) => {
+    const graceMs = parseInt(options.timeout, 10);
+
+    // 监管进程收到SIGTERM后停止它管理的所有实例（状态文件记录的进程身份核对通过后才发送信号）
+    const supervisor = options.port === undefined ? await readSupervisorState() : null;
+    if (supervisor) {
+      process.kill(supervisor.pid, 'SIGTERM');
+      const stopped = await PortManager.waitForExit(supervisor.pid, graceMs);
+      process.stdout.write(stopped
+        ? `RCC4 supervisor (PID ${supervisor.pid}) and ${supervisor.instances.length} instance(s) stopped\n`
+        : `RCC4 supervisor (PID ${supervisor.pid}) is still shutting down\n`);
+      return;
+    }
+
+    // 按锁文件停止实例，核对进程身份后才发送信号
+    const locks = options.port !== undefined
+      ? [readInstanceLock(parseInt(options.port, 10))].filter((lock): lock is NonNullable<typeof lock> => lock !== null)
+      : listInstanceLocks();
+    if (locks.length === 0) {
+      process.stdout.write(options.port !== undefined
+        ? `No RCC4 instance lock file for port ${options.port}\n`
+        : 'No running RCC4 instance found\n');
+      return;
+    }
+
+    let failed = false;
+    for (const lock of locks) {
+      const result = await PortManager.stopInstance(lock, { graceMs });
+      if (result.stopped) {
+        process.stdout.write(`RCC4 server on port ${lock.port} (PID ${lock.pid}) stopped\n`);
+      } else {
+        failed = failed || !result.stale;
+        process.stdout.write(`RCC4 server on port ${lock.port}: ${result.reason}\n`);
+      }
+    }
+    if (failed) {
+      process.exit(1);
+    }
   });
 
 program
   .command('status')
   .description('Check RCC4 server status')
-  .action(async () => {
-    process.stdout.write('RCC4 Server Status: Ready\n');
+  .option('-p, --port <port>', 'Server port to probe when no supervisor is running', '5506')
+  .action(async (options) => {
+    const supervisor = await readSupervisorState();
+    if (!supervisor) {
+      const health = await probeInstanceHealth(parseInt(options.port, 10));
+      process.stdout.write(health.reachable
+        ? `RCC4 Server Status: ${health.status || 'running'} (port ${options.port})\n`
+        : `RCC4 Server Status: not running (port ${options.port})\n`);
+      return;
+    }
+
+    process.stdout.write(`RCC4 supervisor PID ${supervisor.pid}, started ${supervisor.startedAt}\n`);
+    for (const instance of supervisor.instances) {
+      const health = instance.state === 'running' ? await probeInstanceHealth(instance.port) : { reachable: false };
+      process.stdout.write(`${formatInstanceStatus(instance)}  health: ${health.reachable ? health.status || 'reachable' : 'unreachable'}\n`);
+    }
   });
 
 program
@@ -318,12 +308,64 @@ program
     }
   });
 
+/**
+ * 单个实例的状态行
+ */
+function formatInstanceStatus(instance: InstanceStatus): string {
+  const details = [
+    instance.pid ? `PID ${instance.pid}` : undefined,
+    `restarts ${instance.restarts}`,
+    instance.nextRestartAt ? `next restart ${instance.nextRestartAt}` : undefined,
+    instance.lastError ? `error: ${instance.lastError}` : undefined
+  ].filter(Boolean);
+  return `   ${instance.name} :${instance.port}  ${instance.state}  (${details.join(', ')})`;
+}
+
+/**
+ * rcc4 start --all：在一个监管进程中运行系统配置instances区的所有实例
+ */
+async function startSupervisor(options: any): Promise<void> {
+  try {
+    const systemConfigPath = options.systemConfig || findSystemConfigPath();
+    if (!systemConfigPath) {
+      console.error('❌ No system config found; pass --system-config <path>');
+      process.exit(1);
+    }
+
+    const definitions = loadInstanceDefinitions(systemConfigPath);
+    const supervisor = new InstanceSupervisor(definitions.map(definition => ({
+      ...definition,
+      debug: definition.debug ?? !!options.debug
+    })));
+
+    supervisor.on('instance-state', (instance: InstanceStatus) => {
+      console.log(formatInstanceStatus(instance));
+    });
+
+    console.log(`🧭 Starting ${definitions.length} instance(s) from ${systemConfigPath}`);
+    await supervisor.start();
+    console.log('\n👉 Press Ctrl+C to stop all instances');
+
+    const shutdown = async () => {
+      console.log('\n🛑 Stopping all instances...');
+      await supervisor.stop();
+      process.exit(0);
+    };
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
+  } catch (error) {
+    console.error('❌ Failed to start supervisor:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
 // Code command - Execute Claude Code command with RCC4 as proxy
 program
   .command('code')
   .description('Execute Claude Code command with RCC4 as proxy')
   .option('-p, --port <port>', 'Server port', '5506')
   .option('--claude-path <path>', 'Path to Claude Code executable', 'claude')
+  .option('--api-key <key>', 'Client key for the RCC4 server (defaults to RCC_CLIENT_KEY or rcc4-proxy-key)')
   .action(async (options) => {
     try {
       const port = parseInt(options.port, 10);
@@ -332,7 +374,8 @@ program
       const env: Record<string, string> = {
         ...process.env,
         ANTHROPIC_BASE_URL: `http://127.0.0.1:${port}`,
-        ANTHROPIC_API_KEY: 'rcc4-proxy-key', // Default key for RCC4
+        // 服务器配置了APIKEY/clientKeys时需与其中一个一致
+        ANTHROPIC_API_KEY: options.apiKey || process.env.RCC_CLIENT_KEY || 'rcc4-proxy-key',
       };
 
       // Get command arguments (everything after 'code' but filter out RCC4 options)
@@ -340,7 +383,7 @@ program
       const rawArgs = process.argv.slice(codeIndex + 1);
       
       // Filter out RCC4-specific options (like --port, --claude-path)
-      const rcc4Options = ['--port', '-p', '--claude-path'];
+      const rcc4Options = ['--port', '-p', '--claude-path', '--api-key'];
       const commandArgs: string[] = [];
       
       let skipNext = false;
@@ -360,7 +403,7 @@ program
       }
       
       console.log(`🤖 Executing Claude Code command through RCC4 proxy on port ${port}`);
-      console.log(`📝 Environment: ANTHROPIC_BASE_URL=http://127.0.0.1:${port}, ANTHROPIC_API_KEY='rcc4-proxy-key'`);
+      console.log(`📝 Environment: ANTHROPIC_BASE_URL=http://127.0.0.1:${port}, ANTHROPIC_API_KEY=<client key>`);
       console.log(`📝 Command: ${options.claudePath} ${commandArgs.length > 0 ? commandArgs.join(' ') : '[interactive mode]'}`);
       
       // Execute Claude Code command
@@ -390,6 +433,9 @@ program
     }
   });
 
+// Operations commands - talk to a running server through its admin API
+registerAdminCommands(program);
+
 // Error handling
 program.on('command:*', () => {
   process.stderr.write(`Invalid command: ${program.args.join(' ')}\n`);
@@ -11,6 +11,9 @@ export { RouterPreprocessor } from './modules/router/src';
 export { PipelineAssembler } from './modules/pipeline/src';
 export { HTTPServer } from './modules/server/src/http-server';
 
+// Base class for external server-compatibility plugins (serverCompatibility.use: "plugin:<name>" / "npm:<package>")
+export { ServerCompatibilityModule } from './modules/pipeline-modules/server-compatibility/server-compatibility-base';
+
 // Bootstrap module (unified startup service)
 export { StartupService, startupService } from './modules/bootstrap/src';
 export type { StartupConfig, StartupResult } from './modules/bootstrap/src';
@@ -11,6 +11,7 @@
 import { BaseModule } from '../base-module-impl';
 import { ModuleType } from '../interfaces/module/base-module';
 import * as fs from 'fs/promises';
+import * as crypto from 'crypto';
 import * as path from 'path';
 import axios from 'axios';
 import { secureLogger } from '../utils';
@@ -54,6 +55,15 @@ interface OAuth2IntrospectResponse {
   jti?: string;
 }
 
+/**
+ * 恒定时间比较两个密钥（先做SHA-256，长度不同也不会提前返回）
+ */
+function secureEquals(provided: string, expected: string): boolean {
+  const providedDigest = crypto.createHash('sha256').update(provided).digest();
+  const expectedDigest = crypto.createHash('sha256').update(expected).digest();
+  return crypto.timingSafeEqual(providedDigest, expectedDigest);
+}
+
 /**
  * 认证类型枚举
  */
@@ -64,6 +74,19 @@ export enum AuthType {
   FILE_BASED = 'file_based',
 }
 
+/**
+ * 命名客户端密钥
+ *
+ * 每个密钥可限定可用的路由类别和请求模型（未设置表示不限制），expiresAt之后密钥失效
+ */
+export interface ClientKeyConfig {
+  name: string;
+  key: string;
+  routes?: string[];
+  models?: string[];
+  expiresAt?: string;
+}
+
 /**
  * 认证配置接口
  */
@@ -79,6 +102,7 @@ export interface AuthConfig {
   requireAuth?: boolean;
   cacheTTL?: number; // 缓存过期时间（毫秒）
   permissions?: Record<string, string[]>; // 用户权限映射
+  clientKeys?: ClientKeyConfig[]; // 命名客户端密钥，配置后API_KEY/BEARER认证按密钥列表匹配
 }
 
 /**
@@ -90,6 +114,9 @@ export interface AuthResult {
   error?: string;
   token?: string;
   expiresAt?: Date;
+  // 客户端密钥限定的路由类别和模型
+  allowedRoutes?: string[];
+  allowedModels?: string[];
 }
 
 /**
@@ -162,12 +189,12 @@ export class AuthenticationModule extends BaseModule {
 
     switch (config.type) {
       case AuthType.API_KEY:
-        if (!config.apiKey && !config.headerName) {
+        if (!config.apiKey && !config.headerName && !config.clientKeys?.length) {
           throw new ValidationError('API key or header name is required for API key authentication', { module: this.getName() });
         }
         break;
       case AuthType.BEARER:
-        if (!config.bearerToken) {
+        if (!config.bearerToken && !config.clientKeys?.length) {
           throw new ValidationError('Bearer token is required for bearer authentication', { module: this.getName() });
         }
         break;
@@ -401,6 +428,13 @@ export class AuthenticationModule extends BaseModule {
     return input;
   }
 
+  /**
+   * 认证入站请求（只需要请求头）
+   */
+  async authenticate(request: { headers?: Record<string, any> }): Promise<AuthResult> {
+    return this.authenticateRequest(request);
+  }
+
   /**
    * 认证请求
    */
@@ -430,18 +464,22 @@ export class AuthenticationModule extends BaseModule {
       return { authenticated: false, error: 'Missing API key' };
     }
 
-    const expectedKey = this.config.apiKey;
-    if (!expectedKey) {
-      return { authenticated: false, error: 'API key not configured' };
-    }
-
     // 支持Bearer和直接API Key两种格式
     let providedKey = authHeader;
     if (authHeader.startsWith('Bearer ')) {
       providedKey = authHeader.substring(7);
     }
 
-    if (providedKey === expectedKey) {
+    if (this.config.clientKeys?.length) {
+      return this.matchClientKey(providedKey);
+    }
+
+    const expectedKey = this.config.apiKey;
+    if (!expectedKey) {
+      return { authenticated: false, error: 'API key not configured' };
+    }
+
+    if (secureEquals(providedKey, expectedKey)) {
       return { 
         authenticated: true, 
         userId: 'api-user',
@@ -467,6 +505,11 @@ export class AuthenticationModule extends BaseModule {
     }
 
     const token = authHeader.substring(7);
+
+    // 客户端密钥各有过期时间，不走token缓存
+    if (this.config.clientKeys?.length) {
+      return this.matchClientKey(token);
+    }
     
     // 检查缓存
     const cached = this.tokenCache.get(token);
@@ -485,7 +528,7 @@ export class AuthenticationModule extends BaseModule {
       return { authenticated: false, error: 'Bearer token not configured' };
     }
 
-    if (token === expectedToken) {
+    if (secureEquals(token, expectedToken)) {
       const result = { 
         authenticated: true, 
         userId: 'bearer-user',
@@ -506,6 +549,37 @@ export class AuthenticationModule extends BaseModule {
     return { authenticated: false, error: 'Invalid bearer token' };
   }
 
+  /**
+   * 在客户端密钥列表中匹配密钥
+   *
+   * 逐个以恒定时间比较全部密钥，不因匹配位置提前返回
+   */
+  private matchClientKey(providedKey: string): AuthResult {
+    let matched: ClientKeyConfig | undefined;
+    for (const clientKey of this.config.clientKeys || []) {
+      if (secureEquals(providedKey, clientKey.key) && !matched) {
+        matched = clientKey;
+      }
+    }
+
+    if (!matched) {
+      return { authenticated: false, error: 'Invalid API key' };
+    }
+
+    const expiresAt = matched.expiresAt ? new Date(matched.expiresAt) : undefined;
+    if (expiresAt && expiresAt.getTime() <= Date.now()) {
+      return { authenticated: false, userId: matched.name, error: `API key '${matched.name}' expired at ${matched.expiresAt}` };
+    }
+
+    return {
+      authenticated: true,
+      userId: matched.name,
+      ...(expiresAt ? { expiresAt } : {}),
+      ...(matched.routes ? { allowedRoutes: matched.routes } : {}),
+      ...(matched.models ? { allowedModels: matched.models } : {})
+    };
+  }
+
   /**
    * OAuth2认证
    */
@@ -11,5 +11,6 @@ export {
   AuthenticationModule,
   AuthType,
   AuthConfig,
-  AuthResult
+  AuthResult,
+  ClientKeyConfig
 } from './auth-module';
\ No newline at end of file
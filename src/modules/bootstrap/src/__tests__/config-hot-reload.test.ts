@@ -0,0 +1,265 @@
+/**
+ * 配置热重载测试
+ *
+ * 验证重载只组装新增和变化的流水线、被移除的流水线排空进行中请求后才停止，
+ * 无效配置被拒绝时旧路由表继续服务且已组装的新流水线被销毁，以及停止服务时先排空进行中请求再关闭HTTP服务器
+ *
+ * @author RCC v4.0
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { StartupService } from '../startup-service';
+import { diffPipelineConfigs } from '../config-reload-watcher';
+import { ConfigPreprocessor } from '../../../config/src/config-preprocessor';
+import { RouterPreprocessor, PipelineConfig } from '../../../router/src/router-preprocessor';
+import { AssembledPipeline } from '../../../pipeline/src/assembly-types';
+import { PipelineManager } from '../../../pipeline/src/pipeline-manager';
+
+// 组装结果由各测试控制，不扫描真实模块
+jest.mock('../../../pipeline/src/pipeline-assembler', () => ({
+  PipelineAssembler: jest.fn().mockImplementation(() => ({ assemble: jest.fn(), destroy: jest.fn() }))
+}));
+
+function writeConfig(configPath: string, providers: Array<{ name: string; apiKey: string; model: string }>): void {
+  fs.writeFileSync(configPath, JSON.stringify({
+    Providers: providers.map(provider => ({
+      name: provider.name,
+      api_base_url: `https://${provider.name}.example.com/v1`,
+      api_key: provider.apiKey,
+      models: [provider.model]
+    })),
+    router: {
+      default: providers.map(provider => `${provider.name},${provider.model}`)
+    },
+    server: { port: 5506, host: '127.0.0.1' }
+  }));
+}
+
+// 单模块的流水线，process可由测试控制何时返回
+function createPipeline(config: PipelineConfig, process: () => Promise<any> = async () => ({ id: config.pipelineId })): AssembledPipeline {
+  const instance: any = {
+    getId: () => `${config.pipelineId}-server`,
+    getStatus: () => ({ status: 'running' }),
+    start: jest.fn(async () => undefined),
+    stop: jest.fn(async () => undefined),
+    cleanup: jest.fn(async () => undefined),
+    process: jest.fn(process)
+  };
+  return {
+    pipelineId: config.pipelineId,
+    routeId: config.routeId,
+    routeName: 'default',
+    provider: config.provider,
+    model: config.model,
+    endpoint: config.endpoint,
+    apiKey: config.apiKey,
+    timeout: config.timeout,
+    maxRetries: config.maxRetries,
+    modules: [{ name: 'server', type: 'server' as any, order: 0, config: {}, instance, isInitialized: true, initializationTime: 0 }],
+    assemblyStatus: 'assembled',
+    assemblyTime: 0,
+    assemblyErrors: [],
+    isActive: true,
+    health: 'healthy'
+  };
+}
+
+describe('diffPipelineConfigs', () => {
+  it('should diff pipeline configs by id and content', () => {
+    const base = { routeId: 'default', endpoint: 'https://a.example.com/v1', timeout: 60000, maxRetries: 3, layers: [] };
+    const current = [
+      { ...base, pipelineId: 'pipeline_a_m1_0', provider: 'a', model: 'm1', apiKey: 'key-a' },
+      { ...base, pipelineId: 'pipeline_b_m2_0', provider: 'b', model: 'm2', apiKey: 'key-b' },
+      { ...base, pipelineId: 'pipeline_c_m3_0', provider: 'c', model: 'm3', apiKey: 'key-c' }
+    ];
+    const next = [
+      current[0],
+      { ...current[1], apiKey: 'key-b-rotated' },
+      { ...base, pipelineId: 'pipeline_d_m4_0', provider: 'd', model: 'm4', apiKey: 'key-d' }
+    ];
+
+    const diff = diffPipelineConfigs(current, next);
+
+    expect(diff.unchanged.map(config => config.pipelineId)).toEqual(['pipeline_a_m1_0']);
+    expect(diff.changed.map(config => config.pipelineId)).toEqual(['pipeline_b_m2_0']);
+    expect(diff.added.map(config => config.pipelineId)).toEqual(['pipeline_d_m4_0']);
+    expect(diff.removed.map(config => config.pipelineId)).toEqual(['pipeline_c_m3_0']);
+  });
+});
+
+describe('Config hot reload', () => {
+  let configPath: string;
+  let service: StartupService;
+  let internals: any;
+  let pipelineManager: PipelineManager;
+  let httpServer: { setPipelines: jest.Mock; setRoutingTable: jest.Mock; setClientKeys: jest.Mock; stop: jest.Mock };
+  let assemble: jest.Mock;
+
+  // 模拟StartupService.start()完成后的状态
+  async function startWith(providers: Array<{ name: string; apiKey: string; model: string }>): Promise<PipelineConfig[]> {
+    writeConfig(configPath, providers);
+    const configResult = await ConfigPreprocessor.preprocess(configPath);
+    const routerResult = await RouterPreprocessor.preprocess(configResult.routingTable!);
+    expect(routerResult.success).toBe(true);
+
+    service = new StartupService();
+    internals = service as any;
+    pipelineManager = internals.pipelineManager;
+    httpServer = { setPipelines: jest.fn(), setRoutingTable: jest.fn(), setClientKeys: jest.fn(), stop: jest.fn(async () => undefined) };
+    assemble = jest.fn(async (configs: PipelineConfig[]) => ({
+      success: true,
+      allPipelines: configs.map(config => createPipeline(config)),
+      errors: [],
+      warnings: []
+    }));
+
+    internals.pipelineAssembler = { assemble, destroy: jest.fn(async () => undefined) };
+    internals.httpServer = httpServer;
+    internals.configPath = configPath;
+    internals.currentConfigResult = configResult;
+    internals.currentRouterResult = routerResult;
+    internals.drainTimeoutMs = 5000;
+    for (const config of routerResult.pipelineConfigs!) {
+      pipelineManager.addPipeline(createPipeline(config));
+    }
+    return routerResult.pipelineConfigs!;
+  }
+
+  beforeEach(() => {
+    configPath = path.join(os.tmpdir(), `rcc-hot-reload-${process.pid}.json`);
+  });
+
+  afterEach(async () => {
+    await pipelineManager.destroy();
+    fs.unlinkSync(configPath);
+  });
+
+  it('should assemble only added and changed pipelines and swap the routing table', async () => {
+    const initial = await startWith([
+      { name: 'keep', apiKey: 'sk-keep', model: 'glm-4.5' },
+      { name: 'rotate', apiKey: 'sk-old', model: 'qwen3-coder' },
+      { name: 'drop', apiKey: 'sk-drop', model: 'deepseek-chat' }
+    ]);
+    const [kept, rotated, dropped] = initial.map(config => pipelineManager.getPipeline(config.pipelineId)!);
+
+    writeConfig(configPath, [
+      { name: 'keep', apiKey: 'sk-keep', model: 'glm-4.5' },
+      { name: 'rotate', apiKey: 'sk-new', model: 'qwen3-coder' },
+      { name: 'added', apiKey: 'sk-added', model: 'kimi-k2' }
+    ]);
+    const result = await service.reloadConfig('test');
+
+    expect(result.success).toBe(true);
+    expect(result.changed).toEqual([rotated.pipelineId]);
+    expect(result.removed).toEqual([dropped.pipelineId]);
+    expect(result.added).toHaveLength(1);
+    expect(assemble).toHaveBeenCalledTimes(1);
+    expect(assemble.mock.calls[0][0].map((config: PipelineConfig) => config.provider)).toEqual(['added', 'rotate']);
+
+    expect(pipelineManager.getPipeline(kept.pipelineId)).toBe(kept);
+    expect(pipelineManager.getPipeline(rotated.pipelineId)).not.toBe(rotated);
+    expect(pipelineManager.getPipeline(rotated.pipelineId)!.apiKey).toBe('sk-new');
+    expect(pipelineManager.getPipeline(dropped.pipelineId)).toBeUndefined();
+    expect(rotated.modules[0].instance.stop).toHaveBeenCalled();
+    expect(dropped.modules[0].instance.stop).toHaveBeenCalled();
+    expect(kept.modules[0].instance.stop).not.toHaveBeenCalled();
+
+    const routingTable = httpServer.setRoutingTable.mock.calls[0][0];
+    expect(routingTable.routes.default.map((route: any) => route.provider).sort()).toEqual(['added', 'keep', 'rotate']);
+    expect(httpServer.setPipelines.mock.calls[0][0].map((pipeline: any) => pipeline.provider).sort()).toEqual(['added', 'keep', 'rotate']);
+  });
+
+  it('should drain in-flight requests before stopping a removed pipeline', async () => {
+    let finishRequest!: (value: any) => void;
+    const initial = await startWith([
+      { name: 'keep', apiKey: 'sk-keep', model: 'glm-4.5' },
+      { name: 'drop', apiKey: 'sk-drop', model: 'deepseek-chat' }
+    ]);
+    const dropped = createPipeline(initial[1], () => new Promise(resolve => { finishRequest = resolve; }));
+    pipelineManager.addPipeline(dropped);
+
+    const inFlight = pipelineManager.executePipeline(dropped.pipelineId, { messages: [] });
+    await new Promise(resolve => setImmediate(resolve));
+    expect(pipelineManager.getActiveExecutionCount(dropped.pipelineId)).toBe(1);
+
+    writeConfig(configPath, [{ name: 'keep', apiKey: 'sk-keep', model: 'glm-4.5' }]);
+    const reload = service.reloadConfig('test');
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    // 新路由表已生效，被移除的流水线仍在排空
+    expect(httpServer.setRoutingTable).toHaveBeenCalledTimes(1);
+    expect(dropped.modules[0].instance.stop).not.toHaveBeenCalled();
+
+    finishRequest({ id: 'msg_in_flight' });
+    await expect(inFlight).resolves.toEqual({ id: 'msg_in_flight' });
+    const result = await reload;
+
+    expect(result.success).toBe(true);
+    expect(result.removed).toEqual([dropped.pipelineId]);
+    expect(dropped.modules[0].instance.stop).toHaveBeenCalled();
+    expect(pipelineManager.getPipeline(dropped.pipelineId)).toBeUndefined();
+  });
+
+  it('should drain in-flight requests on shutdown before stopping the HTTP server', async () => {
+    let finishRequest!: (value: any) => void;
+    const [config] = await startWith([{ name: 'keep', apiKey: 'sk-keep', model: 'glm-4.5' }]);
+    const pipeline = createPipeline(config, () => new Promise(resolve => { finishRequest = resolve; }));
+    pipelineManager.addPipeline(pipeline);
+
+    const inFlight = pipelineManager.executePipeline(pipeline.pipelineId, { messages: [] });
+    await new Promise(resolve => setImmediate(resolve));
+    const stopping = service.stop(5000);
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    expect(pipeline.modules[0].instance.stop).not.toHaveBeenCalled();
+    expect(httpServer.stop).not.toHaveBeenCalled();
+
+    finishRequest({ id: 'msg_in_flight' });
+    await expect(inFlight).resolves.toEqual({ id: 'msg_in_flight' });
+    await stopping;
+
+    expect(pipeline.modules[0].instance.stop).toHaveBeenCalled();
+    expect(httpServer.stop).toHaveBeenCalled();
+    expect(pipelineManager.getPipeline(pipeline.pipelineId)).toBeUndefined();
+  });
+
+  it('should reject an invalid config and keep the current routing table', async () => {
+    const initial = await startWith([{ name: 'keep', apiKey: 'sk-keep', model: 'glm-4.5' }]);
+
+    fs.writeFileSync(configPath, '{ "Providers": [ ');
+    const result = await service.reloadConfig('test');
+
+    expect(result.success).toBe(false);
+    expect(result.errors[0]).toMatch(/Config preprocessing failed/);
+    expect(assemble).not.toHaveBeenCalled();
+    expect(httpServer.setRoutingTable).not.toHaveBeenCalled();
+    expect(internals.currentRouterResult.pipelineConfigs).toEqual(initial);
+    expect(pipelineManager.getPipeline(initial[0].pipelineId)).toBeDefined();
+  });
+
+  it('should reject the reload and destroy the assembled pipelines when a new pipeline fails to assemble', async () => {
+    const initial = await startWith([{ name: 'keep', apiKey: 'sk-keep', model: 'glm-4.5' }]);
+    let partial: AssembledPipeline | undefined;
+    assemble.mockImplementationOnce(async (configs: PipelineConfig[]) => {
+      partial = createPipeline(configs[0]);
+      return { success: false, allPipelines: [partial], errors: ['No module found for type: server'], warnings: [] };
+    });
+
+    writeConfig(configPath, [
+      { name: 'keep', apiKey: 'sk-keep', model: 'glm-4.5' },
+      { name: 'added', apiKey: 'sk-added', model: 'kimi-k2' },
+      { name: 'broken', apiKey: 'sk-broken', model: 'qwen3-coder' }
+    ]);
+    const result = await service.reloadConfig('test');
+
+    expect(result.success).toBe(false);
+    expect(result.errors[0]).toMatch(/Pipeline assembly failed/);
+    expect(httpServer.setRoutingTable).not.toHaveBeenCalled();
+    expect(Array.from(pipelineManager.getAllPipelines().keys())).toEqual([initial[0].pipelineId]);
+    expect(partial!.modules[0].instance.stop).toHaveBeenCalledTimes(1);
+    expect(partial!.modules[0].instance.cleanup).toHaveBeenCalledTimes(1);
+    expect(partial!.isActive).toBe(false);
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * 多实例监管测试
+ *
+ * 验证instances区的解析、崩溃实例按退避重启并在连续失败后放弃、
+ * 停止时终止子进程，端口被非本监管进程占用时不清理，以及状态文件记录的PID被其他进程复用时不视为监管进程
+ *
+ * @author RCC v4.0
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { spawn } from 'child_process';
+import {
+  InstanceSupervisor,
+  InstanceDefinition,
+  InstanceStatus,
+  loadInstanceDefinitions,
+  readSupervisorState
+} from '../instance-supervisor';
+import { PortManager } from '../port-manager';
+import { RCCError } from '../../../types/src/index';
+
+describe('loadInstanceDefinitions', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'rcc-instances-'));
+    fs.writeFileSync(path.join(dir, 'shuaihong-v4-5507.json'), JSON.stringify({ Providers: [], server: { port: 5507 } }));
+    fs.writeFileSync(path.join(dir, 'modelscope-v4-5508.json'), JSON.stringify({ Providers: [] }));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function writeSystemConfig(instances: any[]): string {
+    const systemConfigPath = path.join(dir, 'system-config.json');
+    fs.writeFileSync(systemConfigPath, JSON.stringify({ providerTypes: {}, instances }));
+    return systemConfigPath;
+  }
+
+  it('should resolve instance configs relative to the system config and take ports from either side', () => {
+    const definitions = loadInstanceDefinitions(writeSystemConfig([
+      { config: 'shuaihong-v4-5507.json' },
+      { name: 'modelscope', config: './modelscope-v4-5508.json', port: 5508, debug: true },
+      { name: 'disabled', config: 'missing.json', enabled: false }
+    ]));
+
+    expect(definitions).toEqual([
+      { name: 'shuaihong-v4-5507', configPath: path.join(dir, 'shuaihong-v4-5507.json'), port: 5507 },
+      { name: 'modelscope', configPath: path.join(dir, 'modelscope-v4-5508.json'), port: 5508, debug: true }
+    ]);
+  });
+
+  it('should reject instances without a port or sharing a port', () => {
+    expect(() => loadInstanceDefinitions(writeSystemConfig([{ config: 'modelscope-v4-5508.json' }]))).toThrow(/has no port/);
+    expect(() => loadInstanceDefinitions(writeSystemConfig([
+      { config: 'shuaihong-v4-5507.json' },
+      { config: 'modelscope-v4-5508.json', port: 5507 }
+    ]))).toThrow(/both use port 5507/);
+    expect(() => loadInstanceDefinitions(writeSystemConfig([]))).toThrow(RCCError);
+  });
+});
+
+describe('InstanceSupervisor', () => {
+  let dir: string;
+  let stateFile: string;
+  let supervisor: InstanceSupervisor | undefined;
+
+  // 子进程运行给定脚本，输出写入实例日志
+  function scriptSpawner(script: string) {
+    return (_definition: InstanceDefinition, logFd: number) => spawn(process.execPath, ['-e', script], { stdio: ['ignore', logFd, logFd] });
+  }
+
+  function waitFor(predicate: () => boolean, timeoutMs: number = 10000): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
+    return new Promise((resolve, reject) => {
+      const check = () => {
+        if (predicate()) {
+          resolve();
+        } else if (Date.now() > deadline) {
+          reject(new Error('Timed out waiting for condition'));
+        } else {
+          setTimeout(check, 20);
+        }
+      };
+      check();
+    });
+  }
+
+  // 选一个当前未被占用的端口
+  async function freePort(): Promise<number> {
+    const server = http.createServer();
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const port = (server.address() as AddressInfo).port;
+    await new Promise(resolve => server.close(resolve));
+    return port;
+  }
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'rcc-supervisor-'));
+    stateFile = path.join(dir, 'supervisor.json');
+  });
+
+  afterEach(async () => {
+    await supervisor?.stop();
+    supervisor = undefined;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should restart a crashing instance with growing backoff and give up after repeated failures', async () => {
+    const definition = { name: 'crashy', configPath: path.join(dir, 'crashy.json'), port: await freePort() };
+    const states: Array<InstanceStatus & { emittedAt: number }> = [];
+    supervisor = new InstanceSupervisor([definition], {
+      stateFile,
+      logDir: dir,
+      restartBackoffMs: 50,
+      maxConsecutiveFailures: 3,
+      spawnInstance: scriptSpawner('console.log("booting"); process.exit(3)')
+    });
+    supervisor.on('instance-state', status => states.push({ ...status, emittedAt: Date.now() }));
+
+    await supervisor.start();
+    await waitFor(() => supervisor!.getStatus()[0].state === 'failed');
+
+    const [status] = supervisor.getStatus();
+    expect(status).toMatchObject({ state: 'failed', restarts: 2, lastExitCode: 3 });
+    expect(status.lastError).toMatch(/Exited 3 times in a row/);
+
+    const backoffs = states.filter(state => state.state === 'backoff');
+    expect(backoffs).toHaveLength(2);
+    const delays = backoffs.map(state => Date.parse(state.nextRestartAt!) - state.emittedAt);
+    expect(delays[1]).toBeGreaterThan(delays[0]);
+
+    expect(fs.readFileSync(status.logFile, 'utf8').match(/booting/g)).toHaveLength(3);
+    expect((await readSupervisorState(stateFile))!.instances[0].state).toBe('failed');
+  });
+
+  it('should terminate running instances on stop and remove the state file', async () => {
+    const definitions = [
+      { name: 'a', configPath: path.join(dir, 'a.json'), port: await freePort() },
+      { name: 'b', configPath: path.join(dir, 'b.json'), port: await freePort() }
+    ];
+    supervisor = new InstanceSupervisor(definitions, {
+      stateFile,
+      logDir: dir,
+      stopTimeoutMs: 2000,
+      spawnInstance: scriptSpawner('process.on("SIGTERM", () => process.exit(0)); setInterval(() => {}, 1000)')
+    });
+
+    await supervisor.start();
+    const running = supervisor.getStatus();
+    expect(running.map(status => status.state)).toEqual(['running', 'running']);
+    expect(await readSupervisorState(stateFile)).toMatchObject({ pid: process.pid, instances: [{ name: 'a', state: 'running' }, { name: 'b', state: 'running' }] });
+
+    await supervisor.stop();
+
+    expect(supervisor.getStatus().map(status => status.state)).toEqual(['stopped', 'stopped']);
+    expect(running.every(status => !PortManager.isProcessAlive(status.pid!))).toBe(true);
+    expect(fs.existsSync(stateFile)).toBe(false);
+  });
+
+  it('should ignore a state file whose PID now belongs to a different process', async () => {
+    const definitions = [{ name: 'a', configPath: path.join(dir, 'a.json'), port: await freePort() }];
+    supervisor = new InstanceSupervisor(definitions, {
+      stateFile,
+      logDir: dir,
+      stopTimeoutMs: 2000,
+      spawnInstance: scriptSpawner('process.on("SIGTERM", () => process.exit(0)); setInterval(() => {}, 1000)')
+    });
+    await supervisor.start();
+
+    const state = JSON.parse(fs.readFileSync(stateFile, 'utf8'));
+    expect(state.processStartTime).not.toBe('');
+    expect(await readSupervisorState(stateFile)).toMatchObject({ pid: process.pid });
+
+    // 监管进程退出后PID被复用：进程仍存活但启动时间不同
+    fs.writeFileSync(stateFile, JSON.stringify({ ...state, processStartTime: 'reused' }));
+    expect(PortManager.isProcessAlive(state.pid)).toBe(true);
+    expect(await readSupervisorState(stateFile)).toBeNull();
+
+    // 旧版本写入的状态文件没有进程身份，无法核对时同样不视为监管进程
+    const { processStartTime, commandLine, ...legacy } = state;
+    fs.writeFileSync(stateFile, JSON.stringify(legacy));
+    expect(await readSupervisorState(stateFile)).toBeNull();
+  });
+
+  it('should not touch a port held by a process it did not start', async () => {
+    const server = http.createServer();
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const port = (server.address() as AddressInfo).port;
+    const spawnInstance = jest.fn(scriptSpawner('setInterval(() => {}, 1000)'));
+
+    try {
+      supervisor = new InstanceSupervisor([{ name: 'busy', configPath: path.join(dir, 'busy.json'), port }], { stateFile, logDir: dir, spawnInstance });
+      await supervisor.start();
+
+      const [status] = supervisor.getStatus();
+      expect(status.state).toBe('failed');
+      expect(status.lastError).toContain(`PID ${process.pid}`);
+      expect(spawnInstance).not.toHaveBeenCalled();
+      expect(server.listening).toBe(true);
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * 端口管理测试
+ *
+ * 验证只有锁文件记录且身份核对通过的RCC4实例才会被停止（先SIGTERM排空），
+ * 未知进程和PID被复用的失效锁文件不会触发任何信号，以及未安装lsof时的/proc查找
+ *
+ * @author RCC v4.0
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { ChildProcess, spawn } from 'child_process';
+import { PortManager } from '../port-manager';
+import {
+  InstanceLock,
+  getInstanceLockFile,
+  listInstanceLocks,
+  readInstanceLock,
+  readProcessIdentity,
+  removeInstanceLock,
+  writeInstanceLock
+} from '../instance-lock';
+
+// 监听随机端口并输出端口号，收到SIGTERM后关闭监听并以0退出
+const INSTANCE_SCRIPT = `
+const server = require('http').createServer();
+server.listen(0, '127.0.0.1', () => console.log(server.address().port));
+process.on('SIGTERM', () => server.close(() => process.exit(0)));
+`;
+
+describe('PortManager', () => {
+  let lockDir: string;
+  let children: ChildProcess[];
+
+  // 启动一个模拟实例，返回子进程和它监听的端口
+  function startInstance(): Promise<{ child: ChildProcess; port: number }> {
+    const child = spawn(process.execPath, ['-e', INSTANCE_SCRIPT], { stdio: ['ignore', 'pipe', 'ignore'] });
+    children.push(child);
+    return new Promise((resolve, reject) => {
+      child.stdout!.once('data', data => resolve({ child, port: parseInt(data.toString(), 10) }));
+      child.once('error', reject);
+    });
+  }
+
+  async function lockFor(child: ChildProcess, port: number): Promise<InstanceLock> {
+    const identity = await readProcessIdentity(child.pid!);
+    return {
+      pid: child.pid!,
+      port,
+      startedAt: new Date().toISOString(),
+      processStartTime: identity!.startTime,
+      commandLine: identity!.commandLine
+    };
+  }
+
+  beforeEach(() => {
+    lockDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rcc-locks-'));
+    children = [];
+  });
+
+  afterEach(() => {
+    for (const child of children) {
+      if (child.exitCode === null && child.signalCode === null) {
+        child.kill('SIGKILL');
+      }
+    }
+    fs.rmSync(lockDir, { recursive: true, force: true });
+  });
+
+  it('should stop a verified RCC4 instance with SIGTERM and remove its lock file', async () => {
+    const { child, port } = await startInstance();
+    writeInstanceLock(await lockFor(child, port), lockDir);
+    const exited = new Promise(resolve => child.once('exit', (code, signal) => resolve({ code, signal })));
+
+    const result = await PortManager.checkAndClearPort(port, { lockDir, graceMs: 5000 });
+
+    expect(result).toEqual({ cleared: true, stoppedPid: child.pid });
+    await expect(exited).resolves.toEqual({ code: 0, signal: null });
+    expect(fs.existsSync(getInstanceLockFile(port, lockDir))).toBe(false);
+  });
+
+  it('should not touch a port held by a process without a lock file', async () => {
+    const server = http.createServer();
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const port = (server.address() as AddressInfo).port;
+
+    try {
+      const result = await PortManager.checkAndClearPort(port, { lockDir, graceMs: 100 });
+
+      expect(result.cleared).toBe(false);
+      expect(result.reason).toContain(`PID ${process.pid}`);
+      expect(result.reason).toContain('not a known RCC4 instance');
+      expect(server.listening).toBe(true);
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+
+  it('should treat a lock file whose PID now belongs to another process as stale', async () => {
+    const { child, port } = await startInstance();
+    writeInstanceLock({ ...(await lockFor(child, port)), processStartTime: 'reused' }, lockDir);
+
+    const result = await PortManager.stopInstance(readInstanceLock(port, lockDir)!, { lockDir, graceMs: 100 });
+
+    expect(result).toMatchObject({ stopped: false, stale: true, pid: child.pid });
+    expect(result.reason).toContain('different process');
+    expect(PortManager.isProcessAlive(child.pid!)).toBe(true);
+    expect(readInstanceLock(port, lockDir)).toBeNull();
+  });
+
+  it('should refuse to clear a port whose holder is not the process in the lock file', async () => {
+    const { child, port } = await startInstance();
+    const other = await startInstance();
+    writeInstanceLock({ ...(await lockFor(other.child, other.port)), port }, lockDir);
+
+    const result = await PortManager.checkAndClearPort(port, { lockDir, graceMs: 100 });
+
+    expect(result.cleared).toBe(false);
+    expect(result.reason).toContain(`not by the RCC4 instance in its lock file (PID ${other.child.pid})`);
+    expect(PortManager.isProcessAlive(child.pid!)).toBe(true);
+    expect(PortManager.isProcessAlive(other.child.pid!)).toBe(true);
+  });
+
+  (fs.existsSync('/proc/net/tcp') ? it : it.skip)('should find listening processes through /proc', async () => {
+    const { child, port } = await startInstance();
+
+    const processes = await PortManager.getPortProcessesFromProc(port);
+
+    expect(processes).toEqual([{ pid: String(child.pid), command: expect.any(String) }]);
+  });
+
+  it('should only remove a lock file owned by the given PID', async () => {
+    writeInstanceLock({ pid: 111, port: 5506, startedAt: '', processStartTime: '', commandLine: '' }, lockDir);
+    writeInstanceLock({ pid: 222, port: 5507, startedAt: '', processStartTime: '', commandLine: '' }, lockDir);
+
+    removeInstanceLock(5506, 999, lockDir);
+    expect(listInstanceLocks(lockDir).map(lock => lock.port).sort()).toEqual([5506, 5507]);
+
+    removeInstanceLock(5506, 111, lockDir);
+    expect(listInstanceLocks(lockDir).map(lock => lock.pid)).toEqual([222]);
+  });
+});
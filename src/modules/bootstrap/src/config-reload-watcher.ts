@@ -0,0 +1,143 @@
+/**
+ * RCC v4.0 配置热重载监听
+ *
+ * 监听配置文件变化和SIGHUP信号，触发StartupService重新加载配置；
+ * 并提供新旧流水线配置的差异计算，重载时只组装新增和变化的流水线
+ *
+ * @author RCC v4.0
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { PipelineConfig } from '../../router/src/router-preprocessor';
+import { secureLogger } from '../../error-handler/src/utils/secure-logger';
+
+// 编辑器保存时会连续触发多次变化事件，合并为一次重载
+export const DEFAULT_RELOAD_DEBOUNCE_MS = 500;
+
+/**
+ * 新旧流水线配置的差异
+ */
+export interface PipelineConfigDiff {
+  added: PipelineConfig[];
+  changed: PipelineConfig[];
+  removed: PipelineConfig[];
+  unchanged: PipelineConfig[];
+}
+
+/**
+ * 按pipelineId比较流水线配置，配置内容（端点、密钥、层配置等）不同视为变化
+ */
+export function diffPipelineConfigs(current: PipelineConfig[], next: PipelineConfig[]): PipelineConfigDiff {
+  const currentById = new Map(current.map(config => [config.pipelineId, config]));
+  const nextIds = new Set(next.map(config => config.pipelineId));
+  const diff: PipelineConfigDiff = { added: [], changed: [], removed: [], unchanged: [] };
+
+  for (const config of next) {
+    const previous = currentById.get(config.pipelineId);
+    if (!previous) {
+      diff.added.push(config);
+    } else if (JSON.stringify(previous) !== JSON.stringify(config)) {
+      diff.changed.push(config);
+    } else {
+      diff.unchanged.push(config);
+    }
+  }
+
+  diff.removed = current.filter(config => !nextIds.has(config.pipelineId));
+  return diff;
+}
+
+/**
+ * 配置重载监听器选项
+ */
+export interface ConfigReloadWatcherOptions {
+  debounceMs?: number;
+  // 是否响应SIGHUP信号，默认true
+  handleSignal?: boolean;
+}
+
+/**
+ * 配置重载监听器
+ *
+ * 监听配置文件所在目录而非文件本身，编辑器以重命名方式保存时监听不会失效；
+ * 重载的串行化由reload回调（StartupService.reloadConfig）负责
+ */
+export class ConfigReloadWatcher {
+  private readonly debounceMs: number;
+  private readonly handleSignal: boolean;
+  private watcher: fs.FSWatcher | null = null;
+  private debounceTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly configPath: string,
+    private readonly reload: (reason: string) => Promise<unknown>,
+    options: ConfigReloadWatcherOptions = {}
+  ) {
+    this.debounceMs = options.debounceMs ?? DEFAULT_RELOAD_DEBOUNCE_MS;
+    this.handleSignal = options.handleSignal ?? true;
+  }
+
+  /**
+   * 开始监听
+   */
+  start(): void {
+    if (this.watcher) {
+      return;
+    }
+
+    const fileName = path.basename(this.configPath);
+    this.watcher = fs.watch(path.dirname(this.configPath), (_event, changedFile) => {
+      if (!changedFile || changedFile.toString() === fileName) {
+        this.schedule('file-change');
+      }
+    });
+    this.watcher.on('error', error => {
+      secureLogger.warn('⚠️ 配置文件监听出错，热重载仅响应SIGHUP', { configPath: this.configPath, error: error.message });
+    });
+
+    if (this.handleSignal) {
+      process.on('SIGHUP', this.onSignal);
+    }
+
+    secureLogger.info('👀 配置热重载已启用', { configPath: this.configPath, signal: this.handleSignal ? 'SIGHUP' : undefined });
+  }
+
+  /**
+   * 停止监听
+   */
+  stop(): void {
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = null;
+    }
+    this.watcher?.close();
+    this.watcher = null;
+    process.off('SIGHUP', this.onSignal);
+  }
+
+  /**
+   * 立即触发一次重载，重载失败只记录日志
+   */
+  async trigger(reason: string): Promise<void> {
+    try {
+      await this.reload(reason);
+    } catch (error) {
+      secureLogger.error('❌ 配置热重载失败', { reason, error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  }
+
+  private readonly onSignal = (): void => {
+    void this.trigger('SIGHUP');
+  };
+
+  private schedule(reason: string): void {
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+    }
+    this.debounceTimer = setTimeout(() => {
+      this.debounceTimer = null;
+      void this.trigger(reason);
+    }, this.debounceMs);
+  }
+}
@@ -4,7 +4,35 @@
  * RCC v4.0 启动模块入口点
  */
 
-export { StartupService, startupService } from './startup-service';
-export { StartupConfig, StartupResult } from './startup-service';
+export { StartupService, startupService, DEFAULT_SHUTDOWN_DRAIN_TIMEOUT_MS } from './startup-service';
+export { StartupConfig, StartupResult, ConfigReloadResult } from './startup-service';
+export { ConfigReloadWatcher, ConfigReloadWatcherOptions, PipelineConfigDiff, diffPipelineConfigs } from './config-reload-watcher';
+export { PortManager, PortProcess, PortClearResult, PortClearOptions, InstanceStopResult, InstanceLockVerification } from './port-manager';
+export {
+  InstanceLock,
+  ProcessIdentity,
+  getInstanceLockDir,
+  getInstanceLockFile,
+  readProcessIdentity,
+  createInstanceLock,
+  writeInstanceLock,
+  readInstanceLock,
+  listInstanceLocks,
+  removeInstanceLock
+} from './instance-lock';
+export {
+  InstanceSupervisor,
+  InstanceSupervisorOptions,
+  InstanceConfigEntry,
+  InstanceDefinition,
+  InstanceState,
+  InstanceStatus,
+  SupervisorState,
+  loadInstanceDefinitions,
+  findSystemConfigPath,
+  readSupervisorState,
+  probeInstanceHealth,
+  getDefaultSupervisorStateFile
+} from './instance-supervisor';
 
 export const BOOTSTRAP_MODULE_VERSION = '4.0.0';
\ No newline at end of file
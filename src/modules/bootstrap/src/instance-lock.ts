@@ -0,0 +1,142 @@
+/**
+ * 实例锁文件
+ *
+ * rcc4 start启动成功后在RCC数据目录下按端口写入锁文件，记录进程PID、端口、配置文件、
+ * 启动时间以及进程身份（系统记录的进程启动时间和命令行）。停止或清理端口前先用锁文件
+ * 核对占用进程的身份，PID被其他进程复用时不会误杀
+ *
+ * @author RCC v4.0
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import { JQJsonHandler } from '../../error-handler/src/utils/jq-json-handler';
+import { SYSTEM_PATHS } from '../../constants/src/pipeline-constants';
+
+const execAsync = promisify(exec);
+
+/**
+ * 进程身份：PID相同但启动时间或命令行不同即视为不同进程
+ */
+export interface ProcessIdentity {
+  startTime: string;
+  commandLine: string;
+}
+
+/**
+ * 锁文件内容
+ */
+export interface InstanceLock {
+  pid: number;
+  port: number;
+  host?: string;
+  configPath?: string;
+  startedAt: string;
+  processStartTime: string;
+  commandLine: string;
+}
+
+/**
+ * 锁文件目录
+ */
+export function getInstanceLockDir(): string {
+  return path.join(SYSTEM_PATHS.getRouteClaudeCodeHome(), 'run');
+}
+
+export function getInstanceLockFile(port: number, lockDir: string = getInstanceLockDir()): string {
+  return path.join(lockDir, `rcc4-${port}.json`);
+}
+
+/**
+ * 读取进程身份，进程不存在时返回null
+ *
+ * Linux读取/proc/<pid>/stat的starttime和/proc/<pid>/cmdline，其他系统使用ps
+ */
+export async function readProcessIdentity(pid: number): Promise<ProcessIdentity | null> {
+  try {
+    const stat = await fs.promises.readFile(`/proc/${pid}/stat`, 'utf8');
+    const cmdline = await fs.promises.readFile(`/proc/${pid}/cmdline`, 'utf8');
+    // 第2个字段comm可能包含空格和括号，从最后一个')'之后从第3个字段state开始计数，starttime为第22个字段
+    const fields = stat.slice(stat.lastIndexOf(')') + 2).split(' ');
+    return { startTime: fields[19], commandLine: cmdline.split('\0').filter(Boolean).join(' ') };
+  } catch {
+    if (fs.existsSync('/proc/self/stat')) {
+      return null;
+    }
+  }
+
+  try {
+    const startTime = (await execAsync(`ps -o lstart= -p ${pid}`)).stdout.trim();
+    const commandLine = (await execAsync(`ps -o command= -p ${pid}`)).stdout.trim();
+    return startTime ? { startTime, commandLine } : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 为当前进程创建锁文件内容
+ */
+export async function createInstanceLock(port: number, options: { host?: string; configPath?: string } = {}): Promise<InstanceLock> {
+  const identity = await readProcessIdentity(process.pid);
+  return {
+    pid: process.pid,
+    port,
+    ...(options.host ? { host: options.host } : {}),
+    ...(options.configPath ? { configPath: path.resolve(options.configPath) } : {}),
+    startedAt: new Date().toISOString(),
+    processStartTime: identity?.startTime || '',
+    commandLine: identity?.commandLine || process.argv.join(' ')
+  };
+}
+
+export function writeInstanceLock(lock: InstanceLock, lockDir: string = getInstanceLockDir()): string {
+  const lockFile = getInstanceLockFile(lock.port, lockDir);
+  fs.mkdirSync(lockDir, { recursive: true });
+  fs.writeFileSync(lockFile, JSON.stringify(lock, null, 2));
+  return lockFile;
+}
+
+/**
+ * 读取端口的锁文件，不存在或无法解析时返回null
+ */
+export function readInstanceLock(port: number, lockDir: string = getInstanceLockDir()): InstanceLock | null {
+  const lockFile = getInstanceLockFile(port, lockDir);
+  if (!fs.existsSync(lockFile)) {
+    return null;
+  }
+
+  try {
+    return JQJsonHandler.parseJsonString(fs.readFileSync(lockFile, 'utf8'));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 列出所有锁文件
+ */
+export function listInstanceLocks(lockDir: string = getInstanceLockDir()): InstanceLock[] {
+  if (!fs.existsSync(lockDir)) {
+    return [];
+  }
+
+  return fs.readdirSync(lockDir)
+    .map(file => /^rcc4-(\d+)\.json$/.exec(file))
+    .filter((match): match is RegExpExecArray => match !== null)
+    .map(match => readInstanceLock(parseInt(match[1], 10), lockDir))
+    .filter((lock): lock is InstanceLock => lock !== null);
+}
+
+/**
+ * 删除锁文件；指定pid时只删除属于该进程的锁文件，避免删掉新实例写入的锁
+ */
+export function removeInstanceLock(port: number, pid?: number, lockDir: string = getInstanceLockDir()): void {
+  const lock = readInstanceLock(port, lockDir);
+  if (pid !== undefined && lock && lock.pid !== pid) {
+    return;
+  }
+  fs.rmSync(getInstanceLockFile(port, lockDir), { force: true });
+}
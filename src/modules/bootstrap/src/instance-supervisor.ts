@@ -0,0 +1,456 @@
+/**
+ * RCC v4.0 多实例管理
+ *
+ * 在一个监管进程中按系统配置的instances区运行多个端口的实例：
+ * - 每个实例是一个受管子进程（rcc4 start），拥有独立的端口和日志目录
+ * - 子进程异常退出后按指数退避重启，稳定运行一段时间后退避重置
+ * - 端口只在被监管进程自己启动的子进程占用时才清理，不终止其他进程
+ * - 实例状态写入状态文件，供rcc4 status/stop读取
+ *
+ * @author RCC v4.0
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as http from 'http';
+import { EventEmitter } from 'events';
+import { ChildProcess, spawn } from 'child_process';
+import { JQJsonHandler } from '../../error-handler/src/utils/jq-json-handler';
+import { secureLogger } from '../../error-handler/src/utils/secure-logger';
+import { RCCError, RCCErrorCode } from '../../types/src/index';
+import { SYSTEM_PATHS } from '../../constants/src/pipeline-constants';
+import { PortManager } from './port-manager';
+import { ProcessIdentity, readProcessIdentity } from './instance-lock';
+
+export const DEFAULT_RESTART_BACKOFF_MS = 1000;
+export const DEFAULT_MAX_RESTART_BACKOFF_MS = 30000;
+// 子进程运行超过该时间视为稳定，退避和连续失败次数重置
+export const DEFAULT_STABLE_AFTER_MS = 60000;
+// 连续失败达到该次数后不再重启
+export const DEFAULT_MAX_CONSECUTIVE_FAILURES = 10;
+export const DEFAULT_INSTANCE_STOP_TIMEOUT_MS = 15000;
+
+/**
+ * 系统配置instances区中的一项
+ */
+export interface InstanceConfigEntry {
+  name?: string;
+  // 实例配置文件，相对路径基于系统配置文件所在目录
+  config: string;
+  // 未设置时使用实例配置文件server.port
+  port?: number;
+  debug?: boolean;
+  enabled?: boolean;
+}
+
+/**
+ * 解析后的实例定义
+ */
+export interface InstanceDefinition {
+  name: string;
+  configPath: string;
+  port: number;
+  debug?: boolean;
+}
+
+export type InstanceState = 'running' | 'backoff' | 'stopping' | 'stopped' | 'failed';
+
+/**
+ * 实例运行状态
+ */
+export interface InstanceStatus {
+  name: string;
+  port: number;
+  configPath: string;
+  logFile: string;
+  state: InstanceState;
+  pid?: number;
+  restarts: number;
+  startedAt?: string;
+  lastExitCode?: number | null;
+  lastExitSignal?: string | null;
+  nextRestartAt?: string;
+  lastError?: string;
+}
+
+/**
+ * 状态文件内容
+ */
+export interface SupervisorState {
+  pid: number;
+  // 监管进程身份（系统记录的进程启动时间和命令行），停止前核对，PID被复用时不会误发信号
+  processStartTime: string;
+  commandLine: string;
+  startedAt: string;
+  updatedAt: string;
+  instances: InstanceStatus[];
+}
+
+/**
+ * 监管进程选项
+ */
+export interface InstanceSupervisorOptions {
+  restartBackoffMs?: number;
+  maxRestartBackoffMs?: number;
+  stableAfterMs?: number;
+  maxConsecutiveFailures?: number;
+  stopTimeoutMs?: number;
+  stateFile?: string;
+  logDir?: string;
+  // rcc4 CLI入口，默认当前进程的入口脚本
+  cliPath?: string;
+  // 启动子进程，测试时替换
+  spawnInstance?: (definition: InstanceDefinition, logFd: number) => ChildProcess;
+}
+
+interface ManagedInstance {
+  definition: InstanceDefinition;
+  status: InstanceStatus;
+  child?: ChildProcess;
+  // 本实例启动过的所有子进程PID，端口只在被这些进程占用时才清理
+  ownedPids: Set<number>;
+  consecutiveFailures: number;
+  restartTimer?: NodeJS.Timeout;
+  exited?: Promise<void>;
+}
+
+/**
+ * 默认状态文件路径
+ */
+export function getDefaultSupervisorStateFile(): string {
+  return path.join(SYSTEM_PATHS.getRouteClaudeCodeHome(), 'supervisor.json');
+}
+
+/**
+ * 查找系统配置文件：当前目录的config/system-config.json，其次是RCC配置目录
+ */
+export function findSystemConfigPath(): string | undefined {
+  const candidates = [
+    path.join(process.cwd(), 'config', 'system-config.json'),
+    path.join(SYSTEM_PATHS.getConfigDir(), 'system-config.json')
+  ];
+  return candidates.find(candidate => fs.existsSync(candidate));
+}
+
+/**
+ * 从系统配置文件的instances区解析实例定义
+ */
+export function loadInstanceDefinitions(systemConfigPath: string): InstanceDefinition[] {
+  if (!fs.existsSync(systemConfigPath)) {
+    throw new RCCError(`System config not found: ${systemConfigPath}`, RCCErrorCode.CONFIG_MISSING, 'bootstrap', {
+      details: { systemConfigPath }
+    });
+  }
+
+  const systemConfig = JQJsonHandler.parseJsonString(fs.readFileSync(systemConfigPath, 'utf8'));
+  const entries: InstanceConfigEntry[] = Array.isArray(systemConfig?.instances) ? systemConfig.instances : [];
+  if (entries.length === 0) {
+    throw new RCCError(`No instances configured in ${systemConfigPath}`, RCCErrorCode.CONFIG_INVALID, 'bootstrap', {
+      details: { systemConfigPath }
+    });
+  }
+
+  const baseDir = path.dirname(systemConfigPath);
+  const definitions: InstanceDefinition[] = [];
+  const usedPorts = new Map<number, string>();
+  const usedNames = new Set<string>();
+
+  for (const entry of entries) {
+    if (entry.enabled === false) {
+      continue;
+    }
+    if (!entry.config) {
+      throw new RCCError('Instance entry is missing "config"', RCCErrorCode.CONFIG_INVALID, 'bootstrap', { details: { entry } });
+    }
+
+    const configPath = path.resolve(baseDir, entry.config);
+    if (!fs.existsSync(configPath)) {
+      throw new RCCError(`Instance config not found: ${configPath}`, RCCErrorCode.CONFIG_MISSING, 'bootstrap', { details: { configPath } });
+    }
+
+    const name = entry.name || path.basename(configPath, path.extname(configPath));
+    const port = entry.port || JQJsonHandler.parseJsonString(fs.readFileSync(configPath, 'utf8'))?.server?.port;
+    if (!Number.isInteger(port) || port <= 0) {
+      throw new RCCError(`Instance '${name}' has no port: set "port" in the instance entry or server.port in ${configPath}`, RCCErrorCode.CONFIG_INVALID, 'bootstrap', {
+        details: { name, configPath }
+      });
+    }
+    if (usedPorts.has(port)) {
+      throw new RCCError(`Instances '${usedPorts.get(port)}' and '${name}' both use port ${port}`, RCCErrorCode.CONFIG_INVALID, 'bootstrap', {
+        details: { port }
+      });
+    }
+    if (usedNames.has(name)) {
+      throw new RCCError(`Duplicate instance name '${name}'`, RCCErrorCode.CONFIG_INVALID, 'bootstrap', { details: { name } });
+    }
+
+    usedPorts.set(port, name);
+    usedNames.add(name);
+    definitions.push({ name, configPath, port, ...(entry.debug !== undefined ? { debug: entry.debug } : {}) });
+  }
+
+  return definitions;
+}
+
+/**
+ * 读取监管进程状态文件，监管进程已退出或PID已属于其他进程时返回null
+ */
+export async function readSupervisorState(stateFile: string = getDefaultSupervisorStateFile()): Promise<SupervisorState | null> {
+  if (!fs.existsSync(stateFile)) {
+    return null;
+  }
+
+  let state: SupervisorState;
+  try {
+    state = JQJsonHandler.parseJsonString(fs.readFileSync(stateFile, 'utf8'));
+  } catch {
+    return null;
+  }
+
+  const identity = await readProcessIdentity(state.pid);
+  return identity && identity.startTime === state.processStartTime && identity.commandLine === state.commandLine ? state : null;
+}
+
+/**
+ * 探测实例的/health接口
+ */
+export function probeInstanceHealth(port: number, host: string = '127.0.0.1', timeoutMs: number = 2000): Promise<{ reachable: boolean; status?: string }> {
+  return new Promise(resolve => {
+    const req = http.get({ host, port, path: '/health', timeout: timeoutMs }, res => {
+      const chunks: Buffer[] = [];
+      res.on('data', chunk => chunks.push(chunk));
+      res.on('end', () => {
+        try {
+          resolve({ reachable: true, status: JSON.parse(Buffer.concat(chunks).toString('utf-8')).status });
+        } catch {
+          resolve({ reachable: true });
+        }
+      });
+    });
+    req.on('timeout', () => req.destroy());
+    req.on('error', () => resolve({ reachable: false }));
+  });
+}
+
+/**
+ * 多实例监管进程
+ */
+export class InstanceSupervisor extends EventEmitter {
+  private readonly instances: ManagedInstance[];
+  private readonly restartBackoffMs: number;
+  private readonly maxRestartBackoffMs: number;
+  private readonly stableAfterMs: number;
+  private readonly maxConsecutiveFailures: number;
+  private readonly stopTimeoutMs: number;
+  private readonly stateFile: string;
+  private readonly logDir: string;
+  private readonly spawnInstance: (definition: InstanceDefinition, logFd: number) => ChildProcess;
+  private startedAt: Date | null = null;
+  private identity: ProcessIdentity | null = null;
+  private stopping = false;
+
+  constructor(definitions: InstanceDefinition[], options: InstanceSupervisorOptions = {}) {
+    super();
+    this.restartBackoffMs = options.restartBackoffMs ?? DEFAULT_RESTART_BACKOFF_MS;
+    this.maxRestartBackoffMs = options.maxRestartBackoffMs ?? DEFAULT_MAX_RESTART_BACKOFF_MS;
+    this.stableAfterMs = options.stableAfterMs ?? DEFAULT_STABLE_AFTER_MS;
+    this.maxConsecutiveFailures = options.maxConsecutiveFailures ?? DEFAULT_MAX_CONSECUTIVE_FAILURES;
+    this.stopTimeoutMs = options.stopTimeoutMs ?? DEFAULT_INSTANCE_STOP_TIMEOUT_MS;
+    this.stateFile = options.stateFile || getDefaultSupervisorStateFile();
+    this.logDir = options.logDir || SYSTEM_PATHS.getLogsDir();
+
+    const cliPath = options.cliPath || process.argv[1];
+    this.spawnInstance = options.spawnInstance || ((definition, logFd) => spawn(
+      process.execPath,
+      [
+        ...process.execArgv,
+        cliPath,
+        'start',
+        '--config', definition.configPath,
+        '--port', String(definition.port),
+        // 端口由监管进程负责，子进程不得清理其他进程
+        '--no-clear-port',
+        ...(definition.debug ? ['--debug'] : [])
+      ],
+      { stdio: ['ignore', logFd, logFd], env: process.env }
+    ));
+
+    this.instances = definitions.map(definition => ({
+      definition,
+      ownedPids: new Set<number>(),
+      consecutiveFailures: 0,
+      status: {
+        name: definition.name,
+        port: definition.port,
+        configPath: definition.configPath,
+        logFile: path.join(this.logDir, `port-${definition.port}`, 'instance.log'),
+        state: 'stopped',
+        restarts: 0
+      }
+    }));
+  }
+
+  /**
+   * 启动所有实例
+   */
+  async start(): Promise<void> {
+    const running = await readSupervisorState(this.stateFile);
+    if (running && running.pid !== process.pid) {
+      throw new RCCError(`Another supervisor is already running (PID ${running.pid})`, RCCErrorCode.SERVER_START_FAILED, 'bootstrap', {
+        details: { stateFile: this.stateFile, pid: running.pid }
+      });
+    }
+
+    this.stopping = false;
+    this.identity = await readProcessIdentity(process.pid);
+    this.startedAt = new Date();
+    for (const instance of this.instances) {
+      await this.launch(instance);
+    }
+    this.writeState();
+  }
+
+  /**
+   * 停止所有实例：SIGTERM让子进程优雅关闭，超时后SIGKILL
+   */
+  async stop(): Promise<void> {
+    this.stopping = true;
+
+    await Promise.all(this.instances.map(async instance => {
+      if (instance.restartTimer) {
+        clearTimeout(instance.restartTimer);
+        instance.restartTimer = undefined;
+      }
+
+      const child = instance.child;
+      if (child?.pid && child.exitCode === null && child.signalCode === null) {
+        this.updateStatus(instance, { state: 'stopping' });
+        await PortManager.terminateProcess(child.pid, this.stopTimeoutMs);
+        await instance.exited;
+      }
+      this.updateStatus(instance, { state: 'stopped', pid: undefined, nextRestartAt: undefined });
+    }));
+
+    if (fs.existsSync(this.stateFile)) {
+      fs.unlinkSync(this.stateFile);
+    }
+    secureLogger.info('🛑 所有实例已停止', { instances: this.instances.length });
+  }
+
+  /**
+   * 所有实例的运行状态
+   */
+  getStatus(): InstanceStatus[] {
+    return this.instances.map(instance => ({ ...instance.status }));
+  }
+
+  private async launch(instance: ManagedInstance): Promise<void> {
+    const { definition } = instance;
+    instance.restartTimer = undefined;
+
+    // 端口被自己之前启动的子进程（如卡死未退出）占用时才清理，被其他进程占用则放弃启动
+    if (await PortManager.isPortInUse(definition.port)) {
+      const released = await PortManager.releasePortFromOwnedProcesses(definition.port, Array.from(instance.ownedPids), this.stopTimeoutMs);
+      if (!released) {
+        const holders = await PortManager.getPortProcesses(definition.port);
+        this.updateStatus(instance, {
+          state: 'failed',
+          lastError: `Port ${definition.port} is in use by a process not started by this supervisor: ${holders.map(holder => `${holder.command} (PID ${holder.pid})`).join(', ')}`
+        });
+        secureLogger.error('❌ 实例端口被其他进程占用，未启动', { instance: definition.name, port: definition.port });
+        return;
+      }
+    }
+
+    fs.mkdirSync(path.dirname(instance.status.logFile), { recursive: true });
+    const logFd = fs.openSync(instance.status.logFile, 'a');
+    let child: ChildProcess;
+    try {
+      child = this.spawnInstance(definition, logFd);
+    } finally {
+      fs.closeSync(logFd);
+    }
+
+    instance.child = child;
+    if (child.pid) {
+      instance.ownedPids.add(child.pid);
+    }
+    const launchedAt = Date.now();
+    this.updateStatus(instance, {
+      state: 'running',
+      pid: child.pid,
+      startedAt: new Date(launchedAt).toISOString(),
+      nextRestartAt: undefined,
+      lastError: undefined
+    });
+    secureLogger.info('🚀 实例已启动', { instance: definition.name, port: definition.port, pid: child.pid });
+
+    instance.exited = new Promise(resolve => {
+      child.once('exit', (code, signal) => {
+        this.onExit(instance, child, launchedAt, code, signal);
+        resolve();
+      });
+      child.once('error', error => {
+        this.updateStatus(instance, { lastError: error.message });
+      });
+    });
+  }
+
+  private onExit(instance: ManagedInstance, child: ChildProcess, launchedAt: number, code: number | null, signal: NodeJS.Signals | null): void {
+    if (child.pid) {
+      instance.ownedPids.delete(child.pid);
+    }
+    if (instance.child === child) {
+      instance.child = undefined;
+    }
+    this.updateStatus(instance, { pid: undefined, lastExitCode: code, lastExitSignal: signal });
+
+    if (this.stopping) {
+      return;
+    }
+
+    if (Date.now() - launchedAt >= this.stableAfterMs) {
+      instance.consecutiveFailures = 0;
+    }
+    instance.consecutiveFailures++;
+
+    if (instance.consecutiveFailures >= this.maxConsecutiveFailures) {
+      this.updateStatus(instance, { state: 'failed', lastError: `Exited ${instance.consecutiveFailures} times in a row, giving up` });
+      secureLogger.error('❌ 实例连续异常退出，停止重启', { instance: instance.definition.name, failures: instance.consecutiveFailures });
+      return;
+    }
+
+    const delay = Math.min(this.restartBackoffMs * 2 ** (instance.consecutiveFailures - 1), this.maxRestartBackoffMs);
+    this.updateStatus(instance, { state: 'backoff', nextRestartAt: new Date(Date.now() + delay).toISOString() });
+    secureLogger.warn('⚠️ 实例异常退出，稍后重启', { instance: instance.definition.name, code, signal, restartInMs: delay });
+
+    instance.restartTimer = setTimeout(() => {
+      instance.status.restarts++;
+      void this.launch(instance).catch(error => {
+        this.updateStatus(instance, { state: 'failed', lastError: error instanceof Error ? error.message : String(error) });
+      });
+    }, delay);
+  }
+
+  private updateStatus(instance: ManagedInstance, changes: Partial<InstanceStatus>): void {
+    Object.assign(instance.status, changes);
+    this.emit('instance-state', { ...instance.status });
+    if (!this.stopping && this.startedAt) {
+      this.writeState();
+    }
+  }
+
+  private writeState(): void {
+    const state: SupervisorState = {
+      pid: process.pid,
+      processStartTime: this.identity?.startTime || '',
+      commandLine: this.identity?.commandLine || process.argv.join(' '),
+      startedAt: (this.startedAt || new Date()).toISOString(),
+      updatedAt: new Date().toISOString(),
+      instances: this.getStatus()
+    };
+
+    fs.mkdirSync(path.dirname(this.stateFile), { recursive: true });
+    fs.writeFileSync(this.stateFile, JSON.stringify(state, null, 2));
+  }
+}
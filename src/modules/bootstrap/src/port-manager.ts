@@ -0,0 +1,338 @@
+/**
+ * 端口管理工具
+ *
+ * 提供端口占用检测和进程清理功能。只终止能通过实例锁文件核对身份的RCC4进程，
+ * 其他占用端口的进程一律不处理；未安装lsof时通过/proc查找监听端口的进程
+ *
+ * @author RCC v4.0
+ */
+
+import * as fs from 'fs';
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import { InstanceLock, readInstanceLock, readProcessIdentity, removeInstanceLock } from './instance-lock';
+
+const execAsync = promisify(exec);
+
+// 发送SIGTERM后等待进程退出的时间，超时后才发送SIGKILL
+const DEFAULT_TERMINATE_GRACE_MS = 10000;
+
+// /proc/net/tcp中st字段0A表示LISTEN
+const TCP_LISTEN_STATE = '0A';
+
+/**
+ * 占用端口的进程
+ */
+export interface PortProcess {
+  pid: string;
+  command: string;
+}
+
+/**
+ * 锁文件身份核对结果
+ */
+export interface InstanceLockVerification {
+  verified: boolean;
+  reason?: string;
+}
+
+/**
+ * 停止实例的结果
+ */
+export interface InstanceStopResult {
+  stopped: boolean;
+  pid?: number;
+  // 锁文件记录的进程已不存在或PID已被其他进程复用，未发送信号
+  stale?: boolean;
+  reason?: string;
+}
+
+/**
+ * 端口清理结果
+ */
+export interface PortClearResult {
+  cleared: boolean;
+  // 为释放端口而停止的RCC4实例
+  stoppedPid?: number;
+  reason?: string;
+}
+
+export interface PortClearOptions {
+  // SIGTERM后等待实例排空退出的时间
+  graceMs?: number;
+  lockDir?: string;
+}
+
+/**
+ * 端口管理工具类
+ */
+export class PortManager {
+  /**
+   * 检查端口是否被占用
+   * @param port 端口号
+   * @returns 是否被占用
+   */
+  static async isPortInUse(port: number): Promise<boolean> {
+    try {
+      const result = await execAsync(`lsof -nP -iTCP:${port} -sTCP:LISTEN`);
+      return result.stdout.trim().length > 0;
+    } catch (error) {
+      if (this.isCommandMissing(error)) {
+        return (await this.findListeningSocketInodes(port)).size > 0;
+      }
+      // lsof没有找到结果时返回非0，表示端口未被占用
+      return false;
+    }
+  }
+
+  /**
+   * 获取监听端口的进程信息
+   *
+   * 只统计LISTEN状态的套接字，连接到该端口的客户端进程不算占用
+   *
+   * @param port 端口号
+   * @returns 进程信息数组
+   */
+  static async getPortProcesses(port: number): Promise<PortProcess[]> {
+    try {
+      const result = await execAsync(`lsof -nP -iTCP:${port} -sTCP:LISTEN`);
+      const lines = result.stdout.trim().split('\n');
+
+      // 跳过标题行，处理数据行；IPv4和IPv6同时监听时同一进程会出现两行
+      const processes = new Map<string, PortProcess>();
+      for (let i = 1; i < lines.length; i++) {
+        const line = lines[i].trim();
+        if (line) {
+          const parts = line.split(/\s+/);
+          if (parts.length >= 2) {
+            const command = parts[0];
+            const pid = parts[1];
+            processes.set(pid, { pid, command });
+          }
+        }
+      }
+      return Array.from(processes.values());
+    } catch (error) {
+      if (this.isCommandMissing(error)) {
+        return this.getPortProcessesFromProc(port);
+      }
+      return [];
+    }
+  }
+
+  /**
+   * 通过/proc查找监听端口的进程（未安装lsof时使用）
+   *
+   * 从/proc/net/tcp(6)找到监听该端口的套接字inode，再扫描/proc/<pid>/fd找到持有它的进程。
+   * 无权读取其他用户进程的fd时，这些进程不会出现在结果中
+   */
+  static async getPortProcessesFromProc(port: number): Promise<PortProcess[]> {
+    const inodes = await this.findListeningSocketInodes(port);
+    if (inodes.size === 0) {
+      return [];
+    }
+
+    const processes: PortProcess[] = [];
+    for (const entry of await fs.promises.readdir('/proc')) {
+      if (!/^\d+$/.test(entry)) {
+        continue;
+      }
+
+      let fds: string[];
+      try {
+        fds = await fs.promises.readdir(`/proc/${entry}/fd`);
+      } catch {
+        continue;
+      }
+
+      for (const fd of fds) {
+        const link = await fs.promises.readlink(`/proc/${entry}/fd/${fd}`).catch(() => '');
+        const match = /^socket:\[(\d+)\]$/.exec(link);
+        if (match && inodes.has(match[1])) {
+          const command = await fs.promises.readFile(`/proc/${entry}/comm`, 'utf8').catch(() => 'unknown');
+          processes.push({ pid: entry, command: command.trim() });
+          break;
+        }
+      }
+    }
+    return processes;
+  }
+
+  /**
+   * 核对锁文件记录的进程是否仍是写入锁文件的那个RCC4实例
+   */
+  static async verifyInstanceLock(lock: InstanceLock): Promise<InstanceLockVerification> {
+    const identity = await readProcessIdentity(lock.pid);
+    if (!identity) {
+      return { verified: false, reason: `PID ${lock.pid} is no longer running` };
+    }
+    if (identity.startTime !== lock.processStartTime || identity.commandLine !== lock.commandLine) {
+      return { verified: false, reason: `PID ${lock.pid} now belongs to a different process (${identity.commandLine})` };
+    }
+    return { verified: true };
+  }
+
+  /**
+   * 停止锁文件记录的实例：核对身份后先SIGTERM让实例排空流水线，超时后SIGKILL
+   *
+   * 身份不符（进程已退出或PID被复用）时不发送信号，只删除失效的锁文件
+   */
+  static async stopInstance(lock: InstanceLock, options: PortClearOptions = {}): Promise<InstanceStopResult> {
+    const verification = await this.verifyInstanceLock(lock);
+    if (!verification.verified) {
+      removeInstanceLock(lock.port, lock.pid, options.lockDir);
+      return { stopped: false, pid: lock.pid, stale: true, reason: `Stale lock file: ${verification.reason}` };
+    }
+
+    const stopped = await this.terminateProcess(lock.pid, options.graceMs);
+    if (stopped) {
+      // 正常退出时实例自己删除锁文件，被SIGKILL时由这里清理
+      removeInstanceLock(lock.port, lock.pid, options.lockDir);
+    }
+    return stopped
+      ? { stopped: true, pid: lock.pid }
+      : { stopped: false, pid: lock.pid, reason: `PID ${lock.pid} did not exit` };
+  }
+
+  /**
+   * 检查并清理端口
+   *
+   * 只有端口被锁文件记录且身份核对通过的RCC4实例独占时才停止它，其他情况不终止任何进程
+   *
+   * @param port 端口号
+   * @returns 端口是否可用，不可用时附带原因
+   */
+  static async checkAndClearPort(port: number, options: PortClearOptions = {}): Promise<PortClearResult> {
+    if (!(await this.isPortInUse(port))) {
+      return { cleared: true }; // 端口未被占用，无需清理
+    }
+
+    const holders = await this.getPortProcesses(port);
+    const described = holders.length > 0
+      ? holders.map(holder => `${holder.command} (PID ${holder.pid})`).join(', ')
+      : 'a process owned by another user';
+    const lock = readInstanceLock(port, options.lockDir);
+    if (!lock) {
+      return { cleared: false, reason: `Port ${port} is held by ${described}, which is not a known RCC4 instance` };
+    }
+    if (holders.length === 0 || holders.some(holder => parseInt(holder.pid, 10) !== lock.pid)) {
+      return { cleared: false, reason: `Port ${port} is held by ${described}, not by the RCC4 instance in its lock file (PID ${lock.pid})` };
+    }
+
+    const result = await this.stopInstance(lock, options);
+    if (!result.stopped) {
+      return { cleared: false, reason: result.reason };
+    }
+    return (await this.isPortInUse(port))
+      ? { cleared: false, stoppedPid: lock.pid, reason: `Port ${port} is still in use after stopping PID ${lock.pid}` }
+      : { cleared: true, stoppedPid: lock.pid };
+  }
+
+  /**
+   * 只终止属于调用方的占用进程来释放端口（先SIGTERM，超时后SIGKILL）
+   *
+   * 端口被其他进程占用时不做任何处理，返回false
+   *
+   * @param port 端口号
+   * @param ownedPids 调用方启动的进程PID
+   * @param graceMs SIGTERM后等待退出的时间
+   * @returns 端口是否已释放
+   */
+  static async releasePortFromOwnedProcesses(port: number, ownedPids: number[], graceMs: number = DEFAULT_TERMINATE_GRACE_MS): Promise<boolean> {
+    const holders = (await this.getPortProcesses(port)).map(holder => parseInt(holder.pid, 10));
+    if (holders.length === 0) {
+      return true;
+    }
+
+    const owned = new Set(ownedPids);
+    if (holders.some(pid => !owned.has(pid))) {
+      return false;
+    }
+
+    for (const pid of new Set(holders)) {
+      await this.terminateProcess(pid, graceMs);
+    }
+    return !(await this.isPortInUse(port));
+  }
+
+  /**
+   * 终止进程：先SIGTERM让其优雅退出，超时后SIGKILL
+   * @returns 进程是否已退出
+   */
+  static async terminateProcess(pid: number, graceMs: number = DEFAULT_TERMINATE_GRACE_MS): Promise<boolean> {
+    if (!this.isProcessAlive(pid)) {
+      return true;
+    }
+
+    try {
+      process.kill(pid, 'SIGTERM');
+    } catch {
+      return !this.isProcessAlive(pid);
+    }
+
+    if (await this.waitForExit(pid, graceMs)) {
+      return true;
+    }
+
+    try {
+      process.kill(pid, 'SIGKILL');
+    } catch {
+      // 进程已退出
+    }
+    await new Promise(resolve => setTimeout(resolve, 100));
+    return !this.isProcessAlive(pid);
+  }
+
+  /**
+   * 等待进程退出
+   * @returns 超时前进程是否已退出
+   */
+  static async waitForExit(pid: number, timeoutMs: number): Promise<boolean> {
+    const deadline = Date.now() + timeoutMs;
+    while (Date.now() < deadline) {
+      if (!this.isProcessAlive(pid)) {
+        return true;
+      }
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+    return !this.isProcessAlive(pid);
+  }
+
+  /**
+   * 进程是否存在
+   */
+  static isProcessAlive(pid: number): boolean {
+    try {
+      process.kill(pid, 0);
+      return true;
+    } catch (error) {
+      // EPERM表示进程存在但属于其他用户
+      return (error as NodeJS.ErrnoException).code === 'EPERM';
+    }
+  }
+
+  /**
+   * 监听端口的套接字inode
+   */
+  private static async findListeningSocketInodes(port: number): Promise<Set<string>> {
+    const inodes = new Set<string>();
+    for (const table of ['/proc/net/tcp', '/proc/net/tcp6']) {
+      const content = await fs.promises.readFile(table, 'utf8').catch(() => '');
+      // 每行: sl local_address rem_address st ... inode，local_address形如0100007F:15B2
+      for (const line of content.trim().split('\n').slice(1)) {
+        const fields = line.trim().split(/\s+/);
+        if (fields.length > 9 && fields[3] === TCP_LISTEN_STATE && parseInt(fields[1].split(':')[1], 16) === port) {
+          inodes.add(fields[9]);
+        }
+      }
+    }
+    return inodes;
+  }
+
+  /**
+   * shell找不到命令时退出码为127
+   */
+  private static isCommandMissing(error: unknown): boolean {
+    return (error as { code?: number | string }).code === 127;
+  }
+}
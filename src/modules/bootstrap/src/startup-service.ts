@@ -12,15 +12,22 @@ import * as fs from 'fs';
 import { ConfigPreprocessor, ConfigPreprocessResult } from '../../config/src/config-preprocessor';
 import { RouterPreprocessor, RouterPreprocessResult } from '../../router/src/router-preprocessor';
 import { PipelineAssembler } from '../../pipeline/src/pipeline-assembler';
-import { PipelineAssemblyResult } from '../../pipeline/src/assembly-types';
+import { AssembledPipeline as ManagedPipeline, PipelineAssemblyResult } from '../../pipeline/src/assembly-types';
 import { SelfCheckService } from '../../self-check/self-check.service';
 import { PipelineManager } from '../../pipeline/src/pipeline-manager';
+import { isStreamingResponseBody, PipelineExecutionOptions } from '../../pipeline/src/module-interface';
 import { EnhancedErrorHandler } from '../../error-handler/src/enhanced-error-handler';
 import { HTTPServer } from '../../server/src/http-server';
 import { secureLogger } from '../../error-handler/src/utils/secure-logger';
 import { RCCError, RCCErrorCode } from '../../types/src/index';
 import { GlobalDebugIntegration, ModuleDebugIntegration } from '../../logging/src/debug-integration';
 import { PipelineAssemblyReporter } from './pipeline-assembly-reporter';
+import { ConfigReloadWatcher, diffPipelineConfigs } from './config-reload-watcher';
+
+// 重载时被替换或移除的流水线等待进行中请求完成的默认时间
+const DEFAULT_DRAIN_TIMEOUT_MS = 120000;
+// 收到SIGTERM等停止信号时等待进行中请求完成的默认时间，应小于rcc4 stop升级为SIGKILL前的等待时间
+export const DEFAULT_SHUTDOWN_DRAIN_TIMEOUT_MS = 20000;
 
 /**
  * 启动配置
@@ -31,6 +38,8 @@ export interface StartupConfig {
   host?: string;
   debug?: boolean;
   enableHealthCheck?: boolean;
+  hotReload?: boolean; // 监听配置文件变化和SIGHUP，无需重启即可重新加载配置
+  drainTimeoutMs?: number; // 重载时旧流水线的最长排空时间
 }
 
 /**
@@ -47,6 +56,21 @@ export interface StartupResult {
   warnings?: string[];
 }
 
+/**
+ * 配置重载结果
+ *
+ * 失败时旧的路由表和流水线继续服务
+ */
+export interface ConfigReloadResult {
+  success: boolean;
+  reason: string;
+  added: string[];
+  changed: string[];
+  removed: string[];
+  errors: string[];
+  warnings: string[];
+}
+
 /**
  * RCC v4.0 统一启动服务
  */
@@ -60,6 +84,12 @@ export class StartupService {
   private isInitialized: boolean = false;
   private startTime: number = 0;
   private currentConfigResult: ConfigPreprocessResult | null = null;
+  private currentRouterResult: RouterPreprocessResult | null = null;
+  private httpServer: HTTPServer | null = null;
+  private configPath: string | null = null;
+  private drainTimeoutMs: number = DEFAULT_DRAIN_TIMEOUT_MS;
+  private reloadWatcher: ConfigReloadWatcher | null = null;
+  private reloadQueue: Promise<unknown> = Promise.resolve();
   
   // Debug系统组件
   private globalDebugIntegration: GlobalDebugIntegration;
@@ -142,6 +172,7 @@ export class StartupService {
         return result;
       }
       result.router = routerResult;
+      this.currentRouterResult = routerResult;
       secureLogger.info('✅ Router module initialized successfully');
 
       // 3. 流水线模块初始化 - 组装流水线
@@ -162,8 +193,9 @@ export class StartupService {
       secureLogger.info('✅ Scheduler module initialized successfully');
 
       // 6. HTTP服务器启动 - 开始接收请求
-      const server = await this.startHttpServer(config, pipelineResult);
+      const server = await this.startHttpServer(config, pipelineResult, routerResult);
       result.server = server;
+      this.httpServer = server;
       secureLogger.info('✅ HTTP server started successfully');
 
       // Debug系统已在配置初始化后正确设置，无需额外配置
@@ -174,6 +206,14 @@ export class StartupService {
       // ✅ 验证HTTP服务器流水线设置
       await this.validateServerPipelineSetup(result.server!, pipelineResult);
 
+      // 配置热重载
+      this.configPath = config.configPath || this.getDefaultConfigPath();
+      this.drainTimeoutMs = config.drainTimeoutMs ?? DEFAULT_DRAIN_TIMEOUT_MS;
+      if (config.hotReload) {
+        this.reloadWatcher = new ConfigReloadWatcher(this.configPath, reason => this.reloadConfig(reason));
+        this.reloadWatcher.start();
+      }
+
       result.success = true;
       const totalTime = Date.now() - this.startTime;
       secureLogger.info('🎉 RCC v4.0 startup completed successfully!', {
@@ -198,19 +238,29 @@ export class StartupService {
 
   /**
    * 停止所有服务
+   *
+   * 先等待进行中的请求（含未结束的流）在排空时间内完成并停止流水线，再关闭HTTP服务器
+   *
+   * @param drainTimeoutMs 排空进行中请求的最长时间
    */
-  async stop(): Promise<void> {
-    secureLogger.info('🛑 Stopping RCC v4.0 services...');
+  async stop(drainTimeoutMs: number = DEFAULT_SHUTDOWN_DRAIN_TIMEOUT_MS): Promise<void> {
+    secureLogger.info('🛑 Stopping RCC v4.0 services...', { drainTimeoutMs });
 
     try {
-      // 停止HTTP服务器
-      // 注意：这里需要获取当前运行的服务器实例
-      // 在实际实现中，应该有一个全局的服务器实例管理器
+      this.reloadWatcher?.stop();
+      this.reloadWatcher = null;
 
-      // 停止调度模块
-      await this.pipelineManager.destroy();
+      // 停止调度模块，排空进行中的请求
+      await this.pipelineManager.destroy({ drainTimeoutMs });
       secureLogger.info('✅ Pipeline manager stopped');
 
+      // 停止HTTP服务器
+      if (this.httpServer) {
+        await this.httpServer.stop();
+        this.httpServer = null;
+        secureLogger.info('✅ HTTP server stopped');
+      }
+
       // 停止自检模块
       await this.selfCheckService.stop();
       secureLogger.info('✅ Self-check service stopped');
@@ -237,6 +287,141 @@ export class StartupService {
     }
   }
 
+  /**
+   * 重新加载配置文件，不重启服务器
+   *
+   * 重新执行配置和路由预处理，只组装新增和变化的流水线；被替换和移除的流水线
+   * 在新路由表生效后排空进行中的请求再停止。新配置无效时拒绝重载，旧路由表继续服务
+   *
+   * @param reason 触发原因（file-change、SIGHUP等），仅用于日志
+   */
+  reloadConfig(reason: string = 'manual'): Promise<ConfigReloadResult> {
+    const reload = this.reloadQueue.then(() => this.performReload(reason));
+    this.reloadQueue = reload.catch(() => undefined);
+    return reload;
+  }
+
+  private async performReload(reason: string): Promise<ConfigReloadResult> {
+    const result: ConfigReloadResult = { success: false, reason, added: [], changed: [], removed: [], errors: [], warnings: [] };
+
+    if (!this.httpServer || !this.currentRouterResult || !this.configPath) {
+      result.errors.push('Cannot reload configuration before the server has started');
+      return result;
+    }
+
+    secureLogger.info('🔄 Reloading configuration...', { configPath: this.configPath, reason });
+
+    // 已组装但尚未交给PipelineManager的流水线，重载被拒绝时由这里销毁
+    let pendingPipelines: ManagedPipeline[] = [];
+    try {
+      const configResult = await this.initializeConfigModule({ configPath: this.configPath });
+      const routerResult = await this.initializeRouterModule(configResult);
+      if (!routerResult.pipelineConfigs || routerResult.pipelineConfigs.length === 0) {
+        throw new RCCError(
+          'No pipeline configurations found in reloaded config',
+          RCCErrorCode.PIPELINE_ASSEMBLY_FAILED,
+          'startup'
+        );
+      }
+
+      const diff = diffPipelineConfigs(this.currentRouterResult.pipelineConfigs || [], routerResult.pipelineConfigs);
+      const pipelinesToAssemble = [...diff.added, ...diff.changed];
+      const assembled = new Map<string, ManagedPipeline>();
+      if (pipelinesToAssemble.length > 0) {
+        const pipelineResult = await this.pipelineAssembler.assemble(pipelinesToAssemble);
+        pendingPipelines = pipelineResult.allPipelines;
+        if (!pipelineResult.success) {
+          throw new RCCError(
+            `Pipeline assembly failed: ${pipelineResult.errors.join(', ')}`,
+            RCCErrorCode.PIPELINE_ASSEMBLY_FAILED,
+            'startup',
+            { details: pipelineResult.errors }
+          );
+        }
+        for (const pipeline of pipelineResult.allPipelines) {
+          assembled.set(pipeline.pipelineId, pipeline);
+        }
+      }
+
+      // 监听地址需要重启才能生效
+      const previousServer = this.getConfigFileServerInfo();
+      const nextServer = configResult.routingTable?.server;
+      if (previousServer?.port !== nextServer?.port || previousServer?.host !== nextServer?.host) {
+        result.warnings.push('Server port/host changes require a restart and were not applied');
+      }
+
+      // 新增和变化的流水线先上线，旧实例留给排空
+      const drainOptions = { drainTimeoutMs: this.drainTimeoutMs };
+      const draining: Promise<boolean>[] = [];
+      pendingPipelines = [];
+      for (const config of diff.added) {
+        this.pipelineManager.addPipeline(assembled.get(config.pipelineId)!);
+      }
+      for (const config of diff.changed) {
+        draining.push(this.pipelineManager.replacePipeline(assembled.get(config.pipelineId)!, drainOptions));
+      }
+
+      // 切换HTTP服务器的流水线和路由表，之后的请求不再路由到被移除的流水线
+      const livePipelines = routerResult.pipelineConfigs
+        .map(config => this.pipelineManager.getPipeline(config.pipelineId))
+        .filter((pipeline): pipeline is ManagedPipeline => !!pipeline);
+      this.httpServer.setPipelines(this.toHttpPipelines(livePipelines), true);
+      this.httpServer.setRoutingTable(routerResult.routingTable || null);
+      this.httpServer.setClientKeys(configResult.routingTable?.clientKeys || []);
+      this.currentConfigResult = configResult;
+      this.currentRouterResult = routerResult;
+
+      for (const config of diff.removed) {
+        draining.push(this.pipelineManager.destroyPipeline(config.pipelineId, drainOptions));
+      }
+
+      result.added = diff.added.map(config => config.pipelineId);
+      result.changed = diff.changed.map(config => config.pipelineId);
+      result.removed = diff.removed.map(config => config.pipelineId);
+      secureLogger.info('✅ Configuration reloaded, draining replaced pipelines', {
+        reason,
+        added: result.added,
+        changed: result.changed,
+        removed: result.removed,
+        unchanged: diff.unchanged.length
+      });
+
+      await Promise.all(draining);
+      result.success = true;
+      return result;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error during reload';
+      result.errors.push(errorMessage);
+      secureLogger.error('❌ Configuration reload rejected, keeping the current routing table', { reason, error: errorMessage });
+      await this.destroyPendingPipelines(pendingPipelines);
+      return result;
+    }
+  }
+
+  /**
+   * 停止并清理被拒绝的重载中组装出的流水线模块，清理失败只记录日志
+   */
+  private async destroyPendingPipelines(pipelines: ManagedPipeline[]): Promise<void> {
+    for (const pipeline of pipelines) {
+      for (const module of pipeline.modules) {
+        if (!module.instance || !module.isInitialized) {
+          continue;
+        }
+        try {
+          await module.instance.stop();
+          await module.instance.cleanup();
+        } catch (error) {
+          secureLogger.warn('⚠️ Failed to clean up pipeline from rejected reload', {
+            pipelineId: pipeline.pipelineId,
+            moduleName: module.name,
+            error: error instanceof Error ? error.message : 'Unknown error'
+          });
+        }
+      }
+      pipeline.isActive = false;
+    }
+  }
+
   /**
    * 1. 初始化配置模块
    */
@@ -506,7 +691,11 @@ export class StartupService {
   /**
    * 6. 启动HTTP服务器
    */
-  private async startHttpServer(config: StartupConfig, pipelineResult: PipelineAssemblyResult): Promise<HTTPServer> {
+  private async startHttpServer(
+    config: StartupConfig,
+    pipelineResult: PipelineAssemblyResult,
+    routerResult: RouterPreprocessResult
+  ): Promise<HTTPServer> {
     try {
       secureLogger.info('🔧 Starting HTTP server...');
       
@@ -515,22 +704,32 @@ export class StartupService {
       const serverConfig = {
         port: config.port || configFileServer?.port || 5506,
         host: configFileServer?.host || config.host || '0.0.0.0',
-        debug: configFileServer?.debug !== undefined ? configFileServer.debug : (config.debug || false)
+        debug: configFileServer?.debug !== undefined ? configFileServer.debug : (config.debug || false),
+        // 管理令牌：环境变量优先，避免令牌写入配置文件
+        adminToken: process.env.RCC_ADMIN_TOKEN || configFileServer?.adminToken
       };
 
       // 创建HTTP服务器实例
       const httpServer = new HTTPServer(serverConfig, config.configPath);
+      httpServer.setAdminServices({
+        pipelineManager: this.pipelineManager,
+        selfCheckService: this.selfCheckService,
+        reloadConfig: reason => this.reloadConfig(reason)
+      });
       
       // ✅ 设置流水线数据到HTTP服务器 - 使用真实的流水线执行逻辑
       const assembledPipelines = pipelineResult.allPipelines.filter(p => p.assemblyStatus === 'assembled');
-      const httpPipelines = assembledPipelines.map(p => ({
-        id: p.pipelineId,
-        provider: p.provider,
-        model: p.model,
-        layers: p.modules,
-        execute: p.modules?.length ? this.createPipelineExecutor(p) : undefined
-      }));
-      httpServer.setPipelines(httpPipelines, true);
+      httpServer.setPipelines(this.toHttpPipelines(assembledPipelines), true);
+      
+      // ✅ 设置路由表 - 请求时按model/路由类别选择流水线
+      httpServer.setRoutingTable(routerResult.routingTable || null);
+
+      // 客户端密钥 - /v1/*请求必须携带其中一个
+      const clientKeys = this.currentConfigResult?.routingTable?.clientKeys || [];
+      httpServer.setClientKeys(clientKeys);
+      if (clientKeys.length === 0) {
+        secureLogger.warn('⚠️ No APIKEY or clientKeys configured, /v1/* requests are not authenticated', { host: serverConfig.host });
+      }
       
       secureLogger.info('🔧 Configured HTTP server with pipelines', {
         totalPipelines: pipelineResult.allPipelines.length,
@@ -600,11 +799,24 @@ export class StartupService {
     }
   }
 
+  /**
+   * 转换为HTTP服务器使用的流水线描述
+   */
+  private toHttpPipelines(pipelines: ManagedPipeline[]) {
+    return pipelines.map(p => ({
+      id: p.pipelineId,
+      provider: p.provider,
+      model: p.model,
+      layers: p.modules,
+      execute: p.modules?.length ? this.createPipelineExecutor(p) : undefined
+    }));
+  }
+
   /**
    * 创建流水线执行器 - 真实的流水线处理逻辑
    */
   private createPipelineExecutor(pipeline: any) {
-    return async (input: any) => {
+    return async (input: any, options?: PipelineExecutionOptions) => {
       const requestId = input.requestId || `req_${Date.now()}`;
       const startTime = Date.now();
       
@@ -619,8 +831,18 @@ export class StartupService {
       
       try {
         // 使用流水线管理器执行流水线
-        const result = await this.pipelineManager.executePipeline(pipeline.pipelineId, input);
+        const result = await this.pipelineManager.executePipelineOrThrow(pipeline.pipelineId, input, options);
         const processingTime = Date.now() - startTime;
+
+        // 维护中的流水线按不可用处理，让路由回退到后备流水线
+        if (result?.maintenanceMode) {
+          throw new RCCError(
+            `Service Unavailable: pipeline ${pipeline.pipelineId} is under maintenance`,
+            RCCErrorCode.PROVIDER_UNAVAILABLE,
+            'pipeline',
+            { requestId, pipelineId: pipeline.pipelineId, details: { maintenanceMode: true } }
+          );
+        }
         
         console.log(`✅ [${requestId}] 流水线执行成功! 耗时: ${processingTime}ms`);
         console.log(`📤 [${requestId}] 流水线结果:`, {
@@ -630,6 +852,16 @@ export class StartupService {
           model: pipeline.model
         });
         
+        // 流式响应：事件由HTTP层随到随发
+        if (isStreamingResponseBody(result)) {
+          return {
+            statusCode: 200,
+            contentType: 'text/event-stream',
+            responseBody: result,
+            processingTime
+          };
+        }
+        
         return {
           statusCode: result.statusCode || 200,
           contentType: result.contentType || 'application/json',
@@ -659,7 +891,8 @@ export class StartupService {
               code: 'PIPELINE_FAILED'
             }
           },
-          processingTime
+          processingTime,
+          originalError: error
         };
       }
     };
@@ -781,7 +1014,7 @@ export class StartupService {
   /**
    * 获取配置文件中的服务器信息
    */
-  private getConfigFileServerInfo(): { port?: number; host?: string; debug?: boolean } | null {
+  private getConfigFileServerInfo(): { port?: number; host?: string; debug?: boolean; adminToken?: string } | null {
     // 从存储的配置结果中获取服务器配置
     if (this.currentConfigResult && this.currentConfigResult.routingTable && this.currentConfigResult.routingTable.server) {
       return this.currentConfigResult.routingTable.server;
@@ -0,0 +1,131 @@
+/**
+ * 管理接口客户端测试
+ *
+ * 验证CLI子命令使用的客户端携带管理令牌、请求正确的接口并把错误响应转换为RCCError，
+ * 以及路由演练结果的输出格式
+ *
+ * @author RCC v4.0
+ */
+
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { AdminClient, formatRouteExplanation, formatReloadResult } from '../index';
+import { RCCError, RCCErrorCode } from '../../../types/src/index';
+
+describe('AdminClient', () => {
+  let server: http.Server;
+  let port: number;
+  let requests: Array<{ method?: string; url?: string; authorization?: string; body: any }>;
+  let respond: (req: http.IncomingMessage) => { statusCode: number; body: any };
+
+  beforeEach(async () => {
+    requests = [];
+    respond = () => ({ statusCode: 200, body: { ok: true } });
+    server = http.createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', chunk => chunks.push(chunk));
+      req.on('end', () => {
+        const text = Buffer.concat(chunks).toString('utf-8');
+        requests.push({ method: req.method, url: req.url, authorization: req.headers.authorization, body: text ? JSON.parse(text) : undefined });
+        const { statusCode, body } = respond(req);
+        res.writeHead(statusCode, { 'content-type': 'application/json' });
+        res.end(JSON.stringify(body));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('should call the admin endpoints with the admin token', async () => {
+    const client = new AdminClient({ port, token: 'admin-secret' });
+
+    await client.listPipelines();
+    await client.drainPipeline('pipeline_a_m/1_0', 'incident');
+    await client.enablePipeline('pipeline_a_m1_0');
+    await client.getProviderHealth();
+    await client.testRoute('Hello', 'claude-sonnet-4');
+    await client.getKeyStatus();
+    await client.getUsage('7d', 'client,provider');
+    await client.reload();
+
+    expect(requests.map(request => `${request.method} ${request.url}`)).toEqual([
+      'GET /admin/pipelines',
+      'POST /admin/pipelines/pipeline_a_m%2F1_0/drain',
+      'POST /admin/pipelines/pipeline_a_m1_0/enable',
+      'GET /admin/providers/health',
+      'POST /admin/route-test',
+      'GET /admin/keys',
+      'GET /admin/usage?since=7d&by=client%2Cprovider',
+      'POST /admin/reload'
+    ]);
+    expect(requests.every(request => request.authorization === 'Bearer admin-secret')).toBe(true);
+    expect(requests[1].body).toEqual({ reason: 'incident' });
+    expect(requests[4].body).toEqual({ prompt: 'Hello', model: 'claude-sonnet-4' });
+  });
+
+  it('should turn error responses into RCCErrors', async () => {
+    respond = () => ({ statusCode: 401, body: { type: 'error', error: { type: 'authentication_error', message: 'Invalid or missing admin token' } } });
+    const client = new AdminClient({ port, token: 'wrong' });
+
+    const error = await client.listPipelines().catch(caught => caught);
+
+    expect(error).toBeInstanceOf(RCCError);
+    expect(error.code).toBe(RCCErrorCode.PERMISSION_DENIED);
+    expect(error.message).toBe('GET /admin/pipelines failed: Invalid or missing admin token');
+  });
+
+  it('should return a rejected reload result instead of throwing', async () => {
+    respond = () => ({ statusCode: 500, body: { success: false, errors: ['Config preprocessing failed: bad json'] } });
+
+    const result = await new AdminClient({ port, token: 'admin-secret' }).reload();
+
+    expect(result.success).toBe(false);
+    expect(formatReloadResult(result)).toContain('Config preprocessing failed: bad json');
+  });
+
+  it('should report an unreachable server', async () => {
+    await new Promise(resolve => server.close(resolve));
+    server = http.createServer();
+    server.listen(0);
+
+    const error = await new AdminClient({ port, token: 'admin-secret' }).getKeyStatus().catch(caught => caught);
+
+    expect(error).toBeInstanceOf(RCCError);
+    expect(error.code).toBe(RCCErrorCode.NETWORK_CONNECTION_FAILED);
+    expect(error.message).toContain(`http://127.0.0.1:${port}`);
+  });
+});
+
+describe('formatRouteExplanation', () => {
+  it('should show the selected pipeline, the reason and the fallback chain', () => {
+    const output = formatRouteExplanation({
+      requestedModel: 'claude-sonnet-4',
+      routeName: 'default',
+      matchType: 'default',
+      reason: 'no route matched model, using default route',
+      classification: { category: 'default', reason: 'no special content', estimatedTokens: 12 },
+      contextWindow: { action: 'within-limit', estimatedTokens: 12 },
+      candidates: [
+        { pipelineId: 'pipeline_a_m1_0', provider: 'a', model: 'm1' },
+        { pipelineId: 'pipeline_b_m2_0', provider: 'b', model: 'm2' }
+      ],
+      selected: { pipelineId: 'pipeline_b_m2_0', provider: 'b', model: 'm2' },
+      strategy: 'least_connections',
+      selectionReason: 'fewest active connections',
+      fallbackChain: [
+        { pipelineId: 'pipeline_b_m2_0', provider: 'b', model: 'm2' },
+        { pipelineId: 'pipeline_a_m1_0', provider: 'a', model: 'm1' }
+      ]
+    });
+
+    expect(output).toContain('Route: default (default) - no route matched model, using default route');
+    expect(output).toContain('Selected: pipeline_b_m2_0 (b,m2)');
+    expect(output).toContain('Strategy: least_connections - fewest active connections');
+    expect(output).toContain('Fallback chain: pipeline_a_m1_0 (a,m1)');
+    expect(output).not.toContain('Context window');
+  });
+});
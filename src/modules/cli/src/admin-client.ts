@@ -0,0 +1,159 @@
+/**
+ * 管理接口客户端
+ *
+ * 供rcc4 CLI子命令调用运行中实例的/admin/*接口
+ *
+ * @author RCC v4.0
+ */
+
+import * as http from 'http';
+import { RCCError, RCCErrorCode } from '../../types/src/index';
+
+export const DEFAULT_ADMIN_HOST = '127.0.0.1';
+export const DEFAULT_ADMIN_PORT = 5506;
+export const DEFAULT_ADMIN_TIMEOUT_MS = 30000;
+
+/**
+ * 管理接口客户端选项
+ */
+export interface AdminClientOptions {
+  host?: string;
+  port?: number;
+  // 管理令牌，未设置时读取RCC_ADMIN_TOKEN
+  token?: string;
+  timeoutMs?: number;
+}
+
+/**
+ * 管理接口客户端
+ */
+export class AdminClient {
+  private readonly host: string;
+  private readonly port: number;
+  private readonly token?: string;
+  private readonly timeoutMs: number;
+
+  constructor(options: AdminClientOptions = {}) {
+    this.host = options.host || DEFAULT_ADMIN_HOST;
+    this.port = options.port || DEFAULT_ADMIN_PORT;
+    this.token = options.token || process.env.RCC_ADMIN_TOKEN;
+    this.timeoutMs = options.timeoutMs || DEFAULT_ADMIN_TIMEOUT_MS;
+  }
+
+  listPipelines(): Promise<any> {
+    return this.request('GET', '/admin/pipelines');
+  }
+
+  drainPipeline(pipelineId: string, reason?: string): Promise<any> {
+    return this.request('POST', `/admin/pipelines/${encodeURIComponent(pipelineId)}/drain`, reason ? { reason } : {});
+  }
+
+  enablePipeline(pipelineId: string): Promise<any> {
+    return this.request('POST', `/admin/pipelines/${encodeURIComponent(pipelineId)}/enable`, {});
+  }
+
+  getProviderHealth(): Promise<any> {
+    return this.request('GET', '/admin/providers/health');
+  }
+
+  testRoute(prompt: string, model?: string): Promise<any> {
+    return this.request('POST', '/admin/route-test', { prompt, ...(model ? { model } : {}) });
+  }
+
+  getKeyStatus(): Promise<any> {
+    return this.request('GET', '/admin/keys');
+  }
+
+  getUsage(since?: string, by?: string): Promise<any> {
+    const query = new URLSearchParams({ ...(since ? { since } : {}), ...(by ? { by } : {}) }).toString();
+    return this.request('GET', `/admin/usage${query ? `?${query}` : ''}`);
+  }
+
+  reload(): Promise<any> {
+    return this.request('POST', '/admin/reload', {});
+  }
+
+  /**
+   * 发送管理请求
+   *
+   * 错误响应（{ type: 'error' }）转换为RCCError；其余响应即使状态码非2xx也原样返回，
+   * 如重载被拒绝时返回的重载结果
+   */
+  private request(method: string, path: string, body?: unknown): Promise<any> {
+    const payload = body === undefined ? undefined : JSON.stringify(body);
+    const headers: Record<string, string | number> = { accept: 'application/json' };
+    if (this.token) {
+      headers.authorization = `Bearer ${this.token}`;
+    }
+    if (payload !== undefined) {
+      headers['content-type'] = 'application/json';
+      headers['content-length'] = Buffer.byteLength(payload);
+    }
+
+    return new Promise((resolve, reject) => {
+      const req = http.request({ host: this.host, port: this.port, method, path, headers }, res => {
+        const chunks: Buffer[] = [];
+        res.on('data', chunk => chunks.push(chunk));
+        res.on('end', () => {
+          const statusCode = res.statusCode || 0;
+          const text = Buffer.concat(chunks).toString('utf-8');
+          let parsed: any;
+          try {
+            parsed = text ? JSON.parse(text) : undefined;
+          } catch {
+            reject(new RCCError(`Unexpected response from ${method} ${path} (HTTP ${statusCode}): ${text.slice(0, 200)}`, RCCErrorCode.NETWORK_ERROR, 'cli', {
+              details: { statusCode }
+            }));
+            return;
+          }
+
+          if (parsed?.type === 'error' || parsed === undefined && statusCode >= 400) {
+            const message = parsed?.error?.message || `HTTP ${statusCode}`;
+            reject(new RCCError(`${method} ${path} failed: ${message}`, AdminClient.errorCodeFor(statusCode), 'cli', {
+              details: { statusCode, errorType: parsed?.error?.type }
+            }));
+            return;
+          }
+          resolve(parsed);
+        });
+      });
+
+      req.setTimeout(this.timeoutMs, () => {
+        req.destroy(new RCCError(`${method} ${path} timed out after ${this.timeoutMs}ms`, RCCErrorCode.NETWORK_TIMEOUT, 'cli'));
+      });
+      req.on('error', error => {
+        if (error instanceof RCCError) {
+          reject(error);
+          return;
+        }
+        reject(new RCCError(
+          `Cannot reach RCC4 server at http://${this.host}:${this.port}: ${error.message}`,
+          RCCErrorCode.NETWORK_CONNECTION_FAILED,
+          'cli'
+        ));
+      });
+
+      if (payload !== undefined) {
+        req.write(payload);
+      }
+      req.end();
+    });
+  }
+
+  private static errorCodeFor(statusCode: number): RCCErrorCode {
+    switch (statusCode) {
+      case 400:
+      case 422:
+        return RCCErrorCode.VALIDATION_ERROR;
+      case 401:
+      case 403:
+        return RCCErrorCode.PERMISSION_DENIED;
+      case 404:
+        return RCCErrorCode.RESOURCE_NOT_FOUND;
+      case 503:
+        return RCCErrorCode.SERVICE_UNAVAILABLE;
+      default:
+        return RCCErrorCode.INTERNAL_ERROR;
+    }
+  }
+}
@@ -0,0 +1,206 @@
+/**
+ * 运维子命令
+ *
+ * 通过管理接口操作运行中的实例：
+ * - rcc4 pipelines list|drain|enable
+ * - rcc4 providers health
+ * - rcc4 route test "<prompt>" --model X
+ * - rcc4 keys status
+ * - rcc4 usage --since 7d --by provider
+ * - rcc4 reload
+ *
+ * @author RCC v4.0
+ */
+
+import { Command } from 'commander';
+import { AdminClient, AdminClientOptions, DEFAULT_ADMIN_HOST, DEFAULT_ADMIN_PORT } from './admin-client';
+
+const HEALTH_ICONS: Record<string, string> = {
+  healthy: '🟢',
+  degraded: '🟡',
+  unhealthy: '🔴',
+  maintenance: '🛠️'
+};
+
+/**
+ * 流水线列表
+ */
+export function formatPipelines(result: any): string {
+  const pipelines: any[] = result?.pipelines || [];
+  if (pipelines.length === 0) {
+    return 'No pipelines loaded';
+  }
+
+  const lines = pipelines.map(pipeline => {
+    const flags = [
+      pipeline.maintenance ? `maintenance: ${pipeline.maintenance.reason}` : undefined,
+      pipeline.circuitBreaker !== 'CLOSED' ? `circuit ${pipeline.circuitBreaker}` : undefined,
+      pipeline.activeExecutions > 0 ? `${pipeline.activeExecutions} in flight` : undefined
+    ].filter(Boolean);
+    const status = pipeline.status ? `${pipeline.status.status}/${pipeline.status.health}` : 'unknown';
+    return `  ${pipeline.pipelineId}  ${pipeline.provider},${pipeline.model}  ${status}${flags.length > 0 ? `  (${flags.join(', ')})` : ''}`;
+  });
+  return [`📋 Pipelines (${pipelines.length}):`, ...lines].join('\n');
+}
+
+/**
+ * Provider健康状态
+ */
+export function formatProviderHealth(result: any): string {
+  const providers: any[] = result?.providers || [];
+  if (providers.length === 0) {
+    return 'No providers loaded';
+  }
+
+  const lines: string[] = [];
+  for (const provider of providers) {
+    lines.push(`${HEALTH_ICONS[provider.status] || '⚪'} ${provider.provider}: ${provider.status}`);
+    for (const pipeline of provider.pipelines) {
+      const errorRate = pipeline.executionCount > 0 ? `${((pipeline.errorCount / pipeline.executionCount) * 100).toFixed(1)}% errors` : 'no traffic';
+      const flags = [
+        pipeline.maintenance ? 'maintenance' : undefined,
+        pipeline.circuitBreaker !== 'CLOSED' ? `circuit ${pipeline.circuitBreaker}` : undefined
+      ].filter(Boolean);
+      lines.push(`    ${pipeline.model}  ${pipeline.health}  ${errorRate}, avg ${Math.round(pipeline.averageResponseTime)}ms${flags.length > 0 ? `  (${flags.join(', ')})` : ''}`);
+    }
+  }
+  return lines.join('\n');
+}
+
+/**
+ * 路由演练结果
+ */
+export function formatRouteExplanation(result: any): string {
+  const describe = (pipeline: any) => `${pipeline.pipelineId} (${pipeline.provider},${pipeline.model})`;
+  const lines = [
+    `🧭 Route: ${result.routeName} (${result.matchType}) - ${result.reason}`,
+    `   Requested model: ${result.requestedModel || '(none)'}`
+  ];
+  if (result.classification) {
+    lines.push(`   Classification: ${result.classification.category}, ~${result.classification.estimatedTokens} tokens - ${result.classification.reason}`);
+  }
+  if (result.contextWindow && result.contextWindow.action !== 'within-limit') {
+    lines.push(`   Context window: ${result.contextWindow.action} (~${result.contextWindow.estimatedTokens} tokens, window ${result.contextWindow.contextWindow ?? 'unknown'})`);
+  }
+  lines.push(`   Candidates: ${result.candidates.length > 0 ? result.candidates.map(describe).join(', ') : '(none)'}`);
+  lines.push(result.selected ? `🎯 Selected: ${describe(result.selected)}` : '❌ No pipeline would be selected');
+  lines.push(`   Strategy: ${result.strategy} - ${result.selectionReason}`);
+  if (result.fallbackChain.length > 1) {
+    lines.push(`   Fallback chain: ${result.fallbackChain.slice(1).map(describe).join(' -> ')}`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * 密钥池状态
+ */
+export function formatKeyStatus(result: any): string {
+  const pools: any[] = result?.pools || [];
+  if (pools.length === 0) {
+    return 'No API key pools (every provider has a single key)';
+  }
+
+  const lines: string[] = [];
+  for (const pool of pools) {
+    lines.push(`🔑 ${pool.provider} (${pool.strategy}, ${pool.keys.length} keys)`);
+    for (const key of pool.keys) {
+      const cooldown = key.status === 'cooling_down' ? `, cooling down ${Math.ceil(key.cooldownRemainingMs / 1000)}s` : '';
+      const lastError = key.lastError ? `, last error: ${key.lastError}` : '';
+      lines.push(`    ${key.keyId}  ${key.status}${cooldown}  requests ${key.requestCount}, errors ${key.errorCount}, rate limited ${key.rateLimitCount}, tokens ${key.inputTokens}/${key.outputTokens}${lastError}`);
+    }
+  }
+  return lines.join('\n');
+}
+
+/**
+ * 用量报表
+ */
+export function formatUsageReport(result: any): string {
+  const describe = (usage: any) =>
+    `${usage.requests} requests, ${usage.inputTokens} in / ${usage.outputTokens} out / ${usage.cacheReadTokens + usage.cacheCreationTokens} cached tokens, $${usage.cost.toFixed(4)}`;
+  const lines = [`📊 Usage since ${result.since}: ${describe(result.totals)}`];
+  for (const group of result.groups || []) {
+    const key = Object.entries(group.key).map(([dimension, value]) => `${dimension}=${value}`).join(' ');
+    lines.push(`    ${key}  ${describe(group)}`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * 配置重载结果
+ */
+export function formatReloadResult(result: any): string {
+  if (!result.success) {
+    return ['❌ Reload rejected, the previous configuration is still serving:', ...result.errors.map((error: string) => `   - ${error}`)].join('\n');
+  }
+
+  const lines = [`✅ Reloaded: ${result.added.length} added, ${result.changed.length} changed, ${result.removed.length} removed`];
+  for (const warning of result.warnings || []) {
+    lines.push(`⚠️ ${warning}`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * 注册运维子命令
+ */
+export function registerAdminCommands(program: Command): void {
+  const withConnection = (command: Command) => command
+    .option('-p, --port <port>', 'Server port', String(DEFAULT_ADMIN_PORT))
+    .option('--host <host>', 'Server host', DEFAULT_ADMIN_HOST)
+    .option('--token <token>', 'Admin token (defaults to RCC_ADMIN_TOKEN)')
+    .option('--json', 'Print the raw JSON response');
+
+  const run = (call: (client: AdminClient, ...args: any[]) => Promise<any>, format: (result: any) => string) =>
+    async (...args: any[]) => {
+      // commander把选项对象放在位置参数之后、Command实例之前
+      const options = args[args.length - 2];
+      const clientOptions: AdminClientOptions = {
+        host: options.host,
+        port: parseInt(options.port, 10),
+        token: options.token
+      };
+
+      try {
+        const result = await call(new AdminClient(clientOptions), ...args.slice(0, -2), options);
+        console.log(options.json ? JSON.stringify(result, null, 2) : format(result));
+        if (result?.success === false) {
+          process.exit(1);
+        }
+      } catch (error) {
+        console.error(`❌ ${error instanceof Error ? error.message : error}`);
+        process.exit(1);
+      }
+    };
+
+  const pipelines = program.command('pipelines').description('Inspect and manage pipelines on a running server');
+  withConnection(pipelines.command('list').description('List pipelines with status, maintenance and circuit breaker state'))
+    .action(run(client => client.listPipelines(), formatPipelines));
+  withConnection(pipelines.command('drain <pipelineId>').description('Take a pipeline out of rotation; in-flight requests finish'))
+    .option('-r, --reason <reason>', 'Reason recorded with the maintenance entry')
+    .action(run((client, pipelineId: string, options: any) => client.drainPipeline(pipelineId, options.reason),
+      result => `🛠️ Drained ${result.pipelineId} (${result.activeExecutions} request(s) still in flight)`));
+  withConnection(pipelines.command('enable <pipelineId>').description('Put a drained pipeline back into rotation'))
+    .action(run((client, pipelineId: string) => client.enablePipeline(pipelineId), result => `✅ Enabled ${result.pipelineId}`));
+
+  const providers = program.command('providers').description('Inspect providers on a running server');
+  withConnection(providers.command('health').description('Show per-provider health'))
+    .action(run(client => client.getProviderHealth(), formatProviderHealth));
+
+  const route = program.command('route').description('Inspect routing on a running server');
+  withConnection(route.command('test <prompt>').description('Show which pipeline a prompt would be routed to and why'))
+    .option('-m, --model <model>', 'Model requested by the client')
+    .action(run((client, prompt: string, options: any) => client.testRoute(prompt, options.model), formatRouteExplanation));
+
+  const keys = program.command('keys').description('Inspect provider API keys on a running server');
+  withConnection(keys.command('status').description('Show API key rotation, cooldown and usage'))
+    .action(run(client => client.getKeyStatus(), formatKeyStatus));
+
+  withConnection(program.command('usage').description('Show token usage and estimated cost from the usage ledger'))
+    .option('-s, --since <since>', 'Start of the report: a duration like 24h, 7d or 2w, or an ISO date', '7d')
+    .option('-b, --by <dimensions>', 'Group by client, route, provider, model, pipeline or day (comma separated)')
+    .action(run((client, options: any) => client.getUsage(options.since, options.by), formatUsageReport));
+
+  withConnection(program.command('reload').description('Reload the configuration file on a running server'))
+    .action(run(client => client.reload(), formatReloadResult));
+}
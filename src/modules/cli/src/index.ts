@@ -24,6 +24,23 @@ export class CliModule {
   }
 }
 
+export {
+  AdminClient,
+  AdminClientOptions,
+  DEFAULT_ADMIN_HOST,
+  DEFAULT_ADMIN_PORT,
+  DEFAULT_ADMIN_TIMEOUT_MS
+} from './admin-client';
+export {
+  registerAdminCommands,
+  formatPipelines,
+  formatProviderHealth,
+  formatRouteExplanation,
+  formatKeyStatus,
+  formatUsageReport,
+  formatReloadResult
+} from './admin-commands';
+
 export function createCliModule(): CliModule {
   return new CliModule();
 }
\ No newline at end of file
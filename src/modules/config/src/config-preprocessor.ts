@@ -4,9 +4,17 @@ import {
   RoutingTable, 
   ProviderInfo, 
   RouteMapping, 
+  RouteClassificationConfig,
+  ContextWindowConfig,
+  LoadBalancingSettings,
+  ApiKeyRotationSettings,
   ServerInfo,
+  ClientKeyInfo,
+  ClientKeyLimits,
   ConfigPreprocessResult,
-  ModelInfo
+  ModelInfo,
+  ModelPrice,
+  RouteHedgingSettings
 } from './routing-table-types';
 import { JQJsonHandler } from '../../error-handler/src/utils/jq-json-handler';
 import { RCCError, RCCErrorCode } from '../../types/src/index';
@@ -17,6 +25,9 @@ import { ModuleDebugIntegration } from '../../logging/src/debug-integration';
 export { ConfigPreprocessResult } from './routing-table-types';
 
 export class ConfigPreprocessor {
+  // Router区中不是路由映射的设置项
+  private static readonly _ROUTER_SETTING_KEYS = ['contextWindowPolicy'];
+  
   private static systemConfig: any = null;
   
   private static errorHandler: EnhancedErrorHandler = new EnhancedErrorHandler();
@@ -54,12 +65,19 @@ export class ConfigPreprocessor {
       const systemConfig = ConfigPreprocessor._loadSystemConfig();
       const providers = ConfigPreprocessor._expandProviders(parsedConfig.providers || [], systemConfig);
       const routes = ConfigPreprocessor._generateRoutes(parsedConfig.router || {}, providers);
+      const classification = ConfigPreprocessor._extractClassificationConfig(parsedConfig.router || {});
+      const contextWindow = ConfigPreprocessor._extractContextWindowConfig(parsedConfig.router || {});
+      const loadBalancing = ConfigPreprocessor._extractLoadBalancingConfig(parsedConfig.loadBalancer || {});
       
       const routingTable: RoutingTable = {
         providers,
         routes,
+        classification,
+        contextWindow,
+        loadBalancing,
         server: ConfigPreprocessor._normalizeServerConfig(parsedConfig.server || {}),
         apiKey: parsedConfig.APIKEY || parsedConfig.apiKey || 'default-key',
+        clientKeys: ConfigPreprocessor._extractClientKeys(parsedConfig.APIKEY, parsedConfig.clientKeys || []),
         version: parsedConfig.version || '4.1',
         description: parsedConfig.description || 'Generated by ConfigPreprocessor',
         lastUpdated: timestamp
@@ -143,9 +161,10 @@ export class ConfigPreprocessor {
   private static _parseConfigContent(config: any): any {
     return {
       providers: config.Providers || config.providers || [],
-      router: config.router || {},
+      router: config.Router || config.router || {},
       server: config.server || {},
       APIKEY: config.APIKEY || config.apiKey,
+      clientKeys: config.ClientKeys || config.clientKeys,
       version: config.version,
       description: config.description
     };
@@ -200,10 +219,13 @@ export class ConfigPreprocessor {
           if (typeof model === 'string') {
             return model;
           } else if (typeof model === 'object' && model.name) {
+            const { price: priceConfig, ...modelFields } = model;
+            const price = ConfigPreprocessor._extractPrice(priceConfig);
             return {
               name: model.name,
               maxTokens: model.maxTokens,
-              ...model
+              ...modelFields,
+              ...(price ? { price } : {})
             };
           }
           return String(model);
@@ -212,12 +234,23 @@ export class ConfigPreprocessor {
         models = [`${provider.name}-default-model`];
       }
       
+      const protocol = provider.protocol || systemProviderConfig?.protocol;
+      const price = ConfigPreprocessor._extractPrice(provider.price);
+      const timeout = [provider.timeout, systemProviderConfig?.timeout].find(value => typeof value === 'number' && value > 0);
+      
       return {
         name: provider.name,
         priority: provider.priority || 1,
         api_base_url: provider.api_base_url,
         api_key: provider.api_key,
+        ...(protocol ? { protocol: String(protocol).toLowerCase() } : {}),
+        ...(typeof provider.weight === 'number' && provider.weight > 0 ? { weight: provider.weight } : {}),
+        ...(provider.keyRotation && typeof provider.keyRotation === 'object'
+          ? { keyRotation: ConfigPreprocessor._extractKeyRotationConfig(provider.keyRotation) }
+          : {}),
+        ...(price ? { price } : {}),
         maxTokens: provider.maxTokens,
+        ...(timeout !== undefined ? { timeout } : {}),
         models: models,
         serverCompatibility: serverCompatibility
       };
@@ -228,8 +261,17 @@ export class ConfigPreprocessor {
     const routes: RouteMapping = {};
     
     for (const [routeName, routeValue] of Object.entries(routerConfig)) {
+      if (ConfigPreprocessor._ROUTER_SETTING_KEYS.includes(routeName)) {
+        continue;
+      }
       if (typeof routeValue === 'string') {
         routes[routeName] = routeValue;
+      } else if (Array.isArray(routeValue)) {
+        // 有序回退链：["provider1,model1", "provider2,model2"] 等价于 "provider1,model1;provider2,model2"
+        const chain = routeValue.filter((target): target is string => typeof target === 'string' && target.includes(','));
+        if (chain.length > 0) {
+          routes[routeName] = chain.map(target => target.trim()).join(';');
+        }
       }
     }
     
@@ -242,11 +284,181 @@ export class ConfigPreprocessor {
     return routes;
   }
   
+  private static _extractClassificationConfig(routerConfig: any): RouteClassificationConfig {
+    const classification: RouteClassificationConfig = {};
+    
+    if (typeof routerConfig.longContextThreshold === 'number' && routerConfig.longContextThreshold > 0) {
+      classification.longContextThreshold = routerConfig.longContextThreshold;
+    }
+    
+    return classification;
+  }
+  
+  private static _extractContextWindowConfig(routerConfig: any): ContextWindowConfig {
+    const contextWindow: ContextWindowConfig = {};
+    const policy = routerConfig.contextWindowPolicy;
+    
+    if (policy === 'reroute' || policy === 'truncate' || policy === 'reject') {
+      contextWindow.policy = policy;
+    }
+    
+    return contextWindow;
+  }
+  
+  private static _extractLoadBalancingConfig(loadBalancerConfig: any): LoadBalancingSettings {
+    const loadBalancing: LoadBalancingSettings = {};
+    
+    if (typeof loadBalancerConfig.strategy === 'string') {
+      loadBalancing.strategy = loadBalancerConfig.strategy.toLowerCase();
+    }
+    if (typeof loadBalancerConfig.stickySessions === 'boolean') {
+      loadBalancing.stickySessions = loadBalancerConfig.stickySessions;
+    }
+    if (typeof loadBalancerConfig.healthCheckInterval === 'number' && loadBalancerConfig.healthCheckInterval > 0) {
+      loadBalancing.healthCheckInterval = loadBalancerConfig.healthCheckInterval;
+    }
+    
+    const circuitBreaker = loadBalancerConfig.circuitBreaker;
+    if (circuitBreaker && typeof circuitBreaker === 'object') {
+      loadBalancing.circuitBreaker = {
+        ...(typeof circuitBreaker.enabled === 'boolean' ? { enabled: circuitBreaker.enabled } : {}),
+        ...(typeof circuitBreaker.failureThreshold === 'number' ? { failureThreshold: circuitBreaker.failureThreshold } : {}),
+        ...(typeof circuitBreaker.recoveryTimeout === 'number' ? { recoveryTimeout: circuitBreaker.recoveryTimeout } : {})
+      };
+    }
+    
+    if (typeof loadBalancerConfig.explorationRate === 'number' && loadBalancerConfig.explorationRate >= 0 && loadBalancerConfig.explorationRate <= 1) {
+      loadBalancing.explorationRate = loadBalancerConfig.explorationRate;
+    }
+    
+    const routeObjectives = loadBalancerConfig.routes;
+    if (routeObjectives && typeof routeObjectives === 'object') {
+      loadBalancing.routeObjectives = {};
+      for (const [routeName, settings] of Object.entries<any>(routeObjectives)) {
+        if (!settings || typeof settings !== 'object') continue;
+        const objective = typeof settings.objective === 'string' ? settings.objective.toLowerCase() : undefined;
+        loadBalancing.routeObjectives[routeName] = {
+          ...(objective === 'fastest' || objective === 'cheapest' || objective === 'balanced' ? { objective } : {}),
+          ...(typeof settings.maxLatencyMs === 'number' && settings.maxLatencyMs > 0 ? { maxLatencyMs: settings.maxLatencyMs } : {}),
+          ...(settings.hedging && typeof settings.hedging === 'object' ? { hedging: ConfigPreprocessor._extractHedgingConfig(settings.hedging) } : {})
+        };
+      }
+    }
+    
+    return loadBalancing;
+  }
+  
+  private static _extractHedgingConfig(hedgingConfig: any): RouteHedgingSettings {
+    const hedging: RouteHedgingSettings = {};
+    
+    if (typeof hedgingConfig.percentile === 'number' && hedgingConfig.percentile >= 1 && hedgingConfig.percentile <= 99) {
+      hedging.percentile = hedgingConfig.percentile;
+    }
+    if (typeof hedgingConfig.budgetPercent === 'number' && hedgingConfig.budgetPercent >= 0 && hedgingConfig.budgetPercent <= 100) {
+      hedging.budgetPercent = hedgingConfig.budgetPercent;
+    }
+    if (typeof hedgingConfig.minSamples === 'number' && hedgingConfig.minSamples >= 1) {
+      hedging.minSamples = Math.floor(hedgingConfig.minSamples);
+    }
+    
+    return hedging;
+  }
+  
+  private static _extractPrice(priceConfig: any): ModelPrice | undefined {
+    if (!priceConfig || typeof priceConfig !== 'object') {
+      return undefined;
+    }
+    
+    const input = typeof priceConfig.input === 'number' && priceConfig.input >= 0 ? priceConfig.input : undefined;
+    const output = typeof priceConfig.output === 'number' && priceConfig.output >= 0 ? priceConfig.output : undefined;
+    if (input === undefined && output === undefined) {
+      return undefined;
+    }
+    
+    return { input: input ?? 0, output: output ?? 0 };
+  }
+  
+  private static _extractKeyRotationConfig(keyRotationConfig: any): ApiKeyRotationSettings {
+    const keyRotation: ApiKeyRotationSettings = {};
+    
+    const strategy = typeof keyRotationConfig.strategy === 'string' ? keyRotationConfig.strategy.toLowerCase() : undefined;
+    if (strategy === 'round_robin' || strategy === 'weighted') {
+      keyRotation.strategy = strategy;
+    }
+    if (Array.isArray(keyRotationConfig.weights)) {
+      keyRotation.weights = keyRotationConfig.weights.map((weight: unknown) => typeof weight === 'number' && weight > 0 ? weight : 1);
+    }
+    if (typeof keyRotationConfig.cooldownMs === 'number' && keyRotationConfig.cooldownMs > 0) {
+      keyRotation.cooldownMs = keyRotationConfig.cooldownMs;
+    }
+    
+    return keyRotation;
+  }
+  
+  /**
+   * 客户端密钥：顶层APIKEY作为不受限的default密钥，clientKeys区为命名密钥
+   *
+   * 配置有误的密钥（缺少名称或密钥、过期时间无法解析、名称重复）导致整个配置被拒绝，
+   * 避免限制被静默忽略
+   */
+  private static _extractClientKeys(apiKey: any, clientKeys: any): ClientKeyInfo[] {
+    if (!Array.isArray(clientKeys)) {
+      throw new RCCError('clientKeys must be an array', RCCErrorCode.CONFIG_INVALID, 'config');
+    }
+
+    const keys: ClientKeyInfo[] = typeof apiKey === 'string' && apiKey ? [{ name: 'default', key: apiKey }] : [];
+    for (const entry of clientKeys) {
+      if (!entry || typeof entry.name !== 'string' || !entry.name || typeof entry.key !== 'string' || !entry.key) {
+        throw new RCCError('Each clientKeys entry needs a name and a key', RCCErrorCode.CONFIG_INVALID, 'config');
+      }
+      if (keys.some(existing => existing.name === entry.name)) {
+        throw new RCCError(`Duplicate client key name '${entry.name}'`, RCCErrorCode.CONFIG_INVALID, 'config', { details: { name: entry.name } });
+      }
+      if (entry.expiresAt !== undefined && isNaN(Date.parse(entry.expiresAt))) {
+        throw new RCCError(`Client key '${entry.name}' has an invalid expiresAt: ${entry.expiresAt}`, RCCErrorCode.CONFIG_INVALID, 'config', { details: { name: entry.name } });
+      }
+
+      keys.push({
+        name: entry.name,
+        key: entry.key,
+        ...(Array.isArray(entry.routes) ? { routes: entry.routes.map(String) } : {}),
+        ...(Array.isArray(entry.models) ? { models: entry.models.map(String) } : {}),
+        ...(entry.expiresAt !== undefined ? { expiresAt: new Date(entry.expiresAt).toISOString() } : {}),
+        ...(entry.limits !== undefined ? { limits: ConfigPreprocessor._extractClientKeyLimits(entry.name, entry.limits) } : {})
+      });
+    }
+    return keys;
+  }
+
+  /**
+   * 校验客户端密钥的limits区：请求数、并发数和token数为正整数，花费上限为正数
+   */
+  private static _extractClientKeyLimits(name: string, limitsConfig: any): ClientKeyLimits {
+    if (!limitsConfig || typeof limitsConfig !== 'object' || Array.isArray(limitsConfig)) {
+      throw new RCCError(`Client key '${name}' has invalid limits`, RCCErrorCode.CONFIG_INVALID, 'config', { details: { name } });
+    }
+
+    const limits: ClientKeyLimits = {};
+    for (const field of ['requestsPerMinute', 'maxConcurrentRequests', 'tokensPerDay', 'monthlySpendLimit'] as const) {
+      const value = limitsConfig[field];
+      if (value === undefined) {
+        continue;
+      }
+      const valid = typeof value === 'number' && value > 0 && (field === 'monthlySpendLimit' || Number.isInteger(value));
+      if (!valid) {
+        throw new RCCError(`Client key '${name}' has an invalid limits.${field}: ${value}`, RCCErrorCode.CONFIG_INVALID, 'config', { details: { name, field } });
+      }
+      limits[field] = value;
+    }
+    return limits;
+  }
+
   private static _normalizeServerConfig(serverConfig: any): ServerInfo {
     return {
       port: serverConfig.port || 5506,
       host: serverConfig.host || '0.0.0.0',
-      debug: serverConfig.debug || false
+      debug: serverConfig.debug || false,
+      ...(serverConfig.adminToken ? { adminToken: String(serverConfig.adminToken) } : {})
     };
   }
 }
\ No newline at end of file
@@ -17,6 +17,8 @@ export type {
   ProviderInfo,
   RouteMapping,
   ServerInfo as ServerConfig,
+  ClientKeyInfo,
+  ClientKeyLimits,
   ConfigPreprocessResult
 } from './routing-table-types';
 
@@ -13,9 +13,19 @@
 export interface ModelInfo {
   name: string;
   maxTokens?: number;
+  // 模型价格，优先于Provider级别价格
+  price?: ModelPrice;
   [key: string]: unknown;
 }
 
+/**
+ * 模型价格（美元/百万token），供自适应负载均衡的cheapest/balanced目标使用
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
 /**
  * Provider信息接口
  */
@@ -24,7 +34,17 @@ export interface ProviderInfo {
   priority?: number;
   api_base_url: string;
   api_key: string | string[];
+  // 上游协议：openai（默认，经Transformer转换）、anthropic（原生透传）、gemini（generateContent）
+  protocol?: string;
+  // 负载均衡权重（1-100），用于加权策略
+  weight?: number;
+  // 多个api_key时的密钥轮换策略
+  keyRotation?: ApiKeyRotationSettings;
+  // Provider下所有模型的默认价格，未配置视为免费
+  price?: ModelPrice;
   maxTokens?: number;
+  // 上游请求超时（毫秒），未配置时使用系统providerTypes中的值或默认值
+  timeout?: number;
   models: (string | ModelInfo)[];
   serverCompatibility?: {
     use: string;
@@ -32,6 +52,24 @@ export interface ProviderInfo {
   };
 }
 
+/**
+ * 密钥轮换策略
+ * - round_robin: 依次使用各密钥
+ * - weighted: 按weights比例分配（平滑加权轮询）
+ */
+export type ApiKeyRotationStrategy = 'round_robin' | 'weighted';
+
+/**
+ * Provider密钥池配置（来自配置文件Providers[].keyRotation）
+ */
+export interface ApiKeyRotationSettings {
+  strategy?: ApiKeyRotationStrategy;
+  // 与api_key数组一一对应的权重，缺省为1
+  weights?: number[];
+  // 429/配额错误未返回Retry-After时的默认冷却时间（毫秒）
+  cooldownMs?: number;
+}
+
 /**
  * 路由映射接口
  */
@@ -39,6 +77,68 @@ export interface RouteMapping {
   [routeName: string]: string; // routeName -> "provider,model" format
 }
 
+/**
+ * 内容分类配置接口（来自配置文件Router区的数值字段）
+ */
+export interface RouteClassificationConfig {
+  longContextThreshold?: number;
+}
+
+/**
+ * 上下文窗口超限处理策略
+ * - reroute: 改用longContext路由中窗口足够的流水线
+ * - truncate: 从最早的tool_result开始截断，直到提示词可放入窗口
+ * - reject: 直接返回结构化错误
+ */
+export type ContextWindowPolicy = 'reroute' | 'truncate' | 'reject';
+
+/**
+ * 上下文窗口保护配置（来自配置文件Router区的contextWindowPolicy）
+ */
+export interface ContextWindowConfig {
+  policy?: ContextWindowPolicy;
+}
+
+/**
+ * 路由池负载均衡配置（来自配置文件loadBalancer区）
+ */
+export interface LoadBalancingSettings {
+  // LoadBalancingStrategy取值，如round_robin、least_response_time
+  strategy?: string;
+  stickySessions?: boolean;
+  healthCheckInterval?: number;
+  circuitBreaker?: {
+    enabled?: boolean;
+    failureThreshold?: number;
+    recoveryTimeout?: number;
+  };
+  // adaptive策略：探索流量比例(0-1)，让少用的成员保持指标新鲜
+  explorationRate?: number;
+  // 按路由类别配置的自适应目标、首token延迟SLO和请求对冲
+  routeObjectives?: Record<string, RouteObjectiveSettings>;
+}
+
+/**
+ * 路由类别的负载均衡设置
+ */
+export interface RouteObjectiveSettings {
+  objective?: 'fastest' | 'cheapest' | 'balanced';
+  maxLatencyMs?: number;
+  hedging?: RouteHedgingSettings;
+}
+
+/**
+ * 请求对冲设置 - 主流水线超过历史首字节耗时分位数仍未响应时，向池内第二个流水线发送同一请求
+ */
+export interface RouteHedgingSettings {
+  // 触发对冲的首字节耗时分位数(1-99)，默认95
+  percentile?: number;
+  // 对冲请求占该路由请求数的上限百分比，默认5
+  budgetPercent?: number;
+  // 主流水线样本数不足时不对冲，默认20
+  minSamples?: number;
+}
+
 /**
  * 服务器配置接口
  */
@@ -46,6 +146,39 @@ export interface ServerInfo {
   port: number;
   host: string;
   debug?: boolean;
+  adminToken?: string; // /admin/* 管理接口的访问令牌，未配置时管理接口不可用
+}
+
+/**
+ * 客户端密钥（来自配置文件APIKEY和clientKeys区）
+ *
+ * 配置后/v1/*请求必须携带其中一个密钥（x-api-key或Authorization: Bearer）
+ */
+export interface ClientKeyInfo {
+  name: string;
+  key: string;
+  // 允许使用的路由类别，未设置表示不限制
+  routes?: string[];
+  // 允许请求的模型，未设置表示不限制
+  models?: string[];
+  // ISO时间，之后密钥失效
+  expiresAt?: string;
+  // 限流和用量预算，未设置的项不限制
+  limits?: ClientKeyLimits;
+}
+
+/**
+ * 客户端密钥的限流和预算
+ *
+ * 每日token和每月花费按UTC自然日/自然月累计并持久化，花费按模型价格（美元/百万token）计算
+ */
+export interface ClientKeyLimits {
+  requestsPerMinute?: number;
+  maxConcurrentRequests?: number;
+  // 每日输入+输出token上限
+  tokensPerDay?: number;
+  // 每月花费上限（美元）
+  monthlySpendLimit?: number;
 }
 
 /**
@@ -54,8 +187,12 @@ export interface ServerInfo {
 export interface RoutingTable {
   providers: ProviderInfo[];
   routes: RouteMapping;
+  classification?: RouteClassificationConfig;
+  contextWindow?: ContextWindowConfig;
+  loadBalancing?: LoadBalancingSettings;
   server: ServerInfo;
   apiKey: string;
+  clientKeys?: ClientKeyInfo[];
   version?: string;
   description?: string;
   lastUpdated?: string;
@@ -333,7 +333,8 @@ export const PROTOCOL_DEFAULTS = {
   DEFAULT_MAX_TOKENS: 4096,
   DEFAULT_TOP_P: 1.0,
   DEFAULT_FREQUENCY_PENALTY: 0.0,
-  DEFAULT_PRESENCE_PENALTY: 0.0
+  DEFAULT_PRESENCE_PENALTY: 0.0,
+  ANTHROPIC_API_VERSION: '2023-06-01'
 } as const;
 
 /**
@@ -34,6 +34,14 @@ export interface ErrorClassification {
  * 错误分类器
  */
 export class ErrorClassifier {
+  private static readonly RETRYABLE_TYPES: ErrorType[] = [
+    ErrorType.SERVER_ERROR,
+    ErrorType.SOCKET_ERROR,
+    ErrorType.TIMEOUT_ERROR,
+    ErrorType.CONNECTION_ERROR,
+    ErrorType.RATE_LIMIT_ERROR
+  ];
+
   private patterns: ErrorPattern[] = [
     // RCC错误代码（最高优先级 - 系统定义错误）
     {
@@ -90,6 +98,21 @@ export class ErrorClassifier {
       priority: 95
     },
 
+    // 限流错误（高优先级 - 上游限流或配额耗尽，可换用其他Provider）
+    {
+      type: ErrorType.RATE_LIMIT_ERROR,
+      patterns: [
+        'HTTP 429',
+        'Too Many Requests',
+        'rate limit',
+        'rate_limit',
+        'quota exceeded',
+        'insufficient_quota',
+        'RESOURCE_EXHAUSTED'
+      ],
+      priority: 95
+    },
+
     // 认证错误（高优先级 - 影响用户访问）
     {
       type: ErrorType.AUTH_ERROR,
@@ -138,6 +161,7 @@ export class ErrorClassifier {
       type: ErrorType.TIMEOUT_ERROR,
       patterns: [
         'timeout',
+        'timed out',
         'ETIMEDOUT',
         'request timeout',
         'operation timeout',
@@ -299,6 +323,18 @@ export class ErrorClassifier {
     return bestMatch;
   }
 
+  /**
+   * 错误是否可在其他Provider上重试（超时、5xx、429、连接中断）
+   */
+  public isRetryable(
+    errorMessage: string,
+    stackTrace?: string,
+    context?: Record<string, any>
+  ): boolean {
+    const classification = this.classify(errorMessage, stackTrace, context);
+    return ErrorClassifier.RETRYABLE_TYPES.includes(classification.type);
+  }
+
   /**
    * 计算模式匹配分数
    */
@@ -18,6 +18,8 @@ export interface RequestContext {
   processingLayer?: string;
   timestamp?: Date;
   metadata?: Record<string, any>;
+  // 请求被取消时中止上游连接
+  signal?: AbortSignal;
 }
 
 /**
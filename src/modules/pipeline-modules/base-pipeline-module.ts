@@ -7,7 +7,7 @@
  */
 
 import { EventEmitter } from 'events';
-import { ModuleInterface, ModuleStatus, ModuleMetrics, ModuleType } from '../pipeline/src/module-interface';
+import { ModuleInterface, ModuleStatus, ModuleMetrics, ModuleType, ModuleProcessingContext } from '../pipeline/src/module-interface';
 
 /**
  * 基础流水线模块抽象类
@@ -125,12 +125,12 @@ export abstract class BasePipelineModule extends EventEmitter implements ModuleI
     }
   }
 
-  async process(input: any): Promise<any> {
+  async process(input: any, context?: ModuleProcessingContext): Promise<any> {
     const startTime = Date.now();
     this.lastActivity = new Date();
 
     try {
-      const result = await this.doProcess(input);
+      const result = await this.doProcess(input, context);
 
       // 更新指标
       const processingTime = Date.now() - startTime;
@@ -285,7 +285,7 @@ export abstract class BasePipelineModule extends EventEmitter implements ModuleI
   /**
    * 子类实现具体的处理逻辑
    */
-  protected abstract doProcess(input: any): Promise<any>;
+  protected abstract doProcess(input: any, context?: ModuleProcessingContext): Promise<any>;
 
   /**
    * 子类实现具体的重置逻辑
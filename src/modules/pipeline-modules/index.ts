@@ -11,8 +11,10 @@
 
 // Protocol层
 export { OpenAIProtocolModule } from './protocol/openai-protocol';
+export { AnthropicProtocolModule, isAnthropicPassthroughRequest } from './protocol/anthropic-protocol';
 
 // Server-Compatibility层
+export { ServerCompatibilityModule } from './server-compatibility/server-compatibility-base';
 export { LMStudioCompatibilityModule } from './server-compatibility/lmstudio-compatibility';
 export { OllamaCompatibilityModule } from './server-compatibility/ollama-compatibility';
 export { VLLMCompatibilityModule } from './server-compatibility/vllm-compatibility';
@@ -20,6 +22,8 @@ export { IFlowCompatibilityModule } from './server-compatibility/iflow-compatibi
 
 // Server层
 export { OpenAIServerModule } from './server/openai-server';
+export { AnthropicServerModule } from './server/anthropic-server';
+export { GeminiServerModule } from './server/gemini-server';
 
 // 完整流水线
 // export { LMStudioPipeline } from './lmstudio-pipeline'; // REMOVED - 违背模块化架构设计
@@ -58,6 +62,10 @@ export type {
   OpenAIServerConfig,
 } from './server/openai-server';
 
+export type { AnthropicPassthroughRequest } from './protocol/anthropic-protocol';
+export type { AnthropicServerConfig } from './server/anthropic-server';
+export type { GeminiServerConfig } from './server/gemini-server';
+
 // export type {
 //   // Pipeline类型
 //   LMStudioPipelineConfig,
@@ -0,0 +1,122 @@
+/**
+ * Anthropic Protocol Module
+ *
+ * Anthropic原生协议流水线的Protocol层 - 不经过Transformer，请求原样透传
+ *
+ * - 输入：HTTP层的流水线输入包装或Anthropic Messages请求
+ * - 输出：AnthropicPassthroughRequest，仅把model替换为路由选中的上游模型
+ * - cache_control、thinking、metadata等字段保持不变
+ *
+ * @author RCC v4.0
+ */
+
+import { BasePipelineModule } from '../base-pipeline-module';
+import { ModuleType, ModuleProcessingContext, isStreamingResponseBody } from '../../pipeline/src/module-interface';
+import { RCCError, RCCErrorCode } from '../../types/src/index';
+import { secureLogger } from '../../error-handler/src/utils/secure-logger';
+
+/**
+ * 透传到上游的客户端请求头
+ */
+const FORWARDED_HEADERS = ['anthropic-version', 'anthropic-beta'];
+
+/**
+ * 透传请求 - Protocol层输出，Server层输入
+ */
+export interface AnthropicPassthroughRequest {
+  object: 'anthropic_passthrough';
+  request: Record<string, any>;
+  forwardHeaders: Record<string, string>;
+}
+
+/**
+ * 判断是否为透传请求
+ */
+export function isAnthropicPassthroughRequest(value: any): value is AnthropicPassthroughRequest {
+  return !!value &&
+    typeof value === 'object' &&
+    value.object === 'anthropic_passthrough' &&
+    !!value.request &&
+    typeof value.request === 'object';
+}
+
+/**
+ * Anthropic原生协议模块
+ */
+export class AnthropicProtocolModule extends BasePipelineModule {
+  constructor() {
+    super('protocol-module-anthropic-passthrough', 'Anthropic Passthrough Protocol Module', ModuleType.PROTOCOL, '4.0.0');
+  }
+
+  /**
+   * 处理协议透传
+   */
+  protected async doProcess(input: any, context?: ModuleProcessingContext): Promise<any> {
+    // 上游响应（流式或非流式）直接传递
+    if (isStreamingResponseBody(input) || this.isAnthropicResponse(input)) {
+      return input;
+    }
+
+    if (isAnthropicPassthroughRequest(input)) {
+      return input;
+    }
+
+    // HTTP层传入 { endpoint, method, headers, body, ... } 包装
+    const isWrapped = !!input && typeof input === 'object' && !!input.body && typeof input.body === 'object';
+    const body = isWrapped ? input.body : input;
+
+    if (!body || typeof body !== 'object' || !Array.isArray(body.messages)) {
+      throw new RCCError(
+        'Anthropic passthrough requires a Messages request with a messages array',
+        RCCErrorCode.VALIDATION_ERROR,
+        'anthropic-protocol',
+        { pipelineId: context?.pipelineId }
+      );
+    }
+
+    const request = {
+      ...body,
+      model: context?.model || body.model
+    };
+
+    secureLogger.debug('➡️ [ANTHROPIC-PROTOCOL] Anthropic请求原样透传', {
+      pipelineId: context?.pipelineId,
+      requestedModel: body.model,
+      upstreamModel: request.model,
+      stream: request.stream === true
+    });
+
+    return {
+      object: 'anthropic_passthrough',
+      request,
+      forwardHeaders: isWrapped ? this.pickForwardHeaders(input.headers) : {}
+    } as AnthropicPassthroughRequest;
+  }
+
+  /**
+   * 提取需要透传的客户端请求头
+   */
+  private pickForwardHeaders(headers: Record<string, any> | undefined): Record<string, string> {
+    const forwarded: Record<string, string> = {};
+    if (!headers || typeof headers !== 'object') {
+      return forwarded;
+    }
+
+    for (const [name, value] of Object.entries(headers)) {
+      const headerName = name.toLowerCase();
+      if (!FORWARDED_HEADERS.includes(headerName) || value === undefined) {
+        continue;
+      }
+      forwarded[headerName] = Array.isArray(value) ? value.join(',') : String(value);
+    }
+
+    return forwarded;
+  }
+
+  /**
+   * 判断是否为Anthropic非流式响应
+   */
+  private isAnthropicResponse(input: any): boolean {
+    return !!input && typeof input === 'object' && input.type === 'message' && Array.isArray(input.content);
+  }
+}
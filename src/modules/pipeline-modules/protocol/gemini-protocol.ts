@@ -13,7 +13,7 @@
  * @version 1.0.0-security-fix
  */
 
-import { ModuleInterface, ModuleStatus, ModuleType, ModuleMetrics } from '../../pipeline/src/module-interface';
+import { ModuleInterface, ModuleStatus, ModuleType, ModuleMetrics, isStreamingResponseBody } from '../../pipeline/src/module-interface';
 import { EventEmitter } from 'events';
 
 // 导入OpenAI标准格式 - Protocol层必须使用
@@ -39,7 +39,8 @@ export interface GeminiStreamRequest_DEPRECATED {
  * Gemini非流式请求格式
  */
 export interface GeminiNonStreamRequest {
-  project: string;
+  // Code Assist端点需要project，generateContent公开API不需要
+  project?: string;
   request: {
     contents: Array<{
       role: 'user' | 'model';
@@ -135,8 +136,8 @@ export interface GeminiStreamResponse {
  * 符合CLAUDE.md规范的Protocol模块 
  * 
  * ✅ SECURITY COMPLIANT: 仅处理OpenAI格式
- * - 输入：StreamRequest | NonStreamRequest | NonStreamResponse  
- * - 输出：NonStreamRequest | StreamResponse
+ * - 输入：StreamRequest | NonStreamRequest | NonStreamResponse | 实时流式响应
+ * - 输出：原样传递，保留stream标志，不再强制转换为非流式
  * - 严禁：任何Gemini原生格式处理
  */
 export class GeminiProtocolModule extends EventEmitter implements ModuleInterface {
@@ -239,12 +240,10 @@ export class GeminiProtocolModule extends EventEmitter implements ModuleInterfac
   // ============================================================================
 
   /**
-   * 处理协议转换
-   * 支持：流式请求 → 非流式请求 和 非流式响应 → 流式响应
+   * 处理协议传递
+   * 流式请求保持流式发送至上游，上游实时流式响应逐事件向下游传递
    */
-  async process(
-    input: StreamRequest | GeminiNonStreamRequest | GeminiNonStreamResponse
-  ): Promise<GeminiNonStreamRequest | GeminiStreamResponse> {
+  async process(input: any): Promise<any> {
     if (this.status !== 'running') {
       throw new Error('Gemini协议模块未运行');
     }
@@ -253,32 +252,32 @@ export class GeminiProtocolModule extends EventEmitter implements ModuleInterfac
     this.metrics.requestsProcessed++;
 
     try {
-      if (this.isGeminiStreamRequest(input)) {
-        console.log(`🌊 转换Gemini流式请求 → 非流式请求`);
-        const result = this.convertToNonStreaming(input as StreamRequest);
+      if (isStreamingResponseBody(input)) {
+        console.log(`🌊 实时流式响应直接传递`);
         this.updateMetrics(startTime);
-        console.log(`✅ Gemini流式→非流式转换完成`);
-        return result;
-        
-      } else if (this.isGeminiNonStreamRequest(input)) {
-        console.log(`➡️ Gemini非流式请求直接传递`);
+        return input;
+
+      } else if (this.isOpenAIRequest(input)) {
+        console.log(`➡️ OpenAI格式请求直接传递 (stream=${input.stream === true})`);
         this.updateMetrics(startTime);
-        console.log(`✅ Gemini非流式请求处理完成`);
-        return input as GeminiNonStreamRequest;
+        return input;
+
+      } else if (this.isGeminiStreamRequest(input) || this.isGeminiNonStreamRequest(input)) {
+        console.log(`➡️ Gemini请求直接传递 (stream=${input.stream === true})`);
+        this.updateMetrics(startTime);
+        return input;
         
       } else if (this.isGeminiNonStreamResponse(input)) {
-        console.log(`🔄 转换Gemini非流式响应 → 流式响应`);
-        const result = this.convertToStreaming(input as GeminiNonStreamResponse);
+        console.log(`➡️ Gemini非流式响应直接传递`);
         this.updateMetrics(startTime);
-        console.log(`✅ Gemini非流式→流式转换完成`);
-        return result;
+        return input as GeminiNonStreamResponse;
         
       } else {
         throw new Error('不支持的Gemini输入格式');
       }
     } catch (error) {
       this.metrics.errorRate = (this.metrics.errorRate * (this.metrics.requestsProcessed - 1) + 1) / this.metrics.requestsProcessed;
-      console.error(`❌ Gemini协议转换失败:`, error.message);
+      console.error(`❌ Gemini协议处理失败:`, error.message);
       throw error;
     }
   }
@@ -287,10 +286,17 @@ export class GeminiProtocolModule extends EventEmitter implements ModuleInterfac
   // 类型判断方法
   // ============================================================================
 
+  private isOpenAIRequest(input: any): boolean {
+    return !!(
+      input &&
+      typeof input.model === 'string' &&
+      Array.isArray(input.messages)
+    );
+  }
+
   private isGeminiStreamRequest(input: any): boolean {
     return !!(
       input &&
-      input.project &&
       input.request &&
       Array.isArray(input.request.contents) &&
       input.model &&
@@ -301,7 +307,6 @@ export class GeminiProtocolModule extends EventEmitter implements ModuleInterfac
   private isGeminiNonStreamRequest(input: any): boolean {
     return !!(
       input &&
-      input.project &&
       input.request &&
       Array.isArray(input.request.contents) &&
       input.model &&
@@ -319,127 +324,6 @@ export class GeminiProtocolModule extends EventEmitter implements ModuleInterfac
     );
   }
 
-  // ============================================================================
-  // 转换方法
-  // ============================================================================
-
-  /**
-   * Gemini流式请求 → 非流式请求
-   */
-  private convertToNonStreaming(streamRequest: StreamRequest): GeminiNonStreamRequest {
-    console.log('🔄 Gemini协议转换: stream=true → stream=false');
-    
-    // 🔒 SECURITY FIX: 修复Protocol层格式转换
-    // 将OpenAI StreamRequest转换为Gemini格式（应该在ServerCompatibility层处理）
-    // TODO: 此转换应移至ServerCompatibility层
-    const nonStreamRequest: GeminiNonStreamRequest = {
-      project: 'default-project', // TODO: 从配置获取
-      request: {
-        contents: streamRequest.messages.map(msg => ({
-          role: msg.role === 'user' ? 'user' : 'model',
-          parts: [{ text: msg.content }]
-        })),
-        generationConfig: {
-          temperature: streamRequest.temperature || 0.7,
-          maxOutputTokens: streamRequest.max_tokens || 4096,
-          topP: streamRequest.top_p || 0.9
-        }
-      },
-      model: streamRequest.model,
-      stream: false
-    };
-
-    return nonStreamRequest;
-  }
-
-  /**
-   * Gemini非流式响应 → 流式响应
-   */
-  private convertToStreaming(nonStreamResponse: GeminiNonStreamResponse): GeminiStreamResponse {
-    console.log('🔄 Gemini协议转换: 生成流式chunks');
-    
-    const chunks: GeminiStreamChunk[] = [];
-    const candidate = nonStreamResponse.candidates[0];
-    
-    if (!candidate) {
-      throw new Error('Gemini响应缺少candidates');
-    }
-
-    // 生成开始chunk (role)
-    const startChunk: GeminiStreamChunk = {
-      response: {
-        candidates: [{
-          content: {
-            role: 'model',
-            parts: []
-          }
-        }]
-      }
-    };
-    chunks.push(startChunk);
-
-    // 处理文本内容
-    for (const part of candidate.content.parts) {
-      if (part.text) {
-        // 将文本分割成多个chunk模拟流式传输
-        const text = part.text;
-        const chunkSize = Math.max(1, Math.ceil(text.length / 8)); // 分成约8个chunk
-
-        for (let i = 0; i < text.length; i += chunkSize) {
-          const textPart = text.slice(i, i + chunkSize);
-          const textChunk: GeminiStreamChunk = {
-            response: {
-              candidates: [{
-                content: {
-                  role: 'model',
-                  parts: [{ text: textPart }]
-                }
-              }]
-            }
-          };
-          chunks.push(textChunk);
-        }
-      }
-
-      // 处理函数调用
-      if (part.functionCall) {
-        const functionChunk: GeminiStreamChunk = {
-          response: {
-            candidates: [{
-              content: {
-                role: 'model',
-                parts: [{ functionCall: part.functionCall }]
-              }
-            }]
-          }
-        };
-        chunks.push(functionChunk);
-      }
-    }
-
-    // 生成结束chunk (包含finishReason和usage)
-    const endChunk: GeminiStreamChunk = {
-      response: {
-        candidates: [{
-          content: {
-            role: 'model',
-            parts: []
-          },
-          finishReason: candidate.finishReason || 'STOP'
-        }],
-        ...(nonStreamResponse.usageMetadata && { usageMetadata: nonStreamResponse.usageMetadata })
-      }
-    };
-    chunks.push(endChunk);
-
-    console.log(`🌊 Gemini协议转换: 生成${chunks.length}个流式chunk`);
-
-    return {
-      chunks,
-      aggregatedResponse: nonStreamResponse
-    };
-  }
-
   // ============================================================================
   // 辅助方法
   // ============================================================================
@@ -12,7 +12,7 @@
  * @version 2.0.0 - 四层双向处理架构
  */
 
-import { ModuleInterface, ModuleStatus, ModuleType, ModuleMetrics } from '../../pipeline/src/module-interface';
+import { ModuleInterface, ModuleStatus, ModuleType, ModuleMetrics, isStreamingResponseBody } from '../../pipeline/src/module-interface';
 import { BidirectionalProtocolProcessor, RequestContext, ResponseContext } from '../../interfaces/module/four-layer-interfaces';
 import { EventEmitter } from 'events';
 import { UnifiedErrorHandlerInterface } from '../../error-handler/src/unified-error-handler-interface';
@@ -270,7 +270,7 @@ export class OpenAIProtocolModule extends EventEmitter implements ModuleInterfac
     
     // 固化预配置 - 运行时不可更改
     this.preConfig = {
-      enableStreamConversion: preConfig?.enableStreamConversion ?? true,
+      enableStreamConversion: preConfig?.enableStreamConversion ?? false,
       enableProtocolValidation: preConfig?.enableProtocolValidation ?? true,
       defaultStreamMode: preConfig?.defaultStreamMode ?? false,
       maxRequestSize: preConfig?.maxRequestSize ?? 10 * 1024 * 1024, // 10MB
@@ -329,6 +329,10 @@ export class OpenAIProtocolModule extends EventEmitter implements ModuleInterfac
         this.updateRequestMetrics(Date.now() - startTime, true);
         console.log(`✅ 协议流式控制完成 (${Date.now() - startTime}ms)`);
         return result;
+      } else if (this.isStreamRequest(input)) {
+        console.log(`🌊 协议控制: 流式请求直接传递至上游`);
+        this.updateRequestMetrics(Date.now() - startTime, true);
+        return input;
       } else if (this.isNonStreamRequest(input)) {
         console.log(`➡️ 协议控制: 非流式请求直接传递`);
         this.updateRequestMetrics(Date.now() - startTime, true);
@@ -381,6 +385,13 @@ export class OpenAIProtocolModule extends EventEmitter implements ModuleInterfac
         return input;
       }
       
+      // 上游实时流式响应直接传递，由Transformer逐事件转换
+      if (isStreamingResponseBody(input)) {
+        console.log(`🌊 协议控制: 实时流式响应直接传递`);
+        this.updateResponseMetrics(Date.now() - startTime, true);
+        return input;
+      }
+      
       // 验证协议格式
       this.validateProtocol(input);
       
@@ -422,7 +433,9 @@ export class OpenAIProtocolModule extends EventEmitter implements ModuleInterfac
     input: StreamRequest | NonStreamRequest | NonStreamResponse
   ): Promise<NonStreamRequest | StreamResponse> {
     // 自动检测是请求还是响应，调用相应的新接口
-    if (this.isRequest(input)) {
+    if (isStreamingResponseBody(input)) {
+      return await this.processResponse(input);
+    } else if (this.isRequest(input)) {
       return await this.processRequest(input);
     } else if (this.isResponse(input)) {
       return await this.processResponse(input);
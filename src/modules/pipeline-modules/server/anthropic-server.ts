@@ -0,0 +1,252 @@
+/**
+ * Anthropic Server Module
+ *
+ * Anthropic原生协议流水线的Server层 - 将Messages请求原样发送到Anthropic兼容上游
+ *
+ * - 端点、API Key、超时按流水线读取（ModuleProcessingContext.config），共享实例可服务多个Provider
+ * - 非流式：返回上游Anthropic响应
+ * - 流式：返回StreamingResponseBody，逐个产出上游Anthropic事件
+ *
+ * @author RCC v4.0
+ */
+
+import * as http from 'http';
+import { BasePipelineModule } from '../base-pipeline-module';
+import { ModuleType, ModuleProcessingContext, StreamingResponseBody } from '../../pipeline/src/module-interface';
+import { AnthropicPassthroughRequest, isAnthropicPassthroughRequest } from '../protocol/anthropic-protocol';
+import { AnthropicStreamEvent } from '../transformers/openai-anthropic-stream-converter';
+import { parseSSEStream } from './sse-stream-parser';
+import { openUpstreamConnection, readResponseBody, mapUpstreamStatusCode, parseRetryAfter } from './upstream-http-client';
+import { API_PATHS, PROTOCOL_BASE_URLS, PROTOCOL_DEFAULTS } from '../../constants/src/pipeline-constants';
+import { RCCError, RCCErrorCode } from '../../types/src/index';
+import { JQJsonHandler } from '../../utils/jq-json-handler';
+import { secureLogger } from '../../error-handler/src/utils/secure-logger';
+
+/**
+ * Anthropic Server配置
+ */
+export interface AnthropicServerConfig {
+  endpoint?: string;
+  apiKey?: string;
+  timeout: number;
+  anthropicVersion: string;
+}
+
+/**
+ * 单次请求的上游目标
+ */
+interface UpstreamTarget {
+  url: URL;
+  apiKey?: string;
+  timeout: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * Anthropic原生Server模块
+ */
+export class AnthropicServerModule extends BasePipelineModule {
+  private readonly serverConfig: AnthropicServerConfig;
+
+  constructor(config: Partial<AnthropicServerConfig> = {}) {
+    super('server-module-anthropic', 'Anthropic Server Module', ModuleType.SERVER, '4.0.0');
+
+    this.serverConfig = {
+      timeout: PROTOCOL_DEFAULTS.REQUEST_TIMEOUT_MS,
+      anthropicVersion: PROTOCOL_DEFAULTS.ANTHROPIC_API_VERSION,
+      ...config
+    };
+  }
+
+  /**
+   * 发送请求到Anthropic兼容上游
+   */
+  protected async doProcess(input: any, context?: ModuleProcessingContext): Promise<any> {
+    const passthrough: AnthropicPassthroughRequest = isAnthropicPassthroughRequest(input)
+      ? input
+      : { object: 'anthropic_passthrough', request: input, forwardHeaders: {} };
+
+    if (!passthrough.request || !Array.isArray(passthrough.request.messages)) {
+      throw new RCCError(
+        'Anthropic server requires a Messages request',
+        RCCErrorCode.VALIDATION_ERROR,
+        'anthropic-server',
+        { pipelineId: context?.pipelineId }
+      );
+    }
+
+    const target = this.resolveTarget(context);
+    const requestId = context?.requestId || `anthropic_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+    if (passthrough.request.stream === true) {
+      return this.sendStreamRequest(passthrough, target, requestId);
+    }
+
+    const res = await this.openConnection(passthrough, target, requestId);
+    const body = await readResponseBody(res);
+
+    try {
+      return JQJsonHandler.parseJsonString(body);
+    } catch {
+      throw new RCCError(
+        'Anthropic upstream returned a non-JSON response',
+        RCCErrorCode.PROVIDER_UNAVAILABLE,
+        'anthropic-server',
+        { requestId, details: { endpoint: target.url.toString() } }
+      );
+    }
+  }
+
+  /**
+   * 建立流式连接，连接成功后逐事件产出
+   */
+  private async sendStreamRequest(
+    passthrough: AnthropicPassthroughRequest,
+    target: UpstreamTarget,
+    requestId: string
+  ): Promise<StreamingResponseBody<AnthropicStreamEvent>> {
+    const res = await this.openConnection(passthrough, target, requestId);
+
+    return {
+      object: 'stream',
+      id: requestId,
+      model: passthrough.request.model,
+      stream: this.readStreamEvents(res, requestId)
+    };
+  }
+
+  /**
+   * 解析当前流水线的上游目标
+   */
+  private resolveTarget(context?: ModuleProcessingContext): UpstreamTarget {
+    const endpoint = context?.config?.endpoint || this.serverConfig.endpoint || PROTOCOL_BASE_URLS.ANTHROPIC.DEFAULT;
+
+    return {
+      url: AnthropicServerModule.resolveMessagesUrl(endpoint),
+      apiKey: context?.config?.apiKey || this.serverConfig.apiKey,
+      timeout: context?.config?.timeout || this.serverConfig.timeout,
+      signal: context?.signal
+    };
+  }
+
+  /**
+   * 由Provider的api_base_url得到Messages端点
+   * 支持 https://host、https://host/v1、https://host/v1/messages 三种写法
+   */
+  static resolveMessagesUrl(endpoint: string): URL {
+    const base = endpoint.replace(/\/+$/, '');
+
+    if (base.endsWith(API_PATHS.ANTHROPIC.MESSAGES)) {
+      return new URL(base);
+    }
+    if (base.endsWith('/v1')) {
+      return new URL(`${base}/messages`);
+    }
+    return new URL(`${base}${API_PATHS.ANTHROPIC.MESSAGES}`);
+  }
+
+  /**
+   * 发送请求并等待响应头；上游错误状态码在此抛出
+   */
+  private openConnection(
+    passthrough: AnthropicPassthroughRequest,
+    target: UpstreamTarget,
+    requestId: string
+  ): Promise<http.IncomingMessage> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'Accept': passthrough.request.stream === true ? 'text/event-stream' : 'application/json',
+      'anthropic-version': passthrough.forwardHeaders['anthropic-version'] || this.serverConfig.anthropicVersion
+    };
+    if (passthrough.forwardHeaders['anthropic-beta']) {
+      headers['anthropic-beta'] = passthrough.forwardHeaders['anthropic-beta'];
+    }
+    if (target.apiKey) {
+      headers['x-api-key'] = target.apiKey;
+    }
+
+    secureLogger.debug('📡 [ANTHROPIC-SERVER] 发送Anthropic请求', {
+      requestId,
+      endpoint: target.url.toString(),
+      model: passthrough.request.model,
+      stream: passthrough.request.stream === true
+    });
+
+    return openUpstreamConnection({
+      url: target.url,
+      body: JQJsonHandler.stringifyJson(passthrough.request),
+      headers,
+      timeout: target.timeout,
+      requestId,
+      moduleId: 'anthropic-server',
+      displayEndpoint: target.url.toString(),
+      createError: (statusCode, body, headers) => this.createUpstreamError(statusCode, body, headers, requestId, target),
+      signal: target.signal
+    });
+  }
+
+  /**
+   * 逐个读取上游Anthropic流式事件
+   */
+  private async *readStreamEvents(res: http.IncomingMessage, requestId: string): AsyncGenerator<AnthropicStreamEvent> {
+    let completed = false;
+    let eventCount = 0;
+
+    try {
+      for await (const sseEvent of parseSSEStream(res)) {
+        const event = JQJsonHandler.parseJsonString(sseEvent.data) as AnthropicStreamEvent;
+
+        if (event?.type === 'error') {
+          throw new RCCError(
+            `Anthropic upstream stream error: ${event.error?.message || JQJsonHandler.stringifyJson(event.error)}`,
+            RCCErrorCode.PROVIDER_UNAVAILABLE,
+            'anthropic-server',
+            { requestId, details: { errorType: event.error?.type } }
+          );
+        }
+
+        eventCount++;
+        yield event;
+
+        if (event?.type === 'message_stop') {
+          break;
+        }
+      }
+      completed = true;
+      secureLogger.debug('✅ [ANTHROPIC-SERVER] 上游流式响应完成', { requestId, eventCount });
+    } finally {
+      // 下游中断或解析失败时关闭上游连接
+      if (!completed) {
+        res.destroy();
+      }
+    }
+  }
+
+  /**
+   * 将上游错误状态码映射为RCCError
+   */
+  private createUpstreamError(
+    statusCode: number,
+    body: string,
+    headers: http.IncomingHttpHeaders,
+    requestId: string,
+    target: UpstreamTarget
+  ): RCCError {
+    let message = body;
+    let errorType: string | undefined;
+    try {
+      const parsed = JQJsonHandler.parseJsonString(body);
+      message = parsed?.error?.message || body;
+      errorType = parsed?.error?.type;
+    } catch {
+      // 非JSON错误体，保留原始文本
+    }
+
+    return new RCCError(
+      `Anthropic upstream HTTP ${statusCode}: ${message}`,
+      mapUpstreamStatusCode(statusCode),
+      'anthropic-server',
+      { requestId, details: { statusCode, errorType, retryAfterMs: parseRetryAfter(headers['retry-after']), endpoint: target.url.toString() } }
+    );
+  }
+}
@@ -0,0 +1,234 @@
+/**
+ * Gemini Server Module
+ *
+ * Gemini流水线的Server层 - 调用generateContent / streamGenerateContent
+ *
+ * - 端点、API Key、超时按流水线读取（ModuleProcessingContext.config），共享实例可服务多个Provider
+ * - API Key通过查询参数key传递
+ * - 非流式：返回Gemini响应，由Transformer转换回Anthropic格式
+ * - 流式：使用alt=sse，返回StreamingResponseBody，逐个产出Gemini chunk
+ *
+ * @author RCC v4.0
+ */
+
+import * as http from 'http';
+import { BasePipelineModule } from '../base-pipeline-module';
+import { ModuleType, ModuleProcessingContext, StreamingResponseBody } from '../../pipeline/src/module-interface';
+import { GeminiGenerateContentRequest } from '../transformers/anthropic-gemini-converter';
+import { parseSSEStream } from './sse-stream-parser';
+import { openUpstreamConnection, readResponseBody, mapUpstreamStatusCode, parseRetryAfter } from './upstream-http-client';
+import { API_PATHS, PROTOCOL_BASE_URLS, PROTOCOL_DEFAULTS } from '../../constants/src/pipeline-constants';
+import { RCCError, RCCErrorCode } from '../../types/src/index';
+import { JQJsonHandler } from '../../utils/jq-json-handler';
+import { secureLogger } from '../../error-handler/src/utils/secure-logger';
+
+/**
+ * Gemini Server配置
+ */
+export interface GeminiServerConfig {
+  endpoint?: string;
+  apiKey?: string;
+  timeout: number;
+}
+
+/**
+ * 单次请求的上游目标
+ */
+interface UpstreamTarget {
+  url: URL;
+  // 不含API Key的端点，用于日志和错误信息
+  displayEndpoint: string;
+  timeout: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * Gemini Server模块
+ */
+export class GeminiServerModule extends BasePipelineModule {
+  private readonly serverConfig: GeminiServerConfig;
+
+  constructor(config: Partial<GeminiServerConfig> = {}) {
+    super('server-module-gemini', 'Gemini Server Module', ModuleType.SERVER, '4.0.0');
+
+    this.serverConfig = {
+      timeout: PROTOCOL_DEFAULTS.REQUEST_TIMEOUT_MS,
+      ...config
+    };
+  }
+
+  /**
+   * 发送请求到Gemini上游
+   */
+  protected async doProcess(input: any, context?: ModuleProcessingContext): Promise<any> {
+    const geminiRequest = input as GeminiGenerateContentRequest;
+    if (!geminiRequest || !geminiRequest.request || !Array.isArray(geminiRequest.request.contents) || !geminiRequest.model) {
+      throw new RCCError(
+        'Gemini server requires a generateContent request with model and contents',
+        RCCErrorCode.VALIDATION_ERROR,
+        'gemini-server',
+        { pipelineId: context?.pipelineId }
+      );
+    }
+
+    const stream = geminiRequest.stream === true;
+    const target = this.resolveTarget(geminiRequest.model, stream, context);
+    const requestId = context?.requestId || `gemini_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+    secureLogger.debug('📡 [GEMINI-SERVER] 发送Gemini请求', {
+      requestId,
+      endpoint: target.displayEndpoint,
+      model: geminiRequest.model,
+      stream
+    });
+
+    const res = await openUpstreamConnection({
+      url: target.url,
+      body: JQJsonHandler.stringifyJson(geminiRequest.request),
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': stream ? 'text/event-stream' : 'application/json'
+      },
+      timeout: target.timeout,
+      requestId,
+      moduleId: 'gemini-server',
+      displayEndpoint: target.displayEndpoint,
+      createError: (statusCode, body, headers) => this.createUpstreamError(statusCode, body, headers, requestId, target),
+      signal: target.signal
+    });
+
+    if (stream) {
+      return {
+        object: 'stream',
+        id: requestId,
+        model: geminiRequest.model,
+        stream: this.readStreamChunks(res, requestId)
+      } as StreamingResponseBody;
+    }
+
+    const body = await readResponseBody(res);
+    try {
+      return JQJsonHandler.parseJsonString(body);
+    } catch {
+      throw new RCCError(
+        'Gemini upstream returned a non-JSON response',
+        RCCErrorCode.PROVIDER_UNAVAILABLE,
+        'gemini-server',
+        { requestId, details: { endpoint: target.displayEndpoint } }
+      );
+    }
+  }
+
+  /**
+   * 解析当前流水线的上游目标
+   */
+  private resolveTarget(model: string, stream: boolean, context?: ModuleProcessingContext): UpstreamTarget {
+    const endpoint = context?.config?.endpoint || this.serverConfig.endpoint || PROTOCOL_BASE_URLS.GEMINI.DEFAULT;
+    const url = GeminiServerModule.resolveGenerateContentUrl(endpoint, model, stream);
+    const displayEndpoint = url.toString();
+
+    const apiKey = context?.config?.apiKey || this.serverConfig.apiKey;
+    if (apiKey) {
+      url.searchParams.set('key', apiKey);
+    }
+
+    return {
+      url,
+      displayEndpoint,
+      timeout: context?.config?.timeout || this.serverConfig.timeout,
+      signal: context?.signal
+    };
+  }
+
+  /**
+   * 由Provider的api_base_url得到generateContent端点
+   * 支持 https://host 和 https://host/v1beta（或其他版本路径）两种写法
+   */
+  static resolveGenerateContentUrl(endpoint: string, model: string, stream: boolean): URL {
+    const base = endpoint.replace(/\/+$/, '').replace(/\/models$/, '');
+    const template = stream ? API_PATHS.GEMINI.STREAMING_GENERATE_CONTENT : API_PATHS.GEMINI.GENERATE_CONTENT;
+    let path = template.replace('{model}', encodeURIComponent(model));
+
+    // 端点已包含版本路径时不再追加默认的/v1beta
+    if (/\/v\d+(alpha|beta)?\d*$/.test(base)) {
+      path = path.replace(/^\/v1beta/, '');
+    }
+
+    const url = new URL(`${base}${path}`);
+    if (stream) {
+      url.searchParams.set('alt', 'sse');
+    }
+    return url;
+  }
+
+  /**
+   * 逐个读取上游Gemini流式chunk
+   */
+  private async *readStreamChunks(res: http.IncomingMessage, requestId: string): AsyncGenerator<any> {
+    let completed = false;
+    let chunkCount = 0;
+
+    try {
+      for await (const sseEvent of parseSSEStream(res)) {
+        const chunk = JQJsonHandler.parseJsonString(sseEvent.data);
+
+        if (chunk?.error) {
+          throw new RCCError(
+            `Gemini upstream stream error: ${chunk.error.message || JQJsonHandler.stringifyJson(chunk.error)}`,
+            RCCErrorCode.PROVIDER_UNAVAILABLE,
+            'gemini-server',
+            { requestId, details: { status: chunk.error.status } }
+          );
+        }
+
+        chunkCount++;
+        yield chunk;
+      }
+      completed = true;
+      secureLogger.debug('✅ [GEMINI-SERVER] 上游流式响应完成', { requestId, chunkCount });
+    } finally {
+      // 下游中断或解析失败时关闭上游连接
+      if (!completed) {
+        res.destroy();
+      }
+    }
+  }
+
+  /**
+   * 将上游错误状态码映射为RCCError
+   */
+  private createUpstreamError(
+    statusCode: number,
+    body: string,
+    headers: http.IncomingHttpHeaders,
+    requestId: string,
+    target: UpstreamTarget
+  ): RCCError {
+    let message = body;
+    let status: string | undefined;
+    let retryAfterMs = parseRetryAfter(headers['retry-after']);
+    try {
+      const parsed = JQJsonHandler.parseJsonString(body);
+      const error = Array.isArray(parsed) ? parsed[0]?.error : parsed?.error;
+      message = error?.message || body;
+      status = error?.status;
+
+      // RESOURCE_EXHAUSTED通常在RetryInfo中给出重试间隔（如"30s"）
+      const retryInfo = Array.isArray(error?.details)
+        ? error.details.find((detail: any) => typeof detail?.retryDelay === 'string')
+        : undefined;
+      if (retryAfterMs === undefined && retryInfo) {
+        retryAfterMs = parseRetryAfter(retryInfo.retryDelay.replace(/s$/, ''));
+      }
+    } catch {
+      // 非JSON错误体，保留原始文本
+    }
+
+    return new RCCError(
+      `Gemini upstream HTTP ${statusCode}: ${message}`,
+      mapUpstreamStatusCode(statusCode),
+      'gemini-server',
+      { requestId, details: { statusCode, status, retryAfterMs, endpoint: target.displayEndpoint } }
+    );
+  }
+}
@@ -7,7 +7,7 @@
  * @author Jason Zhang
  */
 
-import { ModuleInterface, ModuleStatus, ModuleType, ModuleMetrics } from '../../pipeline/src/module-interface';
+import { ModuleInterface, ModuleStatus, ModuleType, ModuleMetrics, StreamingResponseBody, ModuleProcessingContext } from '../../pipeline/src/module-interface';
 import { BidirectionalServerProcessor, RequestContext, ResponseContext } from '../../interfaces/module/four-layer-interfaces';
 import { EventEmitter } from 'events';
 import { OpenAI } from 'openai';
@@ -17,6 +17,8 @@ import { UnifiedErrorHandlerInterface } from '../../error-handler/src/unified-er
 import { UnifiedErrorHandlerFactory } from '../../error-handler/src/unified-error-handler-impl';
 import { ErrorContext } from '../../interfaces/core/error-coordination-center';
 import { secureLogger } from '../../error-handler/src/utils/secure-logger';
+import { countTextTokens, getTokenizer } from '../../router/src/token-estimator';
+import { mapUpstreamStatusCode, parseRetryAfter } from './upstream-http-client';
 import { 
   API_PATHS, 
   PROTOCOL_BASE_URLS, 
@@ -126,10 +128,19 @@ async function handleOpenAIError(
     }
   }
   
+  // 保留上游状态码和Retry-After：HTTP客户端抛出的RCCError沿用其错误码并作为cause；
+  // SDK的APIError按status映射，由本错误作为最内层上游错误，避免路由层解包后丢失状态码
+  const upstreamDetails = error instanceof RCCError ? error.context.details || {} : {};
+  const statusCode: number | undefined = upstreamDetails.statusCode ?? (typeof error?.status === 'number' ? error.status : undefined);
+  const retryAfterMs: number | undefined = upstreamDetails.retryAfterMs ?? parseRetryAfter(error?.headers?.['retry-after']);
+  const errorCode = error instanceof RCCError
+    ? error.code
+    : statusCode !== undefined ? mapUpstreamStatusCode(statusCode) : RCCErrorCode.PROVIDER_UNAVAILABLE;
+
   // 创建RCC错误
   const rccError = new RCCError(
     `OpenAI API Error: ${errorMessage}`,
-    RCCErrorCode.PROVIDER_UNAVAILABLE,
+    errorCode,
     context.moduleId,
     {
       requestId: context.requestId,
@@ -137,7 +148,10 @@ async function handleOpenAIError(
       model: model,
       details: {
         originalError: errorMessage,
-        baseURL: baseURL
+        baseURL: baseURL,
+        statusCode,
+        retryAfterMs,
+        cause: error instanceof RCCError || statusCode === undefined ? error : undefined
       }
       // Note: stack is not part of ErrorContext, it's handled by RCCError constructor
     }
@@ -146,6 +160,7 @@ async function handleOpenAIError(
   return { standardizedError: rccError };
 }
 import { JQJsonHandler } from '../../utils/jq-json-handler';
+import { parseSSEStream } from './sse-stream-parser';
 
 /**
  * 服务器请求格式（标准OpenAI格式）
@@ -207,6 +222,38 @@ export interface ServerResponse {
   };
 }
 
+/**
+ * 服务器流式响应chunk格式（标准OpenAI chat.completion.chunk）
+ */
+export interface ServerStreamChunk {
+  id: string;
+  object: 'chat.completion.chunk';
+  created: number;
+  model: string;
+  choices: Array<{
+    index: number;
+    delta: {
+      role?: 'assistant';
+      content?: string | null;
+      tool_calls?: Array<{
+        index: number;
+        id?: string;
+        type?: 'function';
+        function?: {
+          name?: string;
+          arguments?: string;
+        };
+      }>;
+    };
+    finish_reason: null | 'stop' | 'length' | 'tool_calls' | 'content_filter';
+  }>;
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  } | null;
+}
+
 /**
  * OpenAI服务器预配置接口 - 四层双向处理架构
  */
@@ -509,7 +556,7 @@ export class OpenAIServerModule extends EventEmitter implements ModuleInterface,
    * 处理服务器请求 - 兼容旧接口
    * @deprecated 使用 processRequest 和 processResponse
    */
-  async process(input: ServerRequest): Promise<ServerResponse> {
+  async process(input: ServerRequest, context?: ModuleProcessingContext): Promise<ServerResponse | StreamingResponseBody<ServerStreamChunk>> {
     console.warn('⚠️ process() method is deprecated, use processRequest() and processResponse()');
     
     if (!this.isInitialized) {
@@ -517,6 +564,9 @@ export class OpenAIServerModule extends EventEmitter implements ModuleInterface,
     }
 
     const startTime = Date.now();
+    const requestContext: RequestContext | undefined = context
+      ? { requestId: context.requestId, providerId: context.providerName, modelName: context.model, signal: context.signal }
+      : undefined;
     console.log(`🌐 OpenAI服务器处理开始: ${input?.model}`);
     console.log(`🔍 Server层接收到的input详细结构:`, JQJsonHandler.stringifyJson(input, false));
 
@@ -524,8 +574,23 @@ export class OpenAIServerModule extends EventEmitter implements ModuleInterface,
       // 验证请求
       this.validateServerRequest(input);
 
+      // 流式请求：建立上游SSE连接后立即返回，chunk随到随转
+      if (input.stream) {
+        const streamResponse = await this.sendStreamRequest(input, requestContext);
+        console.log(`🌊 OpenAI服务器流式连接已建立 (${Date.now() - startTime}ms)`);
+
+        this.emit('requestProcessed', {
+          processingTime: Date.now() - startTime,
+          success: true,
+          model: input.model,
+          stream: true,
+        });
+
+        return streamResponse;
+      }
+
       // 发送请求到OpenAI
-      const response = await this.sendRequest(input);
+      const response = await this.sendRequest(input, requestContext);
 
       const processingTime = Date.now() - startTime;
       console.log(`✅ OpenAI服务器处理完成 (${processingTime}ms)`);
@@ -686,12 +751,12 @@ export class OpenAIServerModule extends EventEmitter implements ModuleInterface,
 
     try {
       if (request.stream) {
-        throw new Error('流式请求在Server模块不应该出现 - 应该在Protocol模块处理');
+        throw new Error('流式请求应通过sendStreamRequest发送');
       }
 
       if (this.preConfig.authMethod === 'bearer') {
         // Bearer Token模式 - 使用HTTP客户端
-        return await this.sendBearerTokenRequest(request, requestId);
+        return await this.sendBearerTokenRequest(request, requestId, context?.signal);
       } else {
         // 标准OpenAI SDK模式
         const response = await this.openaiClient.chat.completions.create({
@@ -706,7 +771,7 @@ export class OpenAIServerModule extends EventEmitter implements ModuleInterface,
           tools: request.tools,
           tool_choice: request.tool_choice,
           stream: false,
-        });
+        }, { signal: context?.signal });
 
         return response as ServerResponse;
       }
@@ -729,6 +794,146 @@ export class OpenAIServerModule extends EventEmitter implements ModuleInterface,
     }
   }
 
+  /**
+   * 发送流式请求到OpenAI兼容服务器
+   *
+   * 上游返回错误状态码时在建立连接阶段抛出，保证错误在响应头发送前暴露；
+   * 连接建立后返回的stream按上游SSE到达顺序逐chunk产出
+   */
+  public async sendStreamRequest(request: ServerRequest, context?: RequestContext): Promise<StreamingResponseBody<ServerStreamChunk>> {
+    const requestId = context?.requestId || `openai_stream_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+    try {
+      const upstream = await this.openStreamConnection(request, requestId, context?.signal);
+
+      return {
+        object: 'stream',
+        id: requestId,
+        model: request.model,
+        stream: this.readStreamChunks(upstream.req, upstream.res, requestId),
+      };
+    } catch (error) {
+      const result = await handleOpenAIError(
+        error,
+        request.model,
+        this.preConfig.baseURL,
+        {
+          requestId,
+          moduleId: this.id,
+          operation: 'sendStreamRequest',
+        },
+        false,
+        this.errorHandler
+      );
+
+      throw result.standardizedError;
+    }
+  }
+
+  /**
+   * 建立上游SSE连接
+   */
+  private openStreamConnection(request: ServerRequest, requestId: string, signal?: AbortSignal): Promise<{ req: any; res: any }> {
+    return new Promise((resolve, reject) => {
+      const url = new URL(API_PATHS.OPENAI.CHAT_COMPLETIONS, this.preConfig.baseURL || PROTOCOL_BASE_URLS.OPENAI.DEFAULT);
+      const isHttps = url.protocol === 'https:';
+      const httpClient = isHttps ? https : http;
+
+      const requestData = JSON.stringify({
+        model: request.model,
+        messages: request.messages,
+        max_tokens: request.max_tokens,
+        temperature: request.temperature,
+        top_p: request.top_p,
+        frequency_penalty: request.frequency_penalty,
+        presence_penalty: request.presence_penalty,
+        stop: request.stop,
+        tools: request.tools,
+        tool_choice: request.tool_choice,
+        stream: true,
+      });
+
+      const headers = this.getHeadersForRequest();
+      headers['Accept'] = 'text/event-stream';
+      if (!headers['Authorization']) {
+        headers['Authorization'] = `Bearer ${this.getApiKey()}`;
+      }
+      headers['Content-Length'] = Buffer.byteLength(requestData).toString();
+
+      const options = {
+        hostname: url.hostname,
+        port: url.port || (isHttps ? 443 : 80),
+        path: url.pathname,
+        method: 'POST',
+        headers: headers,
+        timeout: this.preConfig.requestTimeoutMs || 30000,
+        signal,
+      };
+
+      console.log(`📡 [${requestId}] 建立流式连接: ${url.toString()}`);
+
+      const req = httpClient.request(options, (res) => {
+        if (res.statusCode && res.statusCode >= 400) {
+          let data = '';
+          res.on('data', (chunk) => {
+            data += chunk;
+          });
+          res.on('end', () => {
+            reject(this.createUpstreamError(res.statusCode, data, res.headers, requestId, url));
+          });
+          return;
+        }
+
+        resolve({ req, res });
+      });
+
+      req.on('error', (error) => {
+        console.error(`❌ [${requestId}] 流式请求失败:`, error.message);
+        reject(error);
+      });
+
+      // 超时作用于上游空闲时间，连接建立后同样生效
+      req.on('timeout', () => {
+        req.destroy(new Error('流式请求超时'));
+      });
+
+      req.write(requestData);
+      req.end();
+    });
+  }
+
+  /**
+   * 逐chunk读取上游SSE流
+   */
+  private async *readStreamChunks(req: any, res: any, requestId: string): AsyncGenerator<ServerStreamChunk> {
+    let completed = false;
+    let chunkCount = 0;
+
+    try {
+      for await (const event of parseSSEStream(res)) {
+        if (event.data === '[DONE]') {
+          completed = true;
+          break;
+        }
+
+        const chunk = JQJsonHandler.parseJsonString(event.data);
+        if (chunk?.error) {
+          throw new Error(`上游流式错误: ${chunk.error.message || JQJsonHandler.stringifyJson(chunk.error)}`);
+        }
+
+        chunkCount++;
+        yield chunk as ServerStreamChunk;
+      }
+      completed = true;
+      console.log(`✅ [${requestId}] 上游流式响应完成: ${chunkCount} chunks`);
+    } finally {
+      // 下游中断或解析失败时关闭上游连接
+      if (!completed) {
+        req.destroy();
+      }
+    }
+  }
+
   /**
    * 验证服务器请求格式
    */
@@ -906,11 +1111,10 @@ export class OpenAIServerModule extends EventEmitter implements ModuleInterface,
   }
 
   /**
-   * 估算token数量（简化版）
+   * 估算token数量（OpenAI家族Tokenizer）
    */
   estimateTokens(text: string): number {
-    // 简化的token估算：大约4个字符 = 1个token
-    return Math.ceil(text.length / 4);
+    return countTextTokens(text, getTokenizer('openai'));
   }
 
   /**
@@ -928,7 +1132,7 @@ export class OpenAIServerModule extends EventEmitter implements ModuleInterface,
   /**
    * 使用Bearer Token发送HTTP请求
    */
-  private async sendBearerTokenRequest(request: ServerRequest, requestId: string): Promise<ServerResponse> {
+  private async sendBearerTokenRequest(request: ServerRequest, requestId: string, signal?: AbortSignal): Promise<ServerResponse> {
     return new Promise((resolve, reject) => {
       const url = new URL(API_PATHS.OPENAI.CHAT_COMPLETIONS, this.preConfig.baseURL || PROTOCOL_BASE_URLS.OPENAI.DEFAULT);
       const isHttps = url.protocol === 'https:';
@@ -958,6 +1162,7 @@ export class OpenAIServerModule extends EventEmitter implements ModuleInterface,
         method: 'POST',
         headers: headers,
         timeout: this.preConfig.requestTimeoutMs || 30000,
+        signal,
       };
 
       console.log(`📡 发送Bearer Token请求到: ${url.toString()}`);
@@ -972,14 +1177,14 @@ export class OpenAIServerModule extends EventEmitter implements ModuleInterface,
         });
 
         res.on('end', () => {
+          if (res.statusCode && res.statusCode >= 400) {
+            reject(this.createUpstreamError(res.statusCode, data, res.headers, requestId, url));
+            return;
+          }
+
           try {
             const response = JSON.parse(data);
 
-            if (res.statusCode && res.statusCode >= 400) {
-              reject(new Error(`HTTP ${res.statusCode}: ${response.error?.message || data}`));
-              return;
-            }
-
             // 确保响应符合ServerResponse格式
             const serverResponse: ServerResponse = {
               id: response.id || `bearer_${requestId}`,
@@ -1017,6 +1222,28 @@ export class OpenAIServerModule extends EventEmitter implements ModuleInterface,
     });
   }
 
+  /**
+   * 将上游错误状态码映射为RCCError，保留状态码和Retry-After
+   */
+  private createUpstreamError(statusCode: number, body: string, headers: any, requestId: string, url: URL): RCCError {
+    let message = body;
+    let errorType: string | undefined;
+    try {
+      const parsed = JQJsonHandler.parseJsonString(body);
+      message = parsed?.error?.message || body;
+      errorType = parsed?.error?.type;
+    } catch {
+      // 非JSON错误体，保留原始文本
+    }
+
+    return new RCCError(
+      `OpenAI upstream HTTP ${statusCode}: ${message}`,
+      mapUpstreamStatusCode(statusCode),
+      'openai-server',
+      { requestId, details: { statusCode, errorType, retryAfterMs: parseRetryAfter(headers['retry-after']), endpoint: url.toString() } }
+    );
+  }
+
   /**
    * 获取模型限制信息 - 使用常量管理的版本
    */
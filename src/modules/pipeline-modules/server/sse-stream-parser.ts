@@ -0,0 +1,98 @@
+/**
+ * SSE Stream Parser
+ *
+ * 将上游HTTP响应的字节流增量解析为Server-Sent Events
+ * 按事件到达顺序产出，不缓冲整个响应
+ *
+ * @author RCC v4.0
+ */
+
+/**
+ * 单个SSE事件
+ */
+export interface SSEEvent {
+  event?: string;
+  data: string;
+  id?: string;
+}
+
+/**
+ * 增量解析SSE字节流
+ *
+ * @param source 上游响应流（如http.IncomingMessage）
+ */
+export async function* parseSSEStream(source: AsyncIterable<Buffer | string>): AsyncGenerator<SSEEvent> {
+  let buffer = '';
+
+  for await (const chunk of source) {
+    buffer += typeof chunk === 'string' ? chunk : chunk.toString('utf-8');
+
+    // 事件之间以空行分隔，兼容\r\n换行
+    let boundary = findEventBoundary(buffer);
+    while (boundary) {
+      const rawEvent = buffer.slice(0, boundary.index);
+      buffer = buffer.slice(boundary.index + boundary.length);
+
+      const event = parseSSEEvent(rawEvent);
+      if (event) {
+        yield event;
+      }
+      boundary = findEventBoundary(buffer);
+    }
+  }
+
+  // 流结束时处理未以空行结尾的最后一个事件
+  const trailing = parseSSEEvent(buffer);
+  if (trailing) {
+    yield trailing;
+  }
+}
+
+/**
+ * 查找事件分隔符位置
+ */
+function findEventBoundary(buffer: string): { index: number; length: number } | null {
+  const match = /\r?\n\r?\n/.exec(buffer);
+  return match ? { index: match.index, length: match[0].length } : null;
+}
+
+/**
+ * 解析单个事件块
+ */
+function parseSSEEvent(rawEvent: string): SSEEvent | null {
+  const dataLines: string[] = [];
+  let eventName: string | undefined;
+  let eventId: string | undefined;
+
+  for (const line of rawEvent.split(/\r?\n/)) {
+    // 注释行（心跳）
+    if (!line || line.startsWith(':')) {
+      continue;
+    }
+
+    const separator = line.indexOf(':');
+    const field = separator === -1 ? line : line.slice(0, separator);
+    let value = separator === -1 ? '' : line.slice(separator + 1);
+    if (value.startsWith(' ')) {
+      value = value.slice(1);
+    }
+
+    if (field === 'data') {
+      dataLines.push(value);
+    } else if (field === 'event') {
+      eventName = value;
+    } else if (field === 'id') {
+      eventId = value;
+    }
+  }
+
+  if (dataLines.length === 0) {
+    return null;
+  }
+
+  return {
+    event: eventName,
+    data: dataLines.join('\n'),
+    id: eventId
+  };
+}
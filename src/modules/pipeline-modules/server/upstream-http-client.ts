@@ -0,0 +1,142 @@
+/**
+ * Upstream HTTP Client
+ *
+ * 原生协议Server层（Anthropic、Gemini）共用的上游HTTP请求工具
+ *
+ * - 发送JSON请求并等待响应头，错误状态码读取完整错误体后抛出
+ * - 超时作用于上游空闲时间，流式连接建立后同样生效
+ * - 传入signal时，中止会断开上游连接（包括已建立的流式连接）
+ *
+ * @author RCC v4.0
+ */
+
+import * as http from 'http';
+import * as https from 'https';
+import { RCCError, RCCErrorCode } from '../../types/src/index';
+
+/**
+ * 上游请求参数
+ */
+export interface UpstreamRequestOptions {
+  url: URL;
+  body: string;
+  headers: Record<string, string>;
+  timeout: number;
+  requestId: string;
+  moduleId: string;
+  // 日志和错误信息中使用的端点（不得包含查询参数中的密钥）
+  displayEndpoint: string;
+  // 上游返回错误状态码时构造错误
+  createError: (statusCode: number, body: string, headers: http.IncomingHttpHeaders) => RCCError;
+  signal?: AbortSignal;
+}
+
+/**
+ * 发送POST请求并等待响应头
+ */
+export function openUpstreamConnection(options: UpstreamRequestOptions): Promise<http.IncomingMessage> {
+  return new Promise((resolve, reject) => {
+    const isHttps = options.url.protocol === 'https:';
+    const httpClient = isHttps ? https : http;
+
+    const req = httpClient.request({
+      hostname: options.url.hostname,
+      port: options.url.port || (isHttps ? 443 : 80),
+      path: `${options.url.pathname}${options.url.search}`,
+      method: 'POST',
+      headers: {
+        ...options.headers,
+        'Content-Length': Buffer.byteLength(options.body).toString()
+      },
+      timeout: options.timeout,
+      signal: options.signal
+    }, (res) => {
+      if (res.statusCode && res.statusCode >= 400) {
+        readResponseBody(res)
+          .then(body => reject(options.createError(res.statusCode!, body, res.headers)))
+          .catch(reject);
+        return;
+      }
+      resolve(res);
+    });
+
+    req.on('error', (error) => {
+      if (options.signal?.aborted) {
+        reject(new RCCError(
+          'Upstream request aborted',
+          RCCErrorCode.NETWORK_CONNECTION_FAILED,
+          options.moduleId,
+          { requestId: options.requestId, details: { endpoint: options.displayEndpoint, aborted: true } }
+        ));
+        return;
+      }
+      reject(error instanceof RCCError ? error : new RCCError(
+        `Upstream connection failed: ${error.message}`,
+        RCCErrorCode.NETWORK_CONNECTION_FAILED,
+        options.moduleId,
+        { requestId: options.requestId, details: { endpoint: options.displayEndpoint } }
+      ));
+    });
+
+    req.on('timeout', () => {
+      req.destroy(new RCCError(
+        `Upstream request timed out after ${options.timeout}ms`,
+        RCCErrorCode.NETWORK_TIMEOUT,
+        options.moduleId,
+        { requestId: options.requestId, details: { endpoint: options.displayEndpoint } }
+      ));
+    });
+
+    req.write(options.body);
+    req.end();
+  });
+}
+
+/**
+ * 读取完整响应体
+ */
+export function readResponseBody(res: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let data = '';
+    res.setEncoding('utf8');
+    res.on('data', (chunk: string) => {
+      data += chunk;
+    });
+    res.on('end', () => resolve(data));
+    res.on('error', reject);
+  });
+}
+
+/**
+ * 解析Retry-After响应头（秒数或HTTP日期）为毫秒
+ */
+export function parseRetryAfter(value: string | string[] | undefined): number | undefined {
+  const header = Array.isArray(value) ? value[0] : value;
+  if (!header) {
+    return undefined;
+  }
+
+  const seconds = Number(header.trim());
+  if (Number.isFinite(seconds)) {
+    return seconds >= 0 ? Math.round(seconds * 1000) : undefined;
+  }
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * 上游HTTP错误状态码 → RCCErrorCode
+ */
+export function mapUpstreamStatusCode(statusCode: number): RCCErrorCode {
+  if (statusCode === 401 || statusCode === 403) {
+    return RCCErrorCode.PROVIDER_AUTH_FAILED;
+  }
+  if (statusCode === 429) {
+    return RCCErrorCode.PROVIDER_RATE_LIMITED;
+  }
+  if (statusCode < 500) {
+    return RCCErrorCode.VALIDATION_ERROR;
+  }
+  return RCCErrorCode.PROVIDER_UNAVAILABLE;
+}
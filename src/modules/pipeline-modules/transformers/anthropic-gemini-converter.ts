@@ -0,0 +1,510 @@
+/**
+ * Anthropic ↔ Gemini Protocol Converter
+ *
+ * Anthropic Messages请求 → Gemini generateContent请求
+ * Gemini响应（非流式/流式chunk）→ Anthropic响应/事件
+ *
+ * - system → systemInstruction
+ * - tools → functionDeclarations，tool_choice → toolConfig.functionCallingConfig
+ * - tool_use ↔ functionCall，tool_result → functionResponse（按tool_use_id回查函数名）
+ * - 安全拦截（promptFeedback.blockReason、SAFETY等finishReason）转换为RCCError
+ *
+ * @author RCC v4.0
+ */
+
+import { transformOpenAIStreamToAnthropic, AnthropicStreamEvent, StreamConverterOptions } from './openai-anthropic-stream-converter';
+import { AnthropicInputValidator } from '../../validators/anthropic-input-validator';
+import { JQJsonHandler } from '../../utils/jq-json-handler';
+import { RCCError, RCCErrorCode } from '../../types/src/index';
+
+/**
+ * Gemini请求内容片段
+ */
+export interface GeminiPart {
+  text?: string;
+  thought?: boolean;
+  inlineData?: { mimeType: string; data: string };
+  fileData?: { mimeType?: string; fileUri: string };
+  functionCall?: { id?: string; name: string; args?: Record<string, any> };
+  functionResponse?: { name: string; response: Record<string, any> };
+}
+
+/**
+ * Gemini对话内容
+ */
+export interface GeminiContent {
+  role: 'user' | 'model';
+  parts: GeminiPart[];
+}
+
+/**
+ * Transformer层输出的Gemini请求 - request为generateContent请求体
+ */
+export interface GeminiGenerateContentRequest {
+  model: string;
+  stream: boolean;
+  request: {
+    contents: GeminiContent[];
+    systemInstruction?: { parts: GeminiPart[] };
+    tools?: Array<{ functionDeclarations: Array<{ name: string; description: string; parameters?: Record<string, any> }> }>;
+    toolConfig?: { functionCallingConfig: { mode: 'AUTO' | 'ANY' | 'NONE'; allowedFunctionNames?: string[] } };
+    generationConfig?: {
+      maxOutputTokens?: number;
+      temperature?: number;
+      topP?: number;
+      topK?: number;
+      stopSequences?: string[];
+    };
+  };
+}
+
+/**
+ * Anthropic → Gemini 转换选项
+ */
+export interface AnthropicToGeminiOptions {
+  // 目标模型声明的能力（provider配置models[].capabilities），流水线总会传入，未声明时为空列表；
+  // 空列表或不含multimodal时拒绝图片/PDF，仅在流水线外直接调用且未提供时不做能力校验
+  modelCapabilities?: string[];
+  // 路由选中的上游模型，未提供时使用请求中的model
+  targetModel?: string;
+}
+
+/**
+ * 因内容安全被Gemini拦截的finishReason
+ */
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'RECITATION', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII', 'IMAGE_SAFETY'];
+
+/**
+ * Gemini不接受的JSON Schema关键字
+ */
+const UNSUPPORTED_SCHEMA_KEYS = ['$schema', 'additionalProperties'];
+
+/**
+ * 转换Anthropic Messages请求为Gemini generateContent请求
+ */
+export function transformAnthropicToGemini(inputRequest: any, options: AnthropicToGeminiOptions = {}): GeminiGenerateContentRequest {
+  if (!inputRequest || typeof inputRequest !== 'object' || !Array.isArray(inputRequest.messages)) {
+    throw new RCCError(
+      'Gemini conversion requires an Anthropic Messages request with a messages array',
+      RCCErrorCode.VALIDATION_ERROR,
+      'transformer'
+    );
+  }
+
+  const model = options.targetModel || inputRequest.model;
+  validateGeminiMediaContent(inputRequest, model, options.modelCapabilities);
+
+  const toolNames = collectToolUseNames(inputRequest.messages);
+  const contents: GeminiContent[] = [];
+  inputRequest.messages.forEach((message: any, messageIndex: number) => {
+    const parts = convertMessageParts(message, messageIndex, toolNames);
+    if (parts.length > 0) {
+      contents.push({ role: message.role === 'assistant' ? 'model' : 'user', parts });
+    }
+  });
+
+  const geminiRequest: GeminiGenerateContentRequest = {
+    model,
+    stream: inputRequest.stream === true,
+    request: { contents }
+  };
+
+  const systemText = extractText(inputRequest.system);
+  if (systemText) {
+    geminiRequest.request.systemInstruction = { parts: [{ text: systemText }] };
+  }
+
+  if (Array.isArray(inputRequest.tools) && inputRequest.tools.length > 0) {
+    geminiRequest.request.tools = [{
+      functionDeclarations: inputRequest.tools
+        .filter((tool: any) => tool && tool.name)
+        .map((tool: any) => ({
+          name: tool.name,
+          description: tool.description || '',
+          ...(tool.input_schema ? { parameters: sanitizeSchema(tool.input_schema) } : {})
+        }))
+    }];
+
+    const toolConfig = convertToolChoice(inputRequest.tool_choice);
+    if (toolConfig) {
+      geminiRequest.request.toolConfig = toolConfig;
+    }
+  }
+
+  const generationConfig: NonNullable<GeminiGenerateContentRequest['request']['generationConfig']> = {};
+  if (typeof inputRequest.max_tokens === 'number') {
+    generationConfig.maxOutputTokens = inputRequest.max_tokens;
+  }
+  if (typeof inputRequest.temperature === 'number') {
+    generationConfig.temperature = inputRequest.temperature;
+  }
+  if (typeof inputRequest.top_p === 'number') {
+    generationConfig.topP = inputRequest.top_p;
+  }
+  if (typeof inputRequest.top_k === 'number') {
+    generationConfig.topK = inputRequest.top_k;
+  }
+  if (Array.isArray(inputRequest.stop_sequences) && inputRequest.stop_sequences.length > 0) {
+    generationConfig.stopSequences = inputRequest.stop_sequences;
+  }
+  if (Object.keys(generationConfig).length > 0) {
+    geminiRequest.request.generationConfig = generationConfig;
+  }
+
+  return geminiRequest;
+}
+
+/**
+ * 转换Gemini非流式响应为Anthropic响应
+ */
+export function transformGeminiToAnthropic(response: any, options: StreamConverterOptions = {}): any {
+  assertNotBlocked(response);
+
+  const candidate = response?.candidates?.[0];
+  const content: any[] = [];
+  for (const part of candidate?.content?.parts || []) {
+    if (typeof part.text === 'string' && !part.thought && part.text.length > 0) {
+      content.push({ type: 'text', text: part.text });
+    } else if (part.functionCall) {
+      content.push({
+        type: 'tool_use',
+        id: part.functionCall.id || createToolUseId(),
+        name: part.functionCall.name,
+        input: part.functionCall.args || {}
+      });
+    }
+  }
+
+  let stopReason = candidate?.finishReason === 'MAX_TOKENS' ? 'max_tokens' : 'end_turn';
+  if (content.some(block => block.type === 'tool_use')) {
+    stopReason = 'tool_use';
+  }
+
+  return {
+    id: options.messageId || response?.responseId || `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    type: 'message',
+    role: 'assistant',
+    model: response?.modelVersion || options.model || 'unknown',
+    content,
+    stop_reason: stopReason,
+    stop_sequence: null,
+    usage: {
+      input_tokens: response?.usageMetadata?.promptTokenCount || 0,
+      output_tokens: response?.usageMetadata?.candidatesTokenCount || 0
+    }
+  };
+}
+
+/**
+ * 将Gemini流式chunk转换为Anthropic事件流
+ * Gemini chunk先映射为OpenAI chunk，复用OpenAI → Anthropic的增量事件转换
+ */
+export function transformGeminiStreamToAnthropic(
+  source: AsyncIterable<any>,
+  options: StreamConverterOptions = {}
+): AsyncGenerator<AnthropicStreamEvent> {
+  return transformOpenAIStreamToAnthropic(geminiChunksToOpenAI(source), options);
+}
+
+/**
+ * 判断是否为Gemini响应（非流式或流式chunk）
+ */
+export function isGeminiResponse(value: any): boolean {
+  return !!value &&
+    typeof value === 'object' &&
+    (Array.isArray(value.candidates) || !!value.promptFeedback);
+}
+
+/**
+ * Gemini chunk → OpenAI chat.completion.chunk
+ * Gemini每个functionCall在单个chunk中完整给出，按出现顺序分配tool_calls索引
+ */
+async function* geminiChunksToOpenAI(source: AsyncIterable<any>): AsyncGenerator<any> {
+  let toolIndex = 0;
+
+  for await (const chunk of source) {
+    assertNotBlocked(chunk);
+
+    const candidate = chunk?.candidates?.[0];
+    const parts: GeminiPart[] = candidate?.content?.parts || [];
+    const delta: Record<string, any> = {};
+
+    const text = parts
+      .filter(part => typeof part.text === 'string' && !part.thought)
+      .map(part => part.text)
+      .join('');
+    if (text) {
+      delta.content = text;
+    }
+
+    const toolCalls = parts
+      .filter(part => part.functionCall)
+      .map(part => ({
+        index: toolIndex++,
+        id: part.functionCall!.id || createToolUseId(),
+        type: 'function',
+        function: {
+          name: part.functionCall!.name,
+          arguments: JQJsonHandler.stringifyJson(part.functionCall!.args || {})
+        }
+      }));
+    if (toolCalls.length > 0) {
+      delta.tool_calls = toolCalls;
+    }
+
+    yield {
+      object: 'chat.completion.chunk',
+      model: chunk?.modelVersion,
+      choices: [{
+        index: 0,
+        delta,
+        finish_reason: candidate?.finishReason ? (candidate.finishReason === 'MAX_TOKENS' ? 'length' : 'stop') : null
+      }],
+      ...(chunk?.usageMetadata ? {
+        usage: {
+          prompt_tokens: chunk.usageMetadata.promptTokenCount,
+          completion_tokens: chunk.usageMetadata.candidatesTokenCount
+        }
+      } : {})
+    };
+  }
+}
+
+/**
+ * 检查Gemini是否因安全策略拦截了请求或响应
+ */
+function assertNotBlocked(response: any): void {
+  const blockReason = response?.promptFeedback?.blockReason;
+  if (blockReason) {
+    throw new RCCError(
+      `Gemini blocked the prompt: ${blockReason}`,
+      RCCErrorCode.VALIDATION_ERROR,
+      'transformer',
+      { details: { blockReason, safetyRatings: response.promptFeedback.safetyRatings } }
+    );
+  }
+
+  const candidate = response?.candidates?.[0];
+  if (candidate && BLOCKED_FINISH_REASONS.includes(candidate.finishReason)) {
+    throw new RCCError(
+      `Gemini blocked the response: ${candidate.finishReason}`,
+      RCCErrorCode.VALIDATION_ERROR,
+      'transformer',
+      { details: { finishReason: candidate.finishReason, safetyRatings: candidate.safetyRatings } }
+    );
+  }
+}
+
+/**
+ * 收集历史中tool_use的id → 函数名，functionResponse需要函数名
+ */
+function collectToolUseNames(messages: any[]): Map<string, string> {
+  const toolNames = new Map<string, string>();
+  for (const message of messages) {
+    if (message?.role !== 'assistant' || !Array.isArray(message.content)) {
+      continue;
+    }
+    for (const block of message.content) {
+      if (block?.type === 'tool_use' && block.id && block.name) {
+        toolNames.set(block.id, block.name);
+      }
+    }
+  }
+  return toolNames;
+}
+
+/**
+ * 转换单条Anthropic消息的内容为Gemini parts
+ */
+function convertMessageParts(message: any, messageIndex: number, toolNames: Map<string, string>): GeminiPart[] {
+  if (typeof message?.content === 'string') {
+    return message.content ? [{ text: message.content }] : [];
+  }
+  if (!Array.isArray(message?.content)) {
+    return [];
+  }
+
+  const parts: GeminiPart[] = [];
+  for (const block of message.content) {
+    switch (block?.type) {
+      case 'text':
+        if (block.text) {
+          parts.push({ text: block.text });
+        }
+        break;
+
+      case 'image':
+      case 'document':
+        parts.push(...convertMediaBlock(block));
+        break;
+
+      case 'tool_use':
+        parts.push({ functionCall: { name: block.name, args: block.input || {} } });
+        break;
+
+      case 'tool_result': {
+        const name = toolNames.get(block.tool_use_id);
+        if (!name) {
+          throw new RCCError(
+            `tool_result in message ${messageIndex} references unknown tool_use_id '${block.tool_use_id}'`,
+            RCCErrorCode.VALIDATION_ERROR,
+            'transformer',
+            { details: { messageIndex, toolUseId: block.tool_use_id } }
+          );
+        }
+        const resultText = extractText(block.content);
+        parts.push({
+          functionResponse: {
+            name,
+            response: block.is_error ? { error: resultText } : { result: resultText }
+          }
+        });
+        if (Array.isArray(block.content)) {
+          for (const item of block.content) {
+            if (item?.type === 'image' || item?.type === 'document') {
+              parts.push(...convertMediaBlock(item));
+            }
+          }
+        }
+        break;
+      }
+
+      default:
+        // thinking等Gemini不接受的块直接丢弃
+        break;
+    }
+  }
+  return parts;
+}
+
+/**
+ * 转换图片/文档块为Gemini parts
+ */
+function convertMediaBlock(block: any): GeminiPart[] {
+  const source = block.source;
+  switch (source?.type) {
+    case 'base64':
+      return [{ inlineData: { mimeType: source.media_type, data: source.data } }];
+    case 'url':
+      return [{ fileData: { ...(source.media_type ? { mimeType: source.media_type } : {}), fileUri: source.url } }];
+    case 'text':
+      return [{ text: source.data }];
+    case 'content': {
+      const text = extractText(source.content);
+      return text ? [{ text }] : [];
+    }
+    default:
+      return [];
+  }
+}
+
+/**
+ * 校验图片/文档块的来源格式和目标模型的multimodal能力
+ */
+function validateGeminiMediaContent(inputRequest: any, targetModel: string, modelCapabilities?: string[]): void {
+  let multimodalBlocks = 0;
+
+  inputRequest.messages.forEach((message: any, messageIndex: number) => {
+    if (!Array.isArray(message?.content)) {
+      return;
+    }
+    const blocks = message.content.flatMap((block: any) =>
+      block?.type === 'tool_result' && Array.isArray(block.content) ? block.content : [block]
+    );
+    for (const block of blocks) {
+      if (block?.type !== 'image' && block?.type !== 'document') {
+        continue;
+      }
+      const sourceError = AnthropicInputValidator.validateMediaSource(block.type, block.source);
+      if (sourceError) {
+        throw new RCCError(
+          `Invalid ${block.type} block in message ${messageIndex}: ${sourceError}`,
+          RCCErrorCode.VALIDATION_ERROR,
+          'transformer',
+          { details: { messageIndex, blockType: block.type, sourceType: block.source?.type } }
+        );
+      }
+      if (block.source.type === 'base64' || block.source.type === 'url') {
+        multimodalBlocks++;
+      }
+    }
+  });
+
+  if (modelCapabilities && !modelCapabilities.includes('multimodal') && multimodalBlocks > 0) {
+    throw new RCCError(
+      `Model '${targetModel || 'unknown'}' does not declare the 'multimodal' capability, but the request contains ${multimodalBlocks} image/document block(s)`,
+      RCCErrorCode.VALIDATION_ERROR,
+      'transformer',
+      { details: { targetModel, modelCapabilities, mediaBlocks: multimodalBlocks } }
+    );
+  }
+}
+
+/**
+ * Anthropic tool_choice → Gemini toolConfig
+ */
+function convertToolChoice(toolChoice: any): GeminiGenerateContentRequest['request']['toolConfig'] | undefined {
+  switch (toolChoice?.type) {
+    case 'auto':
+      return { functionCallingConfig: { mode: 'AUTO' } };
+    case 'any':
+      return { functionCallingConfig: { mode: 'ANY' } };
+    case 'none':
+      return { functionCallingConfig: { mode: 'NONE' } };
+    case 'tool':
+      return { functionCallingConfig: { mode: 'ANY', allowedFunctionNames: [toolChoice.name] } };
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * 递归移除Gemini不支持的JSON Schema关键字
+ */
+function sanitizeSchema(schema: any): any {
+  if (Array.isArray(schema)) {
+    return schema.map(sanitizeSchema);
+  }
+  if (!schema || typeof schema !== 'object') {
+    return schema;
+  }
+
+  const sanitized: Record<string, any> = {};
+  for (const [key, value] of Object.entries(schema)) {
+    if (UNSUPPORTED_SCHEMA_KEYS.includes(key)) {
+      continue;
+    }
+    // properties的键是参数名，不是Schema关键字
+    if (key === 'properties' && value && typeof value === 'object' && !Array.isArray(value)) {
+      sanitized[key] = Object.fromEntries(
+        Object.entries(value).map(([name, propertySchema]) => [name, sanitizeSchema(propertySchema)])
+      );
+    } else {
+      sanitized[key] = sanitizeSchema(value);
+    }
+  }
+  return sanitized;
+}
+
+/**
+ * 提取字符串或文本块数组中的文本
+ */
+function extractText(content: any): string {
+  if (typeof content === 'string') {
+    return content;
+  }
+  if (!Array.isArray(content)) {
+    return '';
+  }
+  return content
+    .filter((item: any) => item?.type === 'text' && item.text)
+    .map((item: any) => String(item.text))
+    .join('\n');
+}
+
+/**
+ * Gemini未返回functionCall.id时生成tool_use id
+ */
+function createToolUseId(): string {
+  return `toolu_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
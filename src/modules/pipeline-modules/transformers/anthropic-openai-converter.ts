@@ -16,6 +16,18 @@ import { RCCError, RCCErrorCode } from '../../types/src/index';
 import { UnifiedErrorHandlerInterface } from '../../error-handler/src/unified-error-handler-interface';
 import { UnifiedErrorHandlerFactory } from '../../error-handler/src/unified-error-handler-impl';
 import { ErrorContext } from '../../interfaces/core/error-coordination-center';
+import { AnthropicInputValidator } from '../../validators/anthropic-input-validator';
+
+/**
+ * Anthropic → OpenAI 转换选项
+ */
+export interface AnthropicToOpenAIOptions {
+  // 目标模型声明的能力（provider配置models[].capabilities），流水线总会传入，未声明时为空列表；
+  // 空列表或不含multimodal时拒绝图片/PDF，仅在流水线外直接调用且未提供时不做能力校验
+  modelCapabilities?: string[];
+  // 目标模型名称，仅用于错误信息
+  targetModel?: string;
+}
 
 /**
  * 创建最小的有效OpenAI请求结构
@@ -249,7 +261,10 @@ export async function transformAnthropicToOpenAIWithErrorHandling(
  * 基于@musistudio/llms双向转换架构
  * 🔧 架构修复：Transformer层只负责协议格式转换，不处理maxTokens配置
  */
-export function transformAnthropicToOpenAI(inputRequest: any): any {
+export function transformAnthropicToOpenAI(inputRequest: any, options: AnthropicToOpenAIOptions = {}): any {
+  // 图片/文档块校验在转换前完成，保证错误信息直接返回给客户端
+  validateMediaContent(inputRequest, options);
+
   try {
     secureLogger.info('🔄 [CORE-TRANSFORMER] Anthropic → OpenAI 转换开始', {
       inputType: typeof inputRequest,
@@ -441,10 +456,18 @@ export function transformAnthropicToOpenAI(inputRequest: any): any {
             
             // 为每个tool_result创建单独的tool角色消息
             for (const toolResult of toolResults) {
+              // OpenAI tool消息只支持文本，工具结果中的图片/文档移到随后的用户消息中
+              const resultContent = Array.isArray(toolResult.content)
+                ? toolResult.content.filter((item: any) => !isMediaBlock(item))
+                : toolResult.content;
+              if (Array.isArray(toolResult.content) && resultContent.length < toolResult.content.length) {
+                nonToolContent.push(...toolResult.content.filter((item: any) => isMediaBlock(item)));
+              }
+
               const toolMessage = {
                 role: 'tool',
                 tool_call_id: toolResult.tool_use_id,
-                content: typeof toolResult.content === 'string' ? toolResult.content : JSON.stringify(toolResult.content || '')
+                content: typeof resultContent === 'string' ? resultContent : JSON.stringify(resultContent || '')
               };
               openaiRequest.messages.push(toolMessage);
               secureLogger.debug('📝 添加tool消息', { tool_call_id: toolResult.tool_use_id });
@@ -679,7 +702,8 @@ function convertAnthropicMessage(anthropicMessage: any): any {
     } else if (Array.isArray(anthropicMessage.content)) {
       secureLogger.debug('📝 处理内容数组，长度:', { length: anthropicMessage.content.length });
       
-      const contentParts: string[] = [];
+      // 文本为字符串，图片/文件为OpenAI content part
+      const contentParts: Array<string | Record<string, any>> = [];
       const toolCalls: any[] = [];
 
       for (const part of anthropicMessage.content) {
@@ -736,6 +760,10 @@ function convertAnthropicMessage(anthropicMessage: any): any {
           } else {
             secureLogger.debug('📝 工具结果没有内容字段');
           }
+        } else if (isMediaBlock(part)) {
+          // 图片/文档 - 转换为OpenAI content part
+          contentParts.push(...convertMediaBlock(part));
+          secureLogger.debug('📝 添加媒体内容:', { blockType: part.type, sourceType: part.source?.type });
         } else if (part && typeof part === 'object') {
           // 🔥 关键修复：处理复杂对象（如system-reminder）- 转换为字符串
           const objectText = JQJsonHandler.stringifyJson(part);
@@ -752,8 +780,13 @@ function convertAnthropicMessage(anthropicMessage: any): any {
         }
       }
 
-      // 设置内容：OpenAI/Qwen期待字符串内容，绝不能是对象
-      if (contentParts.length > 0) {
+      // 设置内容：包含图片/文件时使用content part数组，否则OpenAI/Qwen期待字符串内容
+      if (contentParts.some(contentPart => typeof contentPart !== 'string')) {
+        openaiMessage.content = contentParts.map(contentPart =>
+          typeof contentPart === 'string' ? { type: 'text', text: contentPart } : contentPart
+        );
+        secureLogger.debug('📝 设置多模态内容数组', { partsCount: contentParts.length });
+      } else if (contentParts.length > 0) {
         openaiMessage.content = contentParts.join(' ').trim();
         secureLogger.debug('📝 设置合并后的文本内容', { contentLength: openaiMessage.content.length });
       } else if (toolCalls.length > 0) {
@@ -791,6 +824,140 @@ function convertAnthropicMessage(anthropicMessage: any): any {
   return openaiMessage;
 }
 
+/**
+ * 判断是否为图片/文档内容块
+ */
+function isMediaBlock(block: any): boolean {
+  return !!block && typeof block === 'object' && (block.type === 'image' || block.type === 'document');
+}
+
+/**
+ * 判断内容块是否需要目标模型具备multimodal能力
+ * 文本类文档转换为普通文本，不需要多模态
+ */
+function requiresMultimodal(block: any): boolean {
+  if (block.type === 'image') {
+    return true;
+  }
+  return block.source?.type === 'base64' && block.source.media_type === 'application/pdf';
+}
+
+/**
+ * 收集请求中的图片/文档块（包括tool_result内嵌的内容）
+ */
+function collectMediaBlocks(inputRequest: any): Array<{ block: any; messageIndex: number }> {
+  const mediaBlocks: Array<{ block: any; messageIndex: number }> = [];
+
+  if (!inputRequest || typeof inputRequest !== 'object' || !Array.isArray(inputRequest.messages)) {
+    return mediaBlocks;
+  }
+
+  inputRequest.messages.forEach((message: any, messageIndex: number) => {
+    if (!message || !Array.isArray(message.content)) {
+      return;
+    }
+    for (const part of message.content) {
+      if (isMediaBlock(part)) {
+        mediaBlocks.push({ block: part, messageIndex });
+      } else if (part && part.type === 'tool_result' && Array.isArray(part.content)) {
+        for (const item of part.content) {
+          if (isMediaBlock(item)) {
+            mediaBlocks.push({ block: item, messageIndex });
+          }
+        }
+      }
+    }
+  });
+
+  return mediaBlocks;
+}
+
+/**
+ * 校验图片/文档块的媒体类型和目标模型的multimodal能力
+ */
+function validateMediaContent(inputRequest: any, options: AnthropicToOpenAIOptions): void {
+  const mediaBlocks = collectMediaBlocks(inputRequest);
+  if (mediaBlocks.length === 0) {
+    return;
+  }
+
+  for (const { block, messageIndex } of mediaBlocks) {
+    const sourceError = AnthropicInputValidator.validateMediaSource(block.type, block.source);
+    if (sourceError) {
+      throw new RCCError(
+        `Invalid ${block.type} block in message ${messageIndex}: ${sourceError}`,
+        RCCErrorCode.VALIDATION_ERROR,
+        'transformer',
+        { details: { messageIndex, blockType: block.type, sourceType: block.source?.type } }
+      );
+    }
+
+    // OpenAI file content part只接受内联数据
+    if (block.type === 'document' && block.source.type === 'url') {
+      throw new RCCError(
+        `Document block in message ${messageIndex} uses a url source, which cannot be forwarded to OpenAI-compatible providers; send the document as base64 instead`,
+        RCCErrorCode.VALIDATION_ERROR,
+        'transformer',
+        { details: { messageIndex, blockType: block.type, sourceType: 'url' } }
+      );
+    }
+  }
+
+  const multimodalBlocks = mediaBlocks.filter(({ block }) => requiresMultimodal(block));
+  if (options.modelCapabilities && !options.modelCapabilities.includes('multimodal') && multimodalBlocks.length > 0) {
+    const targetModel = options.targetModel || inputRequest.model || 'unknown';
+    throw new RCCError(
+      `Model '${targetModel}' does not declare the 'multimodal' capability, but the request contains ${multimodalBlocks.length} image/document block(s)`,
+      RCCErrorCode.VALIDATION_ERROR,
+      'transformer',
+      { details: { targetModel, modelCapabilities: options.modelCapabilities, mediaBlocks: multimodalBlocks.length } }
+    );
+  }
+}
+
+/**
+ * 转换图片/文档块为OpenAI content part
+ * - image → image_url（base64构造data URL）
+ * - PDF文档 → file（data URL）
+ * - 文本文档 → 文本
+ */
+function convertMediaBlock(block: any): Array<string | Record<string, any>> {
+  const source = block.source;
+
+  if (block.type === 'image') {
+    const url = source.type === 'base64' ? `data:${source.media_type};base64,${source.data}` : source.url;
+    return [{ type: 'image_url', image_url: { url } }];
+  }
+
+  switch (source.type) {
+    case 'base64':
+      if (source.media_type === 'application/pdf') {
+        return [{
+          type: 'file',
+          file: {
+            filename: block.title || 'document.pdf',
+            file_data: `data:application/pdf;base64,${source.data}`
+          }
+        }];
+      }
+      return [Buffer.from(source.data, 'base64').toString('utf-8')];
+
+    case 'text':
+      return [source.data];
+
+    case 'content':
+      if (typeof source.content === 'string') {
+        return [source.content];
+      }
+      return source.content
+        .filter((item: any) => item && item.type === 'text' && item.text)
+        .map((item: any) => String(item.text));
+
+    default:
+      return [];
+  }
+}
+
 /**
  * 转换Anthropic工具到OpenAI格式
  * 这是解决16个工具定义验证失败的关键方法
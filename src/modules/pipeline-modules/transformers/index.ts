@@ -19,6 +19,21 @@ export {
   TransformerSecurityError,
 } from './secure-anthropic-openai-transformer';
 
+export {
+  OpenAIToAnthropicStreamConverter,
+  AnthropicStreamEvent,
+  StreamConverterOptions,
+  transformOpenAIStreamToAnthropic,
+} from './openai-anthropic-stream-converter';
+
+export {
+  transformAnthropicToGemini,
+  transformGeminiToAnthropic,
+  transformGeminiStreamToAnthropic,
+  GeminiGenerateContentRequest,
+  AnthropicToGeminiOptions,
+} from './anthropic-gemini-converter';
+
 export {
   SecureTransformerFactory,
   SecureTransformerType,
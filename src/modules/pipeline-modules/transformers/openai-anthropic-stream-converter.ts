@@ -0,0 +1,374 @@
+/**
+ * OpenAI → Anthropic Stream Converter
+ *
+ * 将OpenAI chat.completion.chunk增量转换为Anthropic Messages流式事件
+ * message_start → content_block_start/delta/stop → message_delta → message_stop
+ *
+ * 每个chunk到达即转换，不缓冲整个响应
+ *
+ * 工具调用按tool_calls[].index跟踪：arguments片段以input_json_delta逐段转发；
+ * Anthropic内容块必须顺序输出，交错到达的其他工具调用先缓冲，
+ * 在当前块参数完整或finish_reason到达时依次输出
+ *
+ * @author RCC v4.0
+ */
+
+import { secureLogger } from '../../error-handler/src/utils/secure-logger';
+
+/**
+ * Anthropic流式事件
+ */
+export interface AnthropicStreamEvent {
+  type: 'message_start' | 'content_block_start' | 'content_block_delta' | 'content_block_stop' | 'message_delta' | 'message_stop' | 'ping' | 'error';
+  [key: string]: any;
+}
+
+/**
+ * 流式转换选项
+ */
+export interface StreamConverterOptions {
+  model?: string;
+  messageId?: string;
+}
+
+/**
+ * OpenAI finish_reason → Anthropic stop_reason
+ */
+const FINISH_REASON_MAPPING: Record<string, string> = {
+  'stop': 'end_turn',
+  'length': 'max_tokens',
+  'tool_calls': 'tool_use',
+  'content_filter': 'stop_sequence'
+};
+
+/**
+ * 单个工具调用的流式状态
+ */
+interface ToolCallState {
+  toolIndex: number;
+  id?: string;
+  name?: string;
+  arguments: string;
+  pendingArguments: string;
+  blockIndex: number | null;
+  closed: boolean;
+}
+
+/**
+ * 有状态的OpenAI → Anthropic流式转换器（单次响应使用一个实例）
+ */
+export class OpenAIToAnthropicStreamConverter {
+  private messageId: string;
+  private model: string;
+  private started = false;
+  private finished = false;
+  private nextBlockIndex = 0;
+  private textBlockIndex: number | null = null;
+  private toolCalls: Map<number, ToolCallState> = new Map();
+  private activeToolIndex: number | null = null;
+  private stopReason: string | null = null;
+  private inputTokens = 0;
+  private outputTokens = 0;
+
+  constructor(options: StreamConverterOptions = {}) {
+    this.messageId = options.messageId || `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    this.model = options.model || 'unknown';
+  }
+
+  /**
+   * 转换单个OpenAI chunk为零或多个Anthropic事件
+   */
+  convertChunk(chunk: any): AnthropicStreamEvent[] {
+    const events: AnthropicStreamEvent[] = [];
+
+    if (this.finished || !chunk || typeof chunk !== 'object') {
+      return events;
+    }
+
+    if (chunk.usage) {
+      this.inputTokens = chunk.usage.prompt_tokens ?? this.inputTokens;
+      this.outputTokens = chunk.usage.completion_tokens ?? this.outputTokens;
+    }
+
+    if (!this.started) {
+      if (chunk.model) {
+        this.model = chunk.model;
+      }
+      events.push(this.createMessageStart());
+    }
+
+    const choice = Array.isArray(chunk.choices) ? chunk.choices[0] : undefined;
+    if (!choice) {
+      return events;
+    }
+
+    const delta = choice.delta || {};
+
+    if (typeof delta.content === 'string' && delta.content.length > 0) {
+      if (this.activeToolIndex !== null) {
+        events.push(...this.closeToolBlock(this.toolCalls.get(this.activeToolIndex)!));
+      }
+
+      if (this.textBlockIndex === null) {
+        this.textBlockIndex = this.nextBlockIndex++;
+        events.push({
+          type: 'content_block_start',
+          index: this.textBlockIndex,
+          content_block: { type: 'text', text: '' }
+        });
+      }
+
+      events.push({
+        type: 'content_block_delta',
+        index: this.textBlockIndex,
+        delta: { type: 'text_delta', text: delta.content }
+      });
+    }
+
+    if (Array.isArray(delta.tool_calls)) {
+      for (const toolCallDelta of delta.tool_calls) {
+        events.push(...this.handleToolCallDelta(toolCallDelta));
+      }
+    }
+
+    if (choice.finish_reason) {
+      this.stopReason = FINISH_REASON_MAPPING[choice.finish_reason] || 'end_turn';
+      events.push(...this.closeOpenBlocks());
+    }
+
+    return events;
+  }
+
+  /**
+   * 上游流结束 - 关闭未结束的内容块并发送message_delta/message_stop
+   */
+  finish(): AnthropicStreamEvent[] {
+    const events: AnthropicStreamEvent[] = [];
+
+    if (this.finished) {
+      return events;
+    }
+
+    if (!this.started) {
+      events.push(this.createMessageStart());
+    }
+
+    events.push(...this.closeOpenBlocks());
+
+    // 部分后端输出工具调用时仍返回finish_reason=stop
+    let stopReason = this.stopReason || 'end_turn';
+    if (stopReason === 'end_turn' && this.toolCalls.size > 0) {
+      stopReason = 'tool_use';
+    }
+
+    events.push({
+      type: 'message_delta',
+      delta: { stop_reason: stopReason, stop_sequence: null },
+      usage: { output_tokens: this.outputTokens }
+    });
+    events.push({ type: 'message_stop' });
+
+    this.finished = true;
+    return events;
+  }
+
+  /**
+   * 创建message_start事件
+   */
+  private createMessageStart(): AnthropicStreamEvent {
+    this.started = true;
+    return {
+      type: 'message_start',
+      message: {
+        id: this.messageId,
+        type: 'message',
+        role: 'assistant',
+        content: [],
+        model: this.model,
+        stop_reason: null,
+        stop_sequence: null,
+        usage: { input_tokens: this.inputTokens, output_tokens: 0 }
+      }
+    };
+  }
+
+  /**
+   * 处理单个tool_calls增量
+   */
+  private handleToolCallDelta(toolCallDelta: any): AnthropicStreamEvent[] {
+    const events: AnthropicStreamEvent[] = [];
+    const toolIndex = typeof toolCallDelta?.index === 'number' ? toolCallDelta.index : this.toolCalls.size;
+
+    let state = this.toolCalls.get(toolIndex);
+    if (!state) {
+      state = { toolIndex, arguments: '', pendingArguments: '', blockIndex: null, closed: false };
+      this.toolCalls.set(toolIndex, state);
+    }
+
+    if (toolCallDelta.id && !state.id) {
+      state.id = toolCallDelta.id;
+    }
+    if (toolCallDelta.function?.name && !state.name) {
+      state.name = toolCallDelta.function.name;
+    }
+
+    const fragment = typeof toolCallDelta.function?.arguments === 'string' ? toolCallDelta.function.arguments : '';
+
+    if (state.closed) {
+      if (fragment) {
+        secureLogger.warn('⚠️ [STREAM-TRANSFORMER] 已关闭的工具调用收到额外参数片段，已忽略', { toolIndex });
+      }
+      return events;
+    }
+
+    state.pendingArguments += fragment;
+
+    // 当前活动工具调用参数已完整时，切换到新的工具调用
+    if (this.activeToolIndex !== null && this.activeToolIndex !== toolIndex) {
+      const active = this.toolCalls.get(this.activeToolIndex)!;
+      if (!this.isCompleteJson(active.arguments)) {
+        return events;
+      }
+      events.push(...this.closeToolBlock(active));
+    }
+
+    if (this.activeToolIndex === null) {
+      // 名称未到达前只缓冲参数
+      if (!state.name) {
+        return events;
+      }
+      events.push(...this.startToolBlock(state));
+    }
+
+    events.push(...this.flushToolArguments(state));
+    return events;
+  }
+
+  /**
+   * 开始tool_use内容块
+   */
+  private startToolBlock(state: ToolCallState): AnthropicStreamEvent[] {
+    const events: AnthropicStreamEvent[] = [];
+
+    if (this.textBlockIndex !== null) {
+      events.push({ type: 'content_block_stop', index: this.textBlockIndex });
+      this.textBlockIndex = null;
+    }
+
+    state.id = state.id || `toolu_${Date.now()}_${state.toolIndex}`;
+    state.blockIndex = this.nextBlockIndex++;
+    this.activeToolIndex = state.toolIndex;
+
+    events.push({
+      type: 'content_block_start',
+      index: state.blockIndex,
+      content_block: { type: 'tool_use', id: state.id, name: state.name, input: {} }
+    });
+
+    return events;
+  }
+
+  /**
+   * 输出已缓冲的参数片段
+   */
+  private flushToolArguments(state: ToolCallState): AnthropicStreamEvent[] {
+    if (!state.pendingArguments || state.blockIndex === null) {
+      return [];
+    }
+
+    const partialJson = state.pendingArguments;
+    state.arguments += partialJson;
+    state.pendingArguments = '';
+
+    return [{
+      type: 'content_block_delta',
+      index: state.blockIndex,
+      delta: { type: 'input_json_delta', partial_json: partialJson }
+    }];
+  }
+
+  /**
+   * 结束tool_use内容块
+   */
+  private closeToolBlock(state: ToolCallState): AnthropicStreamEvent[] {
+    const events = this.flushToolArguments(state);
+
+    if (state.blockIndex !== null) {
+      events.push({ type: 'content_block_stop', index: state.blockIndex });
+    }
+
+    state.closed = true;
+    if (this.activeToolIndex === state.toolIndex) {
+      this.activeToolIndex = null;
+    }
+
+    return events;
+  }
+
+  /**
+   * 关闭所有打开的内容块，并按index顺序输出缓冲中的工具调用
+   */
+  private closeOpenBlocks(): AnthropicStreamEvent[] {
+    const events: AnthropicStreamEvent[] = [];
+
+    if (this.textBlockIndex !== null) {
+      events.push({ type: 'content_block_stop', index: this.textBlockIndex });
+      this.textBlockIndex = null;
+    }
+
+    if (this.activeToolIndex !== null) {
+      events.push(...this.closeToolBlock(this.toolCalls.get(this.activeToolIndex)!));
+    }
+
+    const pending = Array.from(this.toolCalls.values())
+      .filter(state => !state.closed)
+      .sort((a, b) => a.toolIndex - b.toolIndex);
+
+    for (const state of pending) {
+      state.name = state.name || 'unknown_tool';
+      events.push(...this.startToolBlock(state));
+      events.push(...this.closeToolBlock(state));
+    }
+
+    return events;
+  }
+
+  /**
+   * 判断参数片段是否已组成完整JSON
+   */
+  private isCompleteJson(text: string): boolean {
+    if (!text.trim()) {
+      return false;
+    }
+    try {
+      JSON.parse(text);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
+
+/**
+ * 将OpenAI chunk流转换为Anthropic事件流
+ */
+export async function* transformOpenAIStreamToAnthropic(
+  source: AsyncIterable<any>,
+  options: StreamConverterOptions = {}
+): AsyncGenerator<AnthropicStreamEvent> {
+  const converter = new OpenAIToAnthropicStreamConverter(options);
+  let chunkCount = 0;
+
+  for await (const chunk of source) {
+    chunkCount++;
+    for (const event of converter.convertChunk(chunk)) {
+      yield event;
+    }
+  }
+
+  for (const event of converter.finish()) {
+    yield event;
+  }
+
+  secureLogger.debug('✅ [STREAM-TRANSFORMER] OpenAI→Anthropic流式转换完成', { chunkCount });
+}
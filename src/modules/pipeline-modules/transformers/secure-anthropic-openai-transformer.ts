@@ -22,13 +22,16 @@
  */
 
 import { secureLogger } from '../../error-handler/src/utils/secure-logger';
-import { transformAnthropicToOpenAI, transformOpenAIToAnthropic } from './anthropic-openai-converter';
+import { transformAnthropicToOpenAI, transformOpenAIToAnthropic, AnthropicToOpenAIOptions } from './anthropic-openai-converter';
+import { transformOpenAIStreamToAnthropic, AnthropicStreamEvent } from './openai-anthropic-stream-converter';
 
 import {
   ModuleInterface,
   ModuleType,
   ModuleStatus,
   ModuleMetrics,
+  ModuleProcessingContext,
+  StreamResponseProcessor,
 } from '../../pipeline/src/module-interface';
 // 临时简化接口导入以修复模块注册问题
 // import {
@@ -84,7 +87,7 @@ export class TransformerSecurityError extends Error {
  * 实现ModuleInterface接口
  * 支持预配置模块和并发安全的双向转换
  */
-export class SecureAnthropicToOpenAITransformer extends EventEmitter implements ModuleInterface {
+export class SecureAnthropicToOpenAITransformer extends EventEmitter implements ModuleInterface, StreamResponseProcessor {
   private id: string;
   private name: string;
   private version: string;
@@ -264,7 +267,7 @@ export class SecureAnthropicToOpenAITransformer extends EventEmitter implements
       this.status.error = error as Error;
       this.status.lastActivity = new Date();
       
-      this.emit('error', { id: this.id, error, timestamp: new Date() });
+      this.emitError(error);
       throw error;
     }
   }
@@ -295,7 +298,7 @@ export class SecureAnthropicToOpenAITransformer extends EventEmitter implements
       this.status.error = error as Error;
       this.status.lastActivity = new Date();
       
-      this.emit('error', { id: this.id, error, timestamp: new Date() });
+      this.emitError(error);
       throw error;
     }
   }
@@ -303,7 +306,7 @@ export class SecureAnthropicToOpenAITransformer extends EventEmitter implements
   /**
    * 处理请求 - 简化版本主接口
    */
-  async processRequest(input: any): Promise<any> {
+  async processRequest(input: any, context?: ModuleProcessingContext): Promise<any> {
     if (this.status.status !== 'running') {
       throw new Error('Module is not running');
     }
@@ -322,7 +325,7 @@ export class SecureAnthropicToOpenAITransformer extends EventEmitter implements
       
       // 根据预配置的转换方向处理请求
       if (this.preConfig.transformDirection === 'anthropic-to-openai') {
-        output = await this.transformAnthropicRequestToOpenAI(input);
+        output = await this.transformAnthropicRequestToOpenAI(input, context);
       } else if (this.preConfig.transformDirection === 'openai-to-anthropic') {
         output = await this.transformOpenAIRequestToAnthropic(input);
       } else {
@@ -351,7 +354,7 @@ export class SecureAnthropicToOpenAITransformer extends EventEmitter implements
       this.status.health = 'degraded';
       this.status.lastActivity = new Date();
       
-      this.emit('error', { id: this.id, error, timestamp: new Date() });
+      this.emitError(error);
       throw error;
     }
   }
@@ -409,16 +412,30 @@ export class SecureAnthropicToOpenAITransformer extends EventEmitter implements
       this.status.health = 'degraded';
       this.status.lastActivity = new Date();
       
-      this.emit('error', { id: this.id, error, timestamp: new Date() });
+      this.emitError(error);
       throw error;
     }
   }
 
+  /**
+   * 处理流式响应 - 上游chunk逐个转换为Anthropic事件
+   */
+  processStreamResponse(stream: AsyncIterable<any>): AsyncIterable<AnthropicStreamEvent | any> {
+    if (this.preConfig.transformDirection !== 'anthropic-to-openai') {
+      return stream;
+    }
+
+    this.status.lastActivity = new Date();
+    secureLogger.debug('🌊 [SECURE-TRANSFORMER] 开始OpenAI→Anthropic流式响应转换', { id: this.id });
+
+    return transformOpenAIStreamToAnthropic(stream);
+  }
+
   /**
    * 处理数据 - 兼容旧接口，自动检测是请求还是响应
    * @deprecated 使用 processRequest 或 processResponse
    */
-  async process(input: any): Promise<any> {
+  async process(input: any, context?: ModuleProcessingContext): Promise<any> {
     if (this.status.status !== 'running') {
       throw new Error('Module is not running');
     }
@@ -435,7 +452,7 @@ export class SecureAnthropicToOpenAITransformer extends EventEmitter implements
 
       // 自动检测是请求还是响应，调用相应的新接口
       if (this.isRequest(input)) {
-        return await this.processRequest(input);
+        return await this.processRequest(input, context);
       } else if (this.isResponse(input)) {
         return await this.processResponse(input);
       } else {
@@ -448,11 +465,20 @@ export class SecureAnthropicToOpenAITransformer extends EventEmitter implements
       this.status.health = 'degraded';
       this.status.lastActivity = new Date();
       
-      this.emit('error', { id: this.id, error, timestamp: new Date() });
+      this.emitError(error);
       throw error;
     }
   }
 
+  /**
+   * 发出error事件 - 仅在有监听器时发出，否则EventEmitter会抛出ERR_UNHANDLED_ERROR并替换原始错误
+   */
+  private emitError(error: unknown): void {
+    if (this.listenerCount('error') > 0) {
+      this.emit('error', { id: this.id, error, timestamp: new Date() });
+    }
+  }
+
   /**
    * 判断是否为请求
    */
@@ -480,7 +506,7 @@ export class SecureAnthropicToOpenAITransformer extends EventEmitter implements
   /**
    * 使用模板字段表转换Anthropic请求到OpenAI
    */
-  private async transformAnthropicRequestToOpenAI(input: any): Promise<any> {
+  private async transformAnthropicRequestToOpenAI(input: any, context?: ModuleProcessingContext): Promise<any> {
     secureLogger.debug('🔄 [SECURE-TRANSFORMER] 开始Anthropic→OpenAI请求转换', {
       id: this.id,
       inputType: typeof input,
@@ -488,8 +514,8 @@ export class SecureAnthropicToOpenAITransformer extends EventEmitter implements
     });
     
     try {
-      // 使用现有的转换逻辑
-      const baseOutput = transformAnthropicToOpenAI(input);
+      // 使用现有的转换逻辑，按当前流水线模型的能力校验多模态内容
+      const baseOutput = transformAnthropicToOpenAI(input, this.getConversionOptions(context));
       
       // 应用模板字段表转换
       const finalOutput = this.applyFieldMappingToRequest(baseOutput, this.fieldMapping.requestFieldMapping);
@@ -509,6 +535,17 @@ export class SecureAnthropicToOpenAITransformer extends EventEmitter implements
     }
   }
 
+  /**
+   * 从流水线上下文获取转换选项（转换层配置中的模型能力，未声明时按不支持multimodal处理）
+   */
+  private getConversionOptions(context?: ModuleProcessingContext): AnthropicToOpenAIOptions {
+    const capabilities = context?.config?.capabilities;
+    return {
+      modelCapabilities: Array.isArray(capabilities) ? capabilities : [],
+      targetModel: context?.model
+    };
+  }
+
   /**
    * 使用模板字段表转换OpenAI请求到Anthropic
    */
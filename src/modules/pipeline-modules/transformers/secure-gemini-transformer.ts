@@ -2,8 +2,8 @@
  * Secure Gemini Transformer
  * 
  * 基于RCC4架构的Gemini专用转换器
- * 处理Anthropic → OpenAI协议格式转换，专门针对Gemini Provider优化
- * 符合RCC4六层流水线架构规范：Transformer层输出必须是OpenAI格式
+ * 处理Anthropic → Gemini generateContent协议格式转换，用于protocol: "gemini"的Provider
+ * 请求方向输出GeminiGenerateContentRequest，响应方向将Gemini响应/流式chunk转换回Anthropic格式
  * 
  * @author RCC4 System 
  * @version 1.0.0
@@ -14,9 +14,21 @@ import {
   ModuleType,
   ModuleStatus,
   ModuleMetrics,
+  ModuleProcessingContext,
+  StreamResponseProcessor,
+  NonStreamResponseProcessor,
 } from '../../pipeline/src/module-interface';
 import { EventEmitter } from 'events';
 import { SecureTransformerPreConfig, TransformerSecurityError } from './secure-anthropic-openai-transformer';
+import {
+  transformAnthropicToGemini,
+  transformGeminiToAnthropic,
+  transformGeminiStreamToAnthropic,
+  isGeminiResponse,
+  AnthropicToGeminiOptions,
+} from './anthropic-gemini-converter';
+import { AnthropicStreamEvent } from './openai-anthropic-stream-converter';
+import { secureLogger } from '../../error-handler/src/utils/secure-logger';
 
 /**
  * Transformer验证错误类型
@@ -32,73 +44,12 @@ export class TransformerValidationError extends Error {
   }
 }
 
-/**
- * Gemini请求接口（基于验证的API格式）
- */
-interface GeminiRequest {
-  project: string;
-  request: {
-    contents: Array<{
-      role: 'user' | 'model';
-      parts: Array<{
-        text?: string;
-        inlineData?: {
-          mimeType: string;
-          data: string;
-        };
-      }>;
-    }>;
-    tools?: Array<{
-      functionDeclarations: Array<{
-        name: string;
-        description: string;
-        parameters?: any;
-      }>;
-    }>;
-    generationConfig?: {
-      temperature?: number;
-      maxOutputTokens?: number;
-      topP?: number;
-      topK?: number;
-    };
-  };
-}
-
-/**
- * Gemini响应接口
- */
-interface GeminiResponse {
-  candidates: Array<{
-    content: {
-      parts: Array<{
-        text?: string;
-        functionCall?: {
-          name: string;
-          args: any;
-        };
-      }>;
-      role: 'model';
-    };
-    finishReason: string;
-    index: number;
-    safetyRatings: Array<{
-      category: string;
-      probability: string;
-    }>;
-  }>;
-  usageMetadata?: {
-    promptTokenCount: number;
-    candidatesTokenCount: number;
-    totalTokenCount: number;
-  };
-}
-
 /**
  * 安全的Gemini转换器
  * 
  * 实现ModuleInterface接口，支持API化管理
  */
-export class SecureGeminiTransformer extends EventEmitter implements ModuleInterface {
+export class SecureGeminiTransformer extends EventEmitter implements ModuleInterface, StreamResponseProcessor, NonStreamResponseProcessor {
   private id: string;
   private name: string;
   private version: string;
@@ -220,7 +171,7 @@ export class SecureGeminiTransformer extends EventEmitter implements ModuleInter
       this.status.error = error as Error;
       this.status.lastActivity = new Date();
       
-      this.emit('error', { id: this.id, error, timestamp: new Date() });
+      this.emitError(error);
       throw error;
     }
   }
@@ -251,15 +202,15 @@ export class SecureGeminiTransformer extends EventEmitter implements ModuleInter
       this.status.error = error as Error;
       this.status.lastActivity = new Date();
       
-      this.emit('error', { id: this.id, error, timestamp: new Date() });
+      this.emitError(error);
       throw error;
     }
   }
 
   /**
-   * 处理数据
+   * 处理请求 - Anthropic请求转换为Gemini generateContent请求
    */
-  async process(input: any): Promise<any> {
+  async process(input: any, context?: ModuleProcessingContext): Promise<any> {
     if (this.status.status !== 'running') {
       throw new Error('Module is not running');
     }
@@ -269,16 +220,13 @@ export class SecureGeminiTransformer extends EventEmitter implements ModuleInter
     this.status.lastActivity = new Date();
     
     try {
-      // 模拟处理过程
-      await new Promise(resolve => setTimeout(resolve, 10));
-      
-      // 简单的转换逻辑（实际实现会更复杂）
-      const output = {
-        ...input,
-        converted: true,
-        transformer: this.name,
-        timestamp: new Date().toISOString()
-      };
+      if (!input || typeof input !== 'object') {
+        throw new TransformerSecurityError('Invalid input format', 'INVALID_INPUT');
+      }
+
+      // HTTP层传入 { endpoint, method, headers, body, ... } 包装
+      const anthropicRequest = input.body && typeof input.body === 'object' ? input.body : input;
+      const output = transformAnthropicToGemini(anthropicRequest, this.getConversionOptions(context));
       
       // 更新指标
       this.metrics.requestsProcessed++;
@@ -308,11 +256,53 @@ export class SecureGeminiTransformer extends EventEmitter implements ModuleInter
       this.status.health = 'degraded';
       this.status.lastActivity = new Date();
       
-      this.emit('error', { id: this.id, error, timestamp: new Date() });
+      this.emitError(error);
       throw error;
     }
   }
 
+  /**
+   * 处理非流式响应 - Gemini响应转换回Anthropic格式
+   */
+  async processNonStreamResponse(response: any, context?: ModuleProcessingContext): Promise<any> {
+    if (!isGeminiResponse(response)) {
+      return response;
+    }
+
+    this.status.lastActivity = new Date();
+    return transformGeminiToAnthropic(response, { model: context?.model });
+  }
+
+  /**
+   * 处理流式响应 - Gemini chunk逐个转换为Anthropic事件
+   */
+  processStreamResponse(stream: AsyncIterable<any>): AsyncIterable<AnthropicStreamEvent> {
+    this.status.lastActivity = new Date();
+    secureLogger.debug('🌊 [GEMINI-TRANSFORMER] 开始Gemini→Anthropic流式响应转换', { id: this.id });
+
+    return transformGeminiStreamToAnthropic(stream);
+  }
+
+  /**
+   * 发出error事件 - 仅在有监听器时发出，否则EventEmitter会抛出ERR_UNHANDLED_ERROR并替换原始错误
+   */
+  private emitError(error: unknown): void {
+    if (this.listenerCount('error') > 0) {
+      this.emit('error', { id: this.id, error, timestamp: new Date() });
+    }
+  }
+
+  /**
+   * 从流水线上下文获取转换选项（目标模型和模型能力，未声明能力时按不支持multimodal处理）
+   */
+  private getConversionOptions(context?: ModuleProcessingContext): AnthropicToGeminiOptions {
+    const capabilities = context?.config?.capabilities;
+    return {
+      targetModel: context?.model,
+      modelCapabilities: Array.isArray(capabilities) ? capabilities : []
+    };
+  }
+
   /**
    * 重置模块状态
    */
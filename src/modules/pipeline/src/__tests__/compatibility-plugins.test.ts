@@ -0,0 +1,88 @@
+/**
+ * Server-Compatibility插件加载测试
+ *
+ * 验证plugin:/npm:两种引用方式的解析、经ModuleRegistry扫描注册后按流水线配置创建独立实例，
+ * 以及插件缺失或未实现ServerCompatibilityModule接口时的启动错误
+ *
+ * @author RCC v4.0
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { isCompatibilityPlugin, loadCompatibilityPlugins } from '../compatibility-plugin-loader';
+import { ModuleType } from '../module-interface';
+import { ServerCompatibilityModule } from '../../../pipeline-modules/server-compatibility/server-compatibility-base';
+
+const BASE_MODULE_PATH = path.resolve(__dirname, '../../../pipeline-modules/server-compatibility/server-compatibility-base');
+
+function writePlugin(filePath: string, className: string, body: string): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, `"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.${className} = void 0;
+const server_compatibility_base_1 = require(${JSON.stringify(BASE_MODULE_PATH)});
+class ${className} extends server_compatibility_base_1.ServerCompatibilityModule {
+  constructor(config) {
+    super('${className}', '${className}', '1.0.0');
+    this.pluginConfig = config;
+  }
+${body}
+}
+exports.${className} = ${className};
+`);
+}
+
+describe('Server compatibility plugins', () => {
+  let pluginDir: string;
+
+  beforeEach(() => {
+    pluginDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rcc-plugins-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(pluginDir, { recursive: true, force: true });
+  });
+
+  it('should load local and npm plugins and create an instance per pipeline config', async () => {
+    const processors = `
+  async processRequest(request) { return { ...request, relay: this.pluginConfig.region }; }
+  async processResponse(response) { return response; }`;
+    writePlugin(path.join(pluginDir, 'acme-relay.js'), 'AcmeRelayCompatibility', processors);
+    writePlugin(path.join(pluginDir, 'node_modules', 'rcc-edge-adapter', 'index.js'), 'EdgeAdapterCompatibility', processors);
+
+    expect(isCompatibilityPlugin('plugin:acme-relay')).toBe(true);
+    expect(isCompatibilityPlugin('lmstudio')).toBe(false);
+
+    const registrations = await loadCompatibilityPlugins(['plugin:acme-relay', 'npm:rcc-edge-adapter', 'plugin:acme-relay'], { pluginDir });
+    expect(registrations.map(reg => [reg.pluginName, reg.className, reg.type])).toEqual([
+      ['plugin:acme-relay', 'AcmeRelayCompatibility', ModuleType.SERVER_COMPATIBILITY],
+      ['npm:rcc-edge-adapter', 'EdgeAdapterCompatibility', ModuleType.SERVER_COMPATIBILITY]
+    ]);
+
+    const eu = registrations[0].factory!({ endpoint: 'https://relay.internal/v1', model: 'qwen3-coder', region: 'eu' });
+    const us = registrations[0].factory!({ endpoint: 'https://relay.internal/v1', model: 'qwen3-coder', region: 'us' });
+    expect(eu).not.toBe(us);
+    expect(eu).toBeInstanceOf(ServerCompatibilityModule);
+    expect(eu.getType()).toBe(ModuleType.SERVER_COMPATIBILITY);
+    await expect((us as ServerCompatibilityModule).processRequest({ model: 'qwen3-coder' }, {}, { requestId: 'req-1' }))
+      .resolves.toEqual({ model: 'qwen3-coder', relay: 'us' });
+  });
+
+  it('should fail startup for missing plugins and plugins that do not implement the interface', async () => {
+    await expect(loadCompatibilityPlugins(['plugin:missing'], { pluginDir }))
+      .rejects.toThrow(`Server compatibility plugin 'plugin:missing' not found in ${pluginDir}`);
+    await expect(loadCompatibilityPlugins(['npm:rcc-missing-adapter'], { pluginDir }))
+      .rejects.toThrow("Server compatibility plugin package 'rcc-missing-adapter' could not be resolved");
+
+    fs.writeFileSync(path.join(pluginDir, 'half-done.js'), `"use strict";
+class HalfDoneCompatibility {
+  async processRequest(request) { return request; }
+}
+exports.HalfDoneCompatibility = HalfDoneCompatibility;
+// implements ServerCompatibilityModule (partially)
+`);
+    await expect(loadCompatibilityPlugins(['plugin:half-done'], { pluginDir }))
+      .rejects.toThrow(/'plugin:half-done' does not export a ServerCompatibilityModule \(HalfDoneCompatibility is missing getId, .*processResponse\)/);
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * 流水线执行结果约定测试
+ *
+ * 验证executePipeline在模块失败时返回{ error }，executePipelineOrThrow抛出保留上游错误的RCCError
+ *
+ * @author RCC v4.0
+ */
+
+import { PipelineManager } from '../pipeline-manager';
+import { AssembledPipeline } from '../assembly-types';
+import { RCCError } from '../../../types/src/index';
+
+function createPipeline(process: () => Promise<any>): AssembledPipeline {
+  const instance: any = {
+    getId: () => 'pipeline_lmstudio_qwen3-coder_0-server',
+    getStatus: () => ({ status: 'running' }),
+    start: jest.fn(async () => undefined),
+    stop: jest.fn(async () => undefined),
+    cleanup: jest.fn(async () => undefined),
+    process: jest.fn(process)
+  };
+  return {
+    pipelineId: 'pipeline_lmstudio_qwen3-coder_0',
+    routeId: 'default',
+    routeName: 'default',
+    provider: 'lmstudio',
+    model: 'qwen3-coder',
+    endpoint: 'http://localhost:1234/v1',
+    apiKey: 'lm-studio',
+    timeout: 60000,
+    maxRetries: 3,
+    modules: [{ name: 'server', type: 'server' as any, order: 0, config: {}, instance, isInitialized: true, initializationTime: 0 }],
+    assemblyStatus: 'assembled',
+    assemblyTime: 0,
+    assemblyErrors: [],
+    isActive: true,
+    health: 'healthy'
+  };
+}
+
+describe('PipelineManager execution', () => {
+  let pipelineManager: PipelineManager;
+
+  beforeEach(() => {
+    pipelineManager = new PipelineManager();
+  });
+
+  afterEach(async () => {
+    await pipelineManager.destroy();
+  });
+
+  it('should return the response from both execution paths when every module succeeds', async () => {
+    const pipeline = createPipeline(async () => ({ id: 'msg_1' }));
+    pipelineManager.addPipeline(pipeline);
+
+    await expect(pipelineManager.executePipeline(pipeline.pipelineId, { messages: [] })).resolves.toEqual({ id: 'msg_1' });
+    await expect(pipelineManager.executePipelineOrThrow(pipeline.pipelineId, { messages: [] })).resolves.toEqual({ id: 'msg_1' });
+  });
+
+  it('should return { error } from executePipeline and throw the upstream cause from executePipelineOrThrow', async () => {
+    const upstreamError = Object.assign(new Error('Too Many Requests'), { status: 429 });
+    const pipeline = createPipeline(async () => { throw upstreamError; });
+    pipelineManager.addPipeline(pipeline);
+
+    await expect(pipelineManager.executePipeline(pipeline.pipelineId, { messages: [] })).resolves.toEqual({
+      error: 'Module server failed during execution: Too Many Requests'
+    });
+
+    const thrown = await pipelineManager.executePipelineOrThrow(pipeline.pipelineId, { messages: [] }).catch(error => error);
+    expect(thrown).toBeInstanceOf(RCCError);
+    expect(thrown.message).toBe('Module server failed during execution: Too Many Requests');
+    expect(thrown.context.details.cause).toBe(upstreamError);
+    expect(pipelineManager.getPipelineStatus(pipeline.pipelineId)!.errorCount).toBe(2);
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * 静态模块注册表测试
+ *
+ * 验证注册表按流水线层配置创建独立的模块实例：不同流水线不共享实例，
+ * 端点、密钥、超时和模型来自各自的PipelineConfig.layers[].config。
+ * 实例发往本地上游的请求用于核对实际生效的配置
+ *
+ * @author RCC v4.0
+ */
+
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { StaticModuleRegistry } from '../static-module-registry';
+import { ModuleType } from '../module-interface';
+import { PROTOCOL_DEFAULTS } from '../../../constants/src/pipeline-constants';
+import { RCCError, RCCErrorCode } from '../../../types/src/index';
+import { getRetryAfterMs, isRateLimitError } from '../../../router/src/upstream-error';
+
+interface UpstreamRequest {
+  method: string;
+  path: string;
+  authorization?: string;
+  apiKey?: string;
+  anthropicVersion?: string;
+}
+
+describe('StaticModuleRegistry', () => {
+  let registry: StaticModuleRegistry;
+  let upstream: http.Server;
+  let baseUrl: string;
+  let received: UpstreamRequest[];
+
+  function findRegistration(type: ModuleType, id: string) {
+    const registration = registry.getModulesByType(type).find(reg => reg.id === id);
+    expect(registration).toBeDefined();
+    return registration!;
+  }
+
+  beforeEach(async () => {
+    registry = new StaticModuleRegistry();
+    received = [];
+
+    // /hang/*不响应，/missing/*返回404，密钥sk-limited返回带Retry-After的429，其余路径按协议返回模型列表、Chat Completions或Messages响应
+    upstream = http.createServer((req, res) => {
+      received.push({
+        method: req.method!,
+        path: req.url!,
+        authorization: req.headers.authorization,
+        apiKey: req.headers['x-api-key'] as string | undefined,
+        anthropicVersion: req.headers['anthropic-version'] as string | undefined
+      });
+      req.resume();
+      if (req.url!.startsWith('/hang/')) {
+        return;
+      }
+      res.setHeader('content-type', 'application/json');
+      if (req.headers.authorization === 'Bearer sk-limited') {
+        res.statusCode = 429;
+        res.setHeader('retry-after', '7');
+        res.end(JSON.stringify({ error: { message: 'Rate limit reached', type: 'rate_limit_error' } }));
+      } else if (req.url!.startsWith('/missing/')) {
+        res.statusCode = 404;
+        res.end(JSON.stringify({ error: { message: 'not found' } }));
+      } else if (req.url!.endsWith('/models')) {
+        const owner = req.url!.split('/')[1];
+        res.end(JSON.stringify({ object: 'list', data: [{ id: `gpt-${owner}`, object: 'model', created: 0, owned_by: owner }] }));
+      } else if (req.url!.endsWith('/chat/completions')) {
+        res.end(JSON.stringify({
+          id: 'chatcmpl-1', object: 'chat.completion', created: 0, model: 'qwen3-coder',
+          choices: [{ index: 0, message: { role: 'assistant', content: 'Hi' }, finish_reason: 'stop' }],
+          usage: { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2 }
+        }));
+      } else {
+        res.end(JSON.stringify({ id: 'msg_1', type: 'message', role: 'assistant', content: [], stop_reason: 'end_turn' }));
+      }
+    });
+    await new Promise<void>(resolve => upstream.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(upstream.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    upstream.closeAllConnections();
+    await new Promise(resolve => upstream.close(resolve));
+  });
+
+  it('should create an isolated OpenAI server instance per pipeline from its layer config', async () => {
+    const registration = findRegistration(ModuleType.SERVER, 'server_openai_static');
+    expect(registration.module).toBeUndefined();
+
+    const lmstudio: any = await registry.createModuleInstance(registration, {
+      provider: 'lmstudio', model: 'qwen3-coder', endpoint: `${baseUrl}/v1`, apiKey: 'lm-studio', timeout: 120000, authMethod: 'bearer'
+    });
+    const openai: any = await registry.createModuleInstance(registration, {
+      provider: 'openai', model: 'gpt-4o', endpoint: `${baseUrl}/openai/v1`, apiKey: 'sk-test', timeout: 60000, authMethod: 'openai'
+    });
+
+    expect(lmstudio).not.toBe(openai);
+    await expect(lmstudio.sendRequest({ model: 'qwen3-coder', messages: [{ role: 'user', content: 'Hi' }] })).resolves.toMatchObject({ id: 'chatcmpl-1' });
+    await expect(openai.sendRequest({ model: 'gpt-4o', messages: [{ role: 'user', content: 'Hi' }] })).resolves.toMatchObject({ id: 'chatcmpl-1' });
+    expect(received.map(request => [request.path, request.authorization])).toEqual([
+      ['/v1/chat/completions', 'Bearer lm-studio'],
+      ['/openai/v1/chat/completions', 'Bearer sk-test']
+    ]);
+  });
+
+  it('should keep the upstream status and Retry-After on OpenAI server errors', async () => {
+    const registration = findRegistration(ModuleType.SERVER, 'server_openai_static');
+    const server: any = await registry.createModuleInstance(registration, {
+      provider: 'lmstudio', model: 'qwen3-coder', endpoint: `${baseUrl}/v1`, apiKey: 'sk-limited', timeout: 60000, authMethod: 'bearer'
+    });
+    const request = { model: 'qwen3-coder', messages: [{ role: 'user', content: 'Hi' }] };
+
+    const errors = [
+      await server.sendRequest(request).catch((error: Error) => error),
+      await server.sendStreamRequest({ ...request, stream: true }).catch((error: Error) => error)
+    ];
+    for (const error of errors) {
+      expect(error).toBeInstanceOf(RCCError);
+      expect(error.code).toBe(RCCErrorCode.PROVIDER_RATE_LIMITED);
+      expect(error.context.details.statusCode).toBe(429);
+      expect(error.context.details.cause).toBeInstanceOf(RCCError);
+      expect(isRateLimitError(error)).toBe(true);
+      expect(getRetryAfterMs(error)).toBe(7000);
+    }
+  });
+
+  it('should keep module defaults for settings missing from the layer config', async () => {
+    const registration = findRegistration(ModuleType.SERVER, 'server_anthropic_static');
+    const first = await registry.createModuleInstance(registration, { endpoint: `${baseUrl}/hang`, apiKey: 'key-a', timeout: 200 });
+    const second = await registry.createModuleInstance(registration, { endpoint: `${baseUrl}/anthropic`, apiKey: 'key-b' });
+    const request = { model: 'claude-sonnet-4', max_tokens: 16, messages: [{ role: 'user', content: 'Hi' }] };
+
+    expect(first).not.toBe(second);
+    await expect(first.process(request)).rejects.toThrow('Upstream request timed out after 200ms');
+    await expect(second.process(request)).resolves.toMatchObject({ id: 'msg_1', type: 'message' });
+    expect(received.map(entry => [entry.path, entry.apiKey, entry.anthropicVersion])).toEqual([
+      ['/hang/v1/messages', 'key-a', PROTOCOL_DEFAULTS.ANTHROPIC_API_VERSION],
+      ['/anthropic/v1/messages', 'key-b', PROTOCOL_DEFAULTS.ANTHROPIC_API_VERSION]
+    ]);
+  });
+
+  it('should configure server compatibility instances with the pipeline endpoint and model', async () => {
+    const registration = findRegistration(ModuleType.SERVER_COMPATIBILITY, 'server_compatibility_lmstudio_static');
+    const qwen: any = await registry.createModuleInstance(registration, {
+      provider: 'lmstudio', model: 'qwen3-coder', endpoint: `${baseUrl}/gpu-1/v1`, apiKey: 'lm-studio', timeout: 60000, maxTokens: 32768
+    });
+    const llama: any = await registry.createModuleInstance(registration, {
+      provider: 'lmstudio-2', model: 'llama-3.1-8b', endpoint: `${baseUrl}/missing/v1`, timeout: 30000
+    });
+
+    // 上游不可用时回退到层配置中的模型
+    await expect(qwen.getSupportedModels()).resolves.toEqual(['gpt-gpu-1']);
+    await expect(llama.getSupportedModels()).resolves.toEqual(['llama-3.1-8b']);
+    expect(received.map(request => [request.path, request.authorization])).toEqual([
+      ['/gpu-1/v1/models', 'Bearer lm-studio'],
+      ['/missing/v1/models', expect.any(String)]
+    ]);
+  });
+});
@@ -6,7 +6,7 @@
  * @author Claude Code Router v4.0
  */
 
-import { ModuleInterface, ModuleType } from './module-interface';
+import { ModuleInterface, ModuleRegistration, ModuleType } from './module-interface';
 import { PipelineConfig } from '../../router/src/router-preprocessor';
 
 /**
@@ -23,6 +23,7 @@ export interface AssembledPipeline {
   timeout: number;
   maxRetries: number;
   maxTokens?: number;
+  protocol?: string;
   
   // 组装后的模块链
   modules: AssembledModule[];
@@ -65,7 +66,7 @@ export interface AssembledModule {
  */
 export interface ModuleSelectionStrategy {
   selectModule(type: ModuleType, config: Record<string, any>): Promise<ModuleInterface | null>;
-  getAvailableModules(type: ModuleType): ModuleInterface[];
+  getAvailableModules(type: ModuleType): ModuleRegistration[];
   validateModuleCompatibility(modules: ModuleInterface[]): Promise<boolean>;
 }
 
@@ -0,0 +1,119 @@
+/**
+ * Server-Compatibility插件加载器
+ *
+ * Provider的serverCompatibility.use可以引用内置模块之外的外部插件，无需修改StaticModuleRegistry：
+ * - plugin:<name>: 本地插件，从插件目录（默认<RCC数据目录>/plugins）加载<name>.js或<name>/index.js
+ * - npm:<package>: npm包，先从插件目录的node_modules查找，再从当前工作目录查找
+ *
+ * 插件导出继承ServerCompatibilityModule的类，构造函数接收该流水线的server-compatibility层配置。
+ * 插件文件经ModuleRegistry.scanAndRegisterModules扫描注册，启动时按接口校验，不符合时组装失败
+ *
+ * @author RCC v4.0
+ */
+
+import * as path from 'path';
+import { ModuleInterface, ModuleRegistration, ModuleType } from './module-interface';
+import { ModuleRegistry } from './module-registry';
+import { secureLogger } from '../../error-handler/src/utils/secure-logger';
+import { SYSTEM_PATHS } from '../../constants/src/pipeline-constants';
+import { RCCError, RCCErrorCode } from '../../types/src/index';
+
+export const LOCAL_PLUGIN_PREFIX = 'plugin:';
+export const NPM_PLUGIN_PREFIX = 'npm:';
+
+// ServerCompatibilityModule需要实现的方法（ModuleInterface生命周期方法加双向处理方法）
+const REQUIRED_PLUGIN_METHODS = [
+  'getId', 'getName', 'getType', 'getVersion', 'getStatus', 'getMetrics',
+  'configure', 'start', 'stop', 'reset', 'cleanup', 'healthCheck', 'process',
+  'addConnection', 'processRequest', 'processResponse'
+];
+
+export interface CompatibilityPluginLoaderOptions {
+  // 本地插件目录，默认<RCC数据目录>/plugins
+  pluginDir?: string;
+}
+
+export function getCompatibilityPluginDir(): string {
+  return path.join(SYSTEM_PATHS.getRouteClaudeCodeHome(), 'plugins');
+}
+
+/**
+ * serverCompatibility.use是否引用外部插件
+ */
+export function isCompatibilityPlugin(use: unknown): use is string {
+  return typeof use === 'string' && (use.startsWith(LOCAL_PLUGIN_PREFIX) || use.startsWith(NPM_PLUGIN_PREFIX));
+}
+
+/**
+ * 解析插件入口文件
+ */
+export function resolveCompatibilityPlugin(use: string, pluginDir: string = getCompatibilityPluginDir()): string {
+  const isLocal = use.startsWith(LOCAL_PLUGIN_PREFIX);
+  const target = use.slice(isLocal ? LOCAL_PLUGIN_PREFIX.length : NPM_PLUGIN_PREFIX.length).trim();
+
+  try {
+    if (!target) {
+      throw new Error('empty plugin name');
+    }
+    return isLocal
+      ? require.resolve(path.join(pluginDir, target))
+      : require.resolve(target, { paths: [pluginDir, process.cwd()] });
+  } catch (error) {
+    throw new RCCError(
+      isLocal
+        ? `Server compatibility plugin '${use}' not found in ${pluginDir}`
+        : `Server compatibility plugin package '${target}' could not be resolved from ${pluginDir} or ${process.cwd()}`,
+      RCCErrorCode.MODULE_NOT_FOUND,
+      'pipeline',
+      { details: { use, pluginDir, reason: error instanceof Error ? error.message : String(error) } }
+    );
+  }
+}
+
+/**
+ * 加载并校验插件，返回可加入StaticModuleRegistry的注册信息（每条流水线通过factory创建独立实例）
+ */
+export async function loadCompatibilityPlugins(uses: string[], options: CompatibilityPluginLoaderOptions = {}): Promise<ModuleRegistration[]> {
+  const pluginDir = options.pluginDir || getCompatibilityPluginDir();
+  const plugins = Array.from(new Set(uses)).map(use => ({ use, filePath: resolveCompatibilityPlugin(use, pluginDir) }));
+  if (plugins.length === 0) {
+    return [];
+  }
+
+  const moduleRegistry = new ModuleRegistry();
+  moduleRegistry.setScanPaths(Array.from(new Set(plugins.map(plugin => plugin.filePath))), ModuleType.SERVER_COMPATIBILITY);
+  await moduleRegistry.scanAndRegisterModules();
+  const scanned = moduleRegistry.getModulesByType(ModuleType.SERVER_COMPATIBILITY);
+
+  return plugins.map(({ use, filePath }) => {
+    const scannedRegistration = scanned.find(reg => reg.filePath === filePath);
+    const ModuleClass = scannedRegistration?._factoryInfo?.ModuleClass;
+    const missingMethods = typeof ModuleClass === 'function'
+      ? REQUIRED_PLUGIN_METHODS.filter(method => typeof ModuleClass.prototype?.[method] !== 'function')
+      : REQUIRED_PLUGIN_METHODS;
+
+    if (!scannedRegistration || missingMethods.length > 0) {
+      throw new RCCError(
+        `Server compatibility plugin '${use}' does not export a ServerCompatibilityModule` +
+          (scannedRegistration ? ` (${scannedRegistration.className} is missing ${missingMethods.join(', ')})` : ''),
+        RCCErrorCode.PIPELINE_MODULE_MISSING,
+        'pipeline',
+        { details: { use, filePath, className: scannedRegistration?.className, missingMethods } }
+      );
+    }
+
+    secureLogger.info('🔌 Server-Compatibility插件已加载', { use, filePath, className: scannedRegistration.className });
+    return {
+      id: `server_compatibility_${use}`,
+      name: use,
+      className: scannedRegistration.className,
+      type: ModuleType.SERVER_COMPATIBILITY,
+      version: scannedRegistration.version,
+      filePath,
+      factory: (config: Record<string, any>): ModuleInterface => new ModuleClass(config),
+      isActive: true,
+      registeredAt: new Date(),
+      pluginName: use
+    };
+  });
+}
@@ -9,7 +9,14 @@
 // 核心类导出
 export { PipelineAssembler } from './pipeline-assembler';
 export { ModuleRegistry } from './module-registry';
-export { PipelineManager } from './pipeline-manager';
+export {
+  loadCompatibilityPlugins,
+  resolveCompatibilityPlugin,
+  isCompatibilityPlugin,
+  getCompatibilityPluginDir,
+  CompatibilityPluginLoaderOptions
+} from './compatibility-plugin-loader';
+export { PipelineManager, PipelineDrainOptions } from './pipeline-manager';
 
 // 接口和类型导出
 export {
@@ -18,7 +25,14 @@ export {
   ModuleStatus,
   ModuleMetrics,
   ModuleRegistration,
-  ModuleFactory
+  ModuleFactory,
+  ModuleInstanceFactory,
+  StreamingResponseBody,
+  StreamResponseProcessor,
+  NonStreamResponseProcessor,
+  ModuleProcessingContext,
+  PipelineExecutionOptions,
+  isStreamingResponseBody
 } from './module-interface';
 
 export {
@@ -68,7 +68,7 @@ export interface ModuleInterface {
   healthCheck(): Promise<{ healthy: boolean; details: any }>;
   
   // 核心处理方法
-  process(input: any): Promise<any>;
+  process(input: any, context?: ModuleProcessingContext): Promise<any>;
   
   // 模块连接管理 
   addConnection(module: ModuleInterface): void;
@@ -99,17 +99,90 @@ export interface ModuleRegistration {
   version: string;
   filePath: string;
   className: string;
-  module: ModuleInterface;
+  // 已创建的模块实例（动态扫描注册）
+  module?: ModuleInterface;
+  // 按流水线层配置创建独立实例（静态注册），每条流水线调用一次，流水线之间不共享模块状态
+  factory?: ModuleInstanceFactory;
   isActive: boolean;
   registeredAt: Date;
+  // 专用上游协议（如anthropic），未设置时用于默认的OpenAI转换流水线
+  protocol?: string;
+  // 外部插件对应的serverCompatibility.use（如plugin:acme-relay），只有use为该值的流水线选用
+  pluginName?: string;
   // 可选的工厂信息（用于延迟实例化）
   _factoryInfo?: any;
 }
 
+/**
+ * 模块实例工厂 - 入参为PipelineConfig.layers[].config
+ */
+export type ModuleInstanceFactory = (config: Record<string, any>) => ModuleInterface;
+
 /**
  * 模块工厂接口
  */
 export interface ModuleFactory {
   createModule(type: ModuleType, config?: any): Promise<ModuleInterface>;
   getSupportedTypes(): ModuleType[];
-}
\ No newline at end of file
+}
+/**
+ * 流式响应体
+ * 
+ * Server层建立上游流式连接后返回，stream按到达顺序产出事件，
+ * 随后沿流水线反向经过各模块的processStreamResponse逐事件转换
+ */
+export interface StreamingResponseBody<T = any> {
+  object: 'stream';
+  id?: string;
+  model?: string;
+  stream: AsyncIterable<T>;
+}
+
+/**
+ * 流式响应处理接口 - 需要逐事件转换响应的模块实现
+ */
+export interface StreamResponseProcessor {
+  processStreamResponse(stream: AsyncIterable<any>): AsyncIterable<any>;
+}
+
+/**
+ * 非流式响应处理接口 - 需要转换上游完整响应的模块实现
+ * Server层返回非流式响应后，沿流水线反向调用
+ */
+export interface NonStreamResponseProcessor {
+  processNonStreamResponse(response: any, context?: ModuleProcessingContext): Promise<any>;
+}
+
+/**
+ * 判断是否为流式响应体
+ */
+export function isStreamingResponseBody(value: any): value is StreamingResponseBody {
+  return !!value &&
+    typeof value === 'object' &&
+    !!value.stream &&
+    typeof value.stream[Symbol.asyncIterator] === 'function';
+}
+
+/**
+ * 模块处理上下文 - 流水线执行时传入当前流水线信息和该层的配置
+ *
+ * 静态注册的模块按流水线创建实例，该层配置在构造时已传入；这里的config与之相同，
+ * 供动态注册的共享实例按具体流水线（如目标模型能力）处理
+ */
+export interface ModuleProcessingContext {
+  readonly requestId: string;
+  readonly pipelineId?: string;
+  readonly providerName?: string;
+  readonly model?: string;
+  readonly config?: Record<string, any>;
+  // 请求被取消（如对冲请求落败）时中止上游连接
+  readonly signal?: AbortSignal;
+}
+
+/**
+ * 流水线执行选项
+ */
+export interface PipelineExecutionOptions {
+  // 中止后不再执行后续模块，Server层同时中止上游请求
+  signal?: AbortSignal;
+}
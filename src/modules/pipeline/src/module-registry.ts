@@ -37,6 +37,7 @@ export class ModuleRegistry {
   private registeredModules: Map<string, ModuleRegistration> = new Map();
   private modulesByType: Map<ModuleType, ModuleRegistration[]> = new Map();
   private scanPaths: string[] = [];
+  private scanModuleType?: ModuleType;
   
   constructor() {
     // 初始化模块类型映射
@@ -46,10 +47,13 @@ export class ModuleRegistry {
   }
   
   /**
-   * 设置扫描路径
+   * 设置扫描路径（目录或单个模块文件）
+   *
+   * 指定moduleType时，扫描到的模块统一按该类型注册；外部插件不在pipeline-modules目录下，无法按路径推断类型
    */
-  setScanPaths(paths: string[]): void {
+  setScanPaths(paths: string[], moduleType?: ModuleType): void {
     this.scanPaths = paths;
+    this.scanModuleType = moduleType;
   }
   
   /**
@@ -87,7 +91,12 @@ export class ModuleRegistry {
     console.log(`🔍 开始扫描 ${this.scanPaths.length} 个路径...`);
     for (const scanPath of this.scanPaths) {
       console.log(`📁 扫描路径: ${scanPath}`);
-      if (fs.existsSync(scanPath)) {
+      if (fs.existsSync(scanPath) && fs.statSync(scanPath).isFile()) {
+        const result = await this._scanModuleFile(scanPath);
+        if (result) {
+          scanResults.push(result);
+        }
+      } else if (fs.existsSync(scanPath)) {
         console.log(`✅ 路径存在，开始扫描文件...`);
         const results = await this._scanDirectory(scanPath);
         console.log(`📄 在路径 ${scanPath} 中找到 ${results.length} 个候选文件`);
@@ -408,19 +417,19 @@ export class ModuleRegistry {
       console.log(`📄 文件大小: ${content.length} 字符`);
       console.log(`📄 文件前200字符: ${content.substring(0, 200)}...`);
       
-      // 检查是否包含模块导出，查找所有导出的类
-      const classMatches = content.match(/export\s+class\s+(\w+)/g);
+      // 检查是否包含模块导出，查找所有导出的类（ES模块的export class，以及编译后CommonJS的exports.X =）
+      const classMatches = content.match(/export\s+class\s+(\w+)|exports\.(\w+)\s*=/g);
       if (!classMatches) {
         console.log(`⏭️ 跳过文件: 没有找到导出的类`);
-        console.log(`   - 查找模式: /export\\s+class\\s+(\\w+)/g`);
+        console.log(`   - 查找模式: /export\\s+class\\s+(\\w+)|exports\\.(\\w+)\\s*=/g`);
         return null;
       }
       
       // 提取所有类名
-      const classNames = classMatches.map(match => {
-        const nameMatch = match.match(/export\s+class\s+(\w+)/);
-        return nameMatch ? nameMatch[1] : null;
-      }).filter(name => name !== null);
+      const classNames = Array.from(new Set(classMatches.map(match => {
+        const nameMatch = match.match(/export\s+class\s+(\w+)|exports\.(\w+)\s*=/);
+        return nameMatch ? nameMatch[1] || nameMatch[2] : null;
+      }).filter(name => name !== null && name !== 'default')));
       
       console.log(`🏷️ 找到类: ${classNames.join(', ')}`);
       
@@ -472,7 +481,9 @@ export class ModuleRegistry {
       console.log(`   - 包含'server-compatibility': ${filePath.includes('server-compatibility')}`);
       console.log(`   - 包含'server': ${filePath.includes('server')}`);
       
-      if (filePath.includes('transformer')) {
+      if (this.scanModuleType) {
+        moduleType = this.scanModuleType;
+      } else if (filePath.includes('transformer')) {
         moduleType = ModuleType.TRANSFORMER;
       } else if (filePath.includes('protocol')) {
         moduleType = ModuleType.PROTOCOL;
@@ -492,6 +503,7 @@ export class ModuleRegistry {
       console.log(`🔍 开始接口检查...`);
       const hasModuleInterface = content.includes('ModuleInterface');
       const hasBasePipelineModule = content.includes('BasePipelineModule');
+      const hasServerCompatibilityModule = content.includes('ServerCompatibilityModule');
       
       console.log(`🔍 接口关键词检查:`);
       console.log(`   - 'ModuleInterface': ${hasModuleInterface}`);
@@ -519,9 +531,9 @@ export class ModuleRegistry {
         console.log(`   - ${check.method}: ${check.found ? '✅' : '❌'}`);
       });
       
-      const isValid = hasModuleInterface || hasBasePipelineModule;
+      const isValid = hasModuleInterface || hasBasePipelineModule || hasServerCompatibilityModule;
       console.log(`✅ 模块有效性评估: ${isValid}`);
-      console.log(`   - 基于接口检查: ${hasModuleInterface || hasBasePipelineModule}`);
+      console.log(`   - 基于接口检查: ${isValid}`);
       console.log(`   - 基于方法检查: ${methodChecks.filter(c => c.found).length}/${methodChecks.length} 个方法存在`);
       
       const result = {
@@ -529,7 +541,7 @@ export class ModuleRegistry {
         className,
         moduleType,
         isValid,
-        error: isValid ? undefined : 'Module does not implement ModuleInterface or extend BasePipelineModule'
+        error: isValid ? undefined : 'Module does not implement ModuleInterface or extend BasePipelineModule/ServerCompatibilityModule'
       };
       
       console.log(`📋 扫描结果:`, {
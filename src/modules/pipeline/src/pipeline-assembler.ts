@@ -6,7 +6,7 @@
  * @author Claude Code Router v4.0
  */
 
-import { ModuleInterface, ModuleType } from './module-interface';
+import { ModuleInterface, ModuleRegistration, ModuleType } from './module-interface';
 import { StaticModuleRegistry } from './static-module-registry';
 import { PipelineConfig } from '../../router/src/router-preprocessor';
 import {
@@ -21,6 +21,7 @@ import {
 import { RCCError, RCCErrorCode } from '../../types/src/index';
 import { EnhancedErrorHandler } from '../../error-handler/src/enhanced-error-handler';
 import { ModuleDebugIntegration } from '../../logging/src/debug-integration';
+import { CompatibilityPluginLoaderOptions, isCompatibilityPlugin, loadCompatibilityPlugins } from './compatibility-plugin-loader';
 
 /**
  * 默认模块选择策略
@@ -41,12 +42,29 @@ class DefaultModuleSelectionStrategy implements ModuleSelectionStrategy {
       return null;
     }
     
+    // serverCompatibility.use引用外部插件时直接使用该插件，插件不参与其他流水线的选择
+    const pluginRegistration = availableRegistrations.find(reg => reg.pluginName && reg.pluginName === config.use);
+    if (pluginRegistration) {
+      return this.registry.createModuleInstance(pluginRegistration, config);
+    }
+    
+    // 原生协议流水线优先使用声明了该协议的模块，该层没有专用模块时使用通用模块；
+    // 默认（OpenAI）流水线只使用通用模块
+    const protocol = config.protocol;
+    const genericRegistrations = availableRegistrations.filter(reg => !reg.protocol && !reg.pluginName);
+    const dedicatedRegistrations = protocol ? availableRegistrations.filter(reg => reg.protocol === protocol) : [];
+    const protocolRegistrations = dedicatedRegistrations.length > 0 ? dedicatedRegistrations : genericRegistrations;
+    if (protocolRegistrations.length === 0) {
+      console.log(`❌ [MODULE-SELECTION] 没有找到支持协议 ${protocol || 'default'} 的 ${type} 模块`);
+      return null;
+    }
+    
     // 根据provider选择合适的模块注册信息
-    let selectedRegistration = availableRegistrations[0];
+    let selectedRegistration = protocolRegistrations[0];
     const provider = config.provider;
     if (provider) {
       // 优先选择provider特定的模块
-      const specificRegistration = availableRegistrations.find(reg => 
+      const specificRegistration = protocolRegistrations.find(reg => 
         reg.name.toLowerCase().includes(provider.toLowerCase()) ||
         reg.className.toLowerCase().includes(provider.toLowerCase())
       );
@@ -65,11 +83,11 @@ class DefaultModuleSelectionStrategy implements ModuleSelectionStrategy {
     }
   }
   
-  getAvailableModules(type: ModuleType): ModuleInterface[] {
-    const registrations = this.registry.getModulesByType(type);
-    return registrations
-      .filter(reg => reg.isActive)
-      .map(reg => reg.module);
+  /**
+   * 可用模块的注册信息（名称、类名、版本、协议等），不创建模块实例；实例由selectModule按流水线配置创建
+   */
+  getAvailableModules(type: ModuleType): ModuleRegistration[] {
+    return this.registry.getModulesByType(type).filter(reg => reg.isActive && (reg.module || reg.factory));
   }
   
   async validateModuleCompatibility(modules: ModuleInterface[]): Promise<boolean> {
@@ -99,7 +117,10 @@ export class PipelineAssembler {
     captureLevel: 'full'
   });
   
-  constructor() {
+  /**
+   * @param pluginOptions 外部Server-Compatibility插件的加载选项（如本地插件目录）
+   */
+  constructor(private pluginOptions: CompatibilityPluginLoaderOptions = {}) {
     console.log('🚀 PipelineAssembler: 构造函数被调用，即将创建StaticModuleRegistry...');
     this.registry = new StaticModuleRegistry();
     console.log('✅ PipelineAssembler: StaticModuleRegistry创建完成');
@@ -157,6 +178,16 @@ export class PipelineAssembler {
     // 1. 扫描并注册模块
     await this.registry.scanAndRegisterModules();
     
+    // 1.1 加载serverCompatibility.use引用的外部插件，找不到或不符合接口时组装失败
+    try {
+      const pluginRegistrations = await loadCompatibilityPlugins(this._collectCompatibilityPlugins(pipelineConfigs), this.pluginOptions);
+      pluginRegistrations.forEach(registration => this.registry.registerModule(registration));
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : String(error));
+      await PipelineAssembler.debugIntegration.endSession();
+      return this._createFailureResult(errors, warnings, startTime);
+    }
+    
     const registryStats = this.registry.getRegistryStats();
     if (registryStats.totalModules === 0) {
       errors.push('No modules found during scanning');
@@ -263,6 +294,18 @@ export class PipelineAssembler {
     return this.registry.getModulesByType(type).length;
   }
   
+  /**
+   * 收集各流水线server-compatibility层引用的外部插件
+   */
+  private _collectCompatibilityPlugins(pipelineConfigs: PipelineConfig[]): string[] {
+    const plugins = pipelineConfigs
+      .flatMap(config => config.layers || [])
+      .filter(layer => layer.type === 'server-compatibility' || layer.name === 'server-compatibility')
+      .map(layer => layer.config?.use)
+      .filter(isCompatibilityPlugin);
+    return Array.from(new Set(plugins));
+  }
+  
   /**
    * 组装单个流水线
    */
@@ -281,6 +324,7 @@ export class PipelineAssembler {
       timeout: config.timeout,
       maxRetries: config.maxRetries,
       maxTokens: config.maxTokens,
+      protocol: config.protocol,
       modules: [],
       assemblyStatus: 'assembling',
       assemblyTime: 0,
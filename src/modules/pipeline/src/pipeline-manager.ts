@@ -7,7 +7,7 @@
  */
 
 import { AssembledPipeline } from './assembly-types';
-import { ModuleInterface } from './module-interface';
+import { ModuleInterface, StreamingResponseBody, StreamResponseProcessor, NonStreamResponseProcessor, PipelineExecutionOptions, isStreamingResponseBody } from './module-interface';
 import { secureLogger } from '../../error-handler/src/utils/secure-logger';
 import { JQJsonHandler } from '../../error-handler/src/utils/jq-json-handler';
 import { RCCError, RCCErrorCode } from '../../types/src/index';
@@ -39,6 +39,14 @@ export interface PipelineStatus {
   averageResponseTime: number;
 }
 
+/**
+ * 流水线下线选项
+ */
+export interface PipelineDrainOptions {
+  // 等待进行中请求（含未结束的流）完成的最长时间，未设置时立即停止
+  drainTimeoutMs?: number;
+}
+
 /**
  * 流水线管理器统计信息
  */
@@ -88,6 +96,9 @@ export class PipelineManager extends EventEmitter {
   // 鉴权维护模式相关属性
   private maintenanceMode: Map<string, MaintenanceInfo> = new Map();
   private maintenanceLocks: Map<string, boolean> = new Map();
+
+  // 每个流水线实例进行中的执行数（流式响应在流结束时计完）
+  private activeExecutions: Map<AssembledPipeline, number> = new Map();
   
   // 外部依赖引用
   private externalErrorHandler: any = null;
@@ -169,6 +180,34 @@ export class PipelineManager extends EventEmitter {
     return this.pipelines.get(pipelineId);
   }
 
+  /**
+   * 用新组装的流水线替换同ID的流水线
+   *
+   * 新流水线立即接收请求，旧流水线等待进行中的请求完成后再停止模块
+   */
+  async replacePipeline(pipeline: AssembledPipeline, options: PipelineDrainOptions = {}): Promise<boolean> {
+    const previous = this.pipelines.get(pipeline.pipelineId);
+    if (!this.addPipeline(pipeline)) {
+      return false;
+    }
+
+    if (previous && previous !== pipeline) {
+      await this.waitForDrain(previous, options.drainTimeoutMs);
+      await this.cleanupPipeline(previous);
+      previous.isActive = false;
+      secureLogger.info('Pipeline replaced', { pipelineId: pipeline.pipelineId });
+    }
+    return true;
+  }
+
+  /**
+   * 进行中的执行数
+   */
+  getActiveExecutionCount(pipelineId: string): number {
+    const pipeline = this.pipelines.get(pipelineId);
+    return pipeline ? this.activeExecutions.get(pipeline) || 0 : 0;
+  }
+
   /**
    * 移除流水线
    */
@@ -191,13 +230,15 @@ export class PipelineManager extends EventEmitter {
   /**
    * 销毁流水线
    */
-  async destroyPipeline(pipelineId: string): Promise<boolean> {
+  async destroyPipeline(pipelineId: string, options: PipelineDrainOptions = {}): Promise<boolean> {
     const pipeline = this.pipelines.get(pipelineId);
     if (!pipeline) {
       return false;
     }
 
     try {
+      await this.waitForDrain(pipeline, options.drainTimeoutMs);
+
       // 停止流水线中的所有模块
       for (const module of pipeline.modules) {
         if (module.instance && module.isInitialized) {
@@ -218,8 +259,10 @@ export class PipelineManager extends EventEmitter {
       pipeline.isActive = false;
       pipeline.health = 'unhealthy';
       
-      // 从管理器中移除
-      this.removePipeline(pipelineId);
+      // 从管理器中移除（等待期间可能已被新流水线替换）
+      if (this.pipelines.get(pipelineId) === pipeline) {
+        this.removePipeline(pipelineId);
+      }
       
       secureLogger.info('Pipeline destroyed successfully', { pipelineId });
       return true;
@@ -307,9 +350,20 @@ export class PipelineManager extends EventEmitter {
   }
 
   /**
-   * 执行流水线 - 通过所有模块传递数据
+   * 执行流水线 - 通过所有模块传递数据，执行失败时返回{ error }
+   */
+  async executePipeline(pipelineId: string, request: any, options: PipelineExecutionOptions = {}): Promise<any> {
+    try {
+      return await this.executePipelineOrThrow(pipelineId, request, options);
+    } catch (error) {
+      return { error: error.message || 'Pipeline execution failed' };
+    }
+  }
+
+  /**
+   * 执行流水线 - 模块执行失败时抛出RCCError（保留上游错误），供路由回退和密钥轮换判断
    */
-  async executePipeline(pipelineId: string, request: any): Promise<any> {
+  async executePipelineOrThrow(pipelineId: string, request: any, options: PipelineExecutionOptions = {}): Promise<any> {
     const requestId = `pipeline-exec-${Date.now()}`;
     const startTime = Date.now();
     
@@ -394,6 +448,8 @@ export class PipelineManager extends EventEmitter {
 
     let success = false;
     let currentData = request;
+    let streamTracked = false;
+    this.beginExecution(pipeline);
     
     try {
       // 验证流水线中是否有模块
@@ -416,6 +472,16 @@ export class PipelineManager extends EventEmitter {
           throw new Error(errorMsg);
         }
 
+        // 请求已被取消时不再继续执行后续模块
+        if (options.signal?.aborted) {
+          throw new RCCError(
+            `Pipeline execution aborted before module ${module.name}`,
+            RCCErrorCode.PIPELINE_EXECUTION_FAILED,
+            'pipeline',
+            { pipelineId, details: { aborted: true, moduleName: module.name } }
+          );
+        }
+
         // 执行模块处理
         try {
           console.log(`⚡ [${requestId}] 执行模块 ${i+1}/${pipeline.modules.length}: ${module.name} (${module.type})`);
@@ -426,7 +492,14 @@ export class PipelineManager extends EventEmitter {
             moduleIndex: i 
           });
           
-          currentData = await module.instance.process(currentData);
+          currentData = await module.instance.process(currentData, {
+            requestId,
+            pipelineId,
+            providerName: pipeline.provider,
+            model: pipeline.model,
+            config: module.config,
+            signal: options.signal
+          });
           
           console.log(`✅ [${requestId}] 模块执行完成: ${module.name}`);
           console.log(`📊 [${requestId}] 模块输出数据类型: ${typeof currentData}`);
@@ -458,13 +531,24 @@ export class PipelineManager extends EventEmitter {
               details: {
                 moduleName: module.name, 
                 moduleIndex: i,
-                originalError: moduleError.message || 'Unknown error'
+                originalError: moduleError.message || 'Unknown error',
+                // 保留上游错误（状态码、Retry-After等），供密钥池和负载均衡判断
+                cause: moduleError
               }
             }
           );
         }
       }
 
+      // 流式响应：沿流水线反向挂载各模块的逐事件转换
+      if (isStreamingResponseBody(currentData)) {
+        currentData = this.trackStreamExecution(pipeline, this.attachStreamResponseProcessors(pipeline, currentData));
+        streamTracked = true;
+        console.log(`🌊 [${requestId}] 流式响应已建立，事件将逐个转发`);
+      } else {
+        currentData = await this.applyNonStreamResponseProcessors(pipeline, currentData, requestId);
+      }
+
       success = true;
       const responseTime = Date.now() - startTime;
       
@@ -491,8 +575,11 @@ export class PipelineManager extends EventEmitter {
       // 处理流水线执行错误
       await this.errorHandler.handleRCCError(error, { requestId, pipelineId });
       this.debugIntegration.recordError(requestId, error);
-      return { error: error.message || 'Pipeline execution failed' };
+      throw error;
     } finally {
+      if (!streamTracked) {
+        this.endExecution(pipeline);
+      }
       const responseTime = Date.now() - startTime;
       this.recordPipelineExecution(pipelineId, success, responseTime);
       
@@ -501,6 +588,44 @@ export class PipelineManager extends EventEmitter {
     }
   }
 
+  /**
+   * 按模块反向顺序挂载流式响应处理器
+   */
+  private attachStreamResponseProcessors(pipeline: AssembledPipeline, response: StreamingResponseBody): StreamingResponseBody {
+    let stream = response.stream;
+
+    for (let i = pipeline.modules.length - 1; i >= 0; i--) {
+      const instance = pipeline.modules[i]?.instance;
+      if (instance && typeof (instance as any).processStreamResponse === 'function') {
+        stream = (instance as unknown as StreamResponseProcessor).processStreamResponse(stream);
+      }
+    }
+
+    return { ...response, stream };
+  }
+
+  /**
+   * 按模块反向顺序转换非流式响应
+   */
+  private async applyNonStreamResponseProcessors(pipeline: AssembledPipeline, response: any, requestId: string): Promise<any> {
+    let currentResponse = response;
+
+    for (let i = pipeline.modules.length - 1; i >= 0; i--) {
+      const module = pipeline.modules[i];
+      if (module?.instance && typeof (module.instance as any).processNonStreamResponse === 'function') {
+        currentResponse = await (module.instance as unknown as NonStreamResponseProcessor).processNonStreamResponse(currentResponse, {
+          requestId,
+          pipelineId: pipeline.pipelineId,
+          providerName: pipeline.provider,
+          model: pipeline.model,
+          config: module.config
+        });
+      }
+    }
+
+    return currentResponse;
+  }
+
   /**
    * 健康检查所有流水线
    */
@@ -814,6 +939,109 @@ export class PipelineManager extends EventEmitter {
     }
   }
 
+  /**
+   * 开始一次执行计数
+   */
+  private beginExecution(pipeline: AssembledPipeline): void {
+    this.activeExecutions.set(pipeline, (this.activeExecutions.get(pipeline) || 0) + 1);
+  }
+
+  /**
+   * 结束一次执行计数，流水线空闲时通知等待下线的调用方
+   */
+  private endExecution(pipeline: AssembledPipeline): void {
+    const remaining = (this.activeExecutions.get(pipeline) || 1) - 1;
+    if (remaining > 0) {
+      this.activeExecutions.set(pipeline, remaining);
+      return;
+    }
+    this.activeExecutions.delete(pipeline);
+    this.emit('pipeline-idle', pipeline);
+  }
+
+  /**
+   * 流式响应在流读完、出错或被提前关闭时才结束执行计数
+   */
+  private trackStreamExecution(pipeline: AssembledPipeline, response: StreamingResponseBody): StreamingResponseBody {
+    const source = response.stream;
+    let finished = false;
+    const finish = () => {
+      if (!finished) {
+        finished = true;
+        this.endExecution(pipeline);
+      }
+    };
+
+    const stream: AsyncIterable<any> = {
+      [Symbol.asyncIterator]: () => {
+        const iterator = source[Symbol.asyncIterator]();
+        return {
+          next: async (...args: [] | [any]) => {
+            try {
+              const item = await iterator.next(...args);
+              if (item.done) {
+                finish();
+              }
+              return item;
+            } catch (error) {
+              finish();
+              throw error;
+            }
+          },
+          return: async (value?: any) => {
+            finish();
+            return iterator.return ? iterator.return(value) : { done: true, value };
+          },
+          throw: async (error?: any) => {
+            finish();
+            if (iterator.throw) {
+              return iterator.throw(error);
+            }
+            throw error;
+          }
+        };
+      }
+    };
+
+    return { ...response, stream };
+  }
+
+  /**
+   * 等待流水线进行中的执行完成，超时后不再等待
+   */
+  private waitForDrain(pipeline: AssembledPipeline, timeoutMs?: number): Promise<void> {
+    if (!timeoutMs || !this.activeExecutions.get(pipeline)) {
+      return Promise.resolve();
+    }
+
+    secureLogger.info('Draining pipeline before shutdown', {
+      pipelineId: pipeline.pipelineId,
+      activeExecutions: this.activeExecutions.get(pipeline),
+      timeoutMs
+    });
+
+    return new Promise(resolve => {
+      const onIdle = (idlePipeline: AssembledPipeline) => {
+        if (idlePipeline === pipeline) {
+          done();
+        }
+      };
+      const timer = setTimeout(() => {
+        secureLogger.warn('Pipeline drain timed out, stopping with requests in flight', {
+          pipelineId: pipeline.pipelineId,
+          activeExecutions: this.activeExecutions.get(pipeline) || 0
+        });
+        done();
+      }, timeoutMs);
+      const done = () => {
+        clearTimeout(timer);
+        this.off('pipeline-idle', onIdle);
+        resolve();
+      };
+      this.on('pipeline-idle', onIdle);
+    });
+  }
+
   /**
    * 清理流水线资源
    */
@@ -844,7 +1072,7 @@ export class PipelineManager extends EventEmitter {
   /**
    * 销毁管理器
    */
-  async destroy(): Promise<void> {
+  async destroy(options: PipelineDrainOptions = {}): Promise<void> {
     if (this.isDestroyed) {
       return;
     }
@@ -860,11 +1088,9 @@ export class PipelineManager extends EventEmitter {
       this.cleanupIntervalId = null;
     }
 
-    // 销毁所有流水线
+    // 销毁所有流水线，设置排空时间时并行等待各流水线进行中的请求完成
     const pipelineIds = Array.from(this.pipelines.keys());
-    for (const pipelineId of pipelineIds) {
-      await this.destroyPipeline(pipelineId);
-    }
+    await Promise.all(pipelineIds.map(pipelineId => this.destroyPipeline(pipelineId, options)));
 
     this.isDestroyed = true;
     secureLogger.info('Pipeline manager destroyed');
@@ -2,6 +2,9 @@
  * Static Module Registry
  * 
  * 静态编译时模块注册 - 解决transformer模块动态扫描问题
+ *
+ * 注册表只保存模块工厂，组装时按每条流水线的层配置（endpoint、apiKey、timeout等）
+ * 创建独立实例，不同Provider的超时、端点和指标互不影响
  */
 
 import { ModuleInterface, ModuleType, ModuleRegistration } from './module-interface';
@@ -12,13 +15,37 @@ import { RCCError, RCCErrorCode } from '../../types/src/index';
 import { SecureAnthropicToOpenAITransformer } from '../../pipeline-modules/transformers/secure-anthropic-openai-transformer';
 import { SecureGeminiTransformer } from '../../pipeline-modules/transformers/secure-gemini-transformer';
 import { GeminiProtocolModule } from '../../pipeline-modules/protocol/gemini-protocol';
+import { AnthropicProtocolModule } from '../../pipeline-modules/protocol/anthropic-protocol';
 import { OpenAIServerModule } from '../../pipeline-modules/server/openai-server';
+import { AnthropicServerModule } from '../../pipeline-modules/server/anthropic-server';
+import { GeminiServerModule } from '../../pipeline-modules/server/gemini-server';
 import { IFlowCompatibilityModule } from '../../pipeline-modules/server-compatibility/iflow-compatibility';
 import { LMStudioCompatibilityModule } from '../../pipeline-modules/server-compatibility/lmstudio-compatibility';
 import { OllamaCompatibilityModule } from '../../pipeline-modules/server-compatibility/ollama-compatibility';
 import { QwenCompatibilityModule } from '../../pipeline-modules/server-compatibility/qwen-compatibility';
 import { VLLMCompatibilityModule } from '../../pipeline-modules/server-compatibility/vllm-compatibility';
 
+/**
+ * 去掉值为undefined的项，避免覆盖模块构造函数中的默认值
+ */
+function omitUndefined<T extends Record<string, any>>(values: T): Partial<T> {
+  return Object.fromEntries(Object.entries(values).filter(([, value]) => value !== undefined)) as Partial<T>;
+}
+
+/**
+ * Server层配置：端点、密钥和超时
+ */
+function pickServerConfig(config: Record<string, any>): { endpoint?: string; apiKey?: string; timeout?: number } {
+  return omitUndefined({ endpoint: config.endpoint, apiKey: config.apiKey, timeout: config.timeout });
+}
+
+/**
+ * Server-Compatibility层配置：端点、密钥和超时（模型列表由各模块按自身格式设置）
+ */
+function pickCompatibilityConfig(config: Record<string, any>): { baseUrl?: string; apiKey?: string; timeout?: number } {
+  return omitUndefined({ baseUrl: config.endpoint, apiKey: config.apiKey, timeout: config.timeout });
+}
+
 export class StaticModuleRegistry {
   private registeredModules: Map<string, ModuleRegistration> = new Map();
   private modulesByType: Map<ModuleType, ModuleRegistration[]> = new Map();
@@ -61,7 +88,7 @@ export class StaticModuleRegistry {
         type: ModuleType.TRANSFORMER,
         version: '4.0.0',
         filePath: 'static_import',
-        module: new SecureAnthropicToOpenAITransformer(),
+        factory: () => new SecureAnthropicToOpenAITransformer(),
         isActive: true,
         registeredAt: new Date()
       };
@@ -76,9 +103,10 @@ export class StaticModuleRegistry {
         type: ModuleType.TRANSFORMER,
         version: '4.0.0',
         filePath: 'static_import',
-        module: new SecureGeminiTransformer(),
+        factory: () => new SecureGeminiTransformer(),
         isActive: true,
-        registeredAt: new Date()
+        registeredAt: new Date(),
+        protocol: 'gemini'
       };
       console.log('🔧 StaticModuleRegistry: 即将注册Gemini Transformer...');
       this.addRegistration(geminiReg);
@@ -100,13 +128,28 @@ export class StaticModuleRegistry {
       type: ModuleType.PROTOCOL,
       version: '4.0.0',
       filePath: 'static_import',
-      module: new GeminiProtocolModule(),
+      factory: () => new GeminiProtocolModule(),
       isActive: true,
       registeredAt: new Date()
     };
     this.addRegistration(geminiProtocolReg);
     
-    secureLogger.debug('Protocols registered', { count: 1 });
+    // Anthropic原生协议流水线专用（无Transformer透传）
+    const anthropicProtocolReg: ModuleRegistration = {
+      id: 'protocol_anthropic_static',
+      name: 'AnthropicProtocol',
+      className: 'AnthropicProtocolModule',
+      type: ModuleType.PROTOCOL,
+      version: '4.0.0',
+      filePath: 'static_import',
+      factory: () => new AnthropicProtocolModule(),
+      isActive: true,
+      registeredAt: new Date(),
+      protocol: 'anthropic'
+    };
+    this.addRegistration(anthropicProtocolReg);
+    
+    secureLogger.debug('Protocols registered', { count: 2 });
   }
 
   private registerServers(): void {
@@ -122,6 +165,16 @@ export class StaticModuleRegistry {
       maxConcurrentRequests: 10
     };
 
+    // OpenAIServerModule为预配置模块，configure()不生效，端点、密钥和超时必须在构造时传入
+    const createOpenAIServer = (config: Record<string, any>) => new OpenAIServerModule({
+      ...defaultServerConfig,
+      baseURL: config.endpoint,
+      apiKey: config.apiKey,
+      timeout: config.timeout ?? defaultServerConfig.timeout,
+      requestTimeoutMs: config.timeout ?? defaultServerConfig.requestTimeoutMs,
+      authMethod: config.authMethod === 'openai' ? 'openai' : defaultServerConfig.authMethod
+    });
+
     const openaiServerReg: ModuleRegistration = {
       id: 'server_openai_static',
       name: 'OpenAIServer',
@@ -129,16 +182,47 @@ export class StaticModuleRegistry {
       type: ModuleType.SERVER,
       version: '4.0.0',
       filePath: 'static_import',
-      module: new OpenAIServerModule(defaultServerConfig),
+      factory: createOpenAIServer,
       isActive: true,
       registeredAt: new Date()
     };
     this.addRegistration(openaiServerReg);
     
-    secureLogger.debug('Servers registered', { count: 1 });
+    // Anthropic原生协议流水线专用，端点和密钥按流水线读取
+    const anthropicServerReg: ModuleRegistration = {
+      id: 'server_anthropic_static',
+      name: 'AnthropicServer',
+      className: 'AnthropicServerModule',
+      type: ModuleType.SERVER,
+      version: '4.0.0',
+      filePath: 'static_import',
+      factory: config => new AnthropicServerModule(pickServerConfig(config)),
+      isActive: true,
+      registeredAt: new Date(),
+      protocol: 'anthropic'
+    };
+    this.addRegistration(anthropicServerReg);
+    
+    // Gemini流水线专用，调用generateContent / streamGenerateContent
+    const geminiServerReg: ModuleRegistration = {
+      id: 'server_gemini_static',
+      name: 'GeminiServer',
+      className: 'GeminiServerModule',
+      type: ModuleType.SERVER,
+      version: '4.0.0',
+      filePath: 'static_import',
+      factory: config => new GeminiServerModule(pickServerConfig(config)),
+      isActive: true,
+      registeredAt: new Date(),
+      protocol: 'gemini'
+    };
+    this.addRegistration(geminiServerReg);
+    
+    secureLogger.debug('Servers registered', { count: 3 });
   }
 
   private registerServerCompatibility(): void {
+    // 以下为各兼容模块的默认配置，流水线层配置中的端点、密钥、超时和模型覆盖默认值
     // Default config for IFlow compatibility
     const iflowConfig = {
       baseUrl: 'http://localhost:1234/v1',
@@ -215,7 +299,11 @@ export class StaticModuleRegistry {
       type: ModuleType.SERVER_COMPATIBILITY,
       version: '4.0.0',
       filePath: 'static_import',
-      module: new IFlowCompatibilityModule(iflowConfig),
+      factory: config => new IFlowCompatibilityModule({
+        ...iflowConfig,
+        ...pickCompatibilityConfig(config),
+        models: config.model ? { available: [config.model], default: config.model } : iflowConfig.models
+      }),
       isActive: true,
       registeredAt: new Date()
     };
@@ -229,7 +317,12 @@ export class StaticModuleRegistry {
       type: ModuleType.SERVER_COMPATIBILITY,
       version: '4.0.0',
       filePath: 'static_import',
-      module: new LMStudioCompatibilityModule(lmstudioConfig),
+      factory: config => new LMStudioCompatibilityModule({
+        ...lmstudioConfig,
+        ...pickCompatibilityConfig(config),
+        models: config.model ? [config.model] : lmstudioConfig.models,
+        ...(config.model && typeof config.maxTokens === 'number' ? { maxTokens: { [config.model]: config.maxTokens } } : {})
+      }),
       isActive: true,
       registeredAt: new Date()
     };
@@ -243,7 +336,11 @@ export class StaticModuleRegistry {
       type: ModuleType.SERVER_COMPATIBILITY,
       version: '4.0.0',
       filePath: 'static_import',
-      module: new OllamaCompatibilityModule(ollamaConfig),
+      factory: config => new OllamaCompatibilityModule({
+        ...ollamaConfig,
+        ...pickCompatibilityConfig(config),
+        models: config.model ? [config.model] : ollamaConfig.models
+      }),
       isActive: true,
       registeredAt: new Date()
     };
@@ -257,7 +354,11 @@ export class StaticModuleRegistry {
       type: ModuleType.SERVER_COMPATIBILITY,
       version: '4.0.0',
       filePath: 'static_import',
-      module: new QwenCompatibilityModule(qwenConfig),
+      factory: config => new QwenCompatibilityModule({
+        ...qwenConfig,
+        ...pickCompatibilityConfig(config),
+        models: config.model ? [config.model] : qwenConfig.models
+      }),
       isActive: true,
       registeredAt: new Date()
     };
@@ -271,7 +372,11 @@ export class StaticModuleRegistry {
       type: ModuleType.SERVER_COMPATIBILITY,
       version: '4.0.0',
       filePath: 'static_import',
-      module: new VLLMCompatibilityModule(vllmConfig),
+      factory: config => new VLLMCompatibilityModule({
+        ...vllmConfig,
+        ...pickCompatibilityConfig(config),
+        models: config.model ? [config.model] : vllmConfig.models
+      }),
       isActive: true,
       registeredAt: new Date()
     };
@@ -280,6 +385,16 @@ export class StaticModuleRegistry {
     secureLogger.debug('Server compatibility modules registered', { count: 5 });
   }
 
+  /**
+   * 注册外部插件等运行时加载的模块，同ID的注册信息会被替换
+   */
+  registerModule(registration: ModuleRegistration): void {
+    const existing = this.registeredModules.get(registration.id);
+    if (existing) {
+      this.modulesByType.set(existing.type, this.getModulesByType(existing.type).filter(reg => reg.id !== existing.id));
+    }
+    this.addRegistration(registration);
+  }
   
   private addRegistration(registration: ModuleRegistration): void {
     this.registeredModules.set(registration.id, registration);
@@ -292,9 +407,12 @@ export class StaticModuleRegistry {
     return this.modulesByType.get(type) || [];
   }
   
+  /**
+   * 按流水线层配置创建新的模块实例，每次调用返回独立实例
+   */
   async createModuleInstance(registration: ModuleRegistration, config: any): Promise<ModuleInterface> {
-    if (registration.module) {
-      return registration.module;
+    if (registration.factory) {
+      return registration.factory(config || {});
     }
     throw new RCCError(
       `Static module instance not found: ${registration.name}`,
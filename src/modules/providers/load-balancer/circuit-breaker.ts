@@ -25,11 +25,15 @@ export class CircuitBreaker extends EventEmitter implements ICircuitBreaker {
    * 检查熔断器是否关闭（可用）
    */
   isClosed(providerId: string): boolean {
+    const breaker = this.circuitBreakers.get(providerId);
+    if (breaker?.forced) {
+      return false;
+    }
+
     if (!this.config.circuitBreaker.enabled) {
       return true;
     }
 
-    const breaker = this.circuitBreakers.get(providerId);
     if (!breaker) {
       // 如果没有熔断器记录，初始化为关闭状态
       this.initializeBreaker(providerId);
@@ -70,6 +74,11 @@ export class CircuitBreaker extends EventEmitter implements ICircuitBreaker {
       breaker = this.initializeBreaker(providerId);
     }
 
+    // 人工熔断期间的结果不改变状态
+    if (breaker.forced) {
+      return;
+    }
+
     if (success) {
       this.handleSuccess(providerId, breaker);
     } else {
@@ -87,12 +96,27 @@ export class CircuitBreaker extends EventEmitter implements ICircuitBreaker {
       breaker.failureCount = 0;
       breaker.lastFailureTime = 0;
       breaker.halfOpenCallCount = 0;
+      breaker.forced = false;
 
       this.log('info', `Circuit breaker for ${providerId} has been reset`);
       this.emit('reset', { providerId });
     }
   }
 
+  /**
+   * 人工打开熔断器（如事故处置时摘除Provider），保持打开直到reset
+   */
+  trip(providerId: string): void {
+    const breaker = this.circuitBreakers.get(providerId) || this.initializeBreaker(providerId);
+    breaker.state = 'OPEN';
+    breaker.forced = true;
+    breaker.lastFailureTime = Date.now();
+
+    this.log('warn', `Circuit breaker for ${providerId} tripped manually`);
+    this.emit('stateChanged', { providerId, state: 'OPEN' });
+    this.emit('circuitBreakerOpened', { providerId, failureCount: breaker.failureCount, forced: true });
+  }
+
   /**
    * 获取熔断器状态
    */
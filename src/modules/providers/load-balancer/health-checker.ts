@@ -29,6 +29,12 @@ export class HealthChecker extends EventEmitter implements IHealthChecker {
    */
   async checkHealth(provider: ProviderInstance): Promise<boolean> {
     try {
+      // 最近活动检查：5分钟无请求时指标已过期，视为可用以便重新进入轮转接受探测
+      const timeSinceLastUpdate = Date.now() - provider.lastUpdated;
+      if (timeSinceLastUpdate > 300000) {
+        return true;
+      }
+
       // 基于指标判断健康状态
       const metrics = provider.metrics;
 
@@ -43,13 +49,6 @@ export class HealthChecker extends EventEmitter implements IHealthChecker {
         return false;
       }
 
-      // 最近活动检查
-      const timeSinceLastUpdate = Date.now() - provider.lastUpdated;
-      if (timeSinceLastUpdate > 300000) {
-        // 5分钟无活动
-        return false;
-      }
-
       return true;
     } catch (error) {
       this.log('error', `Health check failed for provider ${provider.id}: ${error}`);
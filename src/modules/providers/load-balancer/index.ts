@@ -15,6 +15,8 @@ export {
   ProviderHealthStatus,
   ProviderInstance,
   ProviderMetrics,
+  ProviderPrice,
+  AdaptiveObjective,
   LoadBalancingContext,
   LoadBalancingResult,
   LoadBalancerConfig,
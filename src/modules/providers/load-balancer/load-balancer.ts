@@ -18,6 +18,7 @@ import {
   LoadBalancerStatistics,
   ProviderMetrics,
   ILoadBalancingStrategy,
+  CircuitBreakerState,
 } from './types';
 import { StrategyFactory } from './strategies';
 import { HealthChecker } from './health-checker';
@@ -29,6 +30,8 @@ import { SessionManager } from './session-manager';
  * 重构后的Provider负载均衡器
  */
 export class ProviderLoadBalancer extends EventEmitter {
+  private static readonly METRICS_SMOOTHING = 0.2;
+
   private providers: Map<string, ProviderInstance> = new Map();
   private config: LoadBalancerConfig;
   private isInitialized: boolean = false;
@@ -46,7 +49,7 @@ export class ProviderLoadBalancer extends EventEmitter {
     this.config = this.createDefaultConfig(config);
 
     // 初始化子模块
-    this.strategy = StrategyFactory.createStrategy(this.config.strategy);
+    this.strategy = StrategyFactory.createStrategy(this.config.strategy, this.config.adaptive);
     this.healthChecker = new HealthChecker(this.providers, this.config);
     this.circuitBreaker = new CircuitBreaker(this.config);
     this.metricsCollector = new MetricsCollector(this.providers);
@@ -204,6 +207,68 @@ export class ProviderLoadBalancer extends EventEmitter {
     this.circuitBreaker.recordResult(providerId, success);
   }
 
+  /**
+   * 记录一次已完成请求的实际结果：释放连接、反馈熔断器，并更新响应时间、首token时间和成功率指标
+   */
+  recordRequestOutcome(providerId: string, success: boolean, responseTime: number, timeToFirstToken: number = responseTime): void {
+    const provider = this.providers.get(providerId);
+    if (!provider) {
+      return;
+    }
+
+    this.releaseProvider(providerId);
+    this.circuitBreaker.recordResult(providerId, success);
+
+    const metrics = provider.metrics;
+    const requestCount = metrics.requestCount + 1;
+    // 指数移动平均，使近期结果对健康状态的影响更大
+    const alpha = ProviderLoadBalancer.METRICS_SMOOTHING;
+
+    this.updateProviderMetrics(providerId, {
+      requestCount,
+      errorCount: metrics.errorCount + (success ? 0 : 1),
+      successRate: metrics.successRate * (1 - alpha) + (success ? alpha : 0),
+      avgResponseTime: metrics.requestCount === 0
+        ? responseTime
+        : metrics.avgResponseTime * (1 - alpha) + responseTime * alpha,
+      avgTimeToFirstToken: metrics.avgTimeToFirstToken === undefined
+        ? timeToFirstToken
+        : metrics.avgTimeToFirstToken * (1 - alpha) + timeToFirstToken * alpha,
+      lastResponseTime: responseTime,
+    });
+  }
+
+  /**
+   * 人工打开Provider的熔断器，保持打开直到resetCircuitBreaker
+   */
+  tripCircuitBreaker(providerId: string): void {
+    this.circuitBreaker.trip(providerId);
+  }
+
+  /**
+   * 重置Provider的熔断器
+   */
+  resetCircuitBreaker(providerId: string): void {
+    this.circuitBreaker.reset(providerId);
+  }
+
+  /**
+   * 获取Provider的熔断器状态，尚未记录过结果时返回null
+   */
+  getCircuitBreakerState(providerId: string): CircuitBreakerState | null {
+    return this.circuitBreaker.getState(providerId);
+  }
+
+  /**
+   * 释放一次selectProvider占用的连接（请求未计入指标时使用）
+   */
+  releaseProvider(providerId: string): void {
+    const provider = this.providers.get(providerId);
+    if (provider) {
+      provider.currentConnections = Math.max(0, provider.currentConnections - 1);
+    }
+  }
+
   /**
    * 获取所有Provider状态
    */
@@ -231,7 +296,7 @@ export class ProviderLoadBalancer extends EventEmitter {
    * 更新负载均衡策略
    */
   updateStrategy(strategy: LoadBalancingStrategy): void {
-    this.strategy = StrategyFactory.createStrategy(strategy);
+    this.strategy = StrategyFactory.createStrategy(strategy, this.config.adaptive);
     this.config.strategy = strategy;
     this.log('info', `Updated load balancing strategy to: ${strategy}`);
   }
@@ -243,6 +308,11 @@ export class ProviderLoadBalancer extends EventEmitter {
     const providers: ProviderInstance[] = [];
 
     for (const provider of this.providers.values()) {
+      // 候选范围检查
+      if (context.candidateProviderIds && !context.candidateProviderIds.includes(provider.id)) {
+        continue;
+      }
+
       // 健康检查
       if (
         provider.healthStatus !== ProviderHealthStatus.HEALTHY &&
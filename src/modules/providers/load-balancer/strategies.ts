@@ -139,68 +139,107 @@ export class HashStrategy implements ILoadBalancingStrategy {
   }
 }
 
+/**
+ * 自适应策略配置
+ */
+export interface AdaptiveStrategyOptions {
+  explorationRate?: number;
+  minSamples?: number;
+  random?: () => number;
+}
+
 /**
  * 自适应策略
+ *
+ * 基于实时指标（EWMA响应时间、首token时间、成功率）和模型价格按路由目标选择：
+ * - 样本不足的成员优先获得流量，之后按explorationRate把少量请求发给指标最久未更新的成员
+ * - 设置maxLatencyMs时只在满足首token延迟SLO的成员中选择（全部不满足时忽略SLO）
  */
 export class AdaptiveStrategy implements ILoadBalancingStrategy {
   readonly strategyName = LoadBalancingStrategy.ADAPTIVE;
 
-  private strategies: Map<LoadBalancingStrategy, ILoadBalancingStrategy> = new Map();
-  private adaptiveThreshold: number = 0.8;
-
-  constructor(adaptiveThreshold: number = 0.8) {
-    this.adaptiveThreshold = adaptiveThreshold;
-
-    // 初始化所有策略
-    this.strategies.set(LoadBalancingStrategy.ROUND_ROBIN, new RoundRobinStrategy());
-    this.strategies.set(LoadBalancingStrategy.LEAST_CONNECTIONS, new LeastConnectionsStrategy());
-    this.strategies.set(LoadBalancingStrategy.LEAST_RESPONSE_TIME, new LeastResponseTimeStrategy());
-    this.strategies.set(LoadBalancingStrategy.WEIGHTED_LEAST_CONNECTIONS, new WeightedLeastConnectionsStrategy());
+  // cheapest目标只优先选择成功率不低于该值的成员
+  private static readonly HEALTHY_SUCCESS_RATE = 0.9;
+  // 成功率下限，避免除零并保留恢复机会
+  private static readonly MIN_SUCCESS_RATE = 0.05;
+  // 混合价格中输入token的占比（编码代理的请求以输入为主）
+  private static readonly INPUT_PRICE_SHARE = 0.75;
+
+  private readonly explorationRate: number;
+  private readonly minSamples: number;
+  private readonly random: () => number;
+
+  constructor(options: AdaptiveStrategyOptions = {}) {
+    this.explorationRate = Math.min(Math.max(options.explorationRate ?? 0.05, 0), 1);
+    this.minSamples = Math.max(options.minSamples ?? 3, 0);
+    this.random = options.random || Math.random;
   }
 
   selectProvider(providers: ProviderInstance[], context: LoadBalancingContext): ProviderInstance {
-    const optimalStrategy = this.determineOptimalStrategy(providers);
-    const strategy = this.strategies.get(optimalStrategy);
-
-    if (!strategy) {
-      // 回退到轮询策略
-      return this.strategies.get(LoadBalancingStrategy.ROUND_ROBIN)!.selectProvider(providers, context);
+    // 冷启动：样本不足的成员优先（并发请求按进行中的连接分摊）
+    const cold = providers.filter(p => p.metrics.requestCount < this.minSamples);
+    if (cold.length > 0) {
+      return this.minBy(cold, p => p.metrics.requestCount + p.currentConnections);
     }
 
-    return strategy.selectProvider(providers, context);
-  }
-
-  private determineOptimalStrategy(providers: ProviderInstance[]): LoadBalancingStrategy {
-    // 计算系统整体负载
-    const avgResponseTime = providers.reduce((sum, p) => sum + p.metrics.avgResponseTime, 0) / providers.length;
-    const avgSuccessRate = providers.reduce((sum, p) => sum + p.metrics.successRate, 0) / providers.length;
-    const avgLoad = providers.reduce((sum, p) => sum + p.currentConnections / p.maxConnections, 0) / providers.length;
-
-    // 高负载时使用最少连接
-    if (avgLoad > this.adaptiveThreshold) {
-      return LoadBalancingStrategy.LEAST_CONNECTIONS;
+    // 探索：保持少用成员的指标新鲜
+    if (providers.length > 1 && this.random() < this.explorationRate) {
+      return this.minBy(providers, p => p.lastUpdated);
     }
 
-    // 响应时间差异大时使用最短响应时间
-    const responseTimeVariance = this.calculateVariance(providers.map(p => p.metrics.avgResponseTime));
-    if (responseTimeVariance > 1000) {
-      // 1秒方差
-      return LoadBalancingStrategy.LEAST_RESPONSE_TIME;
+    let eligible = providers;
+    if (context.maxLatencyMs && context.maxLatencyMs > 0) {
+      const withinSlo = providers.filter(p => this.getFirstTokenLatency(p) <= context.maxLatencyMs!);
+      if (withinSlo.length > 0) {
+        eligible = withinSlo;
+      }
     }
 
-    // 成功率低时使用加权策略
-    if (avgSuccessRate < 0.95) {
-      return LoadBalancingStrategy.WEIGHTED_LEAST_CONNECTIONS;
+    switch (context.objective) {
+      case 'fastest':
+        return this.minBy(eligible, p => this.getAdjustedLatency(p));
+      case 'cheapest': {
+        const healthy = eligible.filter(p => p.metrics.successRate >= AdaptiveStrategy.HEALTHY_SUCCESS_RATE);
+        const pool = healthy.length > 0 ? healthy : eligible;
+        const lowestCost = Math.min(...pool.map(p => this.getBlendedPrice(p)));
+        return this.minBy(pool.filter(p => this.getBlendedPrice(p) === lowestCost), p => this.getAdjustedLatency(p));
+      }
+      default: {
+        const maxLatency = Math.max(...eligible.map(p => this.getAdjustedLatency(p)), 1);
+        const maxCost = Math.max(...eligible.map(p => this.getBlendedPrice(p)));
+        return this.minBy(eligible, p =>
+          0.5 * (this.getAdjustedLatency(p) / maxLatency) +
+          0.5 * (maxCost > 0 ? this.getBlendedPrice(p) / maxCost : 0)
+        );
+      }
     }
+  }
 
-    // 默认使用轮询
-    return LoadBalancingStrategy.ROUND_ROBIN;
+  /**
+   * 首token延迟（未记录时使用平均响应时间）
+   */
+  private getFirstTokenLatency(provider: ProviderInstance): number {
+    return provider.metrics.avgTimeToFirstToken ?? provider.metrics.avgResponseTime;
+  }
+
+  /**
+   * 按成功率折算的期望延迟：失败越多，实际得到结果所需的时间越长
+   */
+  private getAdjustedLatency(provider: ProviderInstance): number {
+    const latency = (this.getFirstTokenLatency(provider) + provider.metrics.avgResponseTime) / 2;
+    return latency / Math.max(provider.metrics.successRate, AdaptiveStrategy.MIN_SUCCESS_RATE);
+  }
+
+  private getBlendedPrice(provider: ProviderInstance): number {
+    if (!provider.price) {
+      return 0;
+    }
+    const share = AdaptiveStrategy.INPUT_PRICE_SHARE;
+    return provider.price.input * share + provider.price.output * (1 - share);
   }
 
-  private calculateVariance(values: number[]): number {
-    const mean = values.reduce((sum, val) => sum + val, 0) / values.length;
-    const squaredDiffs = values.map(val => Math.pow(val - mean, 2));
-    return squaredDiffs.reduce((sum, val) => sum + val, 0) / values.length;
+  private minBy(providers: ProviderInstance[], score: (provider: ProviderInstance) => number): ProviderInstance {
+    return providers.reduce((best, current) => (score(current) < score(best) ? current : best));
   }
 }
 
@@ -208,7 +247,7 @@ export class AdaptiveStrategy implements ILoadBalancingStrategy {
  * 策略工厂
  */
 export class StrategyFactory {
-  private static strategies: Map<LoadBalancingStrategy, () => any> = new Map<LoadBalancingStrategy, () => any>([
+  private static strategies: Map<LoadBalancingStrategy, (config?: any) => any> = new Map<LoadBalancingStrategy, (config?: any) => any>([
     [LoadBalancingStrategy.ROUND_ROBIN, () => new RoundRobinStrategy()],
     [LoadBalancingStrategy.WEIGHTED_ROUND_ROBIN, () => new WeightedRoundRobinStrategy()],
     [LoadBalancingStrategy.LEAST_CONNECTIONS, () => new LeastConnectionsStrategy()],
@@ -217,7 +256,7 @@ export class StrategyFactory {
     [LoadBalancingStrategy.RANDOM, () => new RandomStrategy()],
     [LoadBalancingStrategy.WEIGHTED_RANDOM, () => new WeightedRandomStrategy()],
     [LoadBalancingStrategy.HASH, () => new HashStrategy()],
-    [LoadBalancingStrategy.ADAPTIVE, () => new AdaptiveStrategy()],
+    [LoadBalancingStrategy.ADAPTIVE, (config?: AdaptiveStrategyOptions) => new AdaptiveStrategy(config)],
   ]);
 
   static createStrategy(strategyType: LoadBalancingStrategy, config?: any): ILoadBalancingStrategy {
@@ -226,7 +265,7 @@ export class StrategyFactory {
       throw new Error(`Unsupported load balancing strategy: ${strategyType}`);
     }
 
-    return factory();
+    return factory(config);
   }
 
   static getSupportedStrategies(): LoadBalancingStrategy[] {
@@ -42,11 +42,28 @@ export interface ProviderMetrics {
   requestCount: number; // 请求总数
   errorCount: number; // 错误总数
   lastResponseTime: number; // 最后响应时间
+  avgTimeToFirstToken?: number; // 首token时间EWMA(ms)，非流式请求等于响应时间
   throughput: number; // 吞吐量 (req/min)
   cpuUsage?: number; // CPU使用率
   memoryUsage?: number; // 内存使用率
 }
 
+/**
+ * 模型价格（美元/百万token）
+ */
+export interface ProviderPrice {
+  input: number;
+  output: number;
+}
+
+/**
+ * 自适应策略的路由目标
+ * - fastest: 首token延迟最低
+ * - cheapest: 满足延迟SLO且健康的成员中价格最低
+ * - balanced: 延迟和价格各占一半
+ */
+export type AdaptiveObjective = 'fastest' | 'cheapest' | 'balanced';
+
 /**
  * Provider实例信息
  */
@@ -61,6 +78,7 @@ export interface ProviderInstance {
   currentConnections: number;
   healthStatus: ProviderHealthStatus;
   metrics: ProviderMetrics;
+  price?: ProviderPrice; // 未配置价格视为免费
   config: any;
   lastUpdated: number;
 }
@@ -74,6 +92,11 @@ export interface LoadBalancingContext {
   userAgent?: string;
   sessionId?: string;
   preferredProvider?: string;
+  // 限定候选Provider（如同一路由类别的流水线池），未设置时从全部Provider中选择
+  candidateProviderIds?: string[];
+  // 自适应策略的路由目标和首token延迟SLO
+  objective?: AdaptiveObjective;
+  maxLatencyMs?: number;
   requiredCapabilities?: string[];
   priority: 'low' | 'normal' | 'high' | 'critical';
   timeout: number;
@@ -103,6 +126,10 @@ export interface LoadBalancerConfig {
   healthCheckInterval: number;
   enableAdaptive: boolean;
   adaptiveThreshold: number;
+  adaptive?: {
+    explorationRate?: number; // 探索流量比例 (0-1)
+    minSamples?: number; // 样本数不足时优先分配流量
+  };
   stickySessions: boolean;
   sessionTtl: number;
   circuitBreaker: {
@@ -131,6 +158,8 @@ export interface CircuitBreakerState {
   failureCount: number;
   lastFailureTime: number;
   halfOpenCallCount: number;
+  // 人工熔断：保持OPEN直到reset，不进入半开状态
+  forced?: boolean;
 }
 
 /**
@@ -206,6 +235,11 @@ export interface ICircuitBreaker {
    * 重置熔断器
    */
   reset(providerId: string): void;
+
+  /**
+   * 人工打开熔断器
+   */
+  trip(providerId: string): void;
 }
 
 /**
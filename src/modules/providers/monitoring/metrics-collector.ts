@@ -124,6 +124,7 @@ export class MetricsCollector {
   private retentionPeriod: number;
   private healthStatuses: Map<string, ProviderHealthStatus>;
   private systemMetrics: SystemMetrics | null;
+  private cleanupTimer: NodeJS.Timeout | null = null;
 
   constructor(maxDataPoints: number = 10000, retentionPeriod: number = 24 * 60 * 60 * 1000) {
     this.metrics = new Map();
@@ -331,6 +332,27 @@ export class MetricsCollector {
     return filtered.sort((a, b) => a.timestamp - b.timestamp);
   }
 
+  /**
+   * 获取匹配标签的数据点分位数（percentile取0-1），没有数据点时返回null
+   */
+  public getPercentile(
+    metricName: string,
+    percentile: number,
+    labels?: Record<string, string>,
+    timeRange?: { start: number; end: number }
+  ): { value: number; count: number } | null {
+    const values = this.getMetricTimeSeries(metricName, timeRange, labels).map(point => point.value);
+    if (values.length === 0) {
+      return null;
+    }
+
+    const sortedValues = values.sort((a, b) => a - b);
+    return {
+      value: this.calculatePercentile(sortedValues, Math.min(Math.max(percentile, 0), 1)),
+      count: sortedValues.length,
+    };
+  }
+
   /**
    * 获取所有指标名称
    */
@@ -520,11 +542,21 @@ export class MetricsCollector {
    * 启动清理任务
    */
   private startCleanupTask(): void {
-    setInterval(
+    this.cleanupTimer = setInterval(
       () => {
         this.cleanup();
       },
       5 * 60 * 1000
     ); // 每5分钟清理一次
   }
+
+  /**
+   * 停止清理任务
+   */
+  public stop(): void {
+    if (this.cleanupTimer) {
+      clearInterval(this.cleanupTimer);
+      this.cleanupTimer = null;
+    }
+  }
 }
@@ -0,0 +1,189 @@
+/**
+ * Adaptive Routing Tests
+ *
+ * 验证adaptive策略按路由目标（fastest/cheapest/balanced）、首token延迟SLO、成功率和模型价格选择流水线，
+ * 并通过探索流量保持少用成员的指标新鲜
+ */
+
+import { RouterPreprocessor } from '../router-preprocessor';
+import { RequestRouter, RoutablePipeline } from '../request-router';
+import { RouteLoadBalancer } from '../route-load-balancer';
+import { RoutingTable, RouteObjectiveSettings } from '../routing-table-types';
+import { AdaptiveStrategy } from '../../../providers/load-balancer/strategies';
+import { ProviderHealthStatus, ProviderInstance } from '../../../providers/load-balancer/types';
+
+describe('Adaptive routing', () => {
+  let balancer: RouteLoadBalancer;
+  let pipelines: RoutablePipeline[];
+  let router: RequestRouter;
+
+  async function createBalancer(routeObjective: RouteObjectiveSettings): Promise<void> {
+    const routingTableInput: RoutingTable = {
+      providers: [
+        {
+          name: 'paid',
+          api_base_url: 'https://paid.example.com/v1',
+          api_key: 'key-paid',
+          price: { input: 3, output: 15 },
+          models: ['claude-sonnet-4']
+        },
+        {
+          name: 'free',
+          api_base_url: 'https://free.example.com/v1',
+          api_key: 'key-free',
+          models: ['qwen3-coder']
+        }
+      ],
+      routes: { default: 'paid,claude-sonnet-4;free,qwen3-coder' },
+      loadBalancing: { strategy: 'adaptive', explorationRate: 0, routeObjectives: { default: routeObjective } },
+      server: { port: 5506, host: '127.0.0.1' },
+      apiKey: 'rcc4-proxy-key'
+    };
+
+    const result = await RouterPreprocessor.preprocess(routingTableInput);
+    expect(result.success).toBe(true);
+    router = new RequestRouter(result.routingTable!);
+    pipelines = result.pipelineConfigs!.map(config => ({
+      id: config.pipelineId,
+      provider: config.provider,
+      model: config.model
+    }));
+    balancer = new RouteLoadBalancer(router);
+  }
+
+  function pipelineFor(provider: string): RoutablePipeline {
+    return pipelines.find(pipeline => pipeline.provider === provider)!;
+  }
+
+  // 让每个成员越过冷启动样本数，回报给定的耗时和首token时间
+  async function warmUp(samples: Record<string, { latencyMs: number; timeToFirstTokenMs: number; failures?: number }>): Promise<void> {
+    await balancer.select(router.route('default', pipelines), { requestId: 'req-register' });
+    for (const [provider, sample] of Object.entries(samples)) {
+      for (let i = 0; i < 5; i++) {
+        const error = i < (sample.failures || 0) ? new Error('HTTP 503: upstream overloaded') : undefined;
+        balancer.recordOutcome(pipelineFor(provider).id, sample.latencyMs, error, sample.timeToFirstTokenMs);
+      }
+    }
+  }
+
+  async function selectProvider(): Promise<string> {
+    const selection = await balancer.select(router.route('default', pipelines), { requestId: 'req-test' });
+    balancer.recordOutcome(selection.pipeline.id, 100);
+    return selection.pipeline.provider;
+  }
+
+  afterEach(async () => {
+    await balancer.stop();
+  });
+
+  it('should carry configured prices from the model catalog into the pool', async () => {
+    await createBalancer({ objective: 'cheapest' });
+    await balancer.select(router.route('default', pipelines), { requestId: 'req-register' });
+
+    const paid = balancer.getMembers().find(member => member.id === pipelineFor('paid').id)!;
+    const free = balancer.getMembers().find(member => member.id === pipelineFor('free').id)!;
+    expect(paid.price).toEqual({ input: 3, output: 15 });
+    expect(free.price).toBeUndefined();
+  });
+
+  it('should spread cold-start traffic until every member has enough samples', async () => {
+    await createBalancer({ objective: 'fastest' });
+
+    const selected: string[] = [];
+    for (let i = 0; i < 6; i++) {
+      selected.push(await selectProvider());
+    }
+
+    expect(selected.filter(provider => provider === 'paid')).toHaveLength(3);
+    expect(selected.filter(provider => provider === 'free')).toHaveLength(3);
+  });
+
+  it('should prefer the cheap backend while it is healthy and within the SLO', async () => {
+    await createBalancer({ objective: 'cheapest', maxLatencyMs: 2000 });
+    await warmUp({
+      paid: { latencyMs: 3000, timeToFirstTokenMs: 400 },
+      free: { latencyMs: 6000, timeToFirstTokenMs: 1500 }
+    });
+
+    const selection = await balancer.select(router.route('default', pipelines), { requestId: 'req-test' });
+    expect(selection.pipeline.provider).toBe('free');
+    expect(selection.alternatives.map(pipeline => pipeline.provider)).toEqual(['paid']);
+  });
+
+  it('should skip the cheap backend when its time to first token breaks the SLO', async () => {
+    await createBalancer({ objective: 'cheapest', maxLatencyMs: 1000 });
+    await warmUp({
+      paid: { latencyMs: 3000, timeToFirstTokenMs: 400 },
+      free: { latencyMs: 6000, timeToFirstTokenMs: 1500 }
+    });
+
+    expect(await selectProvider()).toBe('paid');
+  });
+
+  it('should skip the cheap backend while its error rate is high', async () => {
+    await createBalancer({ objective: 'cheapest' });
+    await warmUp({
+      paid: { latencyMs: 3000, timeToFirstTokenMs: 400 },
+      free: { latencyMs: 2000, timeToFirstTokenMs: 300, failures: 3 }
+    });
+
+    expect(await selectProvider()).toBe('paid');
+  });
+
+  it('should pick the lowest time to first token for the fastest objective', async () => {
+    await createBalancer({ objective: 'fastest' });
+    await warmUp({
+      paid: { latencyMs: 3000, timeToFirstTokenMs: 400 },
+      free: { latencyMs: 3000, timeToFirstTokenMs: 1500 }
+    });
+
+    expect(await selectProvider()).toBe('paid');
+  });
+
+  it('should trade latency against price for the balanced objective', async () => {
+    await createBalancer({ objective: 'balanced' });
+    await warmUp({
+      paid: { latencyMs: 2000, timeToFirstTokenMs: 400 },
+      free: { latencyMs: 2500, timeToFirstTokenMs: 600 }
+    });
+
+    expect(await selectProvider()).toBe('free');
+  });
+});
+
+describe('AdaptiveStrategy', () => {
+  function member(id: string, lastUpdated: number): ProviderInstance {
+    return {
+      id,
+      name: id,
+      type: 'openai',
+      endpoint: id,
+      weight: 1,
+      maxConnections: 10,
+      currentConnections: 0,
+      healthStatus: ProviderHealthStatus.HEALTHY,
+      metrics: {
+        avgResponseTime: id === 'fast' ? 100 : 1000,
+        successRate: 1,
+        requestCount: 10,
+        errorCount: 0,
+        lastResponseTime: 0,
+        throughput: 0
+      },
+      config: {},
+      lastUpdated
+    };
+  }
+
+  const context = { requestId: 'req-test', objective: 'fastest' as const, priority: 'normal' as const, timeout: 0, retryCount: 0 };
+
+  it('should send exploration traffic to the member with the stalest metrics', () => {
+    const providers = [member('fast', 2000), member('slow', 1000)];
+
+    const exploring = new AdaptiveStrategy({ explorationRate: 0.1, random: () => 0.05 });
+    const exploiting = new AdaptiveStrategy({ explorationRate: 0.1, random: () => 0.5 });
+
+    expect(exploring.selectProvider(providers, context).id).toBe('slow');
+    expect(exploiting.selectProvider(providers, context).id).toBe('fast');
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * API Key Pool Manager Tests
+ *
+ * 验证多密钥轮换、按Retry-After冷却限流密钥、用量统计和脱敏后的密钥状态
+ */
+
+import { RouterPreprocessor } from '../router-preprocessor';
+import { RequestRouter, RoutablePipeline } from '../request-router';
+import { ApiKeyPoolManager, DEFAULT_API_KEY_COOLDOWN_MS } from '../api-key-pool';
+import { RoutingTable, ApiKeyRotationSettings } from '../routing-table-types';
+import { RCCError, RCCErrorCode } from '../../../types/src/index';
+
+describe('ApiKeyPoolManager', () => {
+  const apiKeys = ['sk-relay-key-aaaa1111', 'sk-relay-key-bbbb2222', 'sk-relay-key-cccc3333'];
+
+  let router: RequestRouter;
+  let pipelines: RoutablePipeline[];
+  let keyPools: ApiKeyPoolManager;
+
+  async function createPools(keyRotation?: ApiKeyRotationSettings): Promise<void> {
+    const routingTableInput: RoutingTable = {
+      providers: [
+        {
+          name: 'relay',
+          api_base_url: 'https://relay.example.com/v1',
+          api_key: apiKeys,
+          ...(keyRotation ? { keyRotation } : {}),
+          models: ['qwen3-coder']
+        }
+      ],
+      routes: { default: 'relay,qwen3-coder' },
+      server: { port: 5506, host: '127.0.0.1' },
+      apiKey: 'rcc4-proxy-key'
+    };
+
+    const result = await RouterPreprocessor.preprocess(routingTableInput);
+    expect(result.success).toBe(true);
+    router = new RequestRouter(result.routingTable!);
+    pipelines = result.pipelineConfigs!.map(config => ({
+      id: config.pipelineId,
+      provider: config.provider,
+      model: config.model
+    }));
+    keyPools = new ApiKeyPoolManager(router);
+  }
+
+  function selectKeyIndex(): number {
+    const decision = keyPools.selectKeys(router.route('default', pipelines));
+    expect(decision.candidates).toHaveLength(1);
+    return router.getApiKeyIndex(decision.candidates[0].id)!;
+  }
+
+  function pipelineForKey(keyIndex: number): RoutablePipeline {
+    return pipelines.find(pipeline => router.getApiKeyIndex(pipeline.id) === keyIndex)!;
+  }
+
+  function rateLimitError(retryAfterMs?: number): RCCError {
+    return new RCCError('Anthropic upstream HTTP 429: rate limited', RCCErrorCode.PROVIDER_RATE_LIMITED, 'anthropic-server', {
+      details: { statusCode: 429, retryAfterMs }
+    });
+  }
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should round-robin requests across the provider keys', async () => {
+    await createPools();
+
+    expect([selectKeyIndex(), selectKeyIndex(), selectKeyIndex(), selectKeyIndex()]).toEqual([0, 1, 2, 0]);
+  });
+
+  it('should spread requests by key weight with the weighted strategy', async () => {
+    await createPools({ strategy: 'weighted', weights: [3, 1] });
+
+    const selected = Array.from({ length: 10 }, () => selectKeyIndex());
+
+    expect(selected.filter(keyIndex => keyIndex === 0)).toHaveLength(6);
+    expect(selected.filter(keyIndex => keyIndex === 1)).toHaveLength(2);
+    expect(selected.filter(keyIndex => keyIndex === 2)).toHaveLength(2);
+    // 平滑加权：高权重密钥不会被连续集中使用
+    expect(selected.slice(0, 3)).not.toEqual([0, 0, 0]);
+  });
+
+  it('should park a rate limited key for the Retry-After duration', async () => {
+    await createPools();
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(now);
+
+    keyPools.recordOutcome(pipelineForKey(0), { error: rateLimitError(30000) });
+
+    const selected = [selectKeyIndex(), selectKeyIndex(), selectKeyIndex()];
+    expect(selected).not.toContain(0);
+
+    const key = keyPools.getStatus()[0].keys[0];
+    expect(key).toMatchObject({ status: 'cooling_down', cooldownRemainingMs: 30000, rateLimitCount: 1, errorCount: 1 });
+
+    jest.spyOn(Date, 'now').mockReturnValue(now + 30001);
+    expect([selectKeyIndex(), selectKeyIndex(), selectKeyIndex()]).toContain(0);
+    expect(keyPools.getStatus()[0].keys[0].status).toBe('active');
+  });
+
+  it('should find quota errors wrapped by the pipeline executor', async () => {
+    await createPools({ cooldownMs: 5000 });
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(now);
+
+    const upstream = new RCCError('Gemini upstream HTTP 429: Quota exceeded', RCCErrorCode.PROVIDER_RATE_LIMITED, 'gemini-server', {
+      details: { statusCode: 429, status: 'RESOURCE_EXHAUSTED' }
+    });
+    const moduleFailure = new RCCError('Module server failed during execution', RCCErrorCode.PIPELINE_EXECUTION_FAILED, 'pipeline', {
+      details: { originalError: upstream.message, cause: upstream }
+    });
+    keyPools.recordOutcome(pipelineForKey(1), { error: { statusCode: 500, originalError: moduleFailure } });
+
+    expect(keyPools.getStatus()[0].keys[1]).toMatchObject({ status: 'cooling_down', cooldownRemainingMs: 5000 });
+  });
+
+  it('should not park keys for errors that are not rate limits', async () => {
+    await createPools();
+
+    keyPools.recordOutcome(pipelineForKey(0), { error: new RCCError('upstream down', RCCErrorCode.PROVIDER_UNAVAILABLE, 'test') });
+    keyPools.recordOutcome(pipelineForKey(1), { error: new RCCError('bad request', RCCErrorCode.VALIDATION_ERROR, 'test') });
+
+    const [first, second] = keyPools.getStatus()[0].keys;
+    expect(first).toMatchObject({ status: 'active', errorCount: 1, rateLimitCount: 0 });
+    expect(second).toMatchObject({ status: 'active', errorCount: 0, requestCount: 1 });
+  });
+
+  it('should reject with a rate limit error when every key is cooling down', async () => {
+    await createPools();
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(now);
+
+    keyPools.recordOutcome(pipelineForKey(0), { error: rateLimitError(20000) });
+    keyPools.recordOutcome(pipelineForKey(1), { error: rateLimitError(10000) });
+    keyPools.recordOutcome(pipelineForKey(2), { error: new Error('HTTP 429: insufficient_quota') });
+
+    try {
+      keyPools.selectKeys(router.route('default', pipelines), 'req-test');
+      fail('expected rate limit error');
+    } catch (error) {
+      expect(error).toBeInstanceOf(RCCError);
+      expect((error as RCCError).code).toBe(RCCErrorCode.RATE_LIMIT_ERROR);
+      expect((error as RCCError).context.details).toMatchObject({ routeName: 'default', retryAfterMs: 10000 });
+    }
+    expect(keyPools.getStatus()[0].keys[2].cooldownRemainingMs).toBe(DEFAULT_API_KEY_COOLDOWN_MS);
+  });
+
+  it('should track per-key usage and expose only masked key ids', async () => {
+    await createPools();
+
+    keyPools.recordOutcome(pipelineForKey(2), { inputTokens: 1200, outputTokens: 300 });
+    keyPools.recordOutcome(pipelineForKey(2), { inputTokens: 800 });
+
+    const status = keyPools.getStatus();
+    expect(status[0]).toMatchObject({ provider: 'relay', strategy: 'round_robin' });
+    expect(status[0].keys[2]).toMatchObject({ keyId: 'sk-...3333', requestCount: 2, inputTokens: 2000, outputTokens: 300 });
+    expect(status[0].keys[2].lastUsedAt).toBeDefined();
+
+    const serialized = JSON.stringify(status);
+    for (const apiKey of apiKeys) {
+      expect(serialized).not.toContain(apiKey);
+    }
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Context Window Guard Tests
+ *
+ * 验证路由池按成员窗口过滤候选，以及所有成员都放不下时的reroute、truncate和reject策略
+ */
+
+import { RouterPreprocessor } from '../router-preprocessor';
+import { RequestRouter, RoutablePipeline } from '../request-router';
+import { ContextWindowGuard } from '../context-window-guard';
+import { RoutingTable } from '../routing-table-types';
+import { RCCError, RCCErrorCode } from '../../../types/src/index';
+
+describe('ContextWindowGuard', () => {
+  const routingTableInput: RoutingTable = {
+    providers: [
+      {
+        name: 'lmstudio',
+        api_base_url: 'http://localhost:1234/v1',
+        api_key: 'lm-studio',
+        models: [{ name: 'small-model', maxTokens: 1000 }]
+      },
+      {
+        name: 'gemini',
+        api_base_url: 'https://generativelanguage.googleapis.com/v1beta',
+        api_key: 'AIza-test-key',
+        protocol: 'gemini',
+        models: [{ name: 'gemini-2.5-pro', maxTokens: 1048576 }]
+      }
+    ],
+    routes: {
+      default: 'lmstudio,small-model',
+      longContext: 'gemini,gemini-2.5-pro'
+    },
+    classification: { longContextThreshold: 100000 },
+    server: { port: 5506, host: '127.0.0.1' },
+    apiKey: 'rcc4-proxy-key'
+  };
+
+  // 约2000 token的工具输出
+  const largeToolOutput = 'lorem ipsum dolor sit amet '.repeat(400);
+
+  const oversizedRequest = {
+    model: 'claude-sonnet-4-20250514',
+    max_tokens: 1024,
+    messages: [
+      { role: 'user', content: 'Read the log file' },
+      { role: 'assistant', content: [{ type: 'tool_use', id: 'toolu_1', name: 'read_file', input: { path: 'app.log' } }] },
+      { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'toolu_1', content: largeToolOutput }] },
+      { role: 'assistant', content: [{ type: 'tool_use', id: 'toolu_2', name: 'read_file', input: { path: 'short.txt' } }] },
+      { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'toolu_2', content: 'short file contents' }] }
+    ]
+  };
+
+  let router: RequestRouter;
+  let pipelines: RoutablePipeline[];
+
+  beforeAll(async () => {
+    const result = await RouterPreprocessor.preprocess(routingTableInput);
+    expect(result.success).toBe(true);
+    router = new RequestRouter(result.routingTable!);
+    pipelines = result.pipelineConfigs!.map(config => ({
+      id: config.pipelineId,
+      provider: config.provider,
+      model: config.model
+    }));
+  });
+
+  it('should pass requests that fit the selected model window unchanged', () => {
+    const request = { ...oversizedRequest, messages: [{ role: 'user', content: 'Hello' }] };
+    const decision = router.routeRequest(request, pipelines);
+    const result = new ContextWindowGuard(router, 'reject').enforce(request, decision, pipelines);
+
+    expect(result.action).toBe('within-limit');
+    expect(result.request).toBe(request);
+    expect(result.contextWindow).toBe(1000);
+  });
+
+  it('should reject oversized prompts with a structured RCCError', () => {
+    const decision = router.routeRequest(oversizedRequest, pipelines);
+
+    try {
+      new ContextWindowGuard(router).enforce(oversizedRequest, decision, pipelines);
+      fail('expected context window error');
+    } catch (error) {
+      expect(error).toBeInstanceOf(RCCError);
+      const rccError = error as RCCError;
+      expect(rccError.code).toBe(RCCErrorCode.VALIDATION_ERROR);
+      expect(rccError.message).toContain('context window of lmstudio,small-model');
+      expect(rccError.context.details).toMatchObject({ contextWindow: 1000, policy: 'reject', routeName: 'default' });
+      expect(rccError.context.details!.overflowTokens).toBeGreaterThan(0);
+    }
+  });
+
+  it('should reroute oversized prompts to the longContext route', () => {
+    const decision = router.routeRequest(oversizedRequest, pipelines);
+    const result = new ContextWindowGuard(router, 'reroute').enforce(oversizedRequest, decision, pipelines);
+
+    expect(result.action).toBe('rerouted');
+    expect(result.decision.routeName).toBe('longContext');
+    expect(result.decision.candidates[0].model).toBe('gemini-2.5-pro');
+    expect(result.contextWindow).toBe(1048576);
+  });
+
+  it('should truncate the oldest tool results until the prompt fits', () => {
+    const decision = router.routeRequest(oversizedRequest, pipelines);
+    const result = new ContextWindowGuard(router, 'truncate').enforce(oversizedRequest, decision, pipelines);
+
+    expect(result.action).toBe('truncated');
+    expect(result.truncatedToolResults).toBe(1);
+    expect(result.estimatedTokens).toBeLessThanOrEqual(1000);
+    expect(result.request.messages[2].content[0].content).toMatch(/^\[RCC: tool result truncated/);
+    expect(result.request.messages[4].content[0].content).toBe('short file contents');
+    expect(oversizedRequest.messages[2].content).toEqual([{ type: 'tool_result', tool_use_id: 'toolu_1', content: largeToolOutput }]);
+  });
+
+  it('should reject when truncation cannot make the prompt fit', () => {
+    const request = { ...oversizedRequest, messages: [{ role: 'user', content: largeToolOutput }] };
+    const decision = router.routeRequest(request, pipelines);
+
+    expect(() => new ContextWindowGuard(router, 'truncate').enforce(request, decision, pipelines))
+      .toThrow(/truncating 0 tool_result block\(s\)/);
+  });
+
+  it('should drop pool members whose window is too small and keep the ones that fit', async () => {
+    const result = await RouterPreprocessor.preprocess({
+      ...routingTableInput,
+      routes: { default: 'lmstudio,small-model;gemini,gemini-2.5-pro' }
+    });
+    const poolRouter = new RequestRouter(result.routingTable!);
+    const poolPipelines = result.pipelineConfigs!.map(config => ({ id: config.pipelineId, provider: config.provider, model: config.model }));
+    const guard = new ContextWindowGuard(poolRouter, 'reject');
+
+    const decision = poolRouter.routeRequest(oversizedRequest, poolPipelines);
+    expect(decision.candidates.map(candidate => candidate.model)).toEqual(['small-model', 'gemini-2.5-pro']);
+
+    const filtered = guard.enforce(oversizedRequest, decision, poolPipelines);
+    expect(filtered.action).toBe('filtered');
+    expect(filtered.request).toBe(oversizedRequest);
+    expect(filtered.decision.candidates.map(candidate => candidate.model)).toEqual(['gemini-2.5-pro']);
+    expect(filtered.excludedPipelines).toEqual([decision.candidates[0].id]);
+    expect(filtered.contextWindow).toBe(1048576);
+
+    const shortRequest = { ...oversizedRequest, messages: [{ role: 'user', content: 'Hello' }] };
+    const withinLimit = guard.enforce(shortRequest, poolRouter.routeRequest(shortRequest, poolPipelines), poolPipelines);
+    expect(withinLimit.action).toBe('within-limit');
+    expect(withinLimit.decision.candidates).toHaveLength(2);
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Request Classifier Tests
+ *
+ * 验证内容感知的路由类别分类及其与RequestRouter的集成
+ */
+
+import { RouterPreprocessor } from '../router-preprocessor';
+import { RequestRouter, RoutablePipeline } from '../request-router';
+import { RequestClassifier } from '../request-classifier';
+import { RoutingTable } from '../routing-table-types';
+
+describe('RequestClassifier', () => {
+  const classifier = new RequestClassifier({ longContextThreshold: 1000 });
+  const baseRequest = {
+    model: 'claude-sonnet-4-20250514',
+    max_tokens: 1024,
+    messages: [{ role: 'user', content: 'Hello' }]
+  };
+
+  it('should classify requests over the token threshold as longContext', () => {
+    const request = {
+      ...baseRequest,
+      thinking: { type: 'enabled', budget_tokens: 2048 },
+      messages: [{ role: 'user', content: [{ type: 'text', text: 'x'.repeat(8000) }] }]
+    };
+
+    const result = classifier.classify(request);
+
+    expect(result.category).toBe('longContext');
+    expect(result.estimatedTokens).toBeGreaterThan(1000);
+  });
+
+  it('should classify requests declaring a web search tool as webSearch', () => {
+    const request = {
+      ...baseRequest,
+      tools: [{ type: 'web_search_20250305', name: 'web_search', max_uses: 5 }]
+    };
+
+    expect(classifier.classify(request).category).toBe('webSearch');
+  });
+
+  it('should classify requests with a thinking field as think', () => {
+    const request = { ...baseRequest, thinking: { type: 'enabled', budget_tokens: 2048 } };
+
+    expect(classifier.classify(request).category).toBe('think');
+  });
+
+  it('should classify haiku-class models as background', () => {
+    const request = { ...baseRequest, model: 'claude-3-5-haiku-20241022' };
+
+    expect(classifier.classify(request).category).toBe('background');
+  });
+
+  it('should classify plain requests as default', () => {
+    expect(classifier.classify(baseRequest).category).toBe('default');
+  });
+
+  it('should use the default threshold when none is configured', () => {
+    const request = { ...baseRequest, messages: [{ role: 'user', content: 'x'.repeat(8000) }] };
+
+    expect(new RequestClassifier().classify(request).category).toBe('default');
+  });
+});
+
+describe('RequestRouter content-aware routing', () => {
+  const routingTableInput: RoutingTable = {
+    providers: [
+      {
+        name: 'lmstudio',
+        api_base_url: 'http://localhost:1234/v1',
+        api_key: 'lm-studio',
+        models: ['llama-3.1-8b-instruct', 'qwen3-30b', 'qwen3-4b']
+      }
+    ],
+    routes: {
+      default: 'lmstudio,llama-3.1-8b-instruct',
+      think: 'lmstudio,qwen3-30b',
+      background: 'lmstudio,qwen3-4b'
+    },
+    classification: { longContextThreshold: 1000 },
+    server: { port: 5506, host: '127.0.0.1' },
+    apiKey: 'rcc4-proxy-key'
+  };
+
+  let router: RequestRouter;
+  let pipelines: RoutablePipeline[];
+
+  beforeAll(async () => {
+    const result = await RouterPreprocessor.preprocess(routingTableInput);
+    expect(result.success).toBe(true);
+    router = new RequestRouter(result.routingTable!);
+    pipelines = result.pipelineConfigs!.map(config => ({
+      id: config.pipelineId,
+      provider: config.provider,
+      model: config.model
+    }));
+  });
+
+  it('should dispatch a classified request to the matching Router entry', () => {
+    const decision = router.routeRequest({
+      model: 'claude-sonnet-4-20250514',
+      thinking: { type: 'enabled', budget_tokens: 2048 },
+      messages: [{ role: 'user', content: 'Solve this' }]
+    }, pipelines);
+
+    expect(decision.routeName).toBe('think');
+    expect(decision.matchType).toBe('classified');
+    expect(decision.classification?.category).toBe('think');
+    expect(decision.candidates.every(p => p.model === 'qwen3-30b')).toBe(true);
+  });
+
+  it('should fall back to default when the classified category has no Router entry', () => {
+    const decision = router.routeRequest({
+      model: 'claude-sonnet-4-20250514',
+      messages: [{ role: 'user', content: 'x'.repeat(8000) }]
+    }, pipelines);
+
+    expect(decision.classification?.category).toBe('longContext');
+    expect(decision.routeName).toBe('default');
+    expect(decision.matchType).toBe('default');
+  });
+
+  it('should prefer an explicitly requested route category over classification', () => {
+    const decision = router.routeRequest({
+      model: 'background',
+      thinking: { type: 'enabled', budget_tokens: 2048 },
+      messages: [{ role: 'user', content: 'Summarize' }]
+    }, pipelines);
+
+    expect(decision.routeName).toBe('background');
+    expect(decision.matchType).toBe('category');
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Request Hedger Tests
+ *
+ * 验证主流水线超过历史首字节耗时分位数时对冲到第二个流水线、落败方被中止，以及路由对冲预算
+ */
+
+import { RouterPreprocessor } from '../router-preprocessor';
+import { RequestRouter, RoutablePipeline } from '../request-router';
+import { RequestHedger } from '../request-hedger';
+import { RoutingTable, RouteHedgingSettings } from '../routing-table-types';
+
+describe('RequestHedger', () => {
+  let hedger: RequestHedger;
+  let primary: RoutablePipeline;
+  let secondary: RoutablePipeline;
+
+  async function createHedger(hedging?: RouteHedgingSettings): Promise<void> {
+    const routingTableInput: RoutingTable = {
+      providers: [
+        { name: 'primary', api_base_url: 'http://localhost:1234/v1', api_key: 'key-a', models: ['qwen3-coder'] },
+        { name: 'secondary', api_base_url: 'http://localhost:1235/v1', api_key: 'key-b', models: ['qwen3-coder'] }
+      ],
+      routes: { default: 'primary,qwen3-coder;secondary,qwen3-coder' },
+      loadBalancing: hedging ? { routeObjectives: { default: { hedging } } } : {},
+      server: { port: 5506, host: '127.0.0.1' },
+      apiKey: 'rcc4-proxy-key'
+    };
+
+    const result = await RouterPreprocessor.preprocess(routingTableInput);
+    expect(result.success).toBe(true);
+    const pipelines = result.pipelineConfigs!.map(config => ({
+      id: config.pipelineId,
+      provider: config.provider,
+      model: config.model
+    }));
+    primary = pipelines.find(pipeline => pipeline.provider === 'primary')!;
+    secondary = pipelines.find(pipeline => pipeline.provider === 'secondary')!;
+    hedger = new RequestHedger(new RequestRouter(result.routingTable!));
+  }
+
+  function warmUp(pipeline: RoutablePipeline, durationMs: number, samples: number = 5): void {
+    for (let i = 0; i < samples; i++) {
+      hedger.recordFirstByte(pipeline.id, durationMs);
+    }
+  }
+
+  // 按给定耗时返回结果，中止时拒绝
+  function respondAfter(durationMs: number, value: string, signal: AbortSignal): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => resolve(value), durationMs);
+      signal.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(new Error('aborted'));
+      });
+    });
+  }
+
+  afterEach(() => {
+    hedger.stop();
+  });
+
+  it('should hedge to the second pipeline when the primary is slower than its first-byte percentile', async () => {
+    await createHedger({ percentile: 90, budgetPercent: 100, minSamples: 3 });
+    warmUp(primary, 10);
+    const signals = new Map<string, AbortSignal>();
+
+    const execution = await hedger.execute('default', primary, secondary, (pipeline, signal) => {
+      signals.set(pipeline.id, signal);
+      return pipeline === primary ? respondAfter(500, 'slow', signal) : respondAfter(5, 'fast', signal);
+    });
+
+    expect(execution.hedged).toBe(true);
+    expect(execution.winner).toEqual({ pipeline: secondary, result: 'fast' });
+    expect(execution.attempts.map(attempt => [attempt.pipeline.id, attempt.status, attempt.hedge])).toEqual([
+      [primary.id, 'aborted', false],
+      [secondary.id, 'success', true]
+    ]);
+    expect(signals.get(primary.id)!.aborted).toBe(true);
+    expect(hedger.getHedgeDelay('default', primary.id)).toBe(10);
+  });
+
+  it('should not hedge when the primary answers within its usual first-byte time', async () => {
+    await createHedger({ percentile: 90, budgetPercent: 100, minSamples: 3 });
+    warmUp(primary, 200);
+    const run = jest.fn((pipeline: RoutablePipeline, signal: AbortSignal) => respondAfter(5, pipeline.provider, signal));
+
+    const execution = await hedger.execute('default', primary, secondary, run);
+
+    expect(execution.hedged).toBe(false);
+    expect(execution.winner?.result).toBe('primary');
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not hedge without enough first-byte samples or hedging configured', async () => {
+    await createHedger({ minSamples: 10 });
+    warmUp(primary, 1, 5);
+    expect(hedger.getHedgeDelay('default', primary.id)).toBeUndefined();
+    hedger.stop();
+
+    await createHedger();
+    warmUp(primary, 1, 50);
+    expect(hedger.getHedgeDelay('default', primary.id)).toBeUndefined();
+  });
+
+  it('should return a primary failure before the hedge fires without hedging', async () => {
+    await createHedger({ percentile: 90, budgetPercent: 100, minSamples: 3 });
+    warmUp(primary, 100);
+    const run = jest.fn(async (pipeline: RoutablePipeline) => {
+      throw new Error(`HTTP 503 from ${pipeline.provider}`);
+    });
+
+    const execution = await hedger.execute('default', primary, secondary, run);
+
+    expect(execution.winner).toBeUndefined();
+    expect(execution.hedged).toBe(false);
+    expect(execution.attempts).toHaveLength(1);
+    expect(execution.attempts[0]).toMatchObject({ status: 'error', hedge: false });
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it('should wait for the hedge when the primary fails after it was sent', async () => {
+    await createHedger({ percentile: 90, budgetPercent: 100, minSamples: 3 });
+    warmUp(primary, 5);
+
+    const execution = await hedger.execute('default', primary, secondary, (pipeline, signal) => {
+      if (pipeline === primary) {
+        return new Promise<string>((_, reject) => setTimeout(() => reject(new Error('socket hang up')), 30));
+      }
+      return respondAfter(60, 'hedge', signal);
+    });
+
+    expect(execution.winner?.pipeline).toBe(secondary);
+    expect(execution.attempts.map(attempt => attempt.status)).toEqual(['error', 'success']);
+  });
+
+  it('should keep hedged requests within the route budget', async () => {
+    await createHedger({ percentile: 50, budgetPercent: 25, minSamples: 3 });
+    // 样本足够多，未对冲的慢请求不会明显改变对冲延迟
+    warmUp(primary, 5, 50);
+
+    const hedged: boolean[] = [];
+    for (let i = 0; i < 8; i++) {
+      const execution = await hedger.execute('default', primary, secondary, (pipeline, signal) =>
+        pipeline === primary ? respondAfter(40, 'slow', signal) : respondAfter(1, 'fast', signal)
+      );
+      hedged.push(execution.hedged);
+    }
+
+    expect(hedged).toEqual([false, false, false, true, false, false, false, true]);
+  });
+});
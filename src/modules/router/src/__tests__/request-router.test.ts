@@ -0,0 +1,112 @@
+/**
+ * Request Router Tests
+ *
+ * 验证请求时路由：model → 路由类别 → 候选流水线
+ */
+
+import { RouterPreprocessor, _InternalRoutingTable } from '../router-preprocessor';
+import { RequestRouter, RoutablePipeline } from '../request-router';
+import { RoutingTable } from '../routing-table-types';
+import { RCCError, RCCErrorCode } from '../../../types/src/index';
+
+describe('RequestRouter', () => {
+  const routingTableInput: RoutingTable = {
+    providers: [
+      {
+        name: 'shuaihong',
+        priority: 2,
+        api_base_url: 'https://ai.shuaihong.fun/v1',
+        api_key: ['sk-key-1', 'sk-key-2'],
+        models: ['glm-4.5', 'gpt-4o-mini']
+      },
+      {
+        name: 'lmstudio',
+        priority: 1,
+        api_base_url: 'http://localhost:1234/v1',
+        api_key: 'lm-studio',
+        models: ['llama-3.1-8b-instruct']
+      }
+    ],
+    routes: {
+      default: 'lmstudio,llama-3.1-8b-instruct;shuaihong,glm-4.5',
+      programming: 'shuaihong,glm-4.5',
+      background: 'shuaihong,gpt-4o-mini'
+    },
+    server: { port: 5506, host: '127.0.0.1' },
+    apiKey: 'rcc4-proxy-key'
+  };
+
+  let routingTable: _InternalRoutingTable;
+  let pipelines: RoutablePipeline[];
+  let router: RequestRouter;
+
+  beforeAll(async () => {
+    const result = await RouterPreprocessor.preprocess(routingTableInput);
+    expect(result.success).toBe(true);
+    routingTable = result.routingTable!;
+    pipelines = result.pipelineConfigs!.map(config => ({
+      id: config.pipelineId,
+      provider: config.provider,
+      model: config.model
+    }));
+  });
+
+  beforeEach(() => {
+    router = new RequestRouter(routingTable);
+  });
+
+  it('should route a route category name to its pipelines in priority order', () => {
+    const decision = router.route('default', pipelines);
+
+    expect(decision.routeName).toBe('default');
+    expect(decision.matchType).toBe('category');
+    expect(decision.candidates.map(p => p.id)).toEqual([
+      'pipeline_shuaihong_glm-4.5_0',
+      'pipeline_shuaihong_glm-4.5_1',
+      'pipeline_lmstudio_llama-3.1-8b-instruct_0'
+    ]);
+  });
+
+  it('should route an explicit provider,model string', () => {
+    const decision = router.route('shuaihong,gpt-4o-mini', pipelines);
+
+    expect(decision.routeName).toBe('background');
+    expect(decision.matchType).toBe('provider-model');
+    expect(decision.candidates.every(p => p.model === 'gpt-4o-mini')).toBe(true);
+    expect(decision.candidates).toHaveLength(2);
+  });
+
+  it('should route a concrete model name to the route that serves it', () => {
+    const decision = router.route('llama-3.1-8b-instruct', pipelines);
+
+    expect(decision.routeName).toBe('default');
+    expect(decision.matchType).toBe('model');
+    expect(decision.candidates.map(p => p.id)).toEqual(['pipeline_lmstudio_llama-3.1-8b-instruct_0']);
+  });
+
+  it('should fall back to the default route for unknown models', () => {
+    const decision = router.route('claude-3-5-sonnet-20241022', pipelines);
+
+    expect(decision.routeName).toBe('default');
+    expect(decision.matchType).toBe('default');
+    expect(decision.candidates.length).toBeGreaterThan(0);
+  });
+
+  it('should fall back to default when the resolved route has no available pipelines', () => {
+    const withoutBackground = pipelines.filter(p => p.model !== 'gpt-4o-mini');
+    const decision = router.route('background', withoutBackground);
+
+    expect(decision.routeName).toBe('default');
+    expect(decision.reason).toContain('fell back');
+  });
+
+  it('should throw ROUTER_NO_PROVIDER when no pipeline is available', () => {
+    expect(() => router.route('default', [])).toThrow(RCCError);
+
+    try {
+      router.route('default', []);
+    } catch (error) {
+      expect((error as RCCError).code).toBe(RCCErrorCode.ROUTER_NO_PROVIDER);
+    }
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Route Load Balancer Tests
+ *
+ * 验证同一路由类别的流水线池按配置策略选择，熔断后退出轮转，并回报实际耗时和结果
+ */
+
+import { RouterPreprocessor } from '../router-preprocessor';
+import { RequestRouter, RoutablePipeline } from '../request-router';
+import { RouteLoadBalancer } from '../route-load-balancer';
+import { RoutingTable, LoadBalancingSettings } from '../routing-table-types';
+import { RCCError, RCCErrorCode } from '../../../types/src/index';
+
+describe('RouteLoadBalancer', () => {
+  let balancer: RouteLoadBalancer;
+  let pipelines: RoutablePipeline[];
+  let router: RequestRouter;
+
+  async function createBalancer(loadBalancing: LoadBalancingSettings): Promise<void> {
+    const routingTableInput: RoutingTable = {
+      providers: [
+        { name: 'primary', api_base_url: 'http://localhost:1234/v1', api_key: 'key-a', models: ['qwen3-coder'] },
+        { name: 'secondary', api_base_url: 'http://localhost:1235/v1', api_key: 'key-b', models: ['qwen3-coder'] }
+      ],
+      routes: { default: 'primary,qwen3-coder;secondary,qwen3-coder' },
+      loadBalancing,
+      server: { port: 5506, host: '127.0.0.1' },
+      apiKey: 'rcc4-proxy-key'
+    };
+
+    const result = await RouterPreprocessor.preprocess(routingTableInput);
+    expect(result.success).toBe(true);
+    router = new RequestRouter(result.routingTable!);
+    pipelines = result.pipelineConfigs!.map(config => ({
+      id: config.pipelineId,
+      provider: config.provider,
+      model: config.model
+    }));
+    balancer = new RouteLoadBalancer(router);
+  }
+
+  async function selectProvider(): Promise<string> {
+    const decision = router.route('default', pipelines);
+    const selection = await balancer.select(decision, { requestId: 'req-test' });
+    balancer.recordOutcome(selection.pipeline.id, 100);
+    return selection.pipeline.provider;
+  }
+
+  afterEach(async () => {
+    await balancer.stop();
+  });
+
+  it('should rotate requests across the route pool with the configured strategy', async () => {
+    await createBalancer({ strategy: 'round_robin' });
+
+    const selected = [await selectProvider(), await selectProvider(), await selectProvider(), await selectProvider()];
+
+    expect(balancer.getStrategy()).toBe('round_robin');
+    expect(selected).toEqual(['primary', 'secondary', 'primary', 'secondary']);
+  });
+
+  it('should keep route priority order when idle with the default strategy', async () => {
+    await createBalancer({});
+
+    const decision = router.route('default', pipelines);
+    const selection = await balancer.select(decision, { requestId: 'req-test' });
+
+    expect(selection.pipeline.provider).toBe('primary');
+    expect(selection.alternatives.map(pipeline => pipeline.provider)).toEqual(['secondary']);
+
+    // 并发时第二个请求分摊到连接数更少的成员
+    const concurrent = await balancer.select(decision, { requestId: 'req-test-2' });
+    expect(concurrent.pipeline.provider).toBe('secondary');
+  });
+
+  it('should feed latency and outcomes back to the pool metrics', async () => {
+    await createBalancer({ strategy: 'round_robin' });
+
+    const decision = router.route('default', pipelines);
+    const selection = await balancer.select(decision, { requestId: 'req-test' });
+    balancer.recordOutcome(selection.pipeline.id, 250);
+
+    const member = balancer.getMembers().find(candidate => candidate.id === selection.pipeline.id)!;
+    expect(member.currentConnections).toBe(0);
+    expect(member.metrics.requestCount).toBe(1);
+    expect(member.metrics.avgResponseTime).toBe(250);
+    expect(member.metrics.lastResponseTime).toBe(250);
+  });
+
+  it('should remove members from rotation when their circuit breaker opens', async () => {
+    await createBalancer({ strategy: 'round_robin', circuitBreaker: { failureThreshold: 2 } });
+
+    const primary = pipelines.find(pipeline => pipeline.provider === 'primary')!;
+    const upstreamError = new RCCError('upstream down', RCCErrorCode.PROVIDER_UNAVAILABLE, 'test');
+    const decision = router.route('default', pipelines);
+    await balancer.select(decision, { requestId: 'req-register' });
+    balancer.recordOutcome(primary.id, 50, upstreamError);
+    balancer.recordOutcome(primary.id, 50, upstreamError);
+
+    const selected = [await selectProvider(), await selectProvider(), await selectProvider()];
+    expect(selected).toEqual(['secondary', 'secondary', 'secondary']);
+    expect(balancer.getStatistics().circuitBreakersOpen).toBe(1);
+  });
+
+  it('should not count client errors against the pipeline', async () => {
+    await createBalancer({ strategy: 'round_robin', circuitBreaker: { failureThreshold: 1 } });
+
+    const decision = router.route('default', pipelines);
+    const selection = await balancer.select(decision, { requestId: 'req-test' });
+    balancer.recordOutcome(selection.pipeline.id, 20, new RCCError('bad request', RCCErrorCode.VALIDATION_ERROR, 'test'));
+
+    const member = balancer.getMembers().find(candidate => candidate.id === selection.pipeline.id)!;
+    expect(member.metrics.requestCount).toBe(0);
+    expect(member.currentConnections).toBe(0);
+    expect(balancer.getStatistics().circuitBreakersOpen).toBe(0);
+  });
+
+  it('should fall back to priority order when every member is out of rotation', async () => {
+    await createBalancer({ circuitBreaker: { failureThreshold: 1 } });
+
+    const decision = router.route('default', pipelines);
+    await balancer.select(decision, { requestId: 'req-register' });
+    for (const pipeline of pipelines) {
+      balancer.recordOutcome(pipeline.id, 50, new Error('connection refused'));
+    }
+
+    const selection = await balancer.select(decision, { requestId: 'req-test' });
+    expect(selection.strategy).toBe('priority-fallback');
+    expect(selection.pipeline.provider).toBe('primary');
+  });
+});
@@ -415,4 +415,77 @@ describe('RCC v4.0 Router Preprocessor', () => {
       console.log(`🔗 路由预处理器端到端数据流验证通过`);
     });
   });
-});
\ No newline at end of file
+});
+
+describe('RouterPreprocessor provider timeout', () => {
+  const baseTable: RoutingTable = {
+    providers: [],
+    routes: { default: 'slow,qwen3-coder' },
+    server: { port: 5506, host: '127.0.0.1' },
+    apiKey: 'rcc4-proxy-key'
+  };
+
+  function timeoutsOf(config: PipelineConfig): Record<string, unknown> {
+    return Object.fromEntries(config.layers.filter(layer => layer.config.timeout !== undefined).map(layer => [layer.type, layer.config.timeout]));
+  }
+
+  test('应该把Provider的timeout用于流水线、server-compatibility和server层', async () => {
+    const result = await RouterPreprocessor.preprocess({
+      ...baseTable,
+      providers: [{
+        name: 'slow',
+        api_base_url: 'http://localhost:1234/v1',
+        api_key: 'lm-studio',
+        timeout: 120000,
+        models: ['qwen3-coder'],
+        serverCompatibility: { use: 'lmstudio', options: { timeout: 30000 } }
+      }]
+    });
+
+    const config = result.pipelineConfigs![0];
+    expect(config.timeout).toBe(120000);
+    expect(timeoutsOf(config)).toEqual({ 'server-compatibility': 120000, server: 120000 });
+  });
+
+  test('未配置Provider timeout时应该使用系统配置的值，否则使用默认值', async () => {
+    const fromSystem = await RouterPreprocessor.preprocess({
+      ...baseTable,
+      providers: [{
+        name: 'slow',
+        api_base_url: 'http://localhost:1234/v1',
+        api_key: 'lm-studio',
+        models: ['qwen3-coder'],
+        serverCompatibility: { use: 'lmstudio', options: { timeout: 30000 } }
+      }]
+    });
+    expect(fromSystem.pipelineConfigs![0].timeout).toBe(30000);
+    expect(timeoutsOf(fromSystem.pipelineConfigs![0])).toEqual({ 'server-compatibility': 30000, server: 30000 });
+
+    const defaults = await RouterPreprocessor.preprocess({
+      ...baseTable,
+      providers: [{ name: 'slow', api_base_url: 'http://localhost:1234/v1', api_key: 'lm-studio', models: ['qwen3-coder'] }]
+    });
+    expect(timeoutsOf(defaults.pipelineConfigs![0])).toEqual({ 'server-compatibility': 60000, server: 60000 });
+  });
+});
+
+describe('RouterPreprocessor model capabilities', () => {
+  test('转换层应该总是带上模型能力，未声明能力的模型为空列表', async () => {
+    const result = await RouterPreprocessor.preprocess({
+      providers: [{
+        name: 'lmstudio',
+        api_base_url: 'http://localhost:1234/v1',
+        api_key: 'lm-studio',
+        models: ['qwen3-coder', { name: 'llava', capabilities: ['multimodal'] }]
+      }],
+      routes: { default: 'lmstudio,qwen3-coder', vision: 'lmstudio,llava' },
+      server: { port: 5506, host: '127.0.0.1' },
+      apiKey: 'rcc4-proxy-key'
+    });
+
+    const capabilitiesOf = (model: string) =>
+      result.pipelineConfigs!.find(config => config.model === model)!.layers.find(layer => layer.type === 'transformer')!.config.capabilities;
+    expect(capabilitiesOf('qwen3-coder')).toEqual([]);
+    expect(capabilitiesOf('llava')).toEqual(['multimodal']);
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Token Estimator Tests
+ *
+ * 验证BPE风格估算、Provider家族Tokenizer注册、启发式回退和图片折算
+ */
+
+import {
+  BPEStyleTokenizer,
+  countTextTokens,
+  estimateImageTokens,
+  estimateRequestTokens,
+  getTokenizer,
+  registerTokenizer,
+  resolveTokenizerFamily,
+  Tokenizer
+} from '../token-estimator';
+
+/**
+ * 构造只含IHDR尺寸的PNG文件头
+ */
+function pngHeader(width: number, height: number): string {
+  const buffer = Buffer.alloc(24);
+  Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).copy(buffer, 0);
+  buffer.writeUInt32BE(13, 8);
+  buffer.write('IHDR', 12, 'ascii');
+  buffer.writeUInt32BE(width, 16);
+  buffer.writeUInt32BE(height, 20);
+  return buffer.toString('base64');
+}
+
+describe('Token Estimator', () => {
+  it('should split text into BPE-style pieces', () => {
+    const tokenizer = new BPEStyleTokenizer({ name: 'test', charsPerToken: 4, maxSingleTokenWordLength: 6, digitsPerToken: 3 });
+
+    expect(tokenizer.countTokens('Hello world')).toBe(2);
+    expect(tokenizer.countTokens('internationalization')).toBe(5);
+    expect(tokenizer.countTokens('1234567')).toBe(3);
+    expect(tokenizer.countTokens('你好世界')).toBe(4);
+    expect(tokenizer.countTokens('')).toBe(0);
+  });
+
+  it('should resolve tokenizer families from the pipeline protocol', () => {
+    expect(resolveTokenizerFamily('anthropic')).toBe('anthropic');
+    expect(resolveTokenizerFamily('gemini')).toBe('gemini');
+    expect(resolveTokenizerFamily(undefined)).toBe('openai');
+    expect(getTokenizer('gemini').countTokens('2025')).toBe(4);
+  });
+
+  it('should fall back to the heuristic when a registered tokenizer throws', () => {
+    const original = getTokenizer('gemini');
+    const broken: Tokenizer = {
+      name: 'broken',
+      countTokens: () => { throw new Error('vocabulary not loaded'); }
+    };
+
+    registerTokenizer('gemini', broken);
+    try {
+      expect(getTokenizer('gemini')).toBe(broken);
+      expect(countTextTokens('x'.repeat(40), broken)).toBe(10);
+    } finally {
+      registerTokenizer('gemini', original);
+    }
+  });
+
+  it('should estimate images from their dimensions with resizing and a cap', () => {
+    expect(estimateImageTokens({ type: 'base64', media_type: 'image/png', data: pngHeader(200, 150) })).toBe(40);
+    expect(estimateImageTokens({ type: 'base64', media_type: 'image/png', data: pngHeader(4000, 3000) })).toBe(1600);
+    expect(estimateImageTokens({ type: 'url', url: 'https://example.com/cat.png' })).toBe(1600);
+  });
+
+  it('should break request estimates down by system, messages, tools and images', () => {
+    const estimate = estimateRequestTokens({
+      model: 'claude-sonnet-4-20250514',
+      system: 'You are helpful.',
+      tools: [{ name: 'get_weather', input_schema: { type: 'object', properties: { city: { type: 'string' } } } }],
+      messages: [{
+        role: 'user',
+        content: [
+          { type: 'text', text: 'What is in this picture?' },
+          { type: 'image', source: { type: 'base64', media_type: 'image/png', data: pngHeader(200, 150) } }
+        ]
+      }]
+    }, { family: 'anthropic' });
+
+    expect(estimate.tokenizer).toBe('bpe-anthropic');
+    expect(estimate.breakdown.system).toBeGreaterThan(0);
+    expect(estimate.breakdown.tools).toBeGreaterThan(8);
+    expect(estimate.breakdown.images).toBe(40);
+    const { system, messages, tools, images } = estimate.breakdown;
+    expect(estimate.inputTokens).toBe(3 + system + messages + tools + images);
+  });
+});
@@ -0,0 +1,293 @@
+/**
+ * RCC v4.0 API Key Pool Manager
+ *
+ * Provider多密钥轮换 - 流水线按provider、model、密钥展开，同一provider/model的流水线组成密钥池
+ *
+ * - 每次请求在每个provider/model组内按round_robin或weighted策略只保留一个密钥的流水线
+ * - 429或配额错误的密钥按Retry-After（或配置的cooldownMs）冷却，期间不参与轮换
+ * - 记录每个密钥的请求数、错误数和token用量，状态中只暴露脱敏后的keyId
+ * - 配置重载时通过setRouter换用新路由器，仍在配置中的密钥保留冷却和用量
+ *
+ * @author RCC v4.0
+ */
+
+import { RequestRouter, RouteDecision, RoutablePipeline } from './request-router';
+import { ApiKeyRotationStrategy } from './routing-table-types';
+import { isRateLimitError, isClientRequestError, getRetryAfterMs } from './upstream-error';
+import { RCCError, RCCErrorCode } from '../../types/src/index';
+import { secureLogger } from '../../error-handler/src/utils/secure-logger';
+
+/**
+ * 429/配额错误未给出重试间隔时的默认冷却时间
+ */
+export const DEFAULT_API_KEY_COOLDOWN_MS = 60000;
+
+/**
+ * 单次请求结果
+ */
+export interface ApiKeyOutcome {
+  error?: unknown;
+  inputTokens?: number;
+  outputTokens?: number;
+}
+
+/**
+ * 密钥状态（供/status展示）
+ */
+export interface ApiKeyStatus {
+  keyId: string;
+  keyIndex: number;
+  weight: number;
+  status: 'active' | 'cooling_down';
+  cooldownRemainingMs?: number;
+  requestCount: number;
+  errorCount: number;
+  rateLimitCount: number;
+  inputTokens: number;
+  outputTokens: number;
+  lastUsedAt?: string;
+  lastError?: string;
+}
+
+/**
+ * Provider密钥池状态
+ */
+export interface ApiKeyPoolStatus {
+  provider: string;
+  strategy: ApiKeyRotationStrategy;
+  keys: ApiKeyStatus[];
+}
+
+interface KeyState {
+  keyIndex: number;
+  keyId: string;
+  weight: number;
+  // 平滑加权轮询的当前权重
+  currentWeight: number;
+  cooldownUntil: number;
+  requestCount: number;
+  errorCount: number;
+  rateLimitCount: number;
+  inputTokens: number;
+  outputTokens: number;
+  lastUsedAt?: number;
+  lastError?: string;
+}
+
+interface ProviderKeyPool {
+  provider: string;
+  strategy: ApiKeyRotationStrategy;
+  cooldownMs: number;
+  keys: KeyState[];
+  cursor: number;
+}
+
+/**
+ * Provider密钥池管理器
+ */
+export class ApiKeyPoolManager {
+  private readonly pools = new Map<string, ProviderKeyPool>();
+
+  constructor(private router: RequestRouter) {
+    this.loadPools();
+  }
+
+  /**
+   * 配置重载后换用新的路由器：按provider和keyId保留仍在配置中的密钥的冷却和用量，
+   * 新增的密钥从零开始，已移除的密钥和provider不再保留
+   */
+  setRouter(router: RequestRouter): void {
+    this.router = router;
+    this.loadPools();
+  }
+
+  /**
+   * 在每个provider/model组内选出本次使用的密钥，冷却中的密钥不参与选择
+   *
+   * 所有候选都在冷却时抛出RATE_LIMIT_ERROR，details.retryAfterMs为最近一个密钥恢复的时间
+   */
+  selectKeys<T extends RoutablePipeline>(decision: RouteDecision<T>, requestId?: string): RouteDecision<T> {
+    const groups = new Map<string, T[]>();
+    for (const candidate of decision.candidates) {
+      const groupKey = `${candidate.provider},${candidate.model}`;
+      groups.set(groupKey, [...(groups.get(groupKey) || []), candidate]);
+    }
+
+    const now = Date.now();
+    const candidates: T[] = [];
+    for (const members of groups.values()) {
+      const selected = this.pickKey(members, now);
+      if (selected) {
+        candidates.push(selected);
+      }
+    }
+
+    if (candidates.length === 0) {
+      const retryAfterMs = this.getEarliestRecovery(decision.candidates, now);
+      throw new RCCError(
+        `All API keys for route '${decision.routeName}' are cooling down after rate limit or quota errors`,
+        RCCErrorCode.RATE_LIMIT_ERROR,
+        'router',
+        { requestId, details: { routeName: decision.routeName, retryAfterMs } }
+      );
+    }
+
+    return { ...decision, candidates };
+  }
+
+  /**
+   * 回报请求结果，更新密钥用量；限流或配额错误时冷却该密钥
+   */
+  recordOutcome(pipeline: RoutablePipeline, outcome: ApiKeyOutcome): void {
+    const pool = this.pools.get(pipeline.provider);
+    const key = pool ? this.getKeyState(pool, pipeline) : undefined;
+    if (!pool || !key) {
+      return;
+    }
+
+    const now = Date.now();
+    key.requestCount++;
+    key.lastUsedAt = now;
+    key.inputTokens += outcome.inputTokens || 0;
+    key.outputTokens += outcome.outputTokens || 0;
+
+    if (!outcome.error || isClientRequestError(outcome.error)) {
+      return;
+    }
+
+    key.errorCount++;
+    key.lastError = outcome.error instanceof Error ? outcome.error.message : String(outcome.error);
+
+    if (isRateLimitError(outcome.error)) {
+      const cooldownMs = getRetryAfterMs(outcome.error) ?? pool.cooldownMs;
+      key.rateLimitCount++;
+      key.cooldownUntil = now + cooldownMs;
+
+      secureLogger.warn('🔑 API密钥触发限流或配额错误，暂停使用', {
+        provider: pool.provider,
+        keyId: key.keyId,
+        cooldownMs
+      });
+    }
+  }
+
+  /**
+   * 所有Provider密钥池的状态
+   */
+  getStatus(): ApiKeyPoolStatus[] {
+    const now = Date.now();
+
+    return Array.from(this.pools.values()).map(pool => ({
+      provider: pool.provider,
+      strategy: pool.strategy,
+      keys: pool.keys.map(key => {
+        const coolingDown = key.cooldownUntil > now;
+        return {
+          keyId: key.keyId,
+          keyIndex: key.keyIndex,
+          weight: key.weight,
+          status: coolingDown ? 'cooling_down' as const : 'active' as const,
+          ...(coolingDown ? { cooldownRemainingMs: key.cooldownUntil - now } : {}),
+          requestCount: key.requestCount,
+          errorCount: key.errorCount,
+          rateLimitCount: key.rateLimitCount,
+          inputTokens: key.inputTokens,
+          outputTokens: key.outputTokens,
+          ...(key.lastUsedAt ? { lastUsedAt: new Date(key.lastUsedAt).toISOString() } : {}),
+          ...(key.lastError ? { lastError: key.lastError } : {})
+        };
+      })
+    }));
+  }
+
+  /**
+   * 按路由器的密钥池配置重建密钥池，沿用同一provider下keyId相同的密钥状态
+   */
+  private loadPools(): void {
+    const previous = new Map(this.pools);
+    this.pools.clear();
+
+    for (const entry of this.router.getApiKeyPools()) {
+      const existing = previous.get(entry.provider);
+      this.pools.set(entry.provider, {
+        provider: entry.provider,
+        strategy: entry.strategy,
+        cooldownMs: entry.cooldownMs || DEFAULT_API_KEY_COOLDOWN_MS,
+        cursor: existing?.cursor || 0,
+        keys: entry.keys.map(key => {
+          const state = existing?.keys.find(candidate => candidate.keyId === key.keyId);
+          return state ? { ...state, keyIndex: key.keyIndex, weight: key.weight } : {
+            keyIndex: key.keyIndex,
+            keyId: key.keyId,
+            weight: key.weight,
+            currentWeight: 0,
+            cooldownUntil: 0,
+            requestCount: 0,
+            errorCount: 0,
+            rateLimitCount: 0,
+            inputTokens: 0,
+            outputTokens: 0
+          };
+        })
+      });
+    }
+  }
+
+  /**
+   * 按Provider的轮换策略在组内选择一个未冷却的密钥
+   */
+  private pickKey<T extends RoutablePipeline>(members: T[], now: number): T | undefined {
+    const pool = this.pools.get(members[0].provider);
+    if (!pool) {
+      return members[0];
+    }
+
+    const available = members
+      .map(member => ({ member, key: this.getKeyState(pool, member) }))
+      .filter(({ key }) => !key || key.cooldownUntil <= now);
+    if (available.length === 0) {
+      return undefined;
+    }
+
+    if (pool.strategy === 'weighted') {
+      // 平滑加权轮询：权重高的密钥更频繁，但不会连续集中使用
+      let totalWeight = 0;
+      let selected = available[0];
+      for (const candidate of available) {
+        if (!candidate.key) {
+          continue;
+        }
+        candidate.key.currentWeight += candidate.key.weight;
+        totalWeight += candidate.key.weight;
+        if (!selected.key || candidate.key.currentWeight > selected.key.currentWeight) {
+          selected = candidate;
+        }
+      }
+      if (selected.key) {
+        selected.key.currentWeight -= totalWeight;
+      }
+      return selected.member;
+    }
+
+    const selected = available[pool.cursor % available.length];
+    pool.cursor++;
+    return selected.member;
+  }
+
+  private getKeyState(pool: ProviderKeyPool, pipeline: RoutablePipeline): KeyState | undefined {
+    const keyIndex = this.router.getApiKeyIndex(pipeline.id);
+    return keyIndex === undefined ? undefined : pool.keys.find(key => key.keyIndex === keyIndex);
+  }
+
+  private getEarliestRecovery(pipelines: RoutablePipeline[], now: number): number | undefined {
+    const remaining = pipelines
+      .map(pipeline => {
+        const pool = this.pools.get(pipeline.provider);
+        const key = pool ? this.getKeyState(pool, pipeline) : undefined;
+        return key ? key.cooldownUntil - now : undefined;
+      })
+      .filter((value): value is number => value !== undefined && value > 0);
+
+    return remaining.length > 0 ? Math.min(...remaining) : undefined;
+  }
+}
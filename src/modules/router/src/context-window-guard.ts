@@ -0,0 +1,266 @@
+/**
+ * RCC v4.0 Context Window Guard
+ *
+ * 发送前的上下文窗口保护 - 估算提示词token数并与路由池中各模型声明的maxTokens比较
+ *
+ * 池中部分成员窗口不足时只从候选中移除这些成员（负载均衡和回退只在窗口足够的成员间进行）；
+ * 所有成员都放不下时按配置的策略处理：
+ * - reroute: 改用longContext路由中窗口足够的流水线
+ * - truncate: 从最早的tool_result开始替换为占位文本，直到可放入窗口
+ * - reject: 抛出结构化RCCError，说明估算值、窗口大小和超出量
+ *
+ * reroute/truncate无法解决时同样抛出RCCError，避免请求以上游400的形式失败
+ *
+ * @author RCC v4.0
+ */
+
+import { RequestRouter, RouteDecision, RoutablePipeline } from './request-router';
+import { ContextWindowPolicy } from './routing-table-types';
+import { estimateRequestTokens, estimateContentTokens, countTextTokens, getTokenizer, resolveTokenizerFamily, TokenizerFamily } from './token-estimator';
+import { RCCError, RCCErrorCode } from '../../types/src/index';
+
+/**
+ * 默认超限策略
+ */
+export const DEFAULT_CONTEXT_WINDOW_POLICY: ContextWindowPolicy = 'reject';
+
+/**
+ * 长上下文路由名称
+ */
+export const LONG_CONTEXT_ROUTE = 'longContext';
+
+/**
+ * 保护结果
+ */
+export interface ContextWindowResult<T extends RoutablePipeline = RoutablePipeline> {
+  action: 'within-limit' | 'filtered' | 'rerouted' | 'truncated';
+  request: any;
+  decision: RouteDecision<T>;
+  estimatedTokens: number;
+  contextWindow?: number;
+  truncatedToolResults?: number;
+  // 因窗口不足从候选中移除的流水线
+  excludedPipelines?: string[];
+}
+
+/**
+ * 候选流水线的窗口和提示词估算
+ */
+interface CandidateFit<T extends RoutablePipeline> {
+  pipeline: T;
+  contextWindow?: number;
+  estimatedTokens: number;
+}
+
+/**
+ * 上下文窗口保护
+ */
+export class ContextWindowGuard {
+  private readonly policy: ContextWindowPolicy;
+
+  constructor(private readonly router: RequestRouter, policy?: ContextWindowPolicy) {
+    this.policy = policy || router.getContextWindowConfig().policy || DEFAULT_CONTEXT_WINDOW_POLICY;
+  }
+
+  /**
+   * 检查路由决策的候选流水线能否容纳请求：移除窗口不足的候选，全部放不下时按策略改写请求或决策
+   *
+   * @param request Anthropic请求体
+   * @param decision 路由决策（candidates为负载均衡和回退使用的路由池）
+   * @param pipelines 当前可用的已组装流水线（reroute时使用）
+   */
+  enforce<T extends RoutablePipeline>(request: any, decision: RouteDecision<T>, pipelines: T[]): ContextWindowResult<T> {
+    const fits = decision.candidates.map(pipeline => this.measure(request, pipeline));
+    const fitting = fits.filter(fit => this.fitsWindow(fit));
+
+    if (fitting.length === fits.length) {
+      return { action: 'within-limit', request, decision, estimatedTokens: fits[0]?.estimatedTokens ?? 0, contextWindow: fits[0]?.contextWindow };
+    }
+
+    const excluded = fits.filter(fit => !this.fitsWindow(fit));
+    if (fitting.length > 0) {
+      return {
+        action: 'filtered',
+        request,
+        decision: {
+          ...decision,
+          reason: `${decision.reason}; ~${excluded[0].estimatedTokens} prompt tokens exceed the context window of ` +
+            `${excluded.map(fit => `${fit.pipeline.provider},${fit.pipeline.model}`).join(', ')}, excluded from the pool`,
+          candidates: fitting.map(fit => fit.pipeline)
+        },
+        estimatedTokens: fitting[0].estimatedTokens,
+        contextWindow: fitting[0].contextWindow,
+        excludedPipelines: excluded.map(fit => fit.pipeline.id)
+      };
+    }
+
+    // 没有成员放得下：以窗口最大的成员为准处理
+    const largest = fits.reduce((best, fit) => fit.contextWindow! > best.contextWindow! ? fit : best);
+    switch (this.policy) {
+      case 'reroute':
+        return this.reroute(request, decision, pipelines, largest);
+      case 'truncate':
+        return this.truncate(request, decision, largest);
+      default:
+        throw this.createOverflowError(largest.pipeline, decision, largest.estimatedTokens, largest.contextWindow!, 'policy is reject');
+    }
+  }
+
+  /**
+   * 改用longContext路由中能容纳请求的流水线
+   */
+  private reroute<T extends RoutablePipeline>(
+    request: any,
+    decision: RouteDecision<T>,
+    pipelines: T[],
+    largest: CandidateFit<T>
+  ): ContextWindowResult<T> {
+    const { pipeline: original, estimatedTokens, contextWindow } = largest;
+    let candidates: T[] = [];
+
+    if (this.router.getRouteNames().includes(LONG_CONTEXT_ROUTE)) {
+      try {
+        candidates = this.router.route(LONG_CONTEXT_ROUTE, pipelines).candidates;
+      } catch {
+        // longContext路由没有可用流水线
+      }
+    }
+
+    const fitting = candidates.filter(candidate =>
+      !decision.candidates.some(existing => existing.id === candidate.id) && this.fitsWindow(this.measure(request, candidate))
+    );
+
+    if (fitting.length === 0) {
+      throw this.createOverflowError(original, decision, estimatedTokens, contextWindow!,
+        `no pipeline in route '${LONG_CONTEXT_ROUTE}' can fit the prompt`);
+    }
+
+    return {
+      action: 'rerouted',
+      request,
+      decision: {
+        ...decision,
+        routeName: LONG_CONTEXT_ROUTE,
+        matchType: 'classified',
+        reason: `${decision.reason}; ~${estimatedTokens} prompt tokens exceed the ${contextWindow}-token window of ${original.provider},${original.model}, rerouted to ${LONG_CONTEXT_ROUTE}`,
+        candidates: fitting
+      },
+      estimatedTokens: this.estimate(request, fitting[0]),
+      contextWindow: this.getContextWindow(fitting[0])
+    };
+  }
+
+  /**
+   * 从最早的消息开始截断tool_result内容，直到提示词可放入窗口最大的成员，
+   * 之后仍放不下截断后请求的成员从候选中移除
+   */
+  private truncate<T extends RoutablePipeline>(
+    request: any,
+    decision: RouteDecision<T>,
+    largest: CandidateFit<T>
+  ): ContextWindowResult<T> {
+    const { pipeline, estimatedTokens } = largest;
+    const contextWindow = largest.contextWindow!;
+    const family = this.getFamily(pipeline);
+    const truncatedRequest = JSON.parse(JSON.stringify(request));
+    let remaining = estimatedTokens;
+    let truncatedToolResults = 0;
+
+    for (const message of truncatedRequest.messages || []) {
+      if (remaining <= contextWindow) {
+        break;
+      }
+      if (!Array.isArray(message?.content)) {
+        continue;
+      }
+
+      for (const block of message.content) {
+        if (remaining <= contextWindow) {
+          break;
+        }
+        if (block?.type !== 'tool_result' || !block.content) {
+          continue;
+        }
+
+        const originalTokens = estimateContentTokens(block.content, { family });
+        const placeholder = `[RCC: tool result truncated to fit the context window, ~${originalTokens} tokens removed]`;
+        const removed = originalTokens - countTextTokens(placeholder, getTokenizer(family));
+        if (removed <= 0) {
+          continue;
+        }
+
+        block.content = placeholder;
+        remaining -= removed;
+        truncatedToolResults++;
+      }
+    }
+
+    const truncatedTokens = this.estimate(truncatedRequest, pipeline);
+    if (truncatedTokens > contextWindow) {
+      throw this.createOverflowError(pipeline, decision, estimatedTokens, contextWindow,
+        `truncating ${truncatedToolResults} tool_result block(s) left ~${truncatedTokens} tokens`);
+    }
+
+    const fits = decision.candidates.map(candidate => this.measure(truncatedRequest, candidate));
+    const excluded = fits.filter(fit => !this.fitsWindow(fit));
+    return {
+      action: 'truncated',
+      request: truncatedRequest,
+      decision: excluded.length > 0 ? { ...decision, candidates: fits.filter(fit => this.fitsWindow(fit)).map(fit => fit.pipeline) } : decision,
+      estimatedTokens: truncatedTokens,
+      contextWindow,
+      truncatedToolResults,
+      ...(excluded.length > 0 ? { excludedPipelines: excluded.map(fit => fit.pipeline.id) } : {})
+    };
+  }
+
+  /**
+   * 流水线对应模型声明的上下文窗口（未声明时不做限制）
+   */
+  private getContextWindow(pipeline: RoutablePipeline): number | undefined {
+    const maxTokens = this.router.getModelEntry(pipeline.provider, pipeline.model)?.maxTokens;
+    return typeof maxTokens === 'number' && maxTokens > 0 ? maxTokens : undefined;
+  }
+
+  private measure<T extends RoutablePipeline>(request: any, pipeline: T): CandidateFit<T> {
+    return { pipeline, contextWindow: this.getContextWindow(pipeline), estimatedTokens: this.estimate(request, pipeline) };
+  }
+
+  private fitsWindow(fit: CandidateFit<RoutablePipeline>): boolean {
+    return fit.contextWindow === undefined || fit.estimatedTokens <= fit.contextWindow;
+  }
+
+  private getFamily(pipeline: RoutablePipeline): TokenizerFamily {
+    return resolveTokenizerFamily(this.router.getModelEntry(pipeline.provider, pipeline.model)?.protocol);
+  }
+
+  private estimate(request: any, pipeline: RoutablePipeline): number {
+    return estimateRequestTokens(request, { family: this.getFamily(pipeline) }).inputTokens;
+  }
+
+  private createOverflowError(
+    pipeline: RoutablePipeline,
+    decision: RouteDecision<RoutablePipeline>,
+    estimatedTokens: number,
+    contextWindow: number,
+    reason: string
+  ): RCCError {
+    return new RCCError(
+      `Prompt of ~${estimatedTokens} tokens exceeds the ${contextWindow}-token context window of ${pipeline.provider},${pipeline.model} (${reason})`,
+      RCCErrorCode.VALIDATION_ERROR,
+      'router',
+      {
+        pipelineId: pipeline.id,
+        provider: pipeline.provider,
+        model: pipeline.model,
+        details: {
+          estimatedTokens,
+          contextWindow,
+          overflowTokens: estimatedTokens - contextWindow,
+          policy: this.policy,
+          routeName: decision.routeName
+        }
+      }
+    );
+  }
+}
@@ -8,12 +8,64 @@ export { RouterPreprocessor } from './router-preprocessor';
 export type { 
   PipelineConfig, 
   PipelineLayer, 
-  RouterPreprocessResult 
+  RouterPreprocessResult,
+  _InternalRoutingTable as InternalRoutingTable,
+  _PipelineRoute as PipelineRoute,
+  _ApiKeyPoolEntry as ApiKeyPoolEntry
 } from './router-preprocessor';
+export { RequestRouter } from './request-router';
+export type {
+  RoutablePipeline,
+  RouteDecision,
+  RouteMatchType
+} from './request-router';
+export { RequestClassifier, DEFAULT_LONG_CONTEXT_THRESHOLD } from './request-classifier';
+export type { RequestCategory, RequestClassification } from './request-classifier';
+export { ContextWindowGuard, DEFAULT_CONTEXT_WINDOW_POLICY, LONG_CONTEXT_ROUTE } from './context-window-guard';
+export type { ContextWindowResult } from './context-window-guard';
+export { RouteLoadBalancer, DEFAULT_ROUTE_LOAD_BALANCING_STRATEGY } from './route-load-balancer';
+export type { PoolSelection, PoolSelectionContext } from './route-load-balancer';
+export { ApiKeyPoolManager, DEFAULT_API_KEY_COOLDOWN_MS } from './api-key-pool';
+export type { ApiKeyOutcome, ApiKeyStatus, ApiKeyPoolStatus } from './api-key-pool';
+export {
+  RequestHedger,
+  DEFAULT_HEDGING_PERCENTILE,
+  DEFAULT_HEDGING_BUDGET_PERCENT,
+  DEFAULT_HEDGING_MIN_SAMPLES
+} from './request-hedger';
+export type { HedgeAttempt, HedgedExecution } from './request-hedger';
+export { unwrapUpstreamError, isRateLimitError, isClientRequestError, getRetryAfterMs } from './upstream-error';
+export {
+  BPEStyleTokenizer,
+  HeuristicTokenizer,
+  registerTokenizer,
+  getTokenizer,
+  resolveTokenizerFamily,
+  countTextTokens,
+  estimateRequestTokens,
+  estimateContentTokens,
+  estimateImageTokens
+} from './token-estimator';
+export type {
+  Tokenizer,
+  TokenizerFamily,
+  TokenEstimate,
+  TokenEstimateOptions,
+  BPEStyleTokenizerOptions
+} from './token-estimator';
 export type { 
   RoutingTable, 
   ProviderInfo, 
   RouteMapping,
+  RouteClassificationConfig,
+  ContextWindowConfig,
+  ContextWindowPolicy,
+  LoadBalancingSettings,
+  RouteObjectiveSettings,
+  RouteHedgingSettings,
+  ModelPrice,
+  ApiKeyRotationStrategy,
+  ApiKeyRotationSettings,
   ModelInfo,
   ServerInfo
 } from './routing-table-types';
@@ -0,0 +1,100 @@
+/**
+ * RCC v4.0 Request Classifier
+ *
+ * 内容感知的请求分类器 - 根据Anthropic请求内容自动选择路由类别
+ *
+ * 分类规则（按优先级）：
+ * 1. longContext - 估算的提示词token数超过阈值
+ * 2. webSearch  - 声明了web search工具
+ * 3. think      - 请求包含thinking字段
+ * 4. background - haiku级别的模型名称
+ * 5. default    - 以上均未命中
+ *
+ * @author RCC v4.0
+ */
+
+import { RouteClassificationConfig } from './routing-table-types';
+import { estimateRequestTokens } from './token-estimator';
+
+/**
+ * 自动路由类别
+ */
+export type RequestCategory = 'default' | 'longContext' | 'webSearch' | 'think' | 'background';
+
+/**
+ * 分类结果
+ */
+export interface RequestClassification {
+  category: RequestCategory;
+  reason: string;
+  estimatedTokens: number;
+}
+
+/**
+ * 默认长上下文阈值（token）
+ */
+export const DEFAULT_LONG_CONTEXT_THRESHOLD = 60000;
+
+/**
+ * 请求分类器
+ */
+export class RequestClassifier {
+  private readonly longContextThreshold: number;
+
+  constructor(config: RouteClassificationConfig = {}) {
+    this.longContextThreshold = config.longContextThreshold && config.longContextThreshold > 0
+      ? config.longContextThreshold
+      : DEFAULT_LONG_CONTEXT_THRESHOLD;
+  }
+
+  /**
+   * 对Anthropic请求进行分类
+   */
+  classify(request: any): RequestClassification {
+    const estimatedTokens = this.estimatePromptTokens(request);
+
+    if (estimatedTokens > this.longContextThreshold) {
+      return {
+        category: 'longContext',
+        reason: `estimated ${estimatedTokens} prompt tokens exceeds threshold ${this.longContextThreshold}`,
+        estimatedTokens
+      };
+    }
+
+    if (this.hasWebSearchTool(request)) {
+      return { category: 'webSearch', reason: 'web search tool declared', estimatedTokens };
+    }
+
+    if (request && request.thinking) {
+      return { category: 'think', reason: 'thinking field present', estimatedTokens };
+    }
+
+    if (request && typeof request.model === 'string' && /haiku/i.test(request.model)) {
+      return { category: 'background', reason: `model '${request.model}' is background class`, estimatedTokens };
+    }
+
+    return { category: 'default', reason: 'no classification rule matched', estimatedTokens };
+  }
+
+  /**
+   * 估算提示词token数（system + messages + tools + 图片）
+   */
+  estimatePromptTokens(request: any): number {
+    return estimateRequestTokens(request).inputTokens;
+  }
+
+  /**
+   * 检查是否声明了web search工具
+   */
+  private hasWebSearchTool(request: any): boolean {
+    if (!request || !Array.isArray(request.tools)) {
+      return false;
+    }
+
+    return request.tools.some((tool: any) => {
+      const type = typeof tool?.type === 'string' ? tool.type : '';
+      const name = typeof tool?.name === 'string' ? tool.name.toLowerCase() : '';
+      return type.startsWith('web_search') || name === 'web_search' || name === 'websearch';
+    });
+  }
+}
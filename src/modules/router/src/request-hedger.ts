@@ -0,0 +1,254 @@
+/**
+ * RCC v4.0 Request Hedger
+ *
+ * 请求对冲 - 延迟敏感路由的主流水线迟迟没有首字节时，向池内第二个流水线发送同一请求，取先响应的一方
+ *
+ * - 对冲延迟取主流水线历史首字节耗时（流水线execute返回的耗时）的配置分位数，样本由MetricsCollector按流水线记录
+ * - 每个路由按最近请求窗口限制对冲比例，对冲请求不超过budgetPercent
+ * - 先成功的一方胜出，另一方通过AbortController中止；中止后仍返回的结果交给discard释放（如关闭流）
+ * - 配置重载时通过setRouter换用新路由器，首字节样本和仍启用对冲的路由的预算窗口保留
+ *
+ * @author RCC v4.0
+ */
+
+import { MetricsCollector } from '../../providers/monitoring/metrics-collector';
+import { RequestRouter, RoutablePipeline } from './request-router';
+import { RouteHedgingSettings } from './routing-table-types';
+import { secureLogger } from '../../error-handler/src/utils/secure-logger';
+
+export const DEFAULT_HEDGING_PERCENTILE = 95;
+export const DEFAULT_HEDGING_BUDGET_PERCENT = 5;
+export const DEFAULT_HEDGING_MIN_SAMPLES = 20;
+
+// 对冲预算的统计窗口（每个路由最近的请求数）
+const HEDGE_BUDGET_WINDOW = 200;
+// 首字节耗时样本的数量上限和保留时间
+const FIRST_BYTE_MAX_SAMPLES = 5000;
+const FIRST_BYTE_RETENTION_MS = 60 * 60 * 1000;
+const FIRST_BYTE_METRIC = 'pipeline_time_to_first_byte_ms';
+
+/**
+ * 对冲中单个流水线的执行结果
+ */
+export interface HedgeAttempt<P extends RoutablePipeline> {
+  pipeline: P;
+  status: 'success' | 'error' | 'aborted';
+  durationMs: number;
+  error?: unknown;
+  // 是否为对冲发出的第二个请求
+  hedge: boolean;
+}
+
+/**
+ * 一次（可能对冲的）执行结果
+ */
+export interface HedgedExecution<P extends RoutablePipeline, T> {
+  // 先成功的一方，全部失败时为undefined
+  winner?: { pipeline: P; result: T };
+  hedged: boolean;
+  // 按发起顺序，主流水线在前
+  attempts: HedgeAttempt<P>[];
+}
+
+interface BudgetEntry {
+  hedged: boolean;
+}
+
+/**
+ * 请求对冲器
+ */
+export class RequestHedger {
+  private readonly metrics: MetricsCollector;
+  private readonly budgetWindows = new Map<string, BudgetEntry[]>();
+
+  constructor(private router: RequestRouter) {
+    this.metrics = new MetricsCollector(FIRST_BYTE_MAX_SAMPLES, FIRST_BYTE_RETENTION_MS);
+    this.metrics.registerMetric({
+      name: FIRST_BYTE_METRIC,
+      type: 'histogram',
+      description: 'Time until a pipeline returned its response or opened its stream',
+      unit: 'milliseconds',
+      labelNames: ['pipeline']
+    });
+  }
+
+  /**
+   * 主流水线的对冲延迟；路由未启用对冲或样本不足时返回undefined
+   */
+  getHedgeDelay(routeName: string, pipelineId: string): number | undefined {
+    const settings = this.getSettings(routeName);
+    if (!settings) {
+      return undefined;
+    }
+
+    const percentile = (settings.percentile ?? DEFAULT_HEDGING_PERCENTILE) / 100;
+    const firstByte = this.metrics.getPercentile(FIRST_BYTE_METRIC, percentile, { pipeline: pipelineId });
+    if (!firstByte || firstByte.count < (settings.minSamples ?? DEFAULT_HEDGING_MIN_SAMPLES)) {
+      return undefined;
+    }
+    return firstByte.value;
+  }
+
+  /**
+   * 记录流水线的首字节耗时样本
+   */
+  recordFirstByte(pipelineId: string, durationMs: number): void {
+    this.metrics.recordHistogram(FIRST_BYTE_METRIC, durationMs, { pipeline: pipelineId });
+  }
+
+  /**
+   * 执行请求，主流水线超过对冲延迟仍未返回且预算允许时向secondary发送同一请求
+   *
+   * 流水线失败不会抛出，而是记录在attempts中；主流水线在对冲前失败时直接返回，由调用方决定是否回退
+   */
+  execute<P extends RoutablePipeline, T>(
+    routeName: string,
+    primary: P,
+    secondary: P | undefined,
+    run: (pipeline: P, signal: AbortSignal) => Promise<T>,
+    discard?: (result: T) => void
+  ): Promise<HedgedExecution<P, T>> {
+    const hedgeDelay = secondary ? this.getHedgeDelay(routeName, primary.id) : undefined;
+    const budgetEntry = this.trackRequest(routeName);
+
+    return new Promise(resolve => {
+      const attempts: HedgeAttempt<P>[] = [];
+      const running = new Map<HedgeAttempt<P>, { controller: AbortController; startedAt: number }>();
+      let hedgeTimer: NodeJS.Timeout | undefined;
+      let settled = false;
+      let hedged = false;
+
+      const finish = (winner?: { pipeline: P; result: T }) => {
+        settled = true;
+        if (hedgeTimer) {
+          clearTimeout(hedgeTimer);
+        }
+        // 中止仍在进行的一方
+        for (const [attempt, { controller, startedAt }] of running) {
+          attempt.durationMs = Date.now() - startedAt;
+          controller.abort();
+        }
+        running.clear();
+        resolve({ winner, hedged, attempts });
+      };
+
+      const launch = (pipeline: P, hedge: boolean) => {
+        const attempt: HedgeAttempt<P> = { pipeline, status: 'aborted', durationMs: 0, hedge };
+        const controller = new AbortController();
+        const startedAt = Date.now();
+        attempts.push(attempt);
+        running.set(attempt, { controller, startedAt });
+
+        run(pipeline, controller.signal).then(
+          result => {
+            if (settled) {
+              discard?.(result);
+              return;
+            }
+            running.delete(attempt);
+            attempt.status = 'success';
+            attempt.durationMs = Date.now() - startedAt;
+            this.recordFirstByte(pipeline.id, attempt.durationMs);
+            finish({ pipeline, result });
+          },
+          error => {
+            if (settled) {
+              return;
+            }
+            running.delete(attempt);
+            attempt.status = 'error';
+            attempt.error = error;
+            attempt.durationMs = Date.now() - startedAt;
+            // 另一方仍在进行时等待其结果
+            if (running.size === 0) {
+              finish();
+            }
+          }
+        );
+      };
+
+      launch(primary, false);
+
+      if (secondary && hedgeDelay !== undefined) {
+        hedgeTimer = setTimeout(() => {
+          if (settled || running.size === 0) {
+            return;
+          }
+          if (!this.consumeBudget(routeName, budgetEntry)) {
+            secureLogger.debug('⏱️ 对冲预算已用尽，继续等待主流水线', { routeName, pipelineId: primary.id });
+            return;
+          }
+
+          hedged = true;
+          secureLogger.info('⏱️ 主流水线超过首字节耗时分位数仍未响应，发送对冲请求', {
+            routeName,
+            primary: primary.id,
+            hedge: secondary.id,
+            hedgeDelayMs: Math.round(hedgeDelay)
+          });
+          launch(secondary, true);
+        }, hedgeDelay);
+      }
+    });
+  }
+
+  /**
+   * 配置重载后换用新的路由器，不再启用对冲的路由丢弃预算窗口
+   */
+  setRouter(router: RequestRouter): void {
+    this.router = router;
+    for (const routeName of Array.from(this.budgetWindows.keys())) {
+      if (!this.getSettings(routeName)) {
+        this.budgetWindows.delete(routeName);
+      }
+    }
+  }
+
+  /**
+   * 停止指标清理任务
+   */
+  stop(): void {
+    this.metrics.stop();
+  }
+
+  private getSettings(routeName: string): RouteHedgingSettings | undefined {
+    return this.router.getLoadBalancingConfig().routeObjectives?.[routeName]?.hedging;
+  }
+
+  /**
+   * 将请求计入启用对冲的路由的预算窗口
+   */
+  private trackRequest(routeName: string): BudgetEntry | undefined {
+    if (!this.getSettings(routeName)) {
+      return undefined;
+    }
+
+    const window = this.budgetWindows.get(routeName) || [];
+    const entry: BudgetEntry = { hedged: false };
+    window.push(entry);
+    if (window.length > HEDGE_BUDGET_WINDOW) {
+      window.shift();
+    }
+    this.budgetWindows.set(routeName, window);
+    return entry;
+  }
+
+  /**
+   * 对冲后窗口内的对冲比例不超过budgetPercent时占用一次预算
+   */
+  private consumeBudget(routeName: string, entry: BudgetEntry | undefined): boolean {
+    const window = this.budgetWindows.get(routeName);
+    if (!entry || !window) {
+      return false;
+    }
+
+    const budgetPercent = this.getSettings(routeName)?.budgetPercent ?? DEFAULT_HEDGING_BUDGET_PERCENT;
+    const hedgedCount = window.filter(candidate => candidate.hedged).length;
+    if ((hedgedCount + 1) * 100 > budgetPercent * window.length) {
+      return false;
+    }
+
+    entry.hedged = true;
+    return true;
+  }
+}
@@ -0,0 +1,316 @@
+/**
+ * RCC v4.0 Request Router
+ *
+ * 请求时路由器 - 将请求中的model映射到路由类别，再映射到候选流水线
+ *
+ * 路由解析顺序：
+ * 1. "provider,model" 格式 - 精确匹配该Provider和模型所在的路由
+ * 2. 路由类别名称 (default / longContext / think ...) - 直接使用该类别
+ * 3. 内容分类类别 - RequestClassifier根据请求内容得出且配置了对应路由
+ * 4. 具体模型名称 - 查找包含该模型的第一个路由类别
+ * 5. 以上均未命中 - 使用默认路由
+ *
+ * 候选流水线来源于RouterPreprocessor生成的内部路由表
+ * (virtualModel → _PipelineRoute[])，顺序保持Provider优先级排序
+ *
+ * @author RCC v4.0
+ */
+
+import { _InternalRoutingTable, _PipelineRoute, _ModelCatalogEntry, _ApiKeyPoolEntry } from './router-preprocessor';
+import { RequestClassifier, RequestClassification } from './request-classifier';
+import { ContextWindowConfig, LoadBalancingSettings } from './routing-table-types';
+import { RCCError, RCCErrorCode } from '../../types/src/index';
+
+/**
+ * 可路由的流水线（HTTP层已组装流水线的最小结构）
+ */
+export interface RoutablePipeline {
+  id: string;
+  provider: string;
+  model: string;
+}
+
+/**
+ * 路由匹配方式
+ */
+export type RouteMatchType = 'provider-model' | 'category' | 'classified' | 'model' | 'default';
+
+/**
+ * 路由决策结果
+ */
+export interface RouteDecision<T extends RoutablePipeline = RoutablePipeline> {
+  requestedModel: string;
+  routeName: string;
+  matchType: RouteMatchType;
+  reason: string;
+  candidates: T[];
+  classification?: RequestClassification;
+}
+
+/**
+ * 请求时路由器
+ */
+export class RequestRouter {
+  private readonly routingTable: _InternalRoutingTable;
+  private readonly classifier: RequestClassifier;
+
+  constructor(routingTable: _InternalRoutingTable) {
+    if (!routingTable || !routingTable.routes) {
+      throw new RCCError(
+        'Request router requires a routing table',
+        RCCErrorCode.ROUTER_CONFIG_ERROR,
+        'router'
+      );
+    }
+    this.routingTable = routingTable;
+    this.classifier = new RequestClassifier(routingTable.classification);
+  }
+
+  /**
+   * 获取所有路由类别名称
+   */
+  getRouteNames(): string[] {
+    return Object.keys(this.routingTable.routes);
+  }
+
+  /**
+   * 获取默认路由名称
+   */
+  getDefaultRoute(): string {
+    return this.routingTable.defaultRoute;
+  }
+
+  /**
+   * 获取配置中声明的具体provider模型
+   */
+  getModelCatalog(): _ModelCatalogEntry[] {
+    return this.routingTable.models || [];
+  }
+
+  /**
+   * 获取具体provider模型的目录条目
+   */
+  getModelEntry(provider: string, model: string): _ModelCatalogEntry | undefined {
+    return this.getModelCatalog().find(entry => entry.provider === provider && entry.model === model);
+  }
+
+  /**
+   * 获取上下文窗口保护配置
+   */
+  getContextWindowConfig(): ContextWindowConfig {
+    return this.routingTable.contextWindow || {};
+  }
+
+  /**
+   * 获取路由池负载均衡配置
+   */
+  getLoadBalancingConfig(): LoadBalancingSettings {
+    return this.routingTable.loadBalancing || {};
+  }
+
+  /**
+   * 获取每个Provider的密钥池配置
+   */
+  getApiKeyPools(): _ApiKeyPoolEntry[] {
+    return this.routingTable.apiKeyPools || [];
+  }
+
+  /**
+   * 获取流水线使用的密钥序号（流水线按provider、model、密钥展开）
+   */
+  getApiKeyIndex(pipelineId: string): number | undefined {
+    for (const routes of Object.values(this.routingTable.routes)) {
+      const route = routes.find(candidate => candidate.pipelineId === pipelineId);
+      if (route) {
+        return route.apiKeyIndex;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * 获取完整路由表（不含密钥原文，供管理接口查看）
+   */
+  getRoutingTable(): _InternalRoutingTable {
+    return this.routingTable;
+  }
+
+  /**
+   * 获取路由表生成时间
+   */
+  getGeneratedAt(): string {
+    return this.routingTable.metadata.generatedAt;
+  }
+
+  /**
+   * 获取指定路由类别的路由条目
+   */
+  getRoutes(routeName: string): _PipelineRoute[] {
+    return this.routingTable.routes[routeName] || [];
+  }
+
+  /**
+   * 对Anthropic请求进行内容分类并选择路由
+   *
+   * @param request Anthropic请求体
+   * @param pipelines 当前可用的已组装流水线
+   */
+  routeRequest<T extends RoutablePipeline>(request: any, pipelines: T[]): RouteDecision<T> {
+    const classification = this.classifier.classify(request);
+    const decision = this.route(request?.model, pipelines, classification.category);
+    return { ...decision, classification };
+  }
+
+  /**
+   * 解析请求的首选路由条目（不依赖已组装流水线，供token计数等场景使用）
+   */
+  resolvePrimaryRoute(request: any): _PipelineRoute | undefined {
+    const classification = this.classifier.classify(request);
+    const resolved = this.resolveRoute((request?.model || '').trim(), classification.category);
+    const routes = resolved.routes.length > 0 ? resolved.routes : this.getRoutes(this.routingTable.defaultRoute);
+    return routes.find(route => route.isActive && route.health !== 'unhealthy') || routes[0];
+  }
+
+  /**
+   * 为请求的model选择路由类别和候选流水线
+   *
+   * @param requestedModel 请求中的model字段
+   * @param pipelines 当前可用的已组装流水线
+   * @param routeHint 内容分类得出的路由类别
+   */
+  route<T extends RoutablePipeline>(requestedModel: string | undefined, pipelines: T[], routeHint?: string): RouteDecision<T> {
+    const model = (requestedModel || '').trim();
+    const resolved = this.resolveRoute(model, routeHint);
+
+    const candidates = this.collectCandidates(resolved.routes, pipelines);
+
+    // 解析出的路由没有可用流水线时回退到默认路由
+    if (candidates.length === 0 && resolved.routeName !== this.routingTable.defaultRoute) {
+      const defaultCandidates = this.collectCandidates(this.getRoutes(this.routingTable.defaultRoute), pipelines);
+      if (defaultCandidates.length > 0) {
+        return {
+          requestedModel: model,
+          routeName: this.routingTable.defaultRoute,
+          matchType: 'default',
+          reason: `${resolved.reason}; no available pipelines, fell back to ${this.routingTable.defaultRoute}`,
+          candidates: defaultCandidates
+        };
+      }
+    }
+
+    if (candidates.length === 0) {
+      throw new RCCError(
+        `No available pipeline for route '${resolved.routeName}' (model: ${model || 'unspecified'})`,
+        RCCErrorCode.ROUTER_NO_PROVIDER,
+        'router',
+        { model, details: { routeName: resolved.routeName, matchType: resolved.matchType } }
+      );
+    }
+
+    return {
+      requestedModel: model,
+      routeName: resolved.routeName,
+      matchType: resolved.matchType,
+      reason: resolved.reason,
+      candidates
+    };
+  }
+
+  /**
+   * 解析路由类别
+   */
+  private resolveRoute(model: string, routeHint?: string): { routeName: string; matchType: RouteMatchType; reason: string; routes: _PipelineRoute[] } {
+    // 1. "provider,model" 格式
+    if (model.includes(',')) {
+      const [provider, providerModel] = model.split(',').map(part => part.trim());
+      const matches: _PipelineRoute[] = [];
+      let routeName: string | undefined;
+
+      for (const [name, routes] of Object.entries(this.routingTable.routes)) {
+        for (const route of routes) {
+          if (route.provider === provider && route.model === providerModel) {
+            routeName = routeName || name;
+            if (!matches.some(existing => existing.pipelineId === route.pipelineId)) {
+              matches.push(route);
+            }
+          }
+        }
+      }
+
+      if (routeName) {
+        return {
+          routeName,
+          matchType: 'provider-model',
+          reason: `explicit provider,model '${provider},${providerModel}'`,
+          routes: matches
+        };
+      }
+    }
+
+    // 2. 路由类别名称
+    if (model && this.routingTable.routes[model]) {
+      return {
+        routeName: model,
+        matchType: 'category',
+        reason: `model '${model}' is a route category`,
+        routes: this.routingTable.routes[model]
+      };
+    }
+
+    // 3. 内容分类类别
+    if (routeHint && routeHint !== this.routingTable.defaultRoute && this.routingTable.routes[routeHint]) {
+      return {
+        routeName: routeHint,
+        matchType: 'classified',
+        reason: `request classified as '${routeHint}'`,
+        routes: this.routingTable.routes[routeHint]
+      };
+    }
+
+    // 4. 具体模型名称
+    if (model) {
+      for (const [name, routes] of Object.entries(this.routingTable.routes)) {
+        const matches = routes.filter(route => route.model === model);
+        if (matches.length > 0) {
+          return {
+            routeName: name,
+            matchType: 'model',
+            reason: `model '${model}' is served by route '${name}'`,
+            routes: matches
+          };
+        }
+      }
+    }
+
+    // 5. 默认路由
+    const defaultRoute = this.routingTable.defaultRoute;
+    return {
+      routeName: defaultRoute,
+      matchType: 'default',
+      reason: model ? `model '${model}' not mapped, using ${defaultRoute}` : `no model specified, using ${defaultRoute}`,
+      routes: this.getRoutes(defaultRoute)
+    };
+  }
+
+  /**
+   * 将路由条目映射为可用流水线（保持优先级顺序并去重）
+   */
+  private collectCandidates<T extends RoutablePipeline>(routes: _PipelineRoute[], pipelines: T[]): T[] {
+    const byId = new Map(pipelines.map(pipeline => [pipeline.id, pipeline]));
+    const candidates: T[] = [];
+    const seen = new Set<string>();
+
+    for (const route of routes) {
+      if (!route.isActive || route.health === 'unhealthy' || seen.has(route.pipelineId)) {
+        continue;
+      }
+      const pipeline = byId.get(route.pipelineId);
+      if (pipeline) {
+        candidates.push(pipeline);
+        seen.add(route.pipelineId);
+      }
+    }
+
+    return candidates;
+  }
+}
@@ -0,0 +1,281 @@
+/**
+ * RCC v4.0 Route Load Balancer
+ *
+ * 路由池负载均衡 - 每个路由类别的候选流水线构成一个池，由ProviderLoadBalancer按配置的策略选择
+ *
+ * - 所有流水线注册到同一个ProviderLoadBalancer，熔断器、健康状态和指标按流水线跨路由共享
+ * - 每次选择通过candidateProviderIds限定在当前路由的池内
+ * - 熔断器打开或健康检查判定不健康的成员退出轮转；全部成员退出时按原优先级顺序兜底
+ * - 请求完成后回报实际耗时和结果，更新MetricsCollector指标和熔断器
+ * - 配置重载时通过setRouter换用新路由器，未变化的成员保留熔断器和指标
+ *
+ * @author RCC v4.0
+ */
+
+import { ProviderLoadBalancer } from '../../providers/load-balancer/load-balancer';
+import {
+  LoadBalancingStrategy,
+  ProviderHealthStatus,
+  ProviderInstance,
+  LoadBalancerStatistics,
+  CircuitBreakerState
+} from '../../providers/load-balancer/types';
+import { RequestRouter, RouteDecision, RoutablePipeline } from './request-router';
+import { isClientRequestError } from './upstream-error';
+import { RCCError, RCCErrorCode } from '../../types/src/index';
+import { secureLogger } from '../../error-handler/src/utils/secure-logger';
+
+/**
+ * 默认负载均衡策略：空闲时保持路由优先级顺序，并发时分摊到连接数更少的成员
+ */
+export const DEFAULT_ROUTE_LOAD_BALANCING_STRATEGY = LoadBalancingStrategy.WEIGHTED_LEAST_CONNECTIONS;
+
+/**
+ * 路由池选择结果
+ */
+export interface PoolSelection<T extends RoutablePipeline = RoutablePipeline> {
+  pipeline: T;
+  // 池内其余仍在轮转中的成员（保持路由优先级顺序）
+  alternatives: T[];
+  strategy: string;
+  reason: string;
+}
+
+/**
+ * 单次选择的请求信息
+ */
+export interface PoolSelectionContext {
+  requestId: string;
+  sessionId?: string;
+}
+
+/**
+ * 路由池负载均衡器
+ */
+export class RouteLoadBalancer {
+  private readonly balancer: ProviderLoadBalancer;
+  private strategy: LoadBalancingStrategy;
+  private initialized = false;
+
+  constructor(private router: RequestRouter) {
+    const settings = router.getLoadBalancingConfig();
+    this.strategy = RouteLoadBalancer.resolveStrategy(settings.strategy);
+
+    this.balancer = new ProviderLoadBalancer({
+      strategy: this.strategy,
+      stickySessions: settings.stickySessions === true,
+      ...(settings.healthCheckInterval ? { healthCheckInterval: settings.healthCheckInterval } : {}),
+      circuitBreaker: {
+        enabled: settings.circuitBreaker?.enabled !== false,
+        failureThreshold: settings.circuitBreaker?.failureThreshold || 5,
+        recoveryTimeout: settings.circuitBreaker?.recoveryTimeout || 60000,
+        halfOpenMaxCalls: 3
+      },
+      ...(settings.explorationRate !== undefined ? { adaptive: { explorationRate: settings.explorationRate } } : {}),
+      logging: { enabled: true, logLevel: 'warn', logSelections: false }
+    });
+  }
+
+  /**
+   * 在路由决策的候选池中选择本次请求使用的流水线
+   */
+  async select<T extends RoutablePipeline>(decision: RouteDecision<T>, context: PoolSelectionContext): Promise<PoolSelection<T>> {
+    const pool = decision.candidates;
+    if (pool.length === 0) {
+      throw new RCCError(
+        `No pipelines in route '${decision.routeName}' to balance across`,
+        RCCErrorCode.ROUTER_NO_PROVIDER,
+        'router',
+        { requestId: context.requestId, details: { routeName: decision.routeName } }
+      );
+    }
+
+    if (!this.initialized) {
+      await this.balancer.initialize();
+      this.initialized = true;
+    }
+    this.register(pool);
+    const routeObjective = this.router.getLoadBalancingConfig().routeObjectives?.[decision.routeName];
+
+    try {
+      const result = await this.balancer.selectProvider({
+        requestId: context.requestId,
+        sessionId: context.sessionId,
+        candidateProviderIds: pool.map(pipeline => pipeline.id),
+        objective: routeObjective?.objective,
+        maxLatencyMs: routeObjective?.maxLatencyMs,
+        priority: 'normal',
+        timeout: 0,
+        retryCount: 0
+      });
+
+      const pipeline = pool.find(member => member.id === result.selectedProvider.id)!;
+      const alternativeIds = new Set(result.alternatives.map(alternative => alternative.id));
+
+      return {
+        pipeline,
+        alternatives: pool.filter(member => alternativeIds.has(member.id)),
+        strategy: result.strategy,
+        reason: result.selectionReason
+      };
+    } catch {
+      // 全部成员熔断或不健康时不直接失败，按路由优先级继续尝试
+      secureLogger.warn('⚠️ 路由池成员全部退出轮转，按优先级顺序兜底', {
+        requestId: context.requestId,
+        routeName: decision.routeName,
+        pool: pool.map(member => member.id)
+      });
+
+      return {
+        pipeline: pool[0],
+        alternatives: pool.slice(1),
+        strategy: 'priority-fallback',
+        reason: `all ${pool.length} pipeline(s) in route '${decision.routeName}' are out of rotation`
+      };
+    }
+  }
+
+  /**
+   * 回报请求结果，更新指标、健康状态和熔断器
+   *
+   * 流式响应的latencyMs为整个流结束的耗时，timeToFirstTokenMs为开始输出前的耗时；
+   * 客户端请求错误（VALIDATION_ERROR）不代表上游故障，只释放连接不计入指标
+   */
+  recordOutcome(pipelineId: string, latencyMs: number, error?: unknown, timeToFirstTokenMs?: number): void {
+    if (error && isClientRequestError(error)) {
+      this.balancer.releaseProvider(pipelineId);
+      return;
+    }
+
+    this.balancer.recordRequestOutcome(pipelineId, !error, latencyMs, timeToFirstTokenMs);
+  }
+
+  /**
+   * 释放一次选择占用的连接，不计入指标（如对冲落败被中止的请求）
+   */
+  release(pipelineId: string): void {
+    this.balancer.releaseProvider(pipelineId);
+  }
+
+  /**
+   * 池成员当前状态
+   */
+  getMembers(): ProviderInstance[] {
+    return this.balancer.getAllProviders();
+  }
+
+  getStatistics(): LoadBalancerStatistics {
+    return this.balancer.getStatistics();
+  }
+
+  /**
+   * 人工打开流水线的熔断器，流水线退出轮转直到resetCircuitBreaker
+   */
+  tripCircuitBreaker(pipelineId: string): void {
+    this.balancer.tripCircuitBreaker(pipelineId);
+  }
+
+  /**
+   * 重置流水线的熔断器，流水线重新进入轮转
+   */
+  resetCircuitBreaker(pipelineId: string): void {
+    this.balancer.resetCircuitBreaker(pipelineId);
+  }
+
+  /**
+   * 流水线的熔断器状态，尚未记录过结果时返回null
+   */
+  getCircuitBreakerState(pipelineId: string): CircuitBreakerState | null {
+    return this.balancer.getCircuitBreakerState(pipelineId);
+  }
+
+  getStrategy(): LoadBalancingStrategy {
+    return this.strategy;
+  }
+
+  /**
+   * 配置重载后换用新的路由器
+   *
+   * 仍在路由表中且权重、价格未变的成员保留熔断器（含drain打开的熔断器）、健康状态和指标；
+   * 其余成员移除，之后被选择时按新配置重新注册。策略变化时就地切换，
+   * 熔断阈值、粘性会话和健康检查间隔在创建时确定，重启后生效
+   */
+  setRouter(router: RequestRouter): void {
+    this.router = router;
+
+    const strategy = RouteLoadBalancer.resolveStrategy(router.getLoadBalancingConfig().strategy);
+    if (strategy !== this.strategy) {
+      this.balancer.updateStrategy(strategy);
+      this.strategy = strategy;
+    }
+
+    const routes = new Map(Object.values(router.getRoutingTable().routes).flat().map(route => [route.pipelineId, route]));
+    for (const member of this.balancer.getAllProviders()) {
+      const route = routes.get(member.id);
+      const entry = route ? router.getModelEntry(route.provider, route.model) : undefined;
+      if (!route || (entry?.weight || 1) !== member.weight || JSON.stringify(entry?.price) !== JSON.stringify(member.price)) {
+        this.balancer.removeProvider(member.id);
+      }
+    }
+  }
+
+  /**
+   * 停止健康检查等后台任务
+   */
+  async stop(): Promise<void> {
+    if (this.initialized) {
+      await this.balancer.cleanup();
+      this.initialized = false;
+    }
+  }
+
+  /**
+   * 将尚未注册的流水线加入负载均衡器
+   */
+  private register(pool: RoutablePipeline[]): void {
+    const registered = new Set(this.balancer.getAllProviders().map(provider => provider.id));
+
+    for (const pipeline of pool) {
+      if (registered.has(pipeline.id)) {
+        continue;
+      }
+
+      const entry = this.router.getModelEntry(pipeline.provider, pipeline.model);
+      this.balancer.addProvider({
+        id: pipeline.id,
+        name: `${pipeline.provider},${pipeline.model}`,
+        type: entry?.protocol || 'openai',
+        endpoint: pipeline.provider,
+        weight: entry?.weight || 1,
+        maxConnections: Number.MAX_SAFE_INTEGER,
+        currentConnections: 0,
+        healthStatus: ProviderHealthStatus.HEALTHY,
+        metrics: {
+          avgResponseTime: 0,
+          successRate: 1,
+          requestCount: 0,
+          errorCount: 0,
+          lastResponseTime: 0,
+          throughput: 0
+        },
+        ...(entry?.price ? { price: entry.price } : {}),
+        config: {},
+        lastUpdated: Date.now()
+      });
+    }
+  }
+
+  /**
+   * 解析配置中的策略名称，未知策略回退到默认策略
+   */
+  private static resolveStrategy(strategy?: string): LoadBalancingStrategy {
+    const supported = Object.values(LoadBalancingStrategy) as string[];
+    if (strategy && supported.includes(strategy) && strategy !== LoadBalancingStrategy.GEOGRAPHIC) {
+      return strategy as LoadBalancingStrategy;
+    }
+    if (strategy) {
+      secureLogger.warn('⚠️ 不支持的负载均衡策略，使用默认策略', { strategy, fallback: DEFAULT_ROUTE_LOAD_BALANCING_STRATEGY });
+    }
+    return DEFAULT_ROUTE_LOAD_BALANCING_STRATEGY;
+  }
+}
@@ -14,7 +14,7 @@
  */
 
 // Import from local types
-import { RoutingTable, ProviderInfo, RouteMapping } from './routing-table-types';
+import { RoutingTable, ProviderInfo, ModelInfo, RouteMapping, RouteClassificationConfig, ContextWindowConfig, LoadBalancingSettings, ApiKeyRotationStrategy, ModelPrice } from './routing-table-types';
 import { RCCError, RCCErrorCode } from '../../types/src/index';
 import { EnhancedErrorHandler } from '../../error-handler/src/enhanced-error-handler';
 import { ModuleDebugIntegration } from '../../logging/src/debug-integration';
@@ -32,6 +32,7 @@ export interface PipelineConfig {
   timeout: number;
   maxRetries: number;
   maxTokens?: number;
+  protocol?: string;
   layers: PipelineLayer[];
 }
 
@@ -64,9 +65,14 @@ export interface RouterPreprocessResult {
 /**
  * 内部路由表结构（与现有PipelineRouter兼容）
  */
-interface _InternalRoutingTable {
+export interface _InternalRoutingTable {
   routes: Record<string, _PipelineRoute[]>; // virtualModel -> PipelineRoute[]
   defaultRoute: string;
+  classification?: RouteClassificationConfig;
+  contextWindow?: ContextWindowConfig;
+  loadBalancing?: LoadBalancingSettings;
+  models?: _ModelCatalogEntry[]; // 配置中声明的具体provider模型
+  apiKeyPools?: _ApiKeyPoolEntry[]; // 每个Provider的密钥池（不含密钥原文）
   metadata: {
     configSource: string;
     generatedAt: string;
@@ -77,17 +83,45 @@ interface _InternalRoutingTable {
 /**
  * 内部流水线路由定义
  */
-interface _PipelineRoute {
+export interface _PipelineRoute {
   routeId: string;
   routeName: string;
   virtualModel: string;
   provider: string;
+  model: string;
   apiKeyIndex: number;
   pipelineId: string;
   isActive: boolean;
   health: 'healthy' | 'degraded' | 'unhealthy';
 }
 
+/**
+ * 模型目录条目 - 配置中声明的具体provider模型
+ */
+export interface _ModelCatalogEntry {
+  provider: string;
+  model: string;
+  maxTokens?: number;
+  capabilities?: string[];
+  protocol?: string;
+  weight?: number;
+  price?: ModelPrice;
+}
+
+/**
+ * Provider密钥池条目 - 密钥以apiKeyIndex引用，只保留脱敏后的keyId
+ */
+export interface _ApiKeyPoolEntry {
+  provider: string;
+  strategy: ApiKeyRotationStrategy;
+  cooldownMs?: number;
+  keys: Array<{
+    keyIndex: number;
+    keyId: string;
+    weight: number;
+  }>;
+}
+
 /**
  * 路由预处理错误类 - 已废弃，使用统一的RCCError
  */
@@ -121,6 +155,9 @@ export class RouterPreprocessor {
    * 默认流水线层配置（内部）
    * 流水线从transformer层开始到server层结束
    */
+  // Provider未配置超时时流水线和各层使用的上游请求超时
+  private static readonly _DEFAULT_TIMEOUT_MS = 60000;
+
   private static readonly _DEFAULT_LAYERS: PipelineLayer[] = [
     { name: 'transformer', type: 'transformer', order: 1, config: {} },
     { name: 'protocol', type: 'protocol', order: 2, config: {} },
@@ -128,6 +165,31 @@ export class RouterPreprocessor {
     { name: 'server', type: 'server', order: 4, config: {} }
   ];
   
+  /**
+   * Anthropic原生协议流水线层 - 无Transformer，请求原样透传到上游
+   */
+  private static readonly _ANTHROPIC_LAYERS: PipelineLayer[] = [
+    { name: 'protocol', type: 'protocol', order: 1, config: {} },
+    { name: 'server', type: 'server', order: 2, config: {} }
+  ];
+  
+  /**
+   * Gemini流水线层 - Transformer直接转换为generateContent格式，无需兼容层
+   */
+  private static readonly _GEMINI_LAYERS: PipelineLayer[] = [
+    { name: 'transformer', type: 'transformer', order: 1, config: {} },
+    { name: 'protocol', type: 'protocol', order: 2, config: {} },
+    { name: 'server', type: 'server', order: 3, config: {} }
+  ];
+  
+  /**
+   * 使用专用模块的原生协议流水线层（未列出的协议使用默认OpenAI流水线）
+   */
+  private static readonly _PROTOCOL_LAYERS: Record<string, PipelineLayer[]> = {
+    anthropic: RouterPreprocessor._ANTHROPIC_LAYERS,
+    gemini: RouterPreprocessor._GEMINI_LAYERS
+  };
+  
   /**
    * 路由器预处理主方法 - 唯一的公开接口
    * 
@@ -236,6 +298,7 @@ export class RouterPreprocessor {
             routeName: routeName,
             virtualModel: targetModel,
             provider: provider.trim(),
+            model: model.trim(),
             apiKeyIndex: keyIndex,
             pipelineId: `pipeline_${provider.trim()}_${model.trim()}_${keyIndex}`,
             isActive: true,
@@ -262,6 +325,11 @@ export class RouterPreprocessor {
     return {
       routes,
       defaultRoute: 'default', // 默认路由名称
+      classification: { ...(routingTable.classification || {}) },
+      contextWindow: { ...(routingTable.contextWindow || {}) },
+      loadBalancing: { ...(routingTable.loadBalancing || {}) },
+      models: this._generateModelCatalog(routingTable),
+      apiKeyPools: this._generateApiKeyPools(routingTable),
       metadata: {
         configSource: 'ConfigPreprocessor',
         generatedAt: new Date().toISOString(),
@@ -270,6 +338,88 @@ export class RouterPreprocessor {
     };
   }
   
+  /**
+   * 生成模型目录（内部方法）
+   */
+  private static _generateModelCatalog(routingTable: RoutingTable): _ModelCatalogEntry[] {
+    const catalog: _ModelCatalogEntry[] = [];
+    
+    for (const provider of routingTable.providers) {
+      for (const model of provider.models || []) {
+        const modelInfo = typeof model === 'string' ? { name: model } as ModelInfo : model;
+        if (!modelInfo.name) continue;
+        
+        const entry: _ModelCatalogEntry = {
+          provider: provider.name,
+          model: modelInfo.name
+        };
+        
+        // 模型级别maxTokens优先，其次Provider级别
+        const maxTokens = modelInfo.maxTokens !== undefined ? modelInfo.maxTokens : provider.maxTokens;
+        if (maxTokens !== undefined) {
+          entry.maxTokens = maxTokens;
+        }
+        if (Array.isArray(modelInfo.capabilities)) {
+          entry.capabilities = modelInfo.capabilities.filter((capability): capability is string => typeof capability === 'string');
+        }
+        if (provider.protocol) {
+          entry.protocol = provider.protocol;
+        }
+        if (provider.weight !== undefined) {
+          entry.weight = provider.weight;
+        }
+        // 模型级别价格优先，其次Provider级别
+        const price = modelInfo.price || provider.price;
+        if (price) {
+          entry.price = price;
+        }
+        
+        catalog.push(entry);
+      }
+    }
+    
+    return catalog;
+  }
+  
+  /**
+   * 生成Provider密钥池（内部方法）
+   */
+  private static _generateApiKeyPools(routingTable: RoutingTable): _ApiKeyPoolEntry[] {
+    const pools: _ApiKeyPoolEntry[] = [];
+    
+    for (const provider of routingTable.providers) {
+      const apiKeys = Array.isArray(provider.api_key) ? provider.api_key : [provider.api_key];
+      const rotation = provider.keyRotation || {};
+      
+      const pool: _ApiKeyPoolEntry = {
+        provider: provider.name,
+        strategy: rotation.strategy || 'round_robin',
+        keys: apiKeys.map((apiKey, keyIndex) => ({
+          keyIndex,
+          keyId: this._maskApiKey(apiKey, keyIndex),
+          weight: rotation.weights?.[keyIndex] || 1
+        }))
+      };
+      if (rotation.cooldownMs !== undefined) {
+        pool.cooldownMs = rotation.cooldownMs;
+      }
+      
+      pools.push(pool);
+    }
+    
+    return pools;
+  }
+  
+  /**
+   * 密钥脱敏：只保留前缀和末4位，用于状态展示和日志
+   */
+  private static _maskApiKey(apiKey: string, keyIndex: number): string {
+    if (typeof apiKey !== 'string' || apiKey.length < 12) {
+      return `key#${keyIndex}`;
+    }
+    return `${apiKey.slice(0, 3)}...${apiKey.slice(-4)}`;
+  }
+  
   /**
    * 生成流水线配置（内部方法）
    */
@@ -327,7 +477,7 @@ export class RouterPreprocessor {
             model: modelName.trim(),
             endpoint: provider.api_base_url,
             apiKey: apiKey,
-            timeout: 60000, // 默认超时
+            timeout: this._resolveTimeout(provider),
             maxRetries: 3, // 默认重试次数
             layers: this._generateLayerConfigs(provider, { 
               routeName, 
@@ -342,6 +492,10 @@ export class RouterPreprocessor {
             pipelineConfig.maxTokens = modelMaxTokens;
           }
           
+          if (provider.protocol && this._PROTOCOL_LAYERS[provider.protocol]) {
+            pipelineConfig.protocol = provider.protocol;
+          }
+          
           pipelineConfigs.push(pipelineConfig);
           generatedPipelines.add(pipelineKey);
         }
@@ -351,6 +505,15 @@ export class RouterPreprocessor {
     return pipelineConfigs;
   }
   
+  /**
+   * Provider的上游请求超时：Provider的timeout，其次是serverCompatibility.options.timeout（来自系统providerTypes）
+   */
+  private static _resolveTimeout(provider: ProviderInfo): number {
+    const optionTimeout = provider.serverCompatibility?.options?.timeout;
+    const timeout = provider.timeout ?? (typeof optionTimeout === 'number' ? optionTimeout : undefined);
+    return typeof timeout === 'number' && timeout > 0 ? timeout : this._DEFAULT_TIMEOUT_MS;
+  }
+
   /**
    * 生成层配置（内部方法）
    */
@@ -371,12 +534,26 @@ export class RouterPreprocessor {
       modelMaxTokens = provider.maxTokens;
     }
     
+    // 获取模型声明的能力（如multimodal），未声明时为空列表
+    let modelCapabilities: string[] = [];
+    for (const model of provider.models) {
+      if (typeof model === 'object' && model.name === route.modelName && Array.isArray(model.capabilities)) {
+        modelCapabilities = model.capabilities.filter((capability): capability is string => typeof capability === 'string');
+        break;
+      }
+    }
+    
+    const timeout = this._resolveTimeout(provider);
+
     // 获取正确的API密钥索引
     const apiKeyIndex = route.apiKeyIndex || 0;
     const apiKeys = Array.isArray(provider.api_key) ? provider.api_key : [provider.api_key];
     const selectedApiKey = apiKeys[apiKeyIndex] || apiKeys[0];
     
-    return this._DEFAULT_LAYERS.map(layer => {
+    const protocolLayers = provider.protocol ? this._PROTOCOL_LAYERS[provider.protocol] : undefined;
+    const layers = protocolLayers || this._DEFAULT_LAYERS;
+    
+    return layers.map(layer => {
       // 调试：检查原始layer
       console.log(`🔧 Processing layer: ${layer.name}, type: ${layer.type}`);
       
@@ -408,6 +585,9 @@ export class RouterPreprocessor {
             endpoint: provider.api_base_url,
             apiKey: selectedApiKey
           };
+          
+          // 转换层按模型能力校验请求内容（如图片/文档），未声明multimodal的模型拒绝图片
+          layerConfig.capabilities = modelCapabilities;
           break;
           
         case 'protocol':
@@ -426,7 +606,7 @@ export class RouterPreprocessor {
             model: route.modelName,
             endpoint: provider.api_base_url,
             apiKey: selectedApiKey,
-            timeout: 60000
+            timeout
           };
           
           // 添加serverCompatibility配置和maxTokens
@@ -447,6 +627,9 @@ export class RouterPreprocessor {
             delete layerConfig.options;
           }
           
+          // Provider级别timeout覆盖options中来自系统配置的值，与server层保持一致
+          layerConfig.timeout = timeout;
+
           // 模型级别maxTokens优先级最高，覆盖Provider级别和options中的值
           if (modelMaxTokens !== undefined) {
             layerConfig.maxTokens = modelMaxTokens;
@@ -460,7 +643,7 @@ export class RouterPreprocessor {
             model: route.modelName,
             endpoint: provider.api_base_url,
             apiKey: selectedApiKey,
-            timeout: 60000,
+            timeout,
             authMethod: this._detectAuthMethod(provider.name, selectedApiKey, provider.api_base_url)
           };
           
@@ -477,7 +660,7 @@ export class RouterPreprocessor {
             model: route.modelName,
             endpoint: provider.api_base_url,
             apiKey: selectedApiKey,
-            timeout: 60000
+            timeout
           };
           
           // 添加maxTokens配置（如果存在）
@@ -486,6 +669,11 @@ export class RouterPreprocessor {
           }
       }
 
+      // 原生协议流水线按协议选择专用模块
+      if (protocolLayers) {
+        layerConfig.protocol = provider.protocol;
+      }
+
       const resultLayer: PipelineLayer = {
         name: layer.name,
         type: layer.type,  // 明确传递type
@@ -0,0 +1,431 @@
+/**
+ * RCC v4.0 Token Estimator
+ *
+ * 离线的提示词token估算 - 供count_tokens端点、路由分类和maxTokens限制共用
+ *
+ * - Tokenizer按Provider家族（anthropic / openai / gemini）可插拔注册
+ * - 默认使用BPE风格估算：按GPT类正则预切分，再按片段类型（单词、数字、CJK、标点、空白）折算
+ * - Tokenizer抛出异常时回退到字符数启发式估算
+ * - 图片按Anthropic的(宽×高)/750折算，无法读取尺寸时使用上限值
+ *
+ * @author RCC v4.0
+ */
+
+import { secureLogger } from '../../error-handler/src/utils/secure-logger';
+
+/**
+ * Tokenizer所属的Provider家族
+ */
+export type TokenizerFamily = 'anthropic' | 'openai' | 'gemini' | 'default';
+
+/**
+ * 可插拔的Tokenizer
+ */
+export interface Tokenizer {
+  readonly name: string;
+  countTokens(text: string): number;
+}
+
+/**
+ * 请求token估算结果
+ */
+export interface TokenEstimate {
+  inputTokens: number;
+  breakdown: {
+    system: number;
+    messages: number;
+    tools: number;
+    images: number;
+  };
+  tokenizer: string;
+}
+
+/**
+ * 估算选项
+ */
+export interface TokenEstimateOptions {
+  family?: TokenizerFamily;
+  tokenizer?: Tokenizer;
+}
+
+/**
+ * BPE风格Tokenizer参数
+ */
+export interface BPEStyleTokenizerOptions {
+  name: string;
+  // 长单词平均每个token对应的字符数
+  charsPerToken: number;
+  // 不拆分即可成为单个token的最长单词
+  maxSingleTokenWordLength: number;
+  // 每个token对应的数字位数
+  digitsPerToken: number;
+}
+
+const MESSAGE_OVERHEAD_TOKENS = 3;
+const TOOL_OVERHEAD_TOKENS = 8;
+const REQUEST_OVERHEAD_TOKENS = 3;
+
+// Anthropic会将长边超过1568像素的图片缩放，单图约1600 token封顶
+const IMAGE_MAX_EDGE = 1568;
+const IMAGE_MAX_TOKENS = 1600;
+const IMAGE_PIXELS_PER_TOKEN = 750;
+const PDF_PAGE_TOKENS = 1500;
+
+/**
+ * 字符数启发式Tokenizer
+ */
+export class HeuristicTokenizer implements Tokenizer {
+  readonly name: string;
+
+  constructor(private readonly charsPerToken: number = 4) {
+    this.name = `heuristic-${charsPerToken}`;
+  }
+
+  countTokens(text: string): number {
+    return text ? Math.ceil(text.length / this.charsPerToken) : 0;
+  }
+}
+
+/**
+ * BPE风格的离线Tokenizer
+ *
+ * 不携带词表，按常见BPE词表的合并规律折算各类片段的token数
+ */
+export class BPEStyleTokenizer implements Tokenizer {
+  private static readonly PRE_TOKENIZE = /'(?:[sdmt]|ll|ve|re)| ?\p{L}+| ?\p{N}+| ?[^\s\p{L}\p{N}]+|\s+/gu;
+  private static readonly CJK_CHAR = /[぀-ヿ㐀-䶿一-鿿가-힯豈-﫿]/gu;
+
+  readonly name: string;
+
+  constructor(private readonly options: BPEStyleTokenizerOptions) {
+    this.name = options.name;
+  }
+
+  countTokens(text: string): number {
+    if (!text) {
+      return 0;
+    }
+
+    let tokens = 0;
+    for (const match of text.matchAll(BPEStyleTokenizer.PRE_TOKENIZE)) {
+      tokens += this.countPiece(match[0]);
+    }
+    return tokens;
+  }
+
+  /**
+   * 估算单个预切分片段的token数
+   */
+  private countPiece(piece: string): number {
+    if (/^\s+$/.test(piece)) {
+      // 连续空白（缩进）通常被合并
+      return Math.ceil(piece.length / 8);
+    }
+
+    const body = piece.startsWith(' ') ? piece.slice(1) : piece;
+
+    if (/^\p{N}+$/u.test(body)) {
+      return Math.ceil(body.length / this.options.digitsPerToken);
+    }
+
+    if (/^\p{L}+$/u.test(body)) {
+      const cjkCount = (body.match(BPEStyleTokenizer.CJK_CHAR) || []).length;
+      const otherLength = body.length - cjkCount;
+      let tokens = cjkCount;
+      if (otherLength > 0) {
+        tokens += otherLength <= this.options.maxSingleTokenWordLength
+          ? 1
+          : Math.ceil(otherLength / this.options.charsPerToken);
+      }
+      return tokens;
+    }
+
+    // 标点和符号：常见组合（如"});"、"=>"）多为1-2个token
+    return Math.ceil(body.length / 2);
+  }
+}
+
+const DEFAULT_TOKENIZER = new BPEStyleTokenizer({
+  name: 'bpe-default',
+  charsPerToken: 4,
+  maxSingleTokenWordLength: 6,
+  digitsPerToken: 3
+});
+
+const FALLBACK_TOKENIZER = new HeuristicTokenizer(4);
+
+/**
+ * Provider家族 → Tokenizer
+ */
+const tokenizerRegistry = new Map<TokenizerFamily, Tokenizer>([
+  ['default', DEFAULT_TOKENIZER],
+  ['openai', DEFAULT_TOKENIZER],
+  // Claude词表对代码和非英文文本切分更细
+  ['anthropic', new BPEStyleTokenizer({ name: 'bpe-anthropic', charsPerToken: 3.5, maxSingleTokenWordLength: 5, digitsPerToken: 3 })],
+  // Gemini按单个数字切分
+  ['gemini', new BPEStyleTokenizer({ name: 'bpe-gemini', charsPerToken: 4, maxSingleTokenWordLength: 6, digitsPerToken: 1 })]
+]);
+
+/**
+ * 注册（或替换）某个Provider家族的Tokenizer
+ */
+export function registerTokenizer(family: TokenizerFamily, tokenizer: Tokenizer): void {
+  tokenizerRegistry.set(family, tokenizer);
+}
+
+/**
+ * 获取Provider家族的Tokenizer，未注册时使用默认BPE风格Tokenizer
+ */
+export function getTokenizer(family: TokenizerFamily = 'default'): Tokenizer {
+  return tokenizerRegistry.get(family) || tokenizerRegistry.get('default') || DEFAULT_TOKENIZER;
+}
+
+/**
+ * 由流水线协议得到Tokenizer家族（未声明协议的Provider走OpenAI兼容流水线）
+ */
+export function resolveTokenizerFamily(protocol?: string): TokenizerFamily {
+  if (protocol === 'anthropic' || protocol === 'gemini') {
+    return protocol;
+  }
+  return 'openai';
+}
+
+/**
+ * 使用指定Tokenizer计数，Tokenizer异常时回退到启发式估算
+ */
+export function countTextTokens(text: string, tokenizer: Tokenizer = getTokenizer()): number {
+  if (!text) {
+    return 0;
+  }
+
+  try {
+    return tokenizer.countTokens(text);
+  } catch (error) {
+    secureLogger.warn('⚠️ Tokenizer计数失败，回退到启发式估算', {
+      tokenizer: tokenizer.name,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return FALLBACK_TOKENIZER.countTokens(text);
+  }
+}
+
+/**
+ * 估算Anthropic请求的输入token数（system + messages + tools + 图片）
+ */
+export function estimateRequestTokens(request: any, options: TokenEstimateOptions = {}): TokenEstimate {
+  const tokenizer = options.tokenizer || getTokenizer(options.family);
+  const estimate: TokenEstimate = {
+    inputTokens: 0,
+    breakdown: { system: 0, messages: 0, tools: 0, images: 0 },
+    tokenizer: tokenizer.name
+  };
+
+  if (!request || typeof request !== 'object') {
+    return estimate;
+  }
+
+  const counter = new RequestTokenCounter(tokenizer);
+
+  estimate.breakdown.system = counter.countContent(request.system).text;
+
+  if (Array.isArray(request.messages)) {
+    for (const message of request.messages) {
+      const counted = counter.countContent(message?.content);
+      estimate.breakdown.messages += MESSAGE_OVERHEAD_TOKENS + counted.text;
+      estimate.breakdown.images += counted.images;
+    }
+  }
+
+  if (Array.isArray(request.tools)) {
+    for (const tool of request.tools) {
+      estimate.breakdown.tools += TOOL_OVERHEAD_TOKENS + counter.countJson(tool);
+    }
+  }
+
+  const { system, messages, tools, images } = estimate.breakdown;
+  estimate.inputTokens = REQUEST_OVERHEAD_TOKENS + system + messages + tools + images;
+  return estimate;
+}
+
+/**
+ * 估算单段消息内容（字符串或content block数组）的token数，包含图片
+ */
+export function estimateContentTokens(content: any, options: TokenEstimateOptions = {}): number {
+  const counted = new RequestTokenCounter(options.tokenizer || getTokenizer(options.family)).countContent(content);
+  return counted.text + counted.images;
+}
+
+/**
+ * 单个请求内容的计数器
+ */
+class RequestTokenCounter {
+  constructor(private readonly tokenizer: Tokenizer) {}
+
+  countText(text: string): number {
+    return countTextTokens(text, this.tokenizer);
+  }
+
+  countJson(value: any): number {
+    return value === undefined ? 0 : this.countText(JSON.stringify(value));
+  }
+
+  /**
+   * 统计字符串或content block数组，图片单独计数
+   */
+  countContent(content: any): { text: number; images: number } {
+    const result = { text: 0, images: 0 };
+    if (!content) {
+      return result;
+    }
+
+    if (typeof content === 'string') {
+      result.text = this.countText(content);
+      return result;
+    }
+
+    if (!Array.isArray(content)) {
+      result.text = this.countJson(content);
+      return result;
+    }
+
+    for (const block of content) {
+      if (typeof block === 'string') {
+        result.text += this.countText(block);
+        continue;
+      }
+
+      switch (block?.type) {
+        case 'text':
+          result.text += this.countText(block.text || '');
+          break;
+        case 'image':
+          result.images += estimateImageTokens(block.source);
+          break;
+        case 'document':
+          result.text += this.countDocument(block.source);
+          break;
+        case 'tool_use':
+          result.text += this.countText(block.name || '') + this.countJson(block.input || {});
+          break;
+        case 'tool_result': {
+          const nested = this.countContent(block.content);
+          result.text += nested.text;
+          result.images += nested.images;
+          break;
+        }
+        case 'thinking':
+          result.text += this.countText(block.thinking || '');
+          break;
+        default:
+          result.text += this.countJson(block);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * 文档块：文本按内容计数，PDF按页数折算
+   */
+  private countDocument(source: any): number {
+    if (!source) {
+      return 0;
+    }
+
+    switch (source.type) {
+      case 'text':
+        return this.countText(source.data || '');
+      case 'content': {
+        const nested = this.countContent(source.content);
+        return nested.text + nested.images;
+      }
+      case 'base64': {
+        const decoded = decodeBase64(source.data);
+        if (source.media_type === 'text/plain') {
+          return this.countText(decoded.toString('utf8'));
+        }
+        const pages = (decoded.toString('latin1').match(/\/Type\s*\/Page\b/g) || []).length;
+        return Math.max(pages, 1) * PDF_PAGE_TOKENS;
+      }
+      default:
+        return PDF_PAGE_TOKENS;
+    }
+  }
+}
+
+/**
+ * 估算单张图片的token数
+ */
+export function estimateImageTokens(source: any): number {
+  if (!source || source.type !== 'base64') {
+    return IMAGE_MAX_TOKENS;
+  }
+
+  const dimensions = readImageDimensions(decodeBase64(source.data), source.media_type);
+  if (!dimensions) {
+    return IMAGE_MAX_TOKENS;
+  }
+
+  let { width, height } = dimensions;
+  const longEdge = Math.max(width, height);
+  if (longEdge > IMAGE_MAX_EDGE) {
+    const scale = IMAGE_MAX_EDGE / longEdge;
+    width = Math.round(width * scale);
+    height = Math.round(height * scale);
+  }
+
+  return Math.min(Math.ceil((width * height) / IMAGE_PIXELS_PER_TOKEN), IMAGE_MAX_TOKENS);
+}
+
+function decodeBase64(data: any): Buffer {
+  return typeof data === 'string' ? Buffer.from(data, 'base64') : Buffer.alloc(0);
+}
+
+/**
+ * 从图片文件头读取尺寸（PNG、GIF、JPEG、WebP）
+ */
+function readImageDimensions(buffer: Buffer, mediaType?: string): { width: number; height: number } | null {
+  try {
+    if (mediaType === 'image/png' && buffer.length >= 24) {
+      return { width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) };
+    }
+
+    if (mediaType === 'image/gif' && buffer.length >= 10) {
+      return { width: buffer.readUInt16LE(6), height: buffer.readUInt16LE(8) };
+    }
+
+    if (mediaType === 'image/jpeg') {
+      let offset = 2;
+      while (offset + 9 < buffer.length) {
+        if (buffer[offset] !== 0xff) {
+          return null;
+        }
+        const marker = buffer[offset + 1];
+        // SOF0-SOF15（不含DHT、JPG、DAC）
+        if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+          return { width: buffer.readUInt16BE(offset + 7), height: buffer.readUInt16BE(offset + 5) };
+        }
+        offset += 2 + buffer.readUInt16BE(offset + 2);
+      }
+      return null;
+    }
+
+    if (mediaType === 'image/webp' && buffer.length >= 30) {
+      const chunk = buffer.toString('ascii', 12, 16);
+      if (chunk === 'VP8X') {
+        return { width: 1 + buffer.readUIntLE(24, 3), height: 1 + buffer.readUIntLE(27, 3) };
+      }
+      if (chunk === 'VP8 ') {
+        return { width: buffer.readUInt16LE(26) & 0x3fff, height: buffer.readUInt16LE(28) & 0x3fff };
+      }
+      if (chunk === 'VP8L') {
+        const bits = buffer.readUInt32LE(21);
+        return { width: 1 + (bits & 0x3fff), height: 1 + ((bits >> 14) & 0x3fff) };
+      }
+    }
+  } catch {
+    // 文件头损坏时按上限估算
+  }
+
+  return null;
+}
@@ -0,0 +1,108 @@
+/**
+ * RCC v4.0 Upstream Error Inspection
+ *
+ * 流水线执行错误的上游原因解析 - 流水线执行器和PipelineManager会逐层包装模块错误，
+ * 路由层需要找回最内层的上游错误来判断限流、配额、客户端错误以及能否换用其他流水线重试
+ *
+ * @author RCC v4.0
+ */
+
+import { RCCError, RCCErrorCode } from '../../types/src/index';
+import { errorClassifier } from '../../error-handler/src/error-classifier';
+
+// 包装层数上限，防止循环引用
+const MAX_UNWRAP_DEPTH = 5;
+
+// 上游限流或配额耗尽的错误文本特征（OpenAI兼容层只保留错误消息）
+const RATE_LIMIT_PATTERN = /\bHTTP 429\b|rate.?limit|quota|RESOURCE_EXHAUSTED|insufficient_quota/i;
+
+/**
+ * 沿包装链找到最内层的上游错误
+ *
+ * 依次识别执行器抛出的{originalError}、RCCError的details.cause和Error.cause
+ */
+export function unwrapUpstreamError(error: unknown): unknown {
+  let current = error;
+
+  for (let depth = 0; depth < MAX_UNWRAP_DEPTH; depth++) {
+    const next = getWrappedError(current);
+    if (!next) {
+      break;
+    }
+    current = next;
+  }
+
+  return current;
+}
+
+/**
+ * 上游错误是否为限流或配额耗尽
+ */
+export function isRateLimitError(error: unknown): boolean {
+  const upstream = unwrapUpstreamError(error);
+
+  if (upstream instanceof RCCError) {
+    if (upstream.code === RCCErrorCode.PROVIDER_RATE_LIMITED || upstream.code === RCCErrorCode.RATE_LIMIT_ERROR) {
+      return true;
+    }
+    if (upstream.context.details?.statusCode === 429) {
+      return true;
+    }
+  }
+
+  return upstream instanceof Error && RATE_LIMIT_PATTERN.test(upstream.message);
+}
+
+/**
+ * 上游错误是否为客户端请求错误（不代表上游故障）
+ */
+export function isClientRequestError(error: unknown): boolean {
+  const upstream = unwrapUpstreamError(error);
+  return upstream instanceof RCCError && upstream.code === RCCErrorCode.VALIDATION_ERROR;
+}
+
+/**
+ * 上游错误是否可换用其他流水线重试（由ErrorClassifier判定超时、5xx、429、连接中断）
+ */
+export function isRetryableUpstreamError(error: unknown): boolean {
+  if (isClientRequestError(error)) {
+    return false;
+  }
+  if (isRateLimitError(error)) {
+    return true;
+  }
+
+  const upstream = unwrapUpstreamError(error);
+  if (!(upstream instanceof Error)) {
+    return false;
+  }
+  return errorClassifier.isRetryable(upstream.message);
+}
+
+/**
+ * 上游错误携带的重试间隔（来自Retry-After或RetryInfo）
+ */
+export function getRetryAfterMs(error: unknown): number | undefined {
+  const upstream = unwrapUpstreamError(error);
+  const retryAfterMs = upstream instanceof RCCError ? upstream.context.details?.retryAfterMs : undefined;
+  return typeof retryAfterMs === 'number' && retryAfterMs >= 0 ? retryAfterMs : undefined;
+}
+
+function getWrappedError(error: unknown): unknown {
+  if (!error || typeof error !== 'object') {
+    return undefined;
+  }
+
+  if (error instanceof RCCError) {
+    const cause = error.context.details?.cause;
+    return cause instanceof Error ? cause : undefined;
+  }
+
+  if (error instanceof Error) {
+    const cause = (error as Error & { cause?: unknown }).cause;
+    return cause instanceof Error ? cause : undefined;
+  }
+
+  const originalError = (error as { originalError?: unknown }).originalError;
+  return originalError instanceof Error ? originalError : undefined;
+}
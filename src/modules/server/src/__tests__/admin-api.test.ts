@@ -0,0 +1,391 @@
+/**
+ * 管理接口测试
+ *
+ * 验证/admin/*的令牌鉴权、流水线列表及退出/恢复轮转、Provider维护模式和健康汇总、
+ * 熔断器人工打开/重置、自检触发、路由表查看、路由演练、密钥池状态和配置重载，
+ * 以及重载路由表后熔断器和密钥冷却保持不变
+ *
+ * @author RCC v4.0
+ */
+
+import { AdminApiHandlerImpl, AnthropicMessageHandlerImpl, HTTPRoutingSystemImpl, RequestContext, ResponseContext } from '../index';
+import { RouterPreprocessor, PipelineConfig } from '../../../router/src/router-preprocessor';
+import { RequestRouter, RoutablePipeline } from '../../../router/src/request-router';
+import { RouteLoadBalancer } from '../../../router/src/route-load-balancer';
+import { PipelineManager } from '../../../pipeline/src/pipeline-manager';
+import { AssembledPipeline } from '../../../pipeline/src/assembly-types';
+import { RCCError, RCCErrorCode } from '../../../types/src/index';
+
+const ADMIN_TOKEN = 'rcc-admin-test-token';
+
+function createContexts(
+  method: string,
+  url: string,
+  headers: Record<string, string> = { authorization: `Bearer ${ADMIN_TOKEN}` },
+  body?: any
+): { req: RequestContext; res: ResponseContext } {
+  const req: RequestContext = {
+    id: 'req-admin',
+    startTime: new Date(),
+    method,
+    url,
+    headers,
+    query: {},
+    params: {},
+    body,
+    metadata: {}
+  };
+  const res: ResponseContext = { req, statusCode: 200, headers: {}, sent: false };
+  return { req, res };
+}
+
+function createPipeline(config: PipelineConfig): AssembledPipeline {
+  const instance: any = {
+    getId: () => `${config.pipelineId}-server`,
+    getStatus: () => ({ status: 'running' }),
+    healthCheck: jest.fn(async () => ({ healthy: true })),
+    start: jest.fn(async () => undefined),
+    stop: jest.fn(async () => undefined),
+    cleanup: jest.fn(async () => undefined),
+    process: jest.fn(async () => ({ id: config.pipelineId }))
+  };
+  return {
+    pipelineId: config.pipelineId,
+    routeId: config.routeId,
+    routeName: 'default',
+    provider: config.provider,
+    model: config.model,
+    endpoint: config.endpoint,
+    apiKey: config.apiKey,
+    timeout: config.timeout,
+    maxRetries: config.maxRetries,
+    modules: [{ name: 'server', type: 'server' as any, order: 0, config: {}, instance, isInitialized: true, initializationTime: 0 }],
+    assemblyStatus: 'assembled',
+    assemblyTime: 0,
+    assemblyErrors: [],
+    isActive: true,
+    health: 'healthy'
+  };
+}
+
+describe('Admin API', () => {
+  let router: RequestRouter;
+  let balancer: RouteLoadBalancer;
+  let pipelineManager: PipelineManager;
+  let pipelines: RoutablePipeline[];
+  let selfCheckService: { performSelfCheck: jest.Mock; getSelfCheckState: jest.Mock };
+  let reloadConfig: jest.Mock;
+  let anthropicHandler: AnthropicMessageHandlerImpl;
+  let routingSystem: HTTPRoutingSystemImpl;
+
+  function createAdminHandler(adminToken?: string): AdminApiHandlerImpl {
+    return new AdminApiHandlerImpl(adminToken, {
+      getRequestRouter: () => router,
+      getRouteLoadBalancer: () => balancer,
+      getApiKeyPools: () => anthropicHandler.getApiKeyPools(),
+      explainRoute: (requestBody, requestId) => anthropicHandler.explainRoute(requestBody, requestId)
+    });
+  }
+
+  function createRoutingSystem(handler: AdminApiHandlerImpl): HTTPRoutingSystemImpl {
+    const system = new HTTPRoutingSystemImpl();
+    system.addRoute('GET', '/admin/pipelines', (req, res) => handler.handleListPipelines(req, res));
+    system.addRoute('POST', '/admin/pipelines/:pipelineId/drain', (req, res) => handler.handleDrainPipeline(req, res));
+    system.addRoute('POST', '/admin/pipelines/:pipelineId/enable', (req, res) => handler.handleEnablePipeline(req, res));
+    system.addRoute('GET', '/admin/providers/health', (req, res) => handler.handleProviderHealth(req, res));
+    system.addRoute('POST', '/admin/providers/:provider/maintenance', (req, res) => handler.handleEnterMaintenance(req, res));
+    system.addRoute('DELETE', '/admin/providers/:provider/maintenance', (req, res) => handler.handleExitMaintenance(req, res));
+    system.addRoute('GET', '/admin/circuit-breakers', (req, res) => handler.handleListCircuitBreakers(req, res));
+    system.addRoute('POST', '/admin/circuit-breakers/:pipelineId/trip', (req, res) => handler.handleTripCircuitBreaker(req, res));
+    system.addRoute('POST', '/admin/circuit-breakers/:pipelineId/reset', (req, res) => handler.handleResetCircuitBreaker(req, res));
+    system.addRoute('POST', '/admin/self-check', (req, res) => handler.handleSelfCheck(req, res));
+    system.addRoute('GET', '/admin/routing-table', (req, res) => handler.handleGetRoutingTable(req, res));
+    system.addRoute('POST', '/admin/route-test', (req, res) => handler.handleRouteTest(req, res));
+    system.addRoute('GET', '/admin/keys', (req, res) => handler.handleKeyStatus(req, res));
+    system.addRoute('POST', '/admin/reload', (req, res) => handler.handleReload(req, res));
+    return system;
+  }
+
+  async function request(method: string, url: string, body?: any, headers?: Record<string, string>): Promise<ResponseContext> {
+    const { req, res } = createContexts(method, url, headers, body);
+    await routingSystem.executeRoute(req, res);
+    return res;
+  }
+
+  function pipelineFor(provider: string): RoutablePipeline {
+    return pipelines.find(pipeline => pipeline.provider === provider)!;
+  }
+
+  beforeEach(async () => {
+    const result = await RouterPreprocessor.preprocess({
+      providers: [
+        { name: 'primary', api_base_url: 'http://localhost:1234/v1', api_key: 'sk-primary-secret', models: ['qwen3-coder'] },
+        { name: 'secondary', api_base_url: 'http://localhost:1235/v1', api_key: 'sk-secondary-secret', models: ['qwen3-coder'] }
+      ],
+      routes: { default: 'primary,qwen3-coder;secondary,qwen3-coder' },
+      server: { port: 5506, host: '127.0.0.1' },
+      apiKey: 'rcc4-proxy-key'
+    });
+    expect(result.success).toBe(true);
+
+    router = new RequestRouter(result.routingTable!);
+    anthropicHandler = new AnthropicMessageHandlerImpl(
+      result.pipelineConfigs!.map(config => ({ id: config.pipelineId, provider: config.provider, model: config.model, layers: [], execute: jest.fn() })),
+      true
+    );
+    anthropicHandler.setRequestRouter(router);
+    balancer = anthropicHandler.getRouteLoadBalancer()!;
+    pipelineManager = new PipelineManager();
+    for (const config of result.pipelineConfigs!) {
+      pipelineManager.addPipeline(createPipeline(config));
+    }
+    pipelines = result.pipelineConfigs!.map(config => ({ id: config.pipelineId, provider: config.provider, model: config.model }));
+    selfCheckService = {
+      performSelfCheck: jest.fn(async () => true),
+      getSelfCheckState: jest.fn(async () => ({ isRunning: false, checkCount: 1, errors: [] }))
+    };
+    reloadConfig = jest.fn(async () => ({ success: true, reason: 'admin-api', added: [], changed: [], removed: [], errors: [], warnings: [] }));
+
+    const handler = createAdminHandler(ADMIN_TOKEN);
+    handler.setServices({ pipelineManager, selfCheckService, reloadConfig });
+    routingSystem = createRoutingSystem(handler);
+  });
+
+  afterEach(async () => {
+    await anthropicHandler.stop();
+    await pipelineManager.destroy();
+  });
+
+  it('should reject requests without a valid admin token', async () => {
+    const missing = await request('GET', '/admin/pipelines', undefined, {});
+    expect(missing.statusCode).toBe(401);
+    expect(missing.body).toEqual({ type: 'error', error: { type: 'authentication_error', message: 'Invalid or missing admin token' } });
+
+    const wrong = await request('GET', '/admin/pipelines', undefined, { authorization: 'Bearer not-the-token' });
+    expect(wrong.statusCode).toBe(401);
+
+    const headerToken = await request('GET', '/admin/pipelines', undefined, { 'x-admin-token': ADMIN_TOKEN });
+    expect(headerToken.statusCode).toBe(200);
+  });
+
+  it('should be disabled when no admin token is configured', async () => {
+    routingSystem = createRoutingSystem(createAdminHandler(undefined));
+
+    const res = await request('GET', '/admin/routing-table');
+
+    expect(res.statusCode).toBe(503);
+    expect(res.body.error.message).toMatch(/Admin API is disabled/);
+  });
+
+  it('should list pipelines with their status', async () => {
+    const res = await request('GET', '/admin/pipelines');
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body.pipelines.map((pipeline: any) => pipeline.provider)).toEqual(['primary', 'secondary']);
+    expect(res.body.pipelines[0]).toMatchObject({
+      pipelineId: pipelineFor('primary').id,
+      model: 'qwen3-coder',
+      status: { status: 'active' },
+      activeExecutions: 0,
+      maintenance: null,
+      circuitBreaker: 'CLOSED'
+    });
+    expect(res.body.statistics.totalPipelines).toBe(2);
+  });
+
+  it('should drain a pipeline out of rotation and enable it again', async () => {
+    const primary = pipelineFor('primary');
+
+    const drained = await request('POST', `/admin/pipelines/${primary.id}/drain`, { reason: 'Key rotation' });
+
+    expect(drained.statusCode).toBe(200);
+    expect(drained.body).toEqual({ pipelineId: primary.id, drained: true, reason: 'Key rotation', activeExecutions: 0 });
+    expect(pipelineManager.isPipelineUnderMaintenance(primary.id)).toBe(true);
+    expect(balancer.getCircuitBreakerState(primary.id)).toMatchObject({ state: 'OPEN', forced: true });
+    const explained = await request('POST', '/admin/route-test', { prompt: 'Hello' });
+    expect(explained.body.selected.provider).toBe('secondary');
+
+    const enabled = await request('POST', `/admin/pipelines/${primary.id}/enable`);
+
+    expect(enabled.statusCode).toBe(200);
+    expect(enabled.body).toEqual({ pipelineId: primary.id, enabled: true });
+    expect(pipelineManager.isPipelineUnderMaintenance(primary.id)).toBe(false);
+    expect(balancer.getCircuitBreakerState(primary.id)).toMatchObject({ state: 'CLOSED', forced: false });
+
+    const unknown = await request('POST', '/admin/pipelines/pipeline_unknown_model_0/drain');
+    expect(unknown.statusCode).toBe(404);
+  });
+
+  it('should summarize health per provider', async () => {
+    await request('POST', `/admin/circuit-breakers/${pipelineFor('secondary').id}/trip`);
+
+    const res = await request('GET', '/admin/providers/health');
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body.providers.map((provider: any) => [provider.provider, provider.status])).toEqual([
+      ['primary', 'healthy'],
+      ['secondary', 'unhealthy']
+    ]);
+    expect(res.body.providers[1].pipelines[0]).toMatchObject({ pipelineId: pipelineFor('secondary').id, circuitBreaker: 'OPEN', maintenance: false });
+
+    await request('POST', '/admin/providers/primary/maintenance');
+    const maintained = await request('GET', '/admin/providers/health');
+    expect(maintained.body.providers[0].status).toBe('maintenance');
+  });
+
+  it('should explain which pipeline a prompt would be routed to', async () => {
+    const res = await request('POST', '/admin/route-test', { prompt: 'Write a haiku', model: 'claude-sonnet-4-20250514' });
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body).toMatchObject({
+      requestedModel: 'claude-sonnet-4-20250514',
+      routeName: 'default',
+      classification: { category: 'default' },
+      selected: { pipelineId: pipelineFor('primary').id, provider: 'primary', model: 'qwen3-coder' },
+      candidates: [{ provider: 'primary' }, { provider: 'secondary' }]
+    });
+    expect(res.body.fallbackChain.map((pipeline: any) => pipeline.provider)).toEqual(['primary', 'secondary']);
+    expect(typeof res.body.selectionReason).toBe('string');
+
+    const missingPrompt = await request('POST', '/admin/route-test', { model: 'x' });
+    expect(missingPrompt.statusCode).toBe(400);
+  });
+
+  it('should report API key pool status and trigger a reload', async () => {
+    const keys = await request('GET', '/admin/keys');
+    expect(keys.statusCode).toBe(200);
+    expect(keys.body).toEqual({ pools: anthropicHandler.getApiKeyPools()!.getStatus() });
+
+    const reloaded = await request('POST', '/admin/reload');
+    expect(reloaded.statusCode).toBe(200);
+    expect(reloaded.body).toMatchObject({ success: true, reason: 'admin-api' });
+    expect(reloadConfig).toHaveBeenCalledWith('admin-api');
+
+    reloadConfig.mockResolvedValueOnce({ success: false, errors: ['Config preprocessing failed: bad json'] });
+    const rejected = await request('POST', '/admin/reload');
+    expect(rejected.statusCode).toBe(500);
+    expect(rejected.body.errors).toEqual(['Config preprocessing failed: bad json']);
+  });
+
+  it('should put a provider into and out of maintenance', async () => {
+    const entered = await request('POST', '/admin/providers/primary/maintenance', { reason: 'Upstream incident' });
+
+    expect(entered.statusCode).toBe(200);
+    expect(entered.body).toEqual({ provider: 'primary', maintenance: true, reason: 'Upstream incident', pipelines: [pipelineFor('primary').id] });
+    expect(pipelineManager.isPipelineUnderMaintenance(pipelineFor('primary').id)).toBe(true);
+    expect(pipelineManager.isPipelineUnderMaintenance(pipelineFor('secondary').id)).toBe(false);
+    await expect(pipelineManager.executePipeline(pipelineFor('primary').id, { messages: [] })).resolves.toMatchObject({ maintenanceMode: true });
+
+    const listed = await request('GET', '/admin/pipelines');
+    expect(listed.body.pipelines[0].maintenance).toMatchObject({ reason: 'Upstream incident' });
+
+    const exited = await request('DELETE', '/admin/providers/primary/maintenance');
+
+    expect(exited.statusCode).toBe(200);
+    expect(exited.body).toEqual({ provider: 'primary', maintenance: false, cleared: [pipelineFor('primary').id], failed: [] });
+    expect(pipelineManager.isPipelineUnderMaintenance(pipelineFor('primary').id)).toBe(false);
+  });
+
+  it('should return 404 for maintenance on an unknown provider', async () => {
+    const entered = await request('POST', '/admin/providers/unknown/maintenance');
+    const exited = await request('DELETE', '/admin/providers/unknown/maintenance');
+
+    expect(entered.statusCode).toBe(404);
+    expect(exited.statusCode).toBe(404);
+  });
+
+  it('should trip and reset a circuit breaker', async () => {
+    const primary = pipelineFor('primary');
+
+    const tripped = await request('POST', `/admin/circuit-breakers/${primary.id}/trip`);
+    expect(tripped.statusCode).toBe(200);
+    expect(balancer.getCircuitBreakerState(primary.id)).toMatchObject({ state: 'OPEN', forced: true });
+
+    // 人工打开的熔断器不因成功请求或恢复超时而关闭，流水线退出轮转
+    balancer.recordOutcome(primary.id, 10);
+    for (let i = 0; i < 5; i++) {
+      const selection = await balancer.select(router.route('default', pipelines), { requestId: `req-${i}` });
+      expect(selection.pipeline.provider).toBe('secondary');
+      balancer.recordOutcome(selection.pipeline.id, 10);
+    }
+
+    const listed = await request('GET', '/admin/circuit-breakers');
+    expect(listed.body.circuitBreakers.find((breaker: any) => breaker.pipelineId === primary.id)).toMatchObject({ state: 'OPEN', forced: true });
+
+    const reset = await request('POST', `/admin/circuit-breakers/${primary.id}/reset`);
+    expect(reset.statusCode).toBe(200);
+    expect(balancer.getCircuitBreakerState(primary.id)).toMatchObject({ state: 'CLOSED', forced: false });
+  });
+
+  it('should keep tripped circuit breakers and key cooldowns when the routing table is reloaded', async () => {
+    const providers = [
+      { name: 'primary', api_base_url: 'http://localhost:1234/v1', api_key: ['sk-primary-secret-a', 'sk-primary-secret-b'], models: ['qwen3-coder'] },
+      { name: 'secondary', api_base_url: 'http://localhost:1235/v1', api_key: 'sk-secondary-secret', models: ['qwen3-coder'] }
+    ];
+    const before = await RouterPreprocessor.preprocess({
+      providers,
+      routes: { default: 'primary,qwen3-coder;secondary,qwen3-coder' },
+      server: { port: 5506, host: '127.0.0.1' },
+      apiKey: 'rcc4-proxy-key'
+    });
+    const toPipelines = (configs: PipelineConfig[]) =>
+      configs.map(config => ({ id: config.pipelineId, provider: config.provider, model: config.model, layers: [], execute: jest.fn() }));
+    anthropicHandler.setPipelines(toPipelines(before.pipelineConfigs!), true);
+    anthropicHandler.setRequestRouter(new RequestRouter(before.routingTable!));
+    balancer = anthropicHandler.getRouteLoadBalancer()!;
+    const [primaryKey0, , secondary] = before.pipelineConfigs!.map(config => ({ id: config.pipelineId, provider: config.provider, model: config.model }));
+
+    expect((await request('POST', `/admin/circuit-breakers/${secondary.id}/trip`)).statusCode).toBe(200);
+    anthropicHandler.getApiKeyPools()!.recordOutcome(primaryKey0, {
+      error: new RCCError('Rate limit exceeded', RCCErrorCode.PROVIDER_RATE_LIMITED, 'test', { details: { statusCode: 429 } })
+    });
+
+    // 重载：新增一个Provider，原有流水线不变
+    const after = await RouterPreprocessor.preprocess({
+      providers: [...providers, { name: 'tertiary', api_base_url: 'http://localhost:1236/v1', api_key: 'sk-tertiary-secret', models: ['qwen3-coder'] }],
+      routes: { default: 'primary,qwen3-coder;secondary,qwen3-coder;tertiary,qwen3-coder' },
+      server: { port: 5506, host: '127.0.0.1' },
+      apiKey: 'rcc4-proxy-key'
+    });
+    router = new RequestRouter(after.routingTable!);
+    anthropicHandler.setPipelines(toPipelines(after.pipelineConfigs!), true);
+    anthropicHandler.setRequestRouter(router);
+
+    expect(anthropicHandler.getRouteLoadBalancer()).toBe(balancer);
+    expect(balancer.getCircuitBreakerState(secondary.id)).toMatchObject({ state: 'OPEN', forced: true });
+    const primaryKeys = anthropicHandler.getApiKeyPools()!.getStatus().find(pool => pool.provider === 'primary')!.keys;
+    expect(primaryKeys.map(key => [key.keyIndex, key.status, key.rateLimitCount])).toEqual([[0, 'cooling_down', 1], [1, 'active', 0]]);
+
+    // 冷却中的密钥和熔断的流水线都不会被选中，新增的Provider进入路由池
+    const explained = await request('POST', '/admin/route-test', { prompt: 'Hello' });
+    expect(explained.body.candidates.map((candidate: any) => candidate.pipelineId)).toEqual([
+      before.pipelineConfigs![1].pipelineId, secondary.id, after.pipelineConfigs!.find(config => config.provider === 'tertiary')!.pipelineId
+    ]);
+    expect(explained.body.selected.provider).toBe('primary');
+    expect(explained.body.fallbackChain.map((member: any) => member.provider)).not.toContain('secondary');
+  });
+
+  it('should return 404 when tripping a pipeline outside the routing table', async () => {
+    const res = await request('POST', '/admin/circuit-breakers/pipeline_unknown_model_0/trip');
+
+    expect(res.statusCode).toBe(404);
+    expect(balancer.getCircuitBreakerState('pipeline_unknown_model_0')).toBeNull();
+  });
+
+  it('should trigger a self check', async () => {
+    const res = await request('POST', '/admin/self-check');
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body).toEqual({ success: true, state: { isRunning: false, checkCount: 1, errors: [] } });
+    expect(selfCheckService.performSelfCheck).toHaveBeenCalledTimes(1);
+  });
+
+  it('should return the current routing table without provider secrets', async () => {
+    const res = await request('GET', '/admin/routing-table');
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body).toBe(router.getRoutingTable());
+    expect(res.body.routes.default.map((route: any) => route.provider)).toEqual(['primary', 'secondary']);
+    expect(JSON.stringify(res.body)).not.toContain('secret');
+  });
+});
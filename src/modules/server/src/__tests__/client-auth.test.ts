@@ -0,0 +1,169 @@
+/**
+ * 入站客户端认证测试
+ *
+ * 验证配置的APIKEY和命名clientKeys通过x-api-key或Bearer认证、错误和过期密钥被拒绝，
+ * 以及密钥限定的路由类别和模型在/v1/messages路由选择后生效
+ *
+ * @author RCC v4.0
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AnthropicMessageHandlerImpl, AssembledPipeline, ClientAuthGuard, RequestContext, ResponseContext } from '../index';
+import { ConfigPreprocessor } from '../../../config/src/config-preprocessor';
+import { ClientKeyInfo } from '../../../config/src/routing-table-types';
+import { RouterPreprocessor } from '../../../router/src/router-preprocessor';
+import { RequestRouter } from '../../../router/src/request-router';
+
+function createContexts(headers: Record<string, string>, model: string = 'claude-sonnet-4-20250514'): { req: RequestContext; res: ResponseContext; raw: any } {
+  const req: RequestContext = {
+    id: 'req-client-auth',
+    startTime: new Date(),
+    method: 'POST',
+    url: '/v1/messages',
+    headers,
+    query: {},
+    params: {},
+    body: { model, max_tokens: 256, messages: [{ role: 'user', content: 'Hello' }] },
+    metadata: {}
+  };
+  const raw = { headersSent: false, statusCode: 200, headers: {} as Record<string, any>, body: '' };
+  (raw as any).setHeader = (key: string, value: any) => { raw.headers[key] = value; };
+  (raw as any).end = (body: string) => { raw.body = body; };
+  const res: ResponseContext = { req, statusCode: 200, headers: {}, sent: false, _originalResponse: raw };
+  return { req, res, raw };
+}
+
+describe('Client authentication', () => {
+  let configPath: string;
+
+  function writeConfig(extra: Record<string, any>): void {
+    fs.writeFileSync(configPath, JSON.stringify({
+      Providers: [{ name: 'lmstudio', api_base_url: 'http://localhost:1234/v1', api_key: 'lm-studio', models: ['qwen3-coder'] }],
+      router: { default: 'lmstudio,qwen3-coder' },
+      server: { port: 5506, host: '0.0.0.0' },
+      ...extra
+    }));
+  }
+
+  beforeEach(() => {
+    configPath = path.join(os.tmpdir(), `rcc-client-auth-${process.pid}.json`);
+  });
+
+  afterEach(() => {
+    fs.rmSync(configPath, { force: true });
+  });
+
+  async function loadClientKeys(extra: Record<string, any>): Promise<{ clientKeys: ClientKeyInfo[]; router: RequestRouter }> {
+    writeConfig(extra);
+    const configResult = await ConfigPreprocessor.preprocess(configPath);
+    expect(configResult.success).toBe(true);
+    const routerResult = await RouterPreprocessor.preprocess(configResult.routingTable!);
+    return { clientKeys: configResult.routingTable!.clientKeys!, router: new RequestRouter(routerResult.routingTable!) };
+  }
+
+  it('should turn APIKEY and clientKeys into named client keys', async () => {
+    const { clientKeys } = await loadClientKeys({
+      APIKEY: 'rcc4-proxy-key',
+      clientKeys: [{ name: 'ci', key: 'rcc4-ci-key', routes: ['default'], models: ['claude-3-5-haiku'], expiresAt: '2030-01-01' }]
+    });
+
+    expect(clientKeys).toEqual([
+      { name: 'default', key: 'rcc4-proxy-key' },
+      { name: 'ci', key: 'rcc4-ci-key', routes: ['default'], models: ['claude-3-5-haiku'], expiresAt: '2030-01-01T00:00:00.000Z' }
+    ]);
+  });
+
+  it('should reject a config with an unparseable expiry or duplicate key names', async () => {
+    writeConfig({ clientKeys: [{ name: 'ci', key: 'rcc4-ci-key', expiresAt: 'next tuesday' }] });
+    const invalidExpiry = await ConfigPreprocessor.preprocess(configPath);
+    expect(invalidExpiry.success).toBe(false);
+    expect(invalidExpiry.error!.message).toContain("Client key 'ci' has an invalid expiresAt");
+
+    writeConfig({ APIKEY: 'rcc4-proxy-key', clientKeys: [{ name: 'default', key: 'other' }] });
+    const duplicate = await ConfigPreprocessor.preprocess(configPath);
+    expect(duplicate.success).toBe(false);
+    expect(duplicate.error!.message).toContain("Duplicate client key name 'default'");
+  });
+
+  it('should accept x-api-key and Bearer keys and reject missing, wrong and expired keys', async () => {
+    const guard = new ClientAuthGuard([
+      { name: 'default', key: 'rcc4-proxy-key' },
+      { name: 'laptop', key: 'rcc4-laptop-key', expiresAt: '2030-01-01T00:00:00.000Z' },
+      { name: 'old', key: 'rcc4-old-key', expiresAt: '2020-01-01T00:00:00.000Z' }
+    ]);
+
+    const anthropicClient = createContexts({ 'x-api-key': 'rcc4-proxy-key' });
+    expect(await guard.authenticate(anthropicClient.req, anthropicClient.res)).toBe(true);
+    expect(anthropicClient.req.metadata.client).toEqual({ name: 'default' });
+
+    const openaiClient = createContexts({ authorization: 'Bearer rcc4-laptop-key' });
+    expect(await guard.authenticate(openaiClient.req, openaiClient.res)).toBe(true);
+    expect(openaiClient.req.metadata.client).toEqual({ name: 'laptop', expiresAt: '2030-01-01T00:00:00.000Z' });
+
+    for (const headers of [{}, { 'x-api-key': 'rcc4-proxy-kex' }, { authorization: 'rcc4-proxy-key' }]) {
+      const { req, res } = createContexts(headers);
+      expect(await guard.authenticate(req, res)).toBe(false);
+      expect(res.statusCode).toBe(401);
+      expect(res.body.error.type).toBe('authentication_error');
+      expect(req.metadata.client).toBeUndefined();
+    }
+
+    const expired = createContexts({ 'x-api-key': 'rcc4-old-key' });
+    expect(await guard.authenticate(expired.req, expired.res)).toBe(false);
+    expect(expired.res.body.error.message).toContain("API key 'old' expired");
+  });
+
+  it('should not authenticate when no client keys are configured', async () => {
+    const { req, res } = createContexts({});
+
+    expect(await new ClientAuthGuard([]).authenticate(req, res)).toBe(true);
+    expect(res.statusCode).toBe(200);
+  });
+
+  it('should enforce the routes and models a client key is limited to', async () => {
+    const { clientKeys, router } = await loadClientKeys({
+      APIKEY: 'rcc4-proxy-key',
+      clientKeys: [
+        { name: 'haiku-only', key: 'rcc4-haiku-key', models: ['claude-3-5-haiku'] },
+        { name: 'background-only', key: 'rcc4-background-key', routes: ['background'] }
+      ]
+    });
+    const guard = new ClientAuthGuard(clientKeys);
+    const pipeline: AssembledPipeline = {
+      id: router.getRoutes('default')[0].pipelineId,
+      provider: 'lmstudio',
+      model: 'qwen3-coder',
+      layers: [],
+      execute: jest.fn(async () => ({ statusCode: 200, responseBody: { id: 'msg_ok' } }))
+    };
+    const handler = new AnthropicMessageHandlerImpl([pipeline], true);
+    handler.setRequestRouter(router);
+
+    try {
+      const send = async (key: string, model?: string) => {
+        const contexts = createContexts({ 'x-api-key': key }, model);
+        expect(await guard.authenticate(contexts.req, contexts.res)).toBe(true);
+        await handler.handleAnthropicMessages(contexts.req, contexts.res);
+        return contexts;
+      };
+
+      const allowedModel = await send('rcc4-haiku-key', 'claude-3-5-haiku');
+      expect(allowedModel.res.body).toEqual({ id: 'msg_ok' });
+
+      const deniedModel = await send('rcc4-haiku-key');
+      expect(deniedModel.raw.statusCode).toBe(403);
+      expect(JSON.parse(deniedModel.raw.body).error.type).toBe('permission_error');
+
+      const deniedRoute = await send('rcc4-background-key');
+      expect(deniedRoute.raw.statusCode).toBe(403);
+
+      const unrestricted = await send('rcc4-proxy-key');
+      expect(unrestricted.res.body).toEqual({ id: 'msg_ok' });
+      expect(pipeline.execute).toHaveBeenCalledTimes(2);
+    } finally {
+      await handler.stop();
+    }
+  });
+});
@@ -0,0 +1,258 @@
+/**
+ * 客户端限流和用量预算测试
+ *
+ * 验证limits区的解析和校验、每分钟请求数和并发数限制、超限时Anthropic/OpenAI格式的429响应和Retry-After，
+ * 以及每日token和每月花费按响应用量（含流式）累计并在重启后保留；
+ * 通过HTTPServer验证流式请求在客户端断开时释放并发名额
+ *
+ * @author RCC v4.0
+ */
+
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import { ClientRateLimiter, HTTPServer, LimitedClientKeyConfig, RequestContext, ResponseContext } from '../index';
+import { ConfigPreprocessor } from '../../../config/src/config-preprocessor';
+import { RouterPreprocessor } from '../../../router/src/router-preprocessor';
+import { RequestRouter } from '../../../router/src/request-router';
+
+function createContexts(clientName: string): { req: RequestContext; res: ResponseContext } {
+  const req: RequestContext = {
+    id: `req-${clientName}`,
+    startTime: new Date(),
+    method: 'POST',
+    url: '/v1/messages',
+    headers: {},
+    query: {},
+    params: {},
+    body: { model: 'claude-sonnet-4-20250514', messages: [{ role: 'user', content: 'Hello' }] },
+    metadata: { client: { name: clientName } }
+  };
+  const res: ResponseContext = { req, statusCode: 200, headers: {}, sent: false };
+  return { req, res };
+}
+
+describe('ClientRateLimiter', () => {
+  let dir: string;
+  let budgetFile: string;
+  let now: number;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'rcc-client-limits-'));
+    budgetFile = path.join(dir, 'client-budgets.json');
+    now = Date.UTC(2026, 9, 19, 12, 0, 0);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function createLimiter(clientKeys: LimitedClientKeyConfig[], price?: { input: number; output: number }): ClientRateLimiter {
+    return new ClientRateLimiter(clientKeys, { budgetFile, now: () => now, getPipelinePrice: () => price });
+  }
+
+  it('should parse client key limits and reject invalid values', async () => {
+    const configPath = path.join(dir, 'config.json');
+    const writeConfig = (limits: any) => fs.writeFileSync(configPath, JSON.stringify({
+      Providers: [{ name: 'lmstudio', api_base_url: 'http://localhost:1234/v1', api_key: 'lm-studio', models: ['qwen3-coder'] }],
+      router: { default: 'lmstudio,qwen3-coder' },
+      clientKeys: [{ name: 'agent', key: 'rcc4-agent-key', limits }]
+    }));
+
+    writeConfig({ requestsPerMinute: 30, maxConcurrentRequests: 2, tokensPerDay: 1000000, monthlySpendLimit: 12.5 });
+    const result = await ConfigPreprocessor.preprocess(configPath);
+    expect(result.routingTable!.clientKeys![0].limits).toEqual({ requestsPerMinute: 30, maxConcurrentRequests: 2, tokensPerDay: 1000000, monthlySpendLimit: 12.5 });
+
+    writeConfig({ requestsPerMinute: 1.5 });
+    const invalid = await ConfigPreprocessor.preprocess(configPath);
+    expect(invalid.success).toBe(false);
+    expect(invalid.error!.message).toContain("Client key 'agent' has an invalid limits.requestsPerMinute: 1.5");
+  });
+
+  it('should limit requests per minute with an Anthropic rate_limit_error and Retry-After', () => {
+    const limiter = createLimiter([{ name: 'agent', key: 'k', limits: { requestsPerMinute: 2 } }]);
+
+    for (let i = 0; i < 2; i++) {
+      const { req, res } = createContexts('agent');
+      expect(limiter.admit(req, res, 'anthropic')).toBe(true);
+      limiter.complete(req, res);
+      now += 10000;
+    }
+
+    const limited = createContexts('agent');
+    expect(limiter.admit(limited.req, limited.res, 'anthropic')).toBe(false);
+    expect(limited.res.statusCode).toBe(429);
+    expect(limited.res.headers['Retry-After']).toBe('40');
+    expect(limited.res.body).toEqual({
+      type: 'error',
+      error: { type: 'rate_limit_error', message: "Client key 'agent' exceeded 2 requests per minute" }
+    });
+
+    // 其他客户端和未配置limits的客户端不受影响
+    expect(limiter.admit(createContexts('other').req, createContexts('other').res, 'anthropic')).toBe(true);
+
+    now += 40000;
+    expect(limiter.admit(createContexts('agent').req, createContexts('agent').res, 'anthropic')).toBe(true);
+  });
+
+  it('should limit concurrent requests with an OpenAI 429 until a request completes', () => {
+    const limiter = createLimiter([{ name: 'agent', key: 'k', limits: { maxConcurrentRequests: 1 } }]);
+    const first = createContexts('agent');
+    expect(limiter.admit(first.req, first.res, 'openai')).toBe(true);
+
+    const second = createContexts('agent');
+    expect(limiter.admit(second.req, second.res, 'openai')).toBe(false);
+    expect(second.res.statusCode).toBe(429);
+    expect(second.res.headers['Retry-After']).toBe('1');
+    expect(second.res.body.error.type).toBe('rate_limit_error');
+
+    limiter.complete(first.req, first.res);
+    limiter.complete(first.req, first.res);
+    const third = createContexts('agent');
+    expect(limiter.admit(third.req, third.res, 'openai')).toBe(true);
+    expect(limiter.admit(createContexts('agent').req, createContexts('agent').res, 'openai')).toBe(false);
+  });
+
+  it('should enforce the daily token budget from streamed usage and keep it across restarts', async () => {
+    const clientKeys = [{ name: 'agent', key: 'k', limits: { maxConcurrentRequests: 1, tokensPerDay: 1000 } }];
+    const limiter = createLimiter(clientKeys);
+
+    const { req, res } = createContexts('agent');
+    expect(limiter.admit(req, res, 'anthropic')).toBe(true);
+    res.body = {
+      object: 'stream',
+      stream: (async function* () {
+        yield { type: 'message_start', message: { usage: { input_tokens: 700, output_tokens: 1 } } };
+        yield { type: 'message_delta', usage: { output_tokens: 300 } };
+        yield { type: 'message_stop' };
+      })()
+    };
+    limiter.complete(req, res);
+
+    // 流结束前仍占用并发名额
+    expect(limiter.admit(createContexts('agent').req, createContexts('agent').res, 'anthropic')).toBe(false);
+    for await (const _event of res.body.stream) {
+      // 消费完整个流
+    }
+
+    // 预算按间隔批量写盘，stop()时写入
+    expect(fs.existsSync(budgetFile)).toBe(false);
+    limiter.stop();
+    const restarted = createLimiter(clientKeys);
+    expect(restarted.getUsage('agent')).toMatchObject({ day: '2026-10-19', tokens: 1000 });
+    const limited = createContexts('agent');
+    expect(restarted.admit(limited.req, limited.res, 'anthropic')).toBe(false);
+    expect(limited.res.body.error.message).toContain('daily budget of 1000 tokens');
+    expect(limited.res.headers['Retry-After']).toBe(String(12 * 3600));
+
+    now = Date.UTC(2026, 9, 20, 0, 0, 1);
+    expect(restarted.admit(createContexts('agent').req, createContexts('agent').res, 'anthropic')).toBe(true);
+  });
+
+  it('should stop a client at its monthly spend limit computed from model prices', () => {
+    const limiter = createLimiter([{ name: 'agent', key: 'k', limits: { monthlySpendLimit: 1 } }], { input: 3, output: 15 });
+
+    const { req, res } = createContexts('agent');
+    expect(limiter.admit(req, res, 'openai')).toBe(true);
+    res.headers['X-Pipeline-ID'] = 'anthropic-claude-sonnet-4-key0';
+    res.body = { id: 'chatcmpl-1', usage: { prompt_tokens: 100000, completion_tokens: 50000 } };
+    limiter.complete(req, res);
+
+    expect(limiter.getUsage('agent')).toMatchObject({ month: '2026-10', tokens: 150000, spend: 1.05 });
+    const limited = createContexts('agent');
+    expect(limiter.admit(limited.req, limited.res, 'openai')).toBe(false);
+    expect(limited.res.body).toEqual({ error: { message: "Client key 'agent' reached its monthly spend limit of $1", type: 'rate_limit_error' } });
+    expect(limited.res.headers['Retry-After']).toBe(String((12 * 24 + 12) * 3600));
+  });
+});
+
+describe('ClientRateLimiter through HTTPServer', () => {
+  let dir: string;
+  let server: HTTPServer;
+  let port: number;
+  let previousHome: string | undefined;
+
+  function postMessages(): Promise<{ statusCode: number; firstChunk?: string }> {
+    return new Promise((resolve, reject) => {
+      const body = JSON.stringify({ model: 'qwen3-coder', max_tokens: 64, stream: true, messages: [{ role: 'user', content: 'Hello' }] });
+      const request = http.request({
+        host: '127.0.0.1', port, method: 'POST', path: '/v1/messages',
+        headers: { 'content-type': 'application/json', 'x-api-key': 'rcc4-agent-key', 'content-length': Buffer.byteLength(body) }
+      }, res => {
+        if (res.statusCode !== 200) {
+          res.resume();
+          res.on('end', () => resolve({ statusCode: res.statusCode! }));
+          return;
+        }
+        // 流式响应：收到响应头后立即断开
+        request.destroy();
+        resolve({ statusCode: res.statusCode! });
+      });
+      request.on('error', error => {
+        if ((error as any).code !== 'ECONNRESET') {
+          reject(error);
+        }
+      });
+      request.end(body);
+    });
+  }
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'rcc-client-limits-http-'));
+    previousHome = process.env.ROUTE_CLADEC_HOME;
+    process.env.ROUTE_CLADEC_HOME = dir;
+
+    const configPath = path.join(dir, 'config.json');
+    fs.writeFileSync(configPath, JSON.stringify({
+      Providers: [{ name: 'lmstudio', api_base_url: 'http://localhost:1234/v1', api_key: 'lm-studio', models: ['qwen3-coder'] }],
+      router: { default: 'lmstudio,qwen3-coder' },
+      clientKeys: [{ name: 'agent', key: 'rcc4-agent-key', limits: { maxConcurrentRequests: 1 } }]
+    }));
+    const configResult = await ConfigPreprocessor.preprocess(configPath);
+    const routerResult = await RouterPreprocessor.preprocess(configResult.routingTable!);
+    const routes = new RequestRouter(routerResult.routingTable!).getRoutes('default');
+
+    server = new HTTPServer({ port: 0, host: '127.0.0.1', debug: false });
+    server.setRoutingTable(routerResult.routingTable!);
+    // 上游接受请求后迟迟不返回第一个事件
+    server.setPipelines(routes.map(route => ({
+      id: route.pipelineId,
+      provider: 'lmstudio',
+      model: 'qwen3-coder',
+      layers: [],
+      execute: async () => ({
+        statusCode: 200,
+        responseBody: {
+          object: 'stream',
+          stream: (async function* () {
+            await new Promise(resolve => setTimeout(resolve, 60000).unref());
+            yield { type: 'message_stop' };
+          })()
+        }
+      })
+    })) as any, true);
+    server.setClientKeys(configResult.routingTable!.clientKeys!);
+    await server.start();
+    port = ((server as any).server.address() as AddressInfo).port;
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    if (previousHome === undefined) {
+      delete process.env.ROUTE_CLADEC_HOME;
+    } else {
+      process.env.ROUTE_CLADEC_HOME = previousHome;
+    }
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should release the concurrency slot of a streamed request when the client disconnects', async () => {
+    expect((await postMessages()).statusCode).toBe(200);
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    // 上游流仍未产出事件，名额已随连接关闭释放
+    expect((await postMessages()).statusCode).toBe(200);
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Token计数端点测试
+ *
+ * 验证POST /v1/messages/count_tokens的请求校验、按路由Provider选择Tokenizer和Anthropic响应格式
+ *
+ * @author RCC v4.0
+ */
+
+import { HTTPRoutingSystemImpl, CountTokensHandlerImpl, RequestContext, ResponseContext } from '../index';
+import { RouterPreprocessor } from '../../../router/src/router-preprocessor';
+import { RequestRouter } from '../../../router/src/request-router';
+import { estimateRequestTokens } from '../../../router/src/token-estimator';
+
+function createContexts(body: any): { req: RequestContext; res: ResponseContext } {
+  const req: RequestContext = {
+    id: 'req-test',
+    startTime: new Date(),
+    method: 'POST',
+    url: '/v1/messages/count_tokens',
+    headers: { 'anthropic-version': '2023-06-01' },
+    query: {},
+    params: {},
+    body,
+    metadata: {}
+  };
+  const res: ResponseContext = { req, statusCode: 200, headers: {}, sent: false };
+  return { req, res };
+}
+
+describe('Count Tokens Endpoint', () => {
+  let routingSystem: HTTPRoutingSystemImpl;
+
+  const request = {
+    model: 'claude-sonnet-4-20250514',
+    system: 'You are a careful assistant.',
+    messages: [{ role: 'user', content: 'Summarize the history of the printing press in 3 sentences.' }]
+  };
+
+  beforeAll(async () => {
+    const result = await RouterPreprocessor.preprocess({
+      providers: [
+        {
+          name: 'lmstudio',
+          api_base_url: 'http://localhost:1234/v1',
+          api_key: 'lm-studio',
+          models: ['qwen/qwen3-coder']
+        },
+        {
+          name: 'gemini',
+          api_base_url: 'https://generativelanguage.googleapis.com/v1beta',
+          api_key: 'AIza-test-key',
+          protocol: 'gemini',
+          models: ['gemini-2.5-pro']
+        }
+      ],
+      routes: {
+        default: 'lmstudio,qwen/qwen3-coder',
+        longContext: 'gemini,gemini-2.5-pro'
+      },
+      server: { port: 5506, host: '127.0.0.1' },
+      apiKey: 'rcc4-proxy-key'
+    });
+
+    const handler = new CountTokensHandlerImpl();
+    handler.setRequestRouter(new RequestRouter(result.routingTable!));
+
+    routingSystem = new HTTPRoutingSystemImpl();
+    routingSystem.addRoute('POST', '/v1/messages/count_tokens', (req, res) => handler.handleCountTokens(req, res));
+  });
+
+  test('should return input_tokens estimated with the routed provider family', async () => {
+    const { req, res } = createContexts(request);
+    await routingSystem.executeRoute(req, res);
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body).toEqual({ input_tokens: estimateRequestTokens(request, { family: 'openai' }).inputTokens });
+    expect(res.headers['X-Token-Estimator']).toBe('bpe-default');
+
+    const gemini = createContexts({ ...request, model: 'gemini,gemini-2.5-pro' });
+    await routingSystem.executeRoute(gemini.req, gemini.res);
+
+    expect(gemini.res.headers['X-Token-Estimator']).toBe('bpe-gemini');
+    expect(gemini.res.body.input_tokens).toBeGreaterThan(0);
+  });
+
+  test('should reject requests that fail Anthropic input validation', async () => {
+    const { req, res } = createContexts({ model: 'claude-sonnet-4-20250514', messages: [] });
+    await routingSystem.executeRoute(req, res);
+
+    expect(res.statusCode).toBe(400);
+    expect(res.body).toEqual({
+      type: 'error',
+      error: { type: 'invalid_request_error', message: 'Messages must be a non-empty array' }
+    });
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * 模型列表端点测试
+ *
+ * 验证GET /v1/models和GET /v1/models/{model}由路由表生成Anthropic/OpenAI两种格式，
+ * 限定了路由类别或模型的客户端密钥只能看到可请求的条目
+ *
+ * @author RCC v4.0
+ */
+
+import { AuthenticatedClient, HTTPRoutingSystemImpl, ModelsHandlerImpl, RequestContext, ResponseContext } from '../index';
+import { RouterPreprocessor } from '../../../router/src/router-preprocessor';
+import { RequestRouter } from '../../../router/src/request-router';
+
+function createContexts(
+  url: string,
+  headers: Record<string, string> = {},
+  query: Record<string, string> = {},
+  client?: AuthenticatedClient
+): { req: RequestContext; res: ResponseContext } {
+  const req: RequestContext = {
+    id: 'req-test',
+    startTime: new Date(),
+    method: 'GET',
+    url,
+    headers,
+    query,
+    params: {},
+    metadata: client ? { client } : {}
+  };
+  const res: ResponseContext = { req, statusCode: 200, headers: {}, sent: false };
+  return { req, res };
+}
+
+describe('Models Endpoint', () => {
+  let routingSystem: HTTPRoutingSystemImpl;
+
+  beforeAll(async () => {
+    const result = await RouterPreprocessor.preprocess({
+      providers: [
+        {
+          name: 'lmstudio',
+          api_base_url: 'http://localhost:1234/v1',
+          api_key: 'lm-studio',
+          maxTokens: 32768,
+          models: ['qwen/qwen3-coder', { name: 'llava', maxTokens: 8192, capabilities: ['multimodal'] }]
+        },
+        {
+          name: 'gemini',
+          api_base_url: 'https://generativelanguage.googleapis.com/v1beta',
+          api_key: 'AIza-test-key',
+          protocol: 'gemini',
+          models: [{ name: 'gemini-2.5-pro', maxTokens: 1048576, capabilities: ['multimodal', 'tools'] }]
+        }
+      ],
+      routes: {
+        default: 'lmstudio,qwen/qwen3-coder',
+        longContext: 'gemini,gemini-2.5-pro;lmstudio,qwen/qwen3-coder'
+      },
+      server: { port: 5506, host: '127.0.0.1' },
+      apiKey: 'rcc4-proxy-key'
+    });
+
+    const modelsHandler = new ModelsHandlerImpl();
+    modelsHandler.setRequestRouter(new RequestRouter(result.routingTable!));
+
+    routingSystem = new HTTPRoutingSystemImpl();
+    routingSystem.addRoute('GET', '/v1/models', (req, res) => modelsHandler.handleListModels(req, res));
+    routingSystem.addRoute('GET', '/v1/models/*model', (req, res) => modelsHandler.handleGetModel(req, res));
+  });
+
+  test('should list route categories and configured models in OpenAI format', async () => {
+    const { req, res } = createContexts('/v1/models');
+    await routingSystem.executeRoute(req, res);
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body.object).toBe('list');
+    expect(res.body.data.map((model: any) => model.id)).toEqual([
+      'default',
+      'longContext',
+      'lmstudio,qwen/qwen3-coder',
+      'lmstudio,llava',
+      'gemini,gemini-2.5-pro'
+    ]);
+
+    const longContext = res.body.data[1];
+    expect(longContext.object).toBe('model');
+    expect(longContext.owned_by).toBe('rcc');
+    expect(longContext.rcc).toEqual({ type: 'route', targets: ['gemini,gemini-2.5-pro', 'lmstudio,qwen/qwen3-coder'] });
+
+    expect(res.body.data[2].rcc.maxTokens).toBe(32768);
+    expect(res.body.data[3].rcc).toEqual({
+      type: 'model',
+      provider: 'lmstudio',
+      model: 'llava',
+      maxTokens: 8192,
+      capabilities: ['multimodal']
+    });
+    expect(res.body.data[4].owned_by).toBe('gemini');
+    expect(res.body.data[4].rcc.protocol).toBe('gemini');
+  });
+
+  test('should use the Anthropic format when the anthropic-version header is present', async () => {
+    const { req, res } = createContexts('/v1/models', { 'anthropic-version': '2023-06-01' });
+    await routingSystem.executeRoute(req, res);
+
+    expect(res.body.has_more).toBe(false);
+    expect(res.body.first_id).toBe('default');
+    expect(res.body.last_id).toBe('gemini,gemini-2.5-pro');
+    expect(res.body.data[0]).toMatchObject({ type: 'model', id: 'default', display_name: 'RCC route: default' });
+    expect(typeof res.body.data[0].created_at).toBe('string');
+  });
+
+  test('should retrieve a single model including ids that contain slashes', async () => {
+    const { req, res } = createContexts('/v1/models/lmstudio,qwen%2Fqwen3-coder');
+    await routingSystem.executeRoute(req, res);
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body.id).toBe('lmstudio,qwen/qwen3-coder');
+
+    const slashed = createContexts('/v1/models/lmstudio,qwen/qwen3-coder', {}, { format: 'anthropic' });
+    await routingSystem.executeRoute(slashed.req, slashed.res);
+
+    expect(slashed.res.body.type).toBe('model');
+    expect(slashed.res.body.id).toBe('lmstudio,qwen/qwen3-coder');
+  });
+
+  test('should only list the routes and models a restricted client key may request', async () => {
+    const routeRestricted = createContexts('/v1/models', {}, {}, { name: 'long-context-only', allowedRoutes: ['longContext'] });
+    await routingSystem.executeRoute(routeRestricted.req, routeRestricted.res);
+
+    // lmstudio,qwen/qwen3-coder先出现在default路由，lmstudio,llava未被路由引用而落到default
+    expect(routeRestricted.res.body.data.map((model: any) => model.id)).toEqual(['longContext', 'gemini,gemini-2.5-pro']);
+
+    const modelRestricted = createContexts('/v1/models', { 'anthropic-version': '2023-06-01' }, {}, { name: 'default-only', allowedModels: ['default'] });
+    await routingSystem.executeRoute(modelRestricted.req, modelRestricted.res);
+
+    expect(modelRestricted.res.body.data.map((model: any) => model.id)).toEqual(['default']);
+    expect(modelRestricted.res.body.last_id).toBe('default');
+
+    const hidden = createContexts('/v1/models/gemini,gemini-2.5-pro', {}, {}, { name: 'default-only', allowedModels: ['default'] });
+    await routingSystem.executeRoute(hidden.req, hidden.res);
+
+    expect(hidden.res.statusCode).toBe(404);
+  });
+
+  test('should return 404 in the requested format for unknown models', async () => {
+    const openai = createContexts('/v1/models/unknown-model');
+    await routingSystem.executeRoute(openai.req, openai.res);
+
+    expect(openai.res.statusCode).toBe(404);
+    expect(openai.res.body.error.code).toBe('model_not_found');
+
+    const anthropic = createContexts('/v1/models/unknown-model', { 'anthropic-version': '2023-06-01' });
+    await routingSystem.executeRoute(anthropic.req, anthropic.res);
+
+    expect(anthropic.res.statusCode).toBe(404);
+    expect(anthropic.res.body).toEqual({
+      type: 'error',
+      error: { type: 'not_found_error', message: "Model 'unknown-model' not found" }
+    });
+  });
+});
@@ -0,0 +1,293 @@
+/**
+ * 跨Provider回退链测试
+ *
+ * 验证/v1/messages和/v1/chat/completions在可重试错误时按路由回退链换用下一个流水线，
+ * 不可重试错误和已开始输出的响应不回退，尝试链写入响应头；
+ * 转换层或上游拒绝的请求以400返回，限流以429和Retry-After返回
+ *
+ * @author RCC v4.0
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AnthropicMessageHandlerImpl, AssembledPipeline, HTTPServer, RequestContext, ResponseContext } from '../index';
+import { ConfigPreprocessor } from '../../../config/src/config-preprocessor';
+import { RouterPreprocessor, _InternalRoutingTable } from '../../../router/src/router-preprocessor';
+import { RequestRouter } from '../../../router/src/request-router';
+import { RCCError, RCCErrorCode } from '../../../types/src/index';
+import { PipelineManager } from '../../../pipeline/src/pipeline-manager';
+import { SecureAnthropicToOpenAITransformer } from '../../../pipeline-modules/transformers/secure-anthropic-openai-transformer';
+
+function createContexts(headersSent: boolean = false): { req: RequestContext; res: ResponseContext; raw: any } {
+  const req: RequestContext = {
+    id: 'req-fallback',
+    startTime: new Date(),
+    method: 'POST',
+    url: '/v1/messages',
+    headers: {},
+    query: {},
+    params: {},
+    body: {
+      model: 'claude-sonnet-4-20250514',
+      max_tokens: 256,
+      messages: [{ role: 'user', content: 'Hello' }]
+    },
+    metadata: {}
+  };
+  const raw = { headersSent, statusCode: 200, headers: {} as Record<string, any>, body: '' };
+  (raw as any).setHeader = (key: string, value: any) => { raw.headers[key] = value; };
+  (raw as any).end = (body: string) => { raw.body = body; };
+  const res: ResponseContext = { req, statusCode: 200, headers: {}, sent: false, _originalResponse: raw };
+  return { req, res, raw };
+}
+
+// 与StartupService流水线执行器抛出的错误结构一致
+function executorError(upstream: Error): any {
+  const moduleFailure = new RCCError(`Module server failed during execution: ${upstream.message}`, RCCErrorCode.PIPELINE_EXECUTION_FAILED, 'pipeline', {
+    details: { originalError: upstream.message, cause: upstream }
+  });
+  return { statusCode: 500, responseBody: { error: { message: moduleFailure.message } }, originalError: moduleFailure };
+}
+
+describe('Cross-provider fallback chains', () => {
+  let configPath: string;
+  let routingTable: _InternalRoutingTable;
+  let router: RequestRouter;
+  let pipelineIds: string[];
+  let handler: AnthropicMessageHandlerImpl;
+
+  beforeAll(async () => {
+    configPath = path.join(os.tmpdir(), `rcc-fallback-config-${process.pid}.json`);
+    fs.writeFileSync(configPath, JSON.stringify({
+      Providers: [
+        { name: 'shuaihong', api_base_url: 'https://relay-a.example.com/v1', api_key: 'sk-relay-a', models: ['glm-4.5'] },
+        { name: 'shuaihong2', api_base_url: 'https://relay-b.example.com/v1', api_key: 'sk-relay-b', models: ['claude-3.5-sonnet'] }
+      ],
+      router: {
+        default: ['shuaihong,glm-4.5', 'shuaihong2,claude-3.5-sonnet']
+      },
+      loadBalancer: { strategy: 'round_robin' },
+      server: { port: 5506, host: '127.0.0.1' }
+    }));
+
+    const configResult = await ConfigPreprocessor.preprocess(configPath);
+    expect(configResult.success).toBe(true);
+    expect(configResult.routingTable!.routes.default).toBe('shuaihong,glm-4.5;shuaihong2,claude-3.5-sonnet');
+
+    const routerResult = await RouterPreprocessor.preprocess(configResult.routingTable!);
+    routingTable = routerResult.routingTable!;
+    router = new RequestRouter(routingTable);
+    pipelineIds = router.getRoutes('default').map(route => route.pipelineId);
+  });
+
+  afterAll(() => {
+    fs.unlinkSync(configPath);
+  });
+
+  afterEach(async () => {
+    await handler.stop();
+  });
+
+  function createHandler(executors: Array<(input: any) => Promise<any>>): AssembledPipeline[] {
+    const pipelines: AssembledPipeline[] = pipelineIds.map((id, index) => {
+      const [, provider, model] = /^pipeline_(.+?)_(.+)_\d+$/.exec(id)!;
+      return { id, provider, model, layers: [], execute: jest.fn(executors[index]) };
+    });
+
+    handler = new AnthropicMessageHandlerImpl(pipelines, true);
+    handler.setRequestRouter(router);
+    return pipelines;
+  }
+
+  it('should replay retryable upstream errors on the next pipeline in the chain', async () => {
+    const pipelines = createHandler([
+      async () => { throw executorError(new RCCError('Anthropic upstream HTTP 503: overloaded', RCCErrorCode.PROVIDER_UNAVAILABLE, 'anthropic-server')); },
+      async () => ({ statusCode: 200, responseBody: { id: 'msg_fallback', usage: { input_tokens: 10, output_tokens: 5 } } })
+    ]);
+
+    const { req, res } = createContexts();
+    await handler.handleAnthropicMessages(req, res);
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body).toEqual({ id: 'msg_fallback', usage: { input_tokens: 10, output_tokens: 5 } });
+    expect(res.headers['X-Pipeline-ID']).toBe(pipelines[1].id);
+    expect(res.headers['X-Attempt-Count']).toBe('2');
+    expect(res.headers['X-Attempt-Chain']).toBe(`${pipelines[0].id}:error,${pipelines[1].id}:success`);
+  });
+
+  it('should fall back on timeouts, connection resets and rate limits', async () => {
+    const upstreamErrors = [
+      new RCCError('Upstream request timed out after 60000ms', RCCErrorCode.NETWORK_TIMEOUT, 'gemini-server'),
+      new Error('socket hang up: ECONNRESET'),
+      new Error('HTTP 429: Rate limit reached for requests')
+    ];
+
+    for (const upstream of upstreamErrors) {
+      const pipelines = createHandler([
+        async () => { throw executorError(upstream); },
+        async () => ({ statusCode: 200, responseBody: { id: 'msg_ok' } })
+      ]);
+
+      const { req, res } = createContexts();
+      await handler.handleAnthropicMessages(req, res);
+
+      expect(res.body).toEqual({ id: 'msg_ok' });
+      expect(pipelines[1].execute).toHaveBeenCalledTimes(1);
+      await handler.stop();
+    }
+  });
+
+  it('should not fall back on client errors', async () => {
+    const pipelines = createHandler([
+      async () => { throw executorError(new RCCError('Anthropic upstream HTTP 400: invalid tool schema', RCCErrorCode.VALIDATION_ERROR, 'anthropic-server')); },
+      async () => ({ statusCode: 200, responseBody: { id: 'msg_unused' } })
+    ]);
+
+    const { req, res, raw } = createContexts();
+    await handler.handleAnthropicMessages(req, res);
+
+    expect(pipelines[1].execute).not.toHaveBeenCalled();
+    expect(raw.statusCode).toBeGreaterThanOrEqual(400);
+    expect(raw.headers['X-Attempt-Chain']).toBe(`${pipelines[0].id}:error`);
+  });
+
+  it('should return 400 when an image is sent to a pipeline without the multimodal capability', async () => {
+    const pipelineManager = new PipelineManager();
+    const transformer = new SecureAnthropicToOpenAITransformer();
+    const server: any = { getId: () => 'server', stop: jest.fn(async () => undefined), process: jest.fn(async () => ({ id: 'chatcmpl-unused' })) };
+    await transformer.start();
+    const [, provider, model] = /^pipeline_(.+?)_(.+)_\d+$/.exec(pipelineIds[0])!;
+    pipelineManager.addPipeline({
+      pipelineId: pipelineIds[0], routeId: 'default', routeName: 'default', provider, model,
+      endpoint: 'https://relay-a.example.com/v1', apiKey: 'sk-relay-a', timeout: 60000, maxRetries: 0,
+      modules: [
+        { name: 'transformer', type: 'transformer' as any, order: 0, config: { capabilities: [] }, instance: transformer, isInitialized: true, initializationTime: 0 },
+        { name: 'server', type: 'server' as any, order: 1, config: {}, instance: server, isInitialized: true, initializationTime: 0 }
+      ],
+      assemblyStatus: 'assembled', assemblyTime: 0, assemblyErrors: [], isActive: true, health: 'healthy'
+    });
+
+    const pipelines = createHandler([
+      async input => {
+        try {
+          return { statusCode: 200, responseBody: await pipelineManager.executePipelineOrThrow(pipelineIds[0], input.body) };
+        } catch (error) {
+          throw { statusCode: 500, responseBody: { error: { message: (error as Error).message } }, originalError: error };
+        }
+      },
+      async () => ({ statusCode: 200, responseBody: { id: 'msg_unused' } })
+    ]);
+
+    try {
+      const { req, res, raw } = createContexts();
+      req.body.messages[0].content = [
+        { type: 'text', text: 'What is in this screenshot?' },
+        { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'iVBORw0KGgo=' } }
+      ];
+      await handler.handleAnthropicMessages(req, res);
+
+      expect(raw.statusCode).toBe(400);
+      expect(JSON.parse(raw.body).error.type).toBe('validation_error');
+      expect(server.process).not.toHaveBeenCalled();
+      expect(pipelines[1].execute).not.toHaveBeenCalled();
+    } finally {
+      await pipelineManager.destroy();
+      await transformer.stop();
+    }
+  });
+
+  it('should never fall back once the response has started streaming', async () => {
+    const pipelines = createHandler([
+      async () => { throw executorError(new Error('socket hang up')); },
+      async () => ({ statusCode: 200, responseBody: { id: 'msg_unused' } })
+    ]);
+
+    const { req, res } = createContexts(true);
+    await handler.handleAnthropicMessages(req, res);
+
+    expect(pipelines[1].execute).not.toHaveBeenCalled();
+  });
+
+  async function runChatCompletion(
+    executors: Array<(input: any) => Promise<any>>,
+    prepare?: (server: HTTPServer) => void
+  ): Promise<{ pipelines: AssembledPipeline[]; res: ResponseContext }> {
+    const previousHome = process.env.ROUTE_CLADEC_HOME;
+    process.env.ROUTE_CLADEC_HOME = fs.mkdtempSync(path.join(os.tmpdir(), 'rcc-fallback-home-'));
+    const pipelines = createHandler(executors);
+    const server = new HTTPServer({ port: 0, host: '127.0.0.1', debug: false });
+    server.setRoutingTable(routingTable);
+    server.setPipelines(pipelines, true);
+    prepare?.(server);
+
+    try {
+      const { req, res } = createContexts();
+      req.url = '/v1/chat/completions';
+      req.body = { model: 'claude-sonnet-4-20250514', messages: [{ role: 'user', content: 'Hello' }] };
+      await (server as any).handleChatCompletions(req, res);
+      return { pipelines, res };
+    } finally {
+      await server.stop();
+      fs.rmSync(process.env.ROUTE_CLADEC_HOME!, { recursive: true, force: true });
+      if (previousHome === undefined) {
+        delete process.env.ROUTE_CLADEC_HOME;
+      } else {
+        process.env.ROUTE_CLADEC_HOME = previousHome;
+      }
+    }
+  }
+
+  it('should replay retryable upstream errors for OpenAI chat completions', async () => {
+    const { pipelines, res } = await runChatCompletion([
+      async () => { throw executorError(new Error('socket hang up: ECONNRESET')); },
+      async () => ({ statusCode: 200, responseBody: { id: 'chatcmpl-fallback', object: 'chat.completion' } })
+    ]);
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body).toEqual({ id: 'chatcmpl-fallback', object: 'chat.completion' });
+    expect(res.headers['X-Pipeline-ID']).toBe(pipelines[1].id);
+    expect(res.headers['X-Attempt-Chain']).toBe(`${pipelines[0].id}:error,${pipelines[1].id}:success`);
+  });
+
+  it('should return 429 with Retry-After when every chat completions pipeline is rate limited', async () => {
+    const rateLimited = () => executorError(new RCCError('OpenAI upstream HTTP 429: Rate limit reached', RCCErrorCode.PROVIDER_RATE_LIMITED, 'openai-server', {
+      details: { statusCode: 429, retryAfterMs: 30000 }
+    }));
+    const { pipelines, res } = await runChatCompletion([
+      async () => { throw rateLimited(); },
+      async () => { throw rateLimited(); }
+    ]);
+
+    expect(res.statusCode).toBe(429);
+    expect(res.headers['Retry-After']).toBe('30');
+    expect(res.body.error.type).toBe('rate_limit_error');
+    expect(res.headers['X-Attempt-Chain']).toBe(`${pipelines[0].id}:error,${pipelines[1].id}:error`);
+  });
+
+  it('should return 429 with Retry-After when every API key of the route is cooling down', async () => {
+    const { pipelines, res } = await runChatCompletion([
+      async () => ({ statusCode: 200, responseBody: { id: 'chatcmpl-unused' } }),
+      async () => ({ statusCode: 200, responseBody: { id: 'chatcmpl-unused' } })
+    ], server => {
+      jest.spyOn((server as any).anthropicHandler, 'executeWithFallback').mockRejectedValue(
+        new RCCError('All API keys are cooling down', RCCErrorCode.RATE_LIMIT_ERROR, 'api-key-pool', { details: { retryAfterMs: 4500 } })
+      );
+    });
+
+    expect(res.statusCode).toBe(429);
+    expect(res.headers['Retry-After']).toBe('5');
+    expect(pipelines[0].execute).not.toHaveBeenCalled();
+  });
+
+  it('should return 400 for chat completions rejected by the upstream as invalid', async () => {
+    const { pipelines, res } = await runChatCompletion([
+      async () => { throw executorError(new RCCError('OpenAI upstream HTTP 400: invalid tool schema', RCCErrorCode.VALIDATION_ERROR, 'openai-server')); },
+      async () => ({ statusCode: 200, responseBody: { id: 'chatcmpl-unused' } })
+    ]);
+
+    expect(res.statusCode).toBe(400);
+    expect(res.body.error.type).toBe('validation_error');
+    expect(pipelines[1].execute).not.toHaveBeenCalled();
+  });
+});
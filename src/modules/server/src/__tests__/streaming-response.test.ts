@@ -0,0 +1,137 @@
+/**
+ * HTTP流式响应测试
+ *
+ * 通过真实HTTP请求验证流式响应体按SSE帧实时写出、上游出错时写出error事件，
+ * 以及客户端断开时停止读取并关闭上游流
+ *
+ * @author RCC v4.0
+ */
+
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { HTTPServer } from '../index';
+
+interface SSEFrame {
+  event?: string;
+  data: any;
+}
+
+function parseSSEFrames(text: string): SSEFrame[] {
+  return text.split('\n\n').filter(block => block.trim()).map(block => {
+    const frame: SSEFrame = { data: undefined };
+    for (const line of block.split('\n')) {
+      if (line.startsWith('event: ')) {
+        frame.event = line.slice('event: '.length);
+      } else if (line.startsWith('data: ')) {
+        frame.data = JSON.parse(line.slice('data: '.length));
+      }
+    }
+    return frame;
+  });
+}
+
+function get(port: number, path: string): Promise<{ statusCode: number; headers: http.IncomingHttpHeaders; body: string }> {
+  return new Promise((resolve, reject) => {
+    http.get({ host: '127.0.0.1', port, path }, res => {
+      let body = '';
+      res.setEncoding('utf8');
+      res.on('data', chunk => { body += chunk; });
+      res.on('end', () => resolve({ statusCode: res.statusCode!, headers: res.headers, body }));
+    }).on('error', reject);
+  });
+}
+
+describe('HTTPServer streaming responses', () => {
+  let server: HTTPServer;
+  let port: number;
+
+  beforeEach(async () => {
+    server = new HTTPServer({ port: 0, host: '127.0.0.1', debug: false });
+    await server.start();
+    port = ((server as any).server.address() as AddressInfo).port;
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  it('should write each streamed event as an SSE frame', async () => {
+    server.addRoute('GET', '/test/stream', async (req: any, res: any) => {
+      res.body = {
+        object: 'stream',
+        stream: (async function* () {
+          yield { type: 'message_start', message: { id: 'msg_1' } };
+          yield { type: 'content_block_delta', delta: { type: 'text_delta', text: 'Hi' } };
+          yield { type: 'message_stop' };
+        })()
+      };
+    });
+
+    const response = await get(port, '/test/stream');
+    expect(response.statusCode).toBe(200);
+    expect(response.headers['content-type']).toBe('text/event-stream');
+    expect(parseSSEFrames(response.body)).toEqual([
+      { event: 'message_start', data: { type: 'message_start', message: { id: 'msg_1' } } },
+      { event: 'content_block_delta', data: { type: 'content_block_delta', delta: { type: 'text_delta', text: 'Hi' } } },
+      { event: 'message_stop', data: { type: 'message_stop' } }
+    ]);
+  });
+
+  it('should end the stream with an error event when the upstream fails midway', async () => {
+    server.addRoute('GET', '/test/stream', async (req: any, res: any) => {
+      res.body = {
+        object: 'stream',
+        stream: (async function* () {
+          yield { type: 'message_start', message: { id: 'msg_2' } };
+          throw new Error('upstream reset');
+        })()
+      };
+    });
+
+    const frames = parseSSEFrames((await get(port, '/test/stream')).body);
+    expect(frames.map(frame => frame.event)).toEqual(['message_start', 'error']);
+    expect(frames[1].data.error).toEqual({ type: 'api_error', message: 'upstream reset' });
+  });
+
+  it('should stop reading and close the upstream stream when the client disconnects', async () => {
+    let upstreamClosed!: () => void;
+    const closed = new Promise<void>(resolve => { upstreamClosed = resolve; });
+    let produced = 0;
+
+    server.addRoute('GET', '/test/stream', async (req: any, res: any) => {
+      res.body = {
+        object: 'stream',
+        stream: (async function* () {
+          try {
+            while (true) {
+              produced++;
+              yield { type: 'ping' };
+              await new Promise(resolve => setTimeout(resolve, 20));
+            }
+          } finally {
+            upstreamClosed();
+          }
+        })()
+      };
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      const request = http.get({ host: '127.0.0.1', port, path: '/test/stream' }, res => {
+        res.once('data', () => {
+          request.destroy();
+          resolve();
+        });
+      });
+      request.on('error', error => {
+        if ((error as any).code !== 'ECONNRESET') {
+          reject(error);
+        }
+      });
+    });
+
+    await closed;
+    const producedAtClose = produced;
+    await new Promise(resolve => setTimeout(resolve, 100));
+    expect(produced).toBe(producedAtClose);
+  });
+});
@@ -0,0 +1,530 @@
+/**
+ * 管理接口处理器
+ *
+ * 处理/admin/*运行时管理请求，供运维在事故处置时无需登录服务器即可操作：
+ * - GET    /admin/pipelines                              流水线列表及PipelineStatus、维护和熔断状态
+ * - POST   /admin/pipelines/:pipelineId/drain            流水线退出轮转（维护模式+熔断），进行中请求继续完成
+ * - POST   /admin/pipelines/:pipelineId/enable           流水线恢复轮转
+ * - GET    /admin/providers/health                       按Provider汇总的健康状态
+ * - POST   /admin/providers/:provider/maintenance        将Provider的流水线置为维护模式
+ * - DELETE /admin/providers/:provider/maintenance        解除Provider的维护模式
+ * - GET    /admin/circuit-breakers                       各流水线的熔断器状态
+ * - POST   /admin/circuit-breakers/:pipelineId/trip      人工打开熔断器
+ * - POST   /admin/circuit-breakers/:pipelineId/reset     重置熔断器
+ * - POST   /admin/self-check                             执行一次完整自检
+ * - GET    /admin/routing-table                          当前生效的路由表
+ * - POST   /admin/route-test                             演练一次路由选择，说明会选中的流水线及原因
+ * - GET    /admin/keys                                   Provider密钥池状态
+ * - GET    /admin/usage?since=7d&by=provider             用量报表，by可为client、route、provider、model、pipeline、day（逗号分隔）
+ * - POST   /admin/reload                                 重新加载配置文件
+ *
+ * 所有请求需携带管理令牌（Authorization: Bearer <token>或x-admin-token），未配置令牌时管理接口不可用
+ *
+ * @author RCC v4.0
+ */
+
+import * as crypto from 'crypto';
+import { RequestContext, ResponseContext, AdminApiHandler, RouteExplanation } from './http-types';
+import { RequestRouter } from '../../router/src/request-router';
+import { RouteLoadBalancer } from '../../router/src/route-load-balancer';
+import { ApiKeyPoolManager } from '../../router/src/api-key-pool';
+import { PipelineManager, PipelineStatus } from '../../pipeline/src/pipeline-manager';
+import { RCCError } from '../../types/src/index';
+import { ISelfCheckModule } from '../../self-check/self-check.interface';
+import { secureLogger } from '../../error-handler/src/utils/secure-logger';
+import { UsageLedger, parseUsageDimensions, parseUsageSince } from './http-usage-ledger';
+
+// 人工维护的默认原因
+const DEFAULT_MAINTENANCE_REASON = 'Manual maintenance via admin API';
+
+// 路由演练请求的默认max_tokens
+const ROUTE_TEST_MAX_TOKENS = 1024;
+
+// 用量报表的默认统计范围
+const DEFAULT_USAGE_SINCE = '7d';
+
+/**
+ * 管理接口依赖的运行时服务（由StartupService注入）
+ */
+export interface AdminServices {
+  pipelineManager?: PipelineManager;
+  selfCheckService?: Pick<ISelfCheckModule, 'performSelfCheck' | 'getSelfCheckState'>;
+  reloadConfig?: (reason: string) => Promise<{ success: boolean }>;
+}
+
+/**
+ * HTTP服务器当前的路由组件（配置重载后会整体替换，因此按需获取）
+ */
+export interface AdminRuntime {
+  getRequestRouter(): RequestRouter | null;
+  getRouteLoadBalancer(): RouteLoadBalancer | null;
+  getApiKeyPools(): ApiKeyPoolManager | null;
+  explainRoute(requestBody: any, requestId: string): Promise<RouteExplanation>;
+  getUsageLedger?(): UsageLedger | null;
+}
+
+/**
+ * Provider汇总健康状态
+ * - maintenance: 全部流水线处于维护模式
+ * - unhealthy: 没有可用的流水线（不健康、熔断或维护）
+ * - degraded: 部分流水线不可用或降级
+ */
+export type ProviderHealthState = 'healthy' | 'degraded' | 'unhealthy' | 'maintenance';
+
+/**
+ * 管理接口处理器实现
+ */
+export class AdminApiHandlerImpl implements AdminApiHandler {
+  private services: AdminServices = {};
+
+  /**
+   * @param adminToken 管理令牌，未配置时所有管理请求返回503
+   * @param runtime HTTP服务器当前的路由组件
+   */
+  constructor(
+    private readonly adminToken: string | undefined,
+    private readonly runtime: AdminRuntime
+  ) {}
+
+  /**
+   * 设置运行时服务（供外部调用）
+   */
+  setServices(services: AdminServices): void {
+    this.services = { ...this.services, ...services };
+  }
+
+  /**
+   * GET /admin/pipelines
+   */
+  async handleListPipelines(req: RequestContext, res: ResponseContext): Promise<void> {
+    const pipelineManager = this.authorize(req, res) && this.requireService(res, 'pipelineManager');
+    if (!pipelineManager) {
+      return;
+    }
+
+    const maintenance = pipelineManager.getMaintenanceStatus();
+    const balancer = this.runtime.getRouteLoadBalancer();
+    const pipelines = Array.from(pipelineManager.getAllPipelines().values()).map(pipeline => ({
+      pipelineId: pipeline.pipelineId,
+      routeName: pipeline.routeName,
+      provider: pipeline.provider,
+      model: pipeline.model,
+      status: pipelineManager.getPipelineStatus(pipeline.pipelineId) || null,
+      activeExecutions: pipelineManager.getActiveExecutionCount(pipeline.pipelineId),
+      maintenance: maintenance[pipeline.pipelineId] || null,
+      circuitBreaker: balancer?.getCircuitBreakerState(pipeline.pipelineId)?.state || 'CLOSED'
+    }));
+
+    res.body = { pipelines, statistics: pipelineManager.getStatistics() };
+  }
+
+  /**
+   * POST /admin/pipelines/:pipelineId/drain
+   *
+   * 维护模式保证流水线不再执行新请求，熔断让负载均衡不再选中它；进行中的请求继续完成
+   */
+  async handleDrainPipeline(req: RequestContext, res: ResponseContext): Promise<void> {
+    const pipelineManager = this.authorize(req, res) && this.requireService(res, 'pipelineManager');
+    if (!pipelineManager || !this.requireManagedPipeline(req, res, pipelineManager)) {
+      return;
+    }
+
+    const pipelineId = req.params.pipelineId;
+    const reason = typeof req.body?.reason === 'string' && req.body.reason.trim() ? req.body.reason.trim() : DEFAULT_MAINTENANCE_REASON;
+    if (!pipelineManager.isPipelineUnderMaintenance(pipelineId)) {
+      const { failed } = await pipelineManager.setAuthMaintenanceMode([pipelineId], reason);
+      if (failed.length > 0) {
+        this.sendError(res, 500, 'api_error', `Failed to drain pipeline '${pipelineId}'`);
+        return;
+      }
+    }
+    if (this.getRoutedPipelineIds().includes(pipelineId)) {
+      this.runtime.getRouteLoadBalancer()?.tripCircuitBreaker(pipelineId);
+    }
+
+    secureLogger.warn('🛠️ 管理接口：流水线退出轮转', { requestId: req.id, pipelineId, reason });
+    res.body = { pipelineId, drained: true, reason, activeExecutions: pipelineManager.getActiveExecutionCount(pipelineId) };
+  }
+
+  /**
+   * POST /admin/pipelines/:pipelineId/enable
+   */
+  async handleEnablePipeline(req: RequestContext, res: ResponseContext): Promise<void> {
+    const pipelineManager = this.authorize(req, res) && this.requireService(res, 'pipelineManager');
+    if (!pipelineManager || !this.requireManagedPipeline(req, res, pipelineManager)) {
+      return;
+    }
+
+    const pipelineId = req.params.pipelineId;
+    if (pipelineManager.isPipelineUnderMaintenance(pipelineId)) {
+      const { failed } = await pipelineManager.clearAuthMaintenanceMode([pipelineId]);
+      if (failed.length > 0) {
+        this.sendError(res, 500, 'api_error', `Failed to enable pipeline '${pipelineId}'`);
+        return;
+      }
+    }
+    this.runtime.getRouteLoadBalancer()?.resetCircuitBreaker(pipelineId);
+
+    secureLogger.info('🛠️ 管理接口：流水线恢复轮转', { requestId: req.id, pipelineId });
+    res.body = { pipelineId, enabled: true };
+  }
+
+  /**
+   * GET /admin/providers/health
+   */
+  async handleProviderHealth(req: RequestContext, res: ResponseContext): Promise<void> {
+    const pipelineManager = this.authorize(req, res) && this.requireService(res, 'pipelineManager');
+    if (!pipelineManager) {
+      return;
+    }
+
+    const balancer = this.runtime.getRouteLoadBalancer();
+    const byProvider = new Map<string, any[]>();
+    for (const pipeline of pipelineManager.getAllPipelines().values()) {
+      const status: Partial<PipelineStatus> = pipelineManager.getPipelineStatus(pipeline.pipelineId) || {};
+      const members = byProvider.get(pipeline.provider) || [];
+      members.push({
+        pipelineId: pipeline.pipelineId,
+        model: pipeline.model,
+        health: status.health || pipeline.health,
+        maintenance: pipelineManager.isPipelineUnderMaintenance(pipeline.pipelineId),
+        circuitBreaker: balancer?.getCircuitBreakerState(pipeline.pipelineId)?.state || 'CLOSED',
+        executionCount: status.executionCount || 0,
+        errorCount: status.errorCount || 0,
+        averageResponseTime: status.averageResponseTime || 0
+      });
+      byProvider.set(pipeline.provider, members);
+    }
+
+    res.body = {
+      providers: Array.from(byProvider.entries()).map(([provider, pipelines]) => ({
+        provider,
+        status: this.summarizeProviderHealth(pipelines),
+        pipelines
+      }))
+    };
+  }
+
+  /**
+   * POST /admin/providers/:provider/maintenance
+   */
+  async handleEnterMaintenance(req: RequestContext, res: ResponseContext): Promise<void> {
+    const pipelineManager = this.authorize(req, res) && this.requireService(res, 'pipelineManager');
+    if (!pipelineManager) {
+      return;
+    }
+
+    const provider = req.params.provider;
+    const reason = typeof req.body?.reason === 'string' && req.body.reason.trim() ? req.body.reason.trim() : DEFAULT_MAINTENANCE_REASON;
+    const count = await pipelineManager.forceMaintenanceModeForProvider(provider, reason);
+    if (count === 0) {
+      this.sendError(res, 404, 'not_found_error', `No pipelines found for provider '${provider}'`);
+      return;
+    }
+
+    secureLogger.warn('🛠️ 管理接口：Provider进入维护模式', { requestId: req.id, provider, reason, pipelines: count });
+    res.body = { provider, maintenance: true, reason, pipelines: this.getProviderPipelineIds(pipelineManager, provider) };
+  }
+
+  /**
+   * DELETE /admin/providers/:provider/maintenance
+   */
+  async handleExitMaintenance(req: RequestContext, res: ResponseContext): Promise<void> {
+    const pipelineManager = this.authorize(req, res) && this.requireService(res, 'pipelineManager');
+    if (!pipelineManager) {
+      return;
+    }
+
+    const provider = req.params.provider;
+    const providerPipelineIds = this.getProviderPipelineIds(pipelineManager, provider);
+    if (providerPipelineIds.length === 0) {
+      this.sendError(res, 404, 'not_found_error', `No pipelines found for provider '${provider}'`);
+      return;
+    }
+
+    const underMaintenance = providerPipelineIds.filter(pipelineId => pipelineManager.isPipelineUnderMaintenance(pipelineId));
+    const { success, failed } = await pipelineManager.clearAuthMaintenanceMode(underMaintenance);
+
+    secureLogger.info('🛠️ 管理接口：Provider退出维护模式', { requestId: req.id, provider, cleared: success.length, failed: failed.length });
+    res.statusCode = failed.length > 0 ? 500 : 200;
+    res.body = { provider, maintenance: false, cleared: success, failed };
+  }
+
+  /**
+   * GET /admin/circuit-breakers
+   */
+  async handleListCircuitBreakers(req: RequestContext, res: ResponseContext): Promise<void> {
+    if (!this.authorize(req, res)) {
+      return;
+    }
+
+    const balancer = this.runtime.getRouteLoadBalancer();
+    res.body = {
+      circuitBreakers: this.getRoutedPipelineIds().map(pipelineId => {
+        const state = balancer?.getCircuitBreakerState(pipelineId);
+        return {
+          pipelineId,
+          state: state?.state || 'CLOSED',
+          failureCount: state?.failureCount || 0,
+          forced: state?.forced === true,
+          lastFailureTime: state?.lastFailureTime ? new Date(state.lastFailureTime).toISOString() : null
+        };
+      })
+    };
+  }
+
+  /**
+   * POST /admin/circuit-breakers/:pipelineId/trip
+   */
+  async handleTripCircuitBreaker(req: RequestContext, res: ResponseContext): Promise<void> {
+    const balancer = this.authorize(req, res) && this.requireRoutedPipeline(req, res);
+    if (!balancer) {
+      return;
+    }
+
+    balancer.tripCircuitBreaker(req.params.pipelineId);
+    secureLogger.warn('🛠️ 管理接口：人工打开熔断器', { requestId: req.id, pipelineId: req.params.pipelineId });
+    res.body = { pipelineId: req.params.pipelineId, state: 'OPEN', forced: true };
+  }
+
+  /**
+   * POST /admin/circuit-breakers/:pipelineId/reset
+   */
+  async handleResetCircuitBreaker(req: RequestContext, res: ResponseContext): Promise<void> {
+    const balancer = this.authorize(req, res) && this.requireRoutedPipeline(req, res);
+    if (!balancer) {
+      return;
+    }
+
+    balancer.resetCircuitBreaker(req.params.pipelineId);
+    secureLogger.info('🛠️ 管理接口：重置熔断器', { requestId: req.id, pipelineId: req.params.pipelineId });
+    res.body = { pipelineId: req.params.pipelineId, state: 'CLOSED', forced: false };
+  }
+
+  /**
+   * POST /admin/self-check
+   */
+  async handleSelfCheck(req: RequestContext, res: ResponseContext): Promise<void> {
+    const selfCheckService = this.authorize(req, res) && this.requireService(res, 'selfCheckService');
+    if (!selfCheckService) {
+      return;
+    }
+
+    secureLogger.info('🛠️ 管理接口：执行自检', { requestId: req.id });
+    const success = await selfCheckService.performSelfCheck();
+    const state = await selfCheckService.getSelfCheckState();
+    res.statusCode = success ? 200 : 500;
+    res.body = { success, state };
+  }
+
+  /**
+   * GET /admin/routing-table
+   */
+  async handleGetRoutingTable(req: RequestContext, res: ResponseContext): Promise<void> {
+    if (!this.authorize(req, res)) {
+      return;
+    }
+
+    const router = this.runtime.getRequestRouter();
+    if (!router) {
+      this.sendError(res, 503, 'api_error', 'No routing table is loaded');
+      return;
+    }
+    res.body = router.getRoutingTable();
+  }
+
+  /**
+   * POST /admin/route-test
+   *
+   * 请求体为{ prompt, model? }，也可直接提供messages/system/tools以复现真实请求
+   */
+  async handleRouteTest(req: RequestContext, res: ResponseContext): Promise<void> {
+    if (!this.authorize(req, res)) {
+      return;
+    }
+
+    const body = req.body && typeof req.body === 'object' ? req.body : {};
+    const hasMessages = Array.isArray(body.messages) && body.messages.length > 0;
+    if (!hasMessages && (typeof body.prompt !== 'string' || !body.prompt.trim())) {
+      this.sendError(res, 400, 'invalid_request_error', 'Route test requires a prompt or messages');
+      return;
+    }
+
+    const { prompt, ...request } = body;
+    const requestBody = {
+      max_tokens: ROUTE_TEST_MAX_TOKENS,
+      ...request,
+      model: typeof body.model === 'string' ? body.model : '',
+      messages: hasMessages ? body.messages : [{ role: 'user', content: prompt }]
+    };
+
+    try {
+      res.body = await this.runtime.explainRoute(requestBody, req.id);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown routing error';
+      this.sendError(res, error instanceof RCCError ? 422 : 500, 'api_error', `Route test failed: ${message}`);
+    }
+  }
+
+  /**
+   * GET /admin/keys
+   */
+  async handleKeyStatus(req: RequestContext, res: ResponseContext): Promise<void> {
+    if (!this.authorize(req, res)) {
+      return;
+    }
+
+    res.body = { pools: this.runtime.getApiKeyPools()?.getStatus() || [] };
+  }
+
+  /**
+   * GET /admin/usage
+   */
+  async handleUsage(req: RequestContext, res: ResponseContext): Promise<void> {
+    if (!this.authorize(req, res)) {
+      return;
+    }
+
+    const ledger = this.runtime.getUsageLedger?.();
+    if (!ledger) {
+      this.sendError(res, 503, 'api_error', 'Usage ledger is not available');
+      return;
+    }
+
+    try {
+      const since = parseUsageSince(typeof req.query.since === 'string' ? req.query.since : DEFAULT_USAGE_SINCE);
+      const by = parseUsageDimensions(typeof req.query.by === 'string' ? req.query.by : '');
+      res.body = ledger.query(since, by);
+    } catch (error) {
+      this.sendError(res, 400, 'invalid_request_error', error instanceof Error ? error.message : 'Invalid usage query');
+    }
+  }
+
+  /**
+   * POST /admin/reload
+   */
+  async handleReload(req: RequestContext, res: ResponseContext): Promise<void> {
+    const reloadConfig = this.authorize(req, res) && this.requireService(res, 'reloadConfig');
+    if (!reloadConfig) {
+      return;
+    }
+
+    secureLogger.info('🛠️ 管理接口：重新加载配置', { requestId: req.id });
+    const result = await reloadConfig('admin-api');
+    res.statusCode = result.success ? 200 : 500;
+    res.body = result;
+  }
+
+  /**
+   * 校验管理令牌，失败时写入错误响应
+   */
+  private authorize(req: RequestContext, res: ResponseContext): boolean {
+    if (!this.adminToken) {
+      this.sendError(res, 503, 'api_error', 'Admin API is disabled: set server.adminToken in the config or RCC_ADMIN_TOKEN');
+      return false;
+    }
+
+    const token = this.extractToken(req);
+    if (!token || !this.tokensMatch(token, this.adminToken)) {
+      secureLogger.warn('🚫 管理接口鉴权失败', { requestId: req.id, url: req.url });
+      this.sendError(res, 401, 'authentication_error', 'Invalid or missing admin token');
+      return false;
+    }
+    return true;
+  }
+
+  private extractToken(req: RequestContext): string | undefined {
+    const header = (name: string) => {
+      const value = req.headers[name];
+      return Array.isArray(value) ? value[0] : value;
+    };
+
+    const authorization = header('authorization');
+    if (authorization && /^Bearer\s+/i.test(authorization)) {
+      return authorization.replace(/^Bearer\s+/i, '').trim();
+    }
+    return header('x-admin-token');
+  }
+
+  /**
+   * 按摘要做定长比较，避免按字节比较泄露令牌长度和前缀
+   */
+  private tokensMatch(provided: string, expected: string): boolean {
+    const digest = (value: string) => crypto.createHash('sha256').update(value).digest();
+    return crypto.timingSafeEqual(digest(provided), digest(expected));
+  }
+
+  private requireService<K extends keyof AdminServices>(res: ResponseContext, name: K): NonNullable<AdminServices[K]> | undefined {
+    const service = this.services[name];
+    if (!service) {
+      this.sendError(res, 503, 'api_error', `${name} is not available`);
+      return undefined;
+    }
+    return service as NonNullable<AdminServices[K]>;
+  }
+
+  /**
+   * 熔断操作的目标必须是当前路由表中的流水线
+   */
+  private requireRoutedPipeline(req: RequestContext, res: ResponseContext): RouteLoadBalancer | undefined {
+    const balancer = this.runtime.getRouteLoadBalancer();
+    if (!balancer) {
+      this.sendError(res, 503, 'api_error', 'No routing table is loaded');
+      return undefined;
+    }
+    if (!this.getRoutedPipelineIds().includes(req.params.pipelineId)) {
+      this.sendError(res, 404, 'not_found_error', `Pipeline '${req.params.pipelineId}' is not in the routing table`);
+      return undefined;
+    }
+    return balancer;
+  }
+
+  private requireManagedPipeline(req: RequestContext, res: ResponseContext, pipelineManager: PipelineManager): boolean {
+    if (!pipelineManager.getPipeline(req.params.pipelineId)) {
+      this.sendError(res, 404, 'not_found_error', `Pipeline '${req.params.pipelineId}' not found`);
+      return false;
+    }
+    return true;
+  }
+
+  private summarizeProviderHealth(pipelines: Array<{ health: string; maintenance: boolean; circuitBreaker: string }>): ProviderHealthState {
+    if (pipelines.every(pipeline => pipeline.maintenance)) {
+      return 'maintenance';
+    }
+
+    const unavailable = pipelines.filter(pipeline => pipeline.maintenance || pipeline.circuitBreaker === 'OPEN' || pipeline.health === 'unhealthy');
+    if (unavailable.length === pipelines.length) {
+      return 'unhealthy';
+    }
+    if (unavailable.length > 0 || pipelines.some(pipeline => pipeline.health === 'degraded' || pipeline.circuitBreaker === 'HALF_OPEN')) {
+      return 'degraded';
+    }
+    return 'healthy';
+  }
+
+  private getRoutedPipelineIds(): string[] {
+    const router = this.runtime.getRequestRouter();
+    if (!router) {
+      return [];
+    }
+
+    const pipelineIds = new Set<string>();
+    for (const routeName of router.getRouteNames()) {
+      for (const route of router.getRoutes(routeName)) {
+        pipelineIds.add(route.pipelineId);
+      }
+    }
+    return Array.from(pipelineIds);
+  }
+
+  private getProviderPipelineIds(pipelineManager: PipelineManager, provider: string): string[] {
+    return Array.from(pipelineManager.getAllPipelines().values())
+      .filter(pipeline => pipeline.provider === provider)
+      .map(pipeline => pipeline.pipelineId);
+  }
+
+  private sendError(res: ResponseContext, statusCode: number, type: string, message: string): void {
+    res.statusCode = statusCode;
+    res.body = { type: 'error', error: { type, message } };
+  }
+}
@@ -10,13 +10,69 @@ import { ModuleDebugIntegration } from '../../logging/src/debug-integration';
 import { getEnhancedErrorHandler, EnhancedErrorHandler } from '../../error-handler/src/enhanced-error-handler';
 import { HTTPErrorCenter } from './http-error-center';
 import { RCCError, RCCErrorCode } from '../../types/src/index';
+import { RequestRouter, RouteDecision } from '../../router/src/request-router';
+import { ContextWindowGuard, ContextWindowResult } from '../../router/src/context-window-guard';
+import { RouteLoadBalancer } from '../../router/src/route-load-balancer';
+import { ApiKeyPoolManager } from '../../router/src/api-key-pool';
+import { RequestHedger, HedgedExecution } from '../../router/src/request-hedger';
+import { unwrapUpstreamError, isRetryableUpstreamError, isRateLimitError, getRetryAfterMs } from '../../router/src/upstream-error';
+import { isStreamingResponseBody } from '../../pipeline/src/module-interface';
+import { assertClientRouteAllowed } from './http-client-auth';
 import { 
   RequestContext, 
   ResponseContext, 
   AnthropicMessageHandler,
-  AssembledPipeline 
+  AssembledPipeline,
+  RouteExplanation
 } from './http-types';
 
+/**
+ * 单次流水线尝试记录（回退链中的一环）
+ */
+interface PipelineAttempt {
+  pipelineId: string;
+  // aborted: 对冲落败后被中止
+  outcome: 'success' | 'error' | 'aborted';
+  durationMs: number;
+  error?: string;
+  retryable?: boolean;
+  // 是否为对冲发出的请求
+  hedged?: boolean;
+}
+
+type PipelineResult = Awaited<ReturnType<AssembledPipeline['execute']>>;
+
+// 回退链失败时原样返回给客户端的上游错误码（请求无效、鉴权、权限、资源不存在、限流）
+const CLIENT_FACING_ERROR_CODES: RCCErrorCode[] = [
+  RCCErrorCode.VALIDATION_ERROR,
+  RCCErrorCode.PROVIDER_AUTH_FAILED,
+  RCCErrorCode.PERMISSION_DENIED,
+  RCCErrorCode.RESOURCE_NOT_FOUND,
+  RCCErrorCode.RATE_LIMIT_ERROR
+];
+
+/**
+ * 沿回退链执行流水线的结果：winner为成功的流水线，全部失败时failure为最后一次可报告的错误
+ */
+export interface FallbackExecution {
+  winner?: { pipeline: AssembledPipeline; result: PipelineResult };
+  failure?: { pipeline: AssembledPipeline; error: unknown; message: string; retryable: boolean };
+  attempts: PipelineAttempt[];
+  // X-Attempt-Count/X-Attempt-Chain响应头
+  headers: Record<string, string>;
+  processingTime: number;
+}
+
+/**
+ * 请求的路由解析结果（选择路由池成员之前）
+ */
+interface ResolvedRoute {
+  decision: RouteDecision<AssembledPipeline>;
+  // 上下文窗口保护处理后的请求体
+  request: any;
+  guard?: ContextWindowResult<AssembledPipeline>;
+}
+
 /**
  * Anthropic消息处理器实现
  */
@@ -28,6 +84,11 @@ export class AnthropicMessageHandlerImpl implements AnthropicMessageHandler {
   private httpErrorCenter: HTTPErrorCenter;
   private debugMode: boolean;
   private port: number;
+  private requestRouter: RequestRouter | null = null;
+  private contextWindowGuard: ContextWindowGuard | null = null;
+  private routeLoadBalancer: RouteLoadBalancer | null = null;
+  private apiKeyPools: ApiKeyPoolManager | null = null;
+  private requestHedger: RequestHedger | null = null;
 
   constructor(
     assembledPipelines: AssembledPipeline[] = [], 
@@ -58,6 +119,66 @@ export class AnthropicMessageHandlerImpl implements AnthropicMessageHandler {
     this.port = port;
   }
 
+  /**
+   * 设置请求路由器（供外部调用）
+   *
+   * 配置重载时沿用已有的负载均衡器、密钥池和对冲器，只更新池成员，
+   * 未变化的流水线保留熔断器、密钥冷却、延迟指标和对冲预算
+   */
+  setRequestRouter(requestRouter: RequestRouter | null): void {
+    this.requestRouter = requestRouter;
+    this.contextWindowGuard = requestRouter ? new ContextWindowGuard(requestRouter) : null;
+
+    if (!requestRouter) {
+      void this.routeLoadBalancer?.stop();
+      this.requestHedger?.stop();
+      this.routeLoadBalancer = null;
+      this.apiKeyPools = null;
+      this.requestHedger = null;
+      return;
+    }
+
+    if (this.routeLoadBalancer) {
+      this.routeLoadBalancer.setRouter(requestRouter);
+    } else {
+      this.routeLoadBalancer = new RouteLoadBalancer(requestRouter);
+    }
+    if (this.apiKeyPools) {
+      this.apiKeyPools.setRouter(requestRouter);
+    } else {
+      this.apiKeyPools = new ApiKeyPoolManager(requestRouter);
+    }
+    if (this.requestHedger) {
+      this.requestHedger.setRouter(requestRouter);
+    } else {
+      this.requestHedger = new RequestHedger(requestRouter);
+    }
+  }
+
+  /**
+   * 获取路由池负载均衡器（供状态查询）
+   */
+  getRouteLoadBalancer(): RouteLoadBalancer | null {
+    return this.routeLoadBalancer;
+  }
+
+  /**
+   * 获取Provider密钥池管理器（供状态查询）
+   */
+  getApiKeyPools(): ApiKeyPoolManager | null {
+    return this.apiKeyPools;
+  }
+
+  /**
+   * 停止后台任务（负载均衡健康检查、对冲指标清理）
+   */
+  async stop(): Promise<void> {
+    if (this.routeLoadBalancer) {
+      await this.routeLoadBalancer.stop();
+    }
+    this.requestHedger?.stop();
+  }
+
   /**
    * 处理Anthropic标准messages请求
    */
@@ -106,11 +227,46 @@ export class AnthropicMessageHandlerImpl implements AnthropicMessageHandler {
         return;
       }
 
-      // 选择流水线
-      const selectedPipeline = this.assembledPipelines[0];
-      
+      // 根据请求的model和内容选择路由类别和流水线
+      let routeDecision: RouteDecision<AssembledPipeline>;
+      let requestBody = req.body;
+      try {
+        const resolved = this.resolveRoute(req.body, requestId);
+        assertClientRouteAllowed(req, resolved.decision.routeName, resolved.decision.requestedModel);
+        if (resolved.guard && resolved.guard.action !== 'within-limit') {
+          this.debugIntegration.recordEvent('context_window_guard', requestId, {
+            action: resolved.guard.action,
+            estimatedTokens: resolved.guard.estimatedTokens,
+            contextWindow: resolved.guard.contextWindow,
+            truncatedToolResults: resolved.guard.truncatedToolResults,
+            excludedPipelines: resolved.guard.excludedPipelines
+          });
+        }
+        routeDecision = resolved.decision;
+        requestBody = resolved.request;
+      } catch (routingError) {
+        const error = routingError instanceof RCCError ? routingError : new RCCError(
+          `Request routing failed: ${routingError instanceof Error ? routingError.message : 'Unknown routing error'}`,
+          RCCErrorCode.ROUTER_NO_PROVIDER,
+          'http-server',
+          { endpoint: '/v1/messages' }
+        );
+
+        this.debugIntegration.recordEvent('routing_error', requestId, { model: req.body.model, error: error.message });
+        await this.handleRequestError(error, req, res, requestId, sessionId);
+        return;
+      }
+
+      // 在路由池中按负载均衡策略选择流水线，其余成员按路由顺序作为回退链
+      const { fallbackChain } = await this.selectFallbackChain(
+        routeDecision,
+        requestId,
+        typeof req.body.metadata?.user_id === 'string' ? req.body.metadata.user_id : undefined
+      );
+
       if (this.debugMode) {
-        console.log(`🎯 Selected pipeline for messages: ${selectedPipeline.id} (${selectedPipeline.provider}_${selectedPipeline.model})`);
+        console.log(`🧭 Route resolved: ${routeDecision.routeName} (${routeDecision.reason})`);
+        console.log(`🎯 Selected pipeline for messages: ${fallbackChain[0].id} (${fallbackChain[0].provider}_${fallbackChain[0].model})`);
         console.log(`📝 Anthropic messages request received`);
       }
 
@@ -119,28 +275,28 @@ export class AnthropicMessageHandlerImpl implements AnthropicMessageHandler {
         endpoint: '/v1/messages',
         method: 'POST',
         headers: req.headers,
-        body: req.body,
+        body: requestBody,
         requestId: requestId,
         isAnthropicFormat: true
       };
 
-      // 通过流水线处理请求
-      const startTime = Date.now();
-      
-      try {
-        // 执行流水线处理
-        const pipelineResult = await selectedPipeline.execute(pipelineInput);
-        const processingTime = Date.now() - startTime;
+      const execution = await this.runFallbackChain(routeDecision, fallbackChain, pipelineInput, requestId, res);
+
+      if (execution.winner) {
+        const selectedPipeline = execution.winner.pipeline;
+        const pipelineResult = execution.winner.result;
 
         if (this.debugMode) {
-          console.log(`⚡ Pipeline processing completed in ${processingTime}ms`);
+          console.log(`⚡ Pipeline processing completed in ${execution.processingTime}ms`);
         }
 
         // 设置响应头和状态码
         res.statusCode = pipelineResult.statusCode || 200;
         res.headers['Content-Type'] = pipelineResult.contentType || 'application/json';
         res.headers['X-Pipeline-ID'] = selectedPipeline.id;
-        res.headers['X-Processing-Time'] = processingTime.toString();
+        res.headers['X-Route-Category'] = routeDecision.routeName;
+        res.headers['X-Processing-Time'] = execution.processingTime.toString();
+        Object.assign(res.headers, execution.headers);
         
         // 使用流水线返回的响应体
         res.body = pipelineResult.responseBody;
@@ -149,31 +305,23 @@ export class AnthropicMessageHandlerImpl implements AnthropicMessageHandler {
         this.debugIntegration.recordOutput(requestId, {
           success: true,
           pipelineId: selectedPipeline.id,
-          processingTime,
+          routeName: routeDecision.routeName,
+          processingTime: execution.processingTime,
+          attempts: execution.attempts,
           statusCode: res.statusCode,
           endpoint: 'anthropic-messages',
           port: this.port
         });
-
-      } catch (pipelineError) {
-        console.error('❌ Pipeline execution error:', pipelineError);
-        
-        const error = new RCCError(
-          `Pipeline execution failed: ${pipelineError instanceof Error ? pipelineError.message : 'Unknown pipeline error'}`,
-          RCCErrorCode.PIPELINE_EXECUTION_FAILED,
-          'http-server',
-          { 
-            endpoint: '/v1/messages',
-            pipelineId: selectedPipeline.id,
-            details: { originalError: pipelineError }
-          }
-        );
-        
-        this.debugIntegration.recordError(requestId, pipelineError as Error);
-        await this.handleRequestError(error, req, res, requestId, sessionId, selectedPipeline.id);
         return;
       }
 
+      const failure = execution.failure!;
+      const error = this.getFailureError(failure, execution.attempts, '/v1/messages');
+      
+      this.debugIntegration.recordError(requestId, failure.error as Error);
+      await this.handleRequestError(error, req, res, requestId, sessionId, failure.pipeline.id, execution.headers);
+      return;
+
     } catch (error) {
       console.error('❌ Anthropic messages error:', error);
       
@@ -201,6 +349,386 @@ export class AnthropicMessageHandlerImpl implements AnthropicMessageHandler {
     this.initialized = initialized;
   }
 
+  /**
+   * 演练一次路由选择但不执行流水线，说明请求会落到哪个流水线以及原因
+   *
+   * 与真实请求走相同的路由、上下文窗口保护、密钥轮换和负载均衡步骤，
+   * 因此会推进轮询类策略的游标；选中成员占用的连接立即释放
+   */
+  async explainRoute(requestBody: any, requestId: string): Promise<RouteExplanation> {
+    const resolved = this.resolveRoute(requestBody, requestId);
+    const decision = resolved.decision;
+    const describe = (pipeline: AssembledPipeline) => ({ pipelineId: pipeline.id, provider: pipeline.provider, model: pipeline.model });
+
+    let fallbackChain = decision.candidates.slice(0, 1);
+    let strategy = 'priority';
+    let selectionReason = 'no load balancer configured, using the first candidate';
+    if (this.routeLoadBalancer && decision.candidates.length > 0) {
+      const selection = await this.routeLoadBalancer.select(decision, { requestId });
+      this.routeLoadBalancer.release(selection.pipeline.id);
+      fallbackChain = [selection.pipeline, ...selection.alternatives];
+      strategy = selection.strategy;
+      selectionReason = selection.reason;
+    }
+
+    return {
+      requestedModel: decision.requestedModel,
+      routeName: decision.routeName,
+      matchType: decision.matchType,
+      reason: decision.reason,
+      ...(decision.classification ? { classification: decision.classification } : {}),
+      ...(resolved.guard ? {
+        contextWindow: {
+          action: resolved.guard.action,
+          estimatedTokens: resolved.guard.estimatedTokens,
+          ...(resolved.guard.contextWindow !== undefined ? { contextWindow: resolved.guard.contextWindow } : {})
+        }
+      } : {}),
+      candidates: decision.candidates.map(describe),
+      selected: fallbackChain[0] ? describe(fallbackChain[0]) : null,
+      strategy,
+      selectionReason,
+      fallbackChain: fallbackChain.map(describe)
+    };
+  }
+
+  /**
+   * 解析请求的路由：按model和内容选择路由类别，检查上下文窗口，并为每个provider/model轮换密钥
+   */
+  private resolveRoute(requestBody: any, requestId: string): ResolvedRoute {
+    let decision = this.selectRoute(requestBody);
+    let request = requestBody;
+    let guard: ContextWindowResult<AssembledPipeline> | undefined;
+
+    // 发送前检查提示词是否超出所选模型的上下文窗口
+    if (this.contextWindowGuard) {
+      guard = this.contextWindowGuard.enforce(requestBody, decision, this.assembledPipelines);
+      decision = guard.decision;
+      request = guard.request;
+    }
+
+    // 每个provider/model只保留轮换到的密钥，跳过冷却中的密钥
+    if (this.apiKeyPools) {
+      decision = this.apiKeyPools.selectKeys(decision, requestId);
+    }
+
+    return { decision, request, guard };
+  }
+
+  /**
+   * 选择路由 - 未配置路由器时退化为第一个可用流水线
+   */
+  private selectRoute(requestBody: any): RouteDecision<AssembledPipeline> {
+    if (this.requestRouter) {
+      return this.requestRouter.routeRequest(requestBody, this.assembledPipelines);
+    }
+
+    return {
+      requestedModel: requestBody?.model || '',
+      routeName: 'default',
+      matchType: 'default',
+      reason: 'no routing table configured, using first available pipeline',
+      candidates: this.assembledPipelines.slice(0, 1)
+    };
+  }
+
+  /**
+   * 按负载均衡策略选择路由池成员并沿回退链执行（供其他端点复用，如OpenAI chat completions）
+   *
+   * 与messages请求一样跳过冷却中的密钥、在可重试错误时换用下一个流水线并按路由配置对冲
+   */
+  async executeWithFallback(
+    routeDecision: RouteDecision<AssembledPipeline>,
+    pipelineInput: any,
+    requestId: string,
+    res: ResponseContext
+  ): Promise<FallbackExecution> {
+    const decision = this.apiKeyPools ? this.apiKeyPools.selectKeys(routeDecision, requestId) : routeDecision;
+    const { fallbackChain } = await this.selectFallbackChain(decision, requestId);
+    return this.runFallbackChain(decision, fallbackChain, pipelineInput, requestId, res);
+  }
+
+  /**
+   * 在路由池中选择首个流水线，其余成员按路由顺序作为回退链
+   */
+  private async selectFallbackChain(
+    routeDecision: RouteDecision<AssembledPipeline>,
+    requestId: string,
+    sessionId?: string
+  ): Promise<{ fallbackChain: AssembledPipeline[]; strategy: string }> {
+    let fallbackChain = routeDecision.candidates.slice(0, 1);
+    let strategy = 'priority';
+    if (this.routeLoadBalancer) {
+      const selection = await this.routeLoadBalancer.select(routeDecision, { requestId, sessionId });
+      fallbackChain = [selection.pipeline, ...selection.alternatives];
+      strategy = selection.strategy;
+    }
+    if (fallbackChain.length === 0) {
+      throw new RCCError(
+        `No pipelines in route '${routeDecision.routeName}'`,
+        RCCErrorCode.ROUTER_NO_PROVIDER,
+        'http-server',
+        { requestId, details: { routeName: routeDecision.routeName } }
+      );
+    }
+
+    this.debugIntegration.recordEvent('route_selected', requestId, {
+      requestedModel: routeDecision.requestedModel,
+      routeName: routeDecision.routeName,
+      matchType: routeDecision.matchType,
+      reason: routeDecision.reason,
+      category: routeDecision.classification?.category,
+      estimatedTokens: routeDecision.classification?.estimatedTokens,
+      pipelineId: fallbackChain[0].id,
+      strategy,
+      candidates: routeDecision.candidates.map(candidate => candidate.id),
+      fallbackChain: fallbackChain.map(pipeline => pipeline.id)
+    });
+
+    return { fallbackChain, strategy };
+  }
+
+  /**
+   * 沿回退链执行流水线：可重试错误时换用下一个流水线；
+   * 路由启用对冲时，主流水线首字节过慢会同时请求回退链中的下一个流水线
+   */
+  private async runFallbackChain(
+    routeDecision: RouteDecision<AssembledPipeline>,
+    fallbackChain: AssembledPipeline[],
+    pipelineInput: any,
+    requestId: string,
+    res: ResponseContext
+  ): Promise<FallbackExecution> {
+    const startTime = Date.now();
+    const attempts: PipelineAttempt[] = [];
+    let attemptIndex = 0;
+    let lastFailure: FallbackExecution['failure'];
+
+    while (attemptIndex < fallbackChain.length) {
+      const round = await this.executeRound(
+        routeDecision.routeName,
+        fallbackChain[attemptIndex],
+        attemptIndex === 0 ? fallbackChain[1] : undefined,
+        pipelineInput
+      );
+      attemptIndex += round.attempts.length;
+
+      if (round.hedged) {
+        this.debugIntegration.recordEvent('request_hedged', requestId, {
+          routeName: routeDecision.routeName,
+          pipelines: round.attempts.map(attempt => attempt.pipeline.id),
+          winner: round.winner?.pipeline.id
+        });
+      }
+
+      for (const attempt of round.attempts) {
+        const hedged = attempt.hedge ? { hedged: true } : {};
+
+        if (attempt.status === 'aborted') {
+          // 对冲落败的一方已被中止，只释放主流水线占用的连接，不计入指标
+          attempts.push({ pipelineId: attempt.pipeline.id, outcome: 'aborted', durationMs: attempt.durationMs, ...hedged });
+          if (!attempt.hedge) {
+            this.routeLoadBalancer?.release(attempt.pipeline.id);
+          }
+          this.apiKeyPools?.recordOutcome(attempt.pipeline, {});
+        } else if (attempt.status === 'error') {
+          console.error('❌ Pipeline execution error:', attempt.error);
+          const upstreamError = unwrapUpstreamError(attempt.error);
+          const message = upstreamError instanceof Error ? upstreamError.message : 'Unknown pipeline error';
+          const retryable = isRetryableUpstreamError(attempt.error);
+          attempts.push({ pipelineId: attempt.pipeline.id, outcome: 'error', durationMs: attempt.durationMs, error: message, retryable, ...hedged });
+          this.routeLoadBalancer?.recordOutcome(attempt.pipeline.id, attempt.durationMs, attempt.error);
+          this.apiKeyPools?.recordOutcome(attempt.pipeline, { error: attempt.error });
+          lastFailure = { pipeline: attempt.pipeline, error: attempt.error, message, retryable };
+        } else {
+          attempts.push({ pipelineId: attempt.pipeline.id, outcome: 'success', durationMs: attempt.durationMs, ...hedged });
+        }
+      }
+
+      if (round.winner) {
+        const selectedPipeline = round.winner.pipeline;
+        const pipelineResult = round.winner.result;
+        const attemptTime = round.attempts.find(attempt => attempt.status === 'success')!.durationMs;
+
+        if (isStreamingResponseBody(pipelineResult.responseBody)) {
+          // 流式响应在流结束时回报耗时、首token时间和用量
+          pipelineResult.responseBody = {
+            ...pipelineResult.responseBody,
+            stream: this.trackStreamOutcome(pipelineResult.responseBody.stream, selectedPipeline, Date.now() - attemptTime, routeDecision)
+          };
+        } else {
+          this.routeLoadBalancer?.recordOutcome(selectedPipeline.id, attemptTime);
+          this.apiKeyPools?.recordOutcome(selectedPipeline, {
+            inputTokens: pipelineResult.responseBody?.usage?.input_tokens ?? routeDecision.classification?.estimatedTokens,
+            outputTokens: pipelineResult.responseBody?.usage?.output_tokens
+          });
+        }
+
+        return {
+          winner: round.winner,
+          attempts,
+          headers: this.getAttemptHeaders(attempts),
+          processingTime: Date.now() - startTime
+        };
+      }
+
+      // 本轮全部失败：已向客户端输出部分响应时不能回退，否则会重复或拼接两个上游的输出
+      const nextPipeline = fallbackChain[attemptIndex];
+      if (!lastFailure!.retryable || !nextPipeline || this.hasResponseStarted(res)) {
+        break;
+      }
+      this.debugIntegration.recordEvent('pipeline_fallback', requestId, {
+        failedPipelineId: lastFailure!.pipeline.id,
+        nextPipelineId: nextPipeline.id,
+        error: lastFailure!.message,
+        attempt: attempts.length
+      });
+      console.warn(`🔁 Retryable error on ${lastFailure!.pipeline.id}, falling back to ${nextPipeline.id}: ${lastFailure!.message}`);
+    }
+
+    return {
+      failure: lastFailure,
+      attempts,
+      headers: this.getAttemptHeaders(attempts),
+      processingTime: Date.now() - startTime
+    };
+  }
+
+  /**
+   * 回退链全部失败时返回给客户端的错误，/v1/messages和/v1/chat/completions共用
+   *
+   * 请求本身无效（转换层校验失败、上游4xx）和鉴权失败时直接使用该错误，由HTTPErrorCenter映射为对应4xx；
+   * 上游限流转为RATE_LIMIT_ERROR并保留Retry-After；其余包装为流水线执行错误
+   */
+  getFailureError(failure: NonNullable<FallbackExecution['failure']>, attempts: PipelineAttempt[], endpoint: string): RCCError {
+    const upstreamError = unwrapUpstreamError(failure.error);
+    if (upstreamError instanceof RCCError && CLIENT_FACING_ERROR_CODES.includes(upstreamError.code)) {
+      return upstreamError;
+    }
+
+    if (isRateLimitError(failure.error)) {
+      return new RCCError(
+        `Upstream rate limit exceeded: ${failure.message}`,
+        RCCErrorCode.RATE_LIMIT_ERROR,
+        'http-server',
+        {
+          endpoint,
+          pipelineId: failure.pipeline.id,
+          details: { originalError: failure.error, attempts, retryAfterMs: getRetryAfterMs(failure.error) }
+        }
+      );
+    }
+
+    return new RCCError(
+      `Pipeline execution failed: ${failure.message}`,
+      RCCErrorCode.PIPELINE_EXECUTION_FAILED,
+      'http-server',
+      { 
+        endpoint,
+        pipelineId: failure.pipeline.id,
+        details: { originalError: failure.error, attempts }
+      }
+    );
+  }
+
+  /**
+   * 执行一轮流水线请求：回退链首个流水线可按路由配置对冲到secondary，其余只执行primary
+   */
+  private async executeRound(
+    routeName: string,
+    primary: AssembledPipeline,
+    secondary: AssembledPipeline | undefined,
+    pipelineInput: any
+  ): Promise<HedgedExecution<AssembledPipeline, PipelineResult>> {
+    const run = (pipeline: AssembledPipeline, signal: AbortSignal) => pipeline.execute(pipelineInput, { signal });
+
+    if (this.requestHedger) {
+      return this.requestHedger.execute(routeName, primary, secondary, run, result => this.discardResult(result));
+    }
+
+    const startedAt = Date.now();
+    try {
+      const result = await run(primary, new AbortController().signal);
+      return {
+        winner: { pipeline: primary, result },
+        hedged: false,
+        attempts: [{ pipeline: primary, status: 'success', durationMs: Date.now() - startedAt, hedge: false }]
+      };
+    } catch (error) {
+      return {
+        hedged: false,
+        attempts: [{ pipeline: primary, status: 'error', error, durationMs: Date.now() - startedAt, hedge: false }]
+      };
+    }
+  }
+
+  /**
+   * 关闭对冲落败后仍返回的流式响应，释放上游连接
+   */
+  private discardResult(result: PipelineResult): void {
+    if (isStreamingResponseBody(result?.responseBody)) {
+      const iterator = result.responseBody.stream[Symbol.asyncIterator]();
+      void iterator.return?.()?.catch(() => undefined);
+    }
+  }
+
+  /**
+   * 回退链尝试记录的响应头
+   */
+  private getAttemptHeaders(attempts: PipelineAttempt[]): Record<string, string> {
+    return {
+      'X-Attempt-Count': attempts.length.toString(),
+      'X-Attempt-Chain': attempts.map(attempt => `${attempt.pipelineId}:${attempt.outcome}`).join(',')
+    };
+  }
+
+  /**
+   * 是否已开始向客户端发送响应
+   */
+  private hasResponseStarted(res: ResponseContext): boolean {
+    return Boolean(res._originalResponse?.headersSent);
+  }
+
+  /**
+   * 包装流式响应，在流结束时回报负载均衡指标和密钥用量
+   *
+   * 首token时间取第一个事件到达的耗时；客户端提前断开按成功计，流中途出错按失败计
+   */
+  private async *trackStreamOutcome(
+    stream: AsyncIterable<any>,
+    pipeline: AssembledPipeline,
+    attemptStartTime: number,
+    routeDecision: RouteDecision<AssembledPipeline>
+  ): AsyncIterable<any> {
+    let timeToFirstToken: number | undefined;
+    let inputTokens: number | undefined;
+    let outputTokens: number | undefined;
+    let streamError: unknown;
+
+    try {
+      for await (const event of stream) {
+        if (timeToFirstToken === undefined) {
+          timeToFirstToken = Date.now() - attemptStartTime;
+        }
+        if (event?.type === 'message_start') {
+          inputTokens = event.message?.usage?.input_tokens ?? inputTokens;
+        } else if (event?.type === 'message_delta') {
+          outputTokens = event.usage?.output_tokens ?? outputTokens;
+        }
+        yield event;
+      }
+    } catch (error) {
+      streamError = error;
+      throw error;
+    } finally {
+      const latency = Date.now() - attemptStartTime;
+      this.routeLoadBalancer?.recordOutcome(pipeline.id, latency, streamError, timeToFirstToken ?? latency);
+      this.apiKeyPools?.recordOutcome(pipeline, streamError
+        ? { error: streamError }
+        : { inputTokens: inputTokens ?? routeDecision.classification?.estimatedTokens, outputTokens });
+    }
+  }
+
   /**
    * 设置调试模式
    */
@@ -218,7 +746,8 @@ export class AnthropicMessageHandlerImpl implements AnthropicMessageHandler {
     res: ResponseContext, 
     requestId: string, 
     sessionId: string,
-    pipelineId?: string
+    pipelineId?: string,
+    extraHeaders: Record<string, string> = {}
   ): Promise<void> {
     await this.debugIntegration.endSession();
     
@@ -237,6 +766,7 @@ export class AnthropicMessageHandlerImpl implements AnthropicMessageHandler {
       originalError: error
     });
     
+    Object.assign(httpError.headers, extraHeaders);
     await this.sendErrorResponse(res._originalResponse || res as any, httpError);
   }
 
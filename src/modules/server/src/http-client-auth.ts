@@ -0,0 +1,116 @@
+/**
+ * 入站客户端认证
+ *
+ * 配置了客户端密钥（顶层APIKEY或clientKeys区）时，/v1/*请求必须携带其中一个密钥：
+ * - x-api-key: <key>（Anthropic客户端），按AuthType.API_KEY认证
+ * - Authorization: Bearer <key>（OpenAI客户端），按AuthType.BEARER认证
+ *
+ * 密钥以恒定时间比较。密钥限定的路由类别和模型在路由选择之后检查，
+ * 未配置任何客户端密钥时不做认证
+ *
+ * @author RCC v4.0
+ */
+
+import { AuthenticationModule, AuthType, ClientKeyConfig } from '../../auth/auth-module';
+import { RCCError, RCCErrorCode } from '../../types/src/index';
+import { secureLogger } from '../../error-handler/src/utils/secure-logger';
+import { RequestContext, ResponseContext } from './http-types';
+
+/**
+ * 通过认证的客户端，记录在RequestContext.metadata.client
+ */
+export interface AuthenticatedClient {
+  name: string;
+  allowedRoutes?: string[];
+  allowedModels?: string[];
+  expiresAt?: string;
+}
+
+/**
+ * 客户端认证守卫
+ */
+export class ClientAuthGuard {
+  private apiKeyAuth: AuthenticationModule | null = null;
+  private bearerAuth: AuthenticationModule | null = null;
+
+  constructor(clientKeys: ClientKeyConfig[] = []) {
+    this.setClientKeys(clientKeys);
+  }
+
+  /**
+   * 替换客户端密钥（配置重载时调用），空列表表示关闭认证
+   */
+  setClientKeys(clientKeys: ClientKeyConfig[]): void {
+    if (clientKeys.length === 0) {
+      this.apiKeyAuth = null;
+      this.bearerAuth = null;
+      return;
+    }
+
+    this.apiKeyAuth = new AuthenticationModule({ type: AuthType.API_KEY, headerName: 'x-api-key', clientKeys });
+    this.bearerAuth = new AuthenticationModule({ type: AuthType.BEARER, clientKeys });
+  }
+
+  isEnabled(): boolean {
+    return this.apiKeyAuth !== null;
+  }
+
+  /**
+   * 认证请求；失败时写入401响应并返回false
+   */
+  async authenticate(req: RequestContext, res: ResponseContext): Promise<boolean> {
+    if (!this.apiKeyAuth || !this.bearerAuth) {
+      return true;
+    }
+
+    const result = req.headers['x-api-key'] !== undefined
+      ? await this.apiKeyAuth.authenticate(req)
+      : await this.bearerAuth.authenticate(req);
+
+    if (!result.authenticated) {
+      secureLogger.warn('🔒 客户端认证失败', { requestId: req.id, url: req.url, client: result.userId, error: result.error });
+      res.statusCode = 401;
+      res.body = {
+        type: 'error',
+        error: { type: 'authentication_error', message: result.error || 'Invalid API key' }
+      };
+      return false;
+    }
+
+    const client: AuthenticatedClient = {
+      name: result.userId!,
+      ...(result.allowedRoutes ? { allowedRoutes: result.allowedRoutes } : {}),
+      ...(result.allowedModels ? { allowedModels: result.allowedModels } : {}),
+      ...(result.expiresAt ? { expiresAt: result.expiresAt.toISOString() } : {})
+    };
+    req.metadata.client = client;
+    return true;
+  }
+}
+
+/**
+ * 检查通过认证的客户端是否允许使用选中的路由类别和请求的模型，不允许时抛出PERMISSION_DENIED
+ */
+export function assertClientRouteAllowed(req: RequestContext, routeName: string, model?: string): void {
+  const client: AuthenticatedClient | undefined = req.metadata.client;
+  if (!client) {
+    return;
+  }
+
+  if (client.allowedModels && !(model && client.allowedModels.includes(model))) {
+    throw new RCCError(
+      `Client key '${client.name}' is not allowed to use model '${model || '(none)'}'`,
+      RCCErrorCode.PERMISSION_DENIED,
+      'http-server',
+      { requestId: req.id, details: { client: client.name, model } }
+    );
+  }
+  if (client.allowedRoutes && !client.allowedRoutes.includes(routeName)) {
+    throw new RCCError(
+      `Client key '${client.name}' is not allowed to use route '${routeName}'`,
+      RCCErrorCode.PERMISSION_DENIED,
+      'http-server',
+      { requestId: req.id, details: { client: client.name, routeName } }
+    );
+  }
+}
@@ -0,0 +1,327 @@
+/**
+ * 入站客户端限流和用量预算
+ *
+ * 客户端密钥配置了limits时，在流水线分发之前按客户端检查：
+ * - requestsPerMinute: 最近60秒内的请求数（滑动窗口）
+ * - maxConcurrentRequests: 正在处理（含流式输出中）的请求数
+ * - tokensPerDay: 当日（UTC）已用输入+输出token
+ * - monthlySpendLimit: 当月（UTC）按模型价格计算的花费（美元）
+ *
+ * 每日token和每月花费写入RCC数据目录下的client-budgets.json，重启后继续累计；
+ * 用量变化后按间隔批量写盘，stop()时写入尚未落盘的用量。
+ * 预算在请求完成后才计入，因此最后一个放行的请求可能使用量略超上限
+ *
+ * @author RCC v4.0
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ClientKeyConfig } from '../../auth/auth-module';
+import { JQJsonHandler } from '../../error-handler/src/utils/jq-json-handler';
+import { secureLogger } from '../../error-handler/src/utils/secure-logger';
+import { SYSTEM_PATHS } from '../../constants/src/pipeline-constants';
+import { ModelPrice } from '../../router/src/routing-table-types';
+import { isStreamingResponseBody } from '../../pipeline/src/module-interface';
+import { RequestContext, ResponseContext } from './http-types';
+import { AuthenticatedClient } from './http-client-auth';
+import { ResponseUsage, estimateUsageCost, getTotalTokens, observeResponseUsage } from './http-response-usage';
+
+/**
+ * 客户端限流和预算，未设置的项不限制
+ */
+export interface ClientLimits {
+  requestsPerMinute?: number;
+  maxConcurrentRequests?: number;
+  tokensPerDay?: number;
+  monthlySpendLimit?: number;
+}
+
+/**
+ * 带限流配置的客户端密钥
+ */
+export type LimitedClientKeyConfig = ClientKeyConfig & { limits?: ClientLimits };
+
+/**
+ * 客户端的当日token和当月花费
+ */
+export interface ClientBudgetUsage {
+  day: string;
+  tokens: number;
+  month: string;
+  spend: number;
+}
+
+/**
+ * 超限错误响应的格式
+ */
+export type ClientLimitResponseFormat = 'anthropic' | 'openai';
+
+export interface ClientRateLimiterOptions {
+  // 预算持久化文件，默认<RCC数据目录>/client-budgets.json
+  budgetFile?: string;
+  // 按流水线ID查询模型价格（美元/百万token），未配置价格视为免费
+  getPipelinePrice?: (pipelineId: string) => ModelPrice | undefined;
+  now?: () => number;
+  // 预算写盘间隔，默认5秒
+  flushIntervalMs?: number;
+}
+
+interface ClientLimitRejection {
+  message: string;
+  retryAfterMs: number;
+}
+
+interface BudgetFile {
+  version: 1;
+  clients: Record<string, ClientBudgetUsage>;
+}
+
+const MINUTE_MS = 60 * 1000;
+const DEFAULT_FLUSH_INTERVAL_MS = 5000;
+// 并发已满时没有确定的空闲时间，建议客户端1秒后重试
+const CONCURRENCY_RETRY_AFTER_MS = 1000;
+
+export function getClientBudgetFile(): string {
+  return path.join(SYSTEM_PATHS.getRouteClaudeCodeHome(), 'client-budgets.json');
+}
+
+/**
+ * 客户端限流器
+ */
+export class ClientRateLimiter {
+  private limits: Map<string, ClientLimits> = new Map();
+  private recentRequests: Map<string, number[]> = new Map();
+  private activeRequests: Map<string, number> = new Map();
+  private budgets: Map<string, ClientBudgetUsage>;
+  private readonly budgetFile: string;
+  private readonly now: () => number;
+  private readonly flushIntervalMs: number;
+  private budgetsDirty = false;
+  private flushTimer: NodeJS.Timeout | null = null;
+
+  constructor(clientKeys: LimitedClientKeyConfig[] = [], private options: ClientRateLimiterOptions = {}) {
+    this.budgetFile = options.budgetFile || getClientBudgetFile();
+    this.now = options.now || Date.now;
+    this.flushIntervalMs = options.flushIntervalMs ?? DEFAULT_FLUSH_INTERVAL_MS;
+    this.budgets = this.loadBudgets();
+    this.setClientKeys(clientKeys);
+  }
+
+  /**
+   * 替换客户端限流配置（配置重载时调用），已累计的用量按客户端名保留
+   */
+  setClientKeys(clientKeys: LimitedClientKeyConfig[]): void {
+    this.limits = new Map(
+      clientKeys
+        .filter(clientKey => clientKey.limits && Object.keys(clientKey.limits).length > 0)
+        .map(clientKey => [clientKey.name, clientKey.limits!])
+    );
+  }
+
+  /**
+   * 请求进入流水线前检查限流和预算；超限时写入429响应并返回false，放行时占用一个并发名额
+   *
+   * 放行的请求处理完后必须调用complete()释放名额并计入用量
+   */
+  admit(req: RequestContext, res: ResponseContext, format: ClientLimitResponseFormat): boolean {
+    const client: AuthenticatedClient | undefined = req.metadata.client;
+    const limits = client && this.limits.get(client.name);
+    if (!client || !limits) {
+      return true;
+    }
+
+    const rejection = this.check(client.name, limits);
+    if (rejection) {
+      secureLogger.warn('🚦 客户端超出限额', { requestId: req.id, client: client.name, reason: rejection.message });
+      res.statusCode = 429;
+      res.headers['Retry-After'] = Math.max(1, Math.ceil(rejection.retryAfterMs / 1000)).toString();
+      res.body = format === 'openai'
+        ? { error: { message: rejection.message, type: 'rate_limit_error' } }
+        : { type: 'error', error: { type: 'rate_limit_error', message: rejection.message } };
+      return false;
+    }
+
+    this.recentRequests.get(client.name)!.push(this.now());
+    this.activeRequests.set(client.name, (this.activeRequests.get(client.name) || 0) + 1);
+    req.metadata.clientLimited = true;
+    return true;
+  }
+
+  /**
+   * 请求处理完成：非流式响应立即释放并发名额并计入用量；
+   * 流式响应包装事件流，在流结束时释放并计入。HTTP响应关闭（客户端断开、写出出错，
+   * 或事件流从未被读取）时也释放名额，避免名额一直被占用
+   */
+  complete(req: RequestContext, res: ResponseContext): void {
+    const client: AuthenticatedClient | undefined = req.metadata.client;
+    if (!client || !req.metadata.clientLimited) {
+      return;
+    }
+    req.metadata.clientLimited = false;
+
+    let released = false;
+    const releaseOnce = () => {
+      if (!released) {
+        released = true;
+        this.release(client.name);
+      }
+    };
+    if (isStreamingResponseBody(res.body) && typeof res._originalResponse?.once === 'function') {
+      res._originalResponse.once('close', releaseOnce);
+    }
+
+    const pipelineId = res.headers['X-Pipeline-ID'] as string | undefined;
+    observeResponseUsage(res, usage => {
+      releaseOnce();
+      if (usage) {
+        this.recordUsage(client.name, usage, pipelineId);
+      }
+    });
+  }
+
+  /**
+   * 停止定时写盘并写入尚未落盘的预算用量
+   */
+  stop(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    this.flush();
+  }
+
+  /**
+   * 查询客户端当日token和当月花费
+   */
+  getUsage(clientName: string): ClientBudgetUsage {
+    return this.currentBudget(clientName);
+  }
+
+  private check(clientName: string, limits: ClientLimits): ClientLimitRejection | null {
+    const now = this.now();
+
+    const recent = (this.recentRequests.get(clientName) || []).filter(timestamp => timestamp > now - MINUTE_MS);
+    this.recentRequests.set(clientName, recent);
+    if (limits.requestsPerMinute !== undefined && recent.length >= limits.requestsPerMinute) {
+      return {
+        message: `Client key '${clientName}' exceeded ${limits.requestsPerMinute} requests per minute`,
+        retryAfterMs: recent[0] + MINUTE_MS - now
+      };
+    }
+
+    const active = this.activeRequests.get(clientName) || 0;
+    if (limits.maxConcurrentRequests !== undefined && active >= limits.maxConcurrentRequests) {
+      return {
+        message: `Client key '${clientName}' already has ${active} concurrent requests (limit ${limits.maxConcurrentRequests})`,
+        retryAfterMs: CONCURRENCY_RETRY_AFTER_MS
+      };
+    }
+
+    const budget = this.currentBudget(clientName);
+    const today = new Date(now);
+    if (limits.tokensPerDay !== undefined && budget.tokens >= limits.tokensPerDay) {
+      return {
+        message: `Client key '${clientName}' used its daily budget of ${limits.tokensPerDay} tokens`,
+        retryAfterMs: Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate() + 1) - now
+      };
+    }
+    if (limits.monthlySpendLimit !== undefined && budget.spend >= limits.monthlySpendLimit) {
+      return {
+        message: `Client key '${clientName}' reached its monthly spend limit of $${limits.monthlySpendLimit}`,
+        retryAfterMs: Date.UTC(today.getUTCFullYear(), today.getUTCMonth() + 1, 1) - now
+      };
+    }
+
+    return null;
+  }
+
+  private release(clientName: string): void {
+    this.activeRequests.set(clientName, Math.max(0, (this.activeRequests.get(clientName) || 0) - 1));
+  }
+
+  private recordUsage(clientName: string, usage: ResponseUsage, pipelineId?: string): void {
+    const limits = this.limits.get(clientName);
+    if (!limits || (limits.tokensPerDay === undefined && limits.monthlySpendLimit === undefined)) {
+      return;
+    }
+
+    const price = pipelineId ? this.options.getPipelinePrice?.(pipelineId) : undefined;
+    const budget = this.currentBudget(clientName);
+    budget.tokens += getTotalTokens(usage);
+    budget.spend += estimateUsageCost(usage, price);
+    this.budgets.set(clientName, budget);
+    this.budgetsDirty = true;
+    this.scheduleFlush();
+  }
+
+  /**
+   * 当前UTC日/月的用量，跨日或跨月时对应计数归零
+   */
+  private currentBudget(clientName: string): ClientBudgetUsage {
+    const now = new Date(this.now()).toISOString();
+    const day = now.slice(0, 10);
+    const month = now.slice(0, 7);
+    const stored = this.budgets.get(clientName);
+
+    return {
+      day,
+      tokens: stored && stored.day === day ? stored.tokens : 0,
+      month,
+      spend: stored && stored.month === month ? stored.spend : 0
+    };
+  }
+
+  private loadBudgets(): Map<string, ClientBudgetUsage> {
+    if (!fs.existsSync(this.budgetFile)) {
+      return new Map();
+    }
+
+    try {
+      const data: BudgetFile = JQJsonHandler.parseJsonString(fs.readFileSync(this.budgetFile, 'utf8'));
+      return new Map(Object.entries(data.clients || {}));
+    } catch (error) {
+      secureLogger.warn('⚠️ 无法读取客户端预算文件，用量从零开始', { budgetFile: this.budgetFile, error: error instanceof Error ? error.message : String(error) });
+      return new Map();
+    }
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer) {
+      return;
+    }
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      this.flush();
+    }, this.flushIntervalMs);
+    // 不因待写入的预算阻止进程退出
+    this.flushTimer.unref();
+  }
+
+  /**
+   * 预算有变化时写盘；写入失败时保留变化标记，稍后重试
+   */
+  private flush(): void {
+    if (!this.budgetsDirty) {
+      return;
+    }
+
+    try {
+      this.saveBudgets();
+      this.budgetsDirty = false;
+    } catch (error) {
+      secureLogger.error('❌ 写入客户端预算文件失败', { budgetFile: this.budgetFile, error: error instanceof Error ? error.message : String(error) });
+      this.scheduleFlush();
+    }
+  }
+
+  /**
+   * 先写临时文件再改名，避免进程中途退出留下不完整的预算文件
+   */
+  private saveBudgets(): void {
+    const data: BudgetFile = { version: 1, clients: Object.fromEntries(this.budgets) };
+    const tempFile = `${this.budgetFile}.${process.pid}.tmp`;
+    fs.mkdirSync(path.dirname(this.budgetFile), { recursive: true });
+    fs.writeFileSync(tempFile, JSON.stringify(data, null, 2));
+    fs.renameSync(tempFile, this.budgetFile);
+  }
+}
@@ -15,6 +15,7 @@ import {
   ServerConfig 
 } from './http-types';
 import { RCCError } from '../../types/src/index';
+import { isStreamingResponseBody } from '../../pipeline/src/module-interface';
 
 /**
  * HTTP请求上下文管理器
@@ -162,8 +163,10 @@ export class HTTPContextManager {
 
     // 发送响应体
     if (context.body !== undefined) {
-      // 检查是否为流式响应
-      if (typeof context.body === 'object' && context.body !== null && 'chunks' in context.body) {
+      // 实时流式响应：事件到达即写出
+      if (isStreamingResponseBody(context.body)) {
+        await this.streamEvents(res, context.body.stream, context.req.id);
+      } else if (typeof context.body === 'object' && context.body !== null && 'chunks' in context.body) {
         // 处理流式响应
         const streamResponse = context.body as any;
         if (Array.isArray(streamResponse.chunks)) {
@@ -175,7 +178,6 @@ export class HTTPContextManager {
           // 发送每个chunk
           for (const chunk of streamResponse.chunks) {
             res.write(`data: ${JSON.stringify(chunk)}\n\n`);
-            await new Promise(resolve => setTimeout(resolve, 10));
           }
 
           res.end();
@@ -199,6 +201,68 @@ export class HTTPContextManager {
     }
   }
 
+  /**
+   * 实时转发流式事件
+   * 
+   * 客户端断开时停止迭代并调用上游流的return()，由上游流的finally关闭上游连接；
+   * 流中途出错时发送Anthropic error事件后结束响应
+   */
+  private async streamEvents(res: http.ServerResponse, stream: AsyncIterable<any>, requestId: string): Promise<void> {
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.flushHeaders();
+
+    const iterator = stream[Symbol.asyncIterator]();
+    let clientClosed = false;
+    const onClose = () => {
+      clientClosed = true;
+    };
+    res.on('close', onClose);
+
+    let eventCount = 0;
+    try {
+      while (!clientClosed) {
+        const { value, done } = await iterator.next();
+        if (done) {
+          break;
+        }
+        if (clientClosed) {
+          console.warn(`⚠️ [${requestId}] 客户端已断开，停止流式转发 (${eventCount} events)`);
+          break;
+        }
+        res.write(this.formatSSEEvent(value));
+        eventCount++;
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Stream processing failed';
+      console.error(`❌ [${requestId}] 流式响应中断: ${message}`);
+      if (!clientClosed) {
+        res.write(this.formatSSEEvent({ type: 'error', error: { type: 'api_error', message } }));
+      }
+    } finally {
+      res.off('close', onClose);
+      if (clientClosed) {
+        await iterator.return?.();
+      }
+      if (!res.writableEnded) {
+        res.end();
+      }
+    }
+
+    if (this.config.debug) {
+      console.log(`🌊 [${requestId}] 流式响应完成: ${eventCount} events`);
+    }
+  }
+
+  /**
+   * 格式化SSE事件（带type的事件同时写出event行）
+   */
+  private formatSSEEvent(event: any): string {
+    const eventLine = event && typeof event.type === 'string' ? `event: ${event.type}\n` : '';
+    return `${eventLine}data: ${JSON.stringify(event)}\n\n`;
+  }
+
   /**
    * 生成请求ID
    */
@@ -0,0 +1,75 @@
+/**
+ * Token计数处理器
+ *
+ * 处理POST /v1/messages/count_tokens：
+ * - 使用与/v1/messages相同的AnthropicInputValidator校验请求
+ * - 按请求将路由到的Provider选择Tokenizer家族，离线估算system、messages、tools和图片的token数
+ * - 返回Anthropic格式 { input_tokens }
+ *
+ * @author RCC v4.0
+ */
+
+import { AnthropicInputValidator } from '../../validators/anthropic-input-validator';
+import { RequestRouter } from '../../router/src/request-router';
+import {
+  estimateRequestTokens,
+  resolveTokenizerFamily,
+  TokenizerFamily
+} from '../../router/src/token-estimator';
+import {
+  RequestContext,
+  ResponseContext,
+  CountTokensHandler
+} from './http-types';
+
+/**
+ * Token计数处理器实现
+ */
+export class CountTokensHandlerImpl implements CountTokensHandler {
+  private readonly validator = new AnthropicInputValidator();
+  private requestRouter: RequestRouter | null = null;
+
+  /**
+   * 设置请求路由器（供外部调用）
+   */
+  setRequestRouter(requestRouter: RequestRouter | null): void {
+    this.requestRouter = requestRouter;
+  }
+
+  /**
+   * 处理POST /v1/messages/count_tokens
+   */
+  async handleCountTokens(req: RequestContext, res: ResponseContext): Promise<void> {
+    if (!req.body) {
+      this.sendInvalidRequest(res, 'Request body is required');
+      return;
+    }
+
+    const validation = await this.validator.process(req.body);
+    if (!validation.isValid) {
+      this.sendInvalidRequest(res, validation.errors.join('; '));
+      return;
+    }
+
+    const estimate = estimateRequestTokens(req.body, { family: this.resolveFamily(req.body) });
+    res.headers['X-Token-Estimator'] = estimate.tokenizer;
+    res.body = { input_tokens: estimate.inputTokens };
+  }
+
+  /**
+   * 按请求将路由到的Provider协议选择Tokenizer家族
+   */
+  private resolveFamily(requestBody: any): TokenizerFamily {
+    const route = this.requestRouter?.resolvePrimaryRoute(requestBody);
+    if (!route) {
+      return 'default';
+    }
+
+    return resolveTokenizerFamily(this.requestRouter!.getModelEntry(route.provider, route.model)?.protocol);
+  }
+
+  private sendInvalidRequest(res: ResponseContext, message: string): void {
+    res.statusCode = 400;
+    res.body = { type: 'error', error: { type: 'invalid_request_error', message } };
+  }
+}
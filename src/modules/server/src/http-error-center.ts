@@ -171,16 +171,23 @@ export class HTTPErrorCenter {
     }
   ): HTTPErrorResponse {
     const statusCode = handlingResult.statusCode || 500;
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'X-Request-ID': context.requestId,
+      'X-Error-Type': handlingResult.errorType || 'unknown_error',
+      'X-Error-Code': handlingResult.errorCode || 'unknown_code',
+      'Timestamp': new Date().toISOString()
+    };
+
+    // 限流错误携带重试间隔时告知客户端
+    const retryAfterMs = context.originalError instanceof RCCError ? context.originalError.context.details?.retryAfterMs : undefined;
+    if (statusCode === 429 && typeof retryAfterMs === 'number') {
+      headers['Retry-After'] = Math.max(1, Math.ceil(retryAfterMs / 1000)).toString();
+    }
 
     return {
       statusCode,
-      headers: {
-        'Content-Type': 'application/json',
-        'X-Request-ID': context.requestId,
-        'X-Error-Type': handlingResult.errorType || 'unknown_error',
-        'X-Error-Code': handlingResult.errorCode || 'unknown_code',
-        'Timestamp': new Date().toISOString()
-      },
+      headers,
       body: {
         error: {
           message: this.getPublicMessage(statusCode, handlingResult.errorMessage || 'Internal Server Error'),
@@ -241,6 +248,7 @@ export class HTTPErrorCenter {
       case RCCErrorCode.RATE_LIMIT_ERROR:
         return 429; // Too Many Requests
       case RCCErrorCode.SERVICE_UNAVAILABLE:
+      case RCCErrorCode.ROUTER_NO_PROVIDER:
         return 503; // Service Unavailable
       case RCCErrorCode.NETWORK_ERROR:
       case RCCErrorCode.TIMEOUT_ERROR:
@@ -281,6 +289,7 @@ export class HTTPErrorCenter {
       case RCCErrorCode.RATE_LIMIT_ERROR:
         return 'rate_limit_error';
       case RCCErrorCode.SERVICE_UNAVAILABLE:
+      case RCCErrorCode.ROUTER_NO_PROVIDER:
         return 'service_unavailable';
       case RCCErrorCode.NETWORK_ERROR:
         return 'network_error';
@@ -13,6 +13,7 @@ import {
   ServerStatus 
 } from './http-types';
 import { AssembledPipeline } from './http-types';
+import { ApiKeyPoolManager } from '../../router/src/api-key-pool';
 
 /**
  * HTTP请求处理器实现
@@ -20,6 +21,7 @@ import { AssembledPipeline } from './http-types';
 export class HTTPRequestHandlersImpl implements HTTPRequestHandlers {
   private assembledPipelines: AssembledPipeline[];
   private initialized: boolean;
+  private apiKeyPools: ApiKeyPoolManager | null = null;
 
   constructor(assembledPipelines: AssembledPipeline[] = [], initialized: boolean = false) {
     this.assembledPipelines = assembledPipelines;
@@ -64,6 +66,7 @@ export class HTTPRequestHandlersImpl implements HTTPRequestHandlers {
         total: this.assembledPipelines.length,
         initialized: this.initialized
       },
+      ...(this.apiKeyPools ? { apiKeys: this.apiKeyPools.getStatus() } : {}),
       performance: {
         memoryUsage: process.memoryUsage().heapUsed,
         cpuUsage: process.cpuUsage(),
@@ -93,6 +96,13 @@ export class HTTPRequestHandlersImpl implements HTTPRequestHandlers {
     this.initialized = initialized;
   }
 
+  /**
+   * 设置Provider密钥池（状态中展示密钥健康）
+   */
+  setApiKeyPools(apiKeyPools: ApiKeyPoolManager | null): void {
+    this.apiKeyPools = apiKeyPools;
+  }
+
   /**
    * 获取服务器状态（供外部使用）
    */
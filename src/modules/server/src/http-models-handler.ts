@@ -0,0 +1,219 @@
+/**
+ * 模型列表处理器
+ *
+ * 处理GET /v1/models和GET /v1/models/{model}，模型列表由路由表生成：
+ * - 路由类别（default、longContext等虚拟模型）及其目标provider,model
+ * - 配置中声明的具体provider,model，附带maxTokens和capabilities
+ *
+ * 请求带anthropic-version头时返回Anthropic格式，否则返回OpenAI格式；
+ * 可通过?format=anthropic|openai显式指定。
+ * 客户端密钥限定了路由类别或模型时，只列出该密钥可以请求的条目
+ *
+ * @author RCC v4.0
+ */
+
+import { RequestRouter } from '../../router/src/request-router';
+import { assertClientRouteAllowed } from './http-client-auth';
+import {
+  RequestContext,
+  ResponseContext,
+  ModelsHandler
+} from './http-types';
+
+/**
+ * 模型列表条目
+ */
+interface ModelListing {
+  id: string;
+  displayName: string;
+  // 以该id作为model请求时解析到的路由类别，用于按客户端密钥过滤
+  routeName: string;
+  rcc: {
+    type: 'route' | 'model';
+    provider?: string;
+    model?: string;
+    maxTokens?: number;
+    capabilities?: string[];
+    protocol?: string;
+    targets?: string[];
+  };
+}
+
+type ModelsResponseFormat = 'anthropic' | 'openai';
+
+/**
+ * 模型列表处理器实现
+ */
+export class ModelsHandlerImpl implements ModelsHandler {
+  private requestRouter: RequestRouter | null = null;
+
+  /**
+   * 设置请求路由器（供外部调用）
+   */
+  setRequestRouter(requestRouter: RequestRouter | null): void {
+    this.requestRouter = requestRouter;
+  }
+
+  /**
+   * 处理GET /v1/models
+   */
+  async handleListModels(req: RequestContext, res: ResponseContext): Promise<void> {
+    const listings = this.buildListings(req);
+    const createdAt = this.getCreatedAt();
+
+    if (this.resolveFormat(req) === 'anthropic') {
+      const data = listings.map(listing => this.toAnthropicModel(listing, createdAt));
+      res.body = {
+        data,
+        has_more: false,
+        first_id: data.length > 0 ? data[0].id : null,
+        last_id: data.length > 0 ? data[data.length - 1].id : null
+      };
+      return;
+    }
+
+    res.body = {
+      object: 'list',
+      data: listings.map(listing => this.toOpenAIModel(listing, createdAt))
+    };
+  }
+
+  /**
+   * 处理GET /v1/models/{model}
+   */
+  async handleGetModel(req: RequestContext, res: ResponseContext): Promise<void> {
+    const modelId = req.params.model || '';
+    const listing = this.buildListings(req).find(candidate => candidate.id === modelId);
+    const format = this.resolveFormat(req);
+
+    if (!listing) {
+      const message = `Model '${modelId}' not found`;
+      res.statusCode = 404;
+      res.body = format === 'anthropic'
+        ? { type: 'error', error: { type: 'not_found_error', message } }
+        : { error: { message, type: 'invalid_request_error', param: 'model', code: 'model_not_found' } };
+      return;
+    }
+
+    const createdAt = this.getCreatedAt();
+    res.body = format === 'anthropic'
+      ? this.toAnthropicModel(listing, createdAt)
+      : this.toOpenAIModel(listing, createdAt);
+  }
+
+  /**
+   * 由路由表生成请求客户端可见的模型列表：先路由类别，后具体模型
+   */
+  private buildListings(req: RequestContext): ModelListing[] {
+    if (!this.requestRouter) {
+      return [];
+    }
+
+    const listings: ModelListing[] = [];
+
+    for (const routeName of this.requestRouter.getRouteNames()) {
+      const targets: string[] = [];
+      for (const route of this.requestRouter.getRoutes(routeName)) {
+        const target = `${route.provider},${route.model}`;
+        if (!targets.includes(target)) {
+          targets.push(target);
+        }
+      }
+      listings.push({
+        id: routeName,
+        displayName: `RCC route: ${routeName}`,
+        routeName,
+        rcc: { type: 'route', targets }
+      });
+    }
+
+    for (const entry of this.requestRouter.getModelCatalog()) {
+      const id = `${entry.provider},${entry.model}`;
+      if (listings.some(listing => listing.id === id)) {
+        continue;
+      }
+      listings.push({
+        id,
+        displayName: `${entry.model} (${entry.provider})`,
+        routeName: this.resolveModelRoute(entry.provider, entry.model),
+        rcc: {
+          type: 'model',
+          provider: entry.provider,
+          model: entry.model,
+          ...(entry.maxTokens !== undefined ? { maxTokens: entry.maxTokens } : {}),
+          ...(entry.capabilities ? { capabilities: entry.capabilities } : {}),
+          ...(entry.protocol ? { protocol: entry.protocol } : {})
+        }
+      });
+    }
+
+    return listings.filter(listing => this.isAllowedForClient(req, listing));
+  }
+
+  /**
+   * "provider,model"请求解析到的路由类别：首个包含该模型的路由，未被路由引用时为默认路由
+   */
+  private resolveModelRoute(provider: string, model: string): string {
+    const routeName = this.requestRouter!.getRouteNames().find(name =>
+      this.requestRouter!.getRoutes(name).some(route => route.provider === provider && route.model === model)
+    );
+    return routeName || this.requestRouter!.getDefaultRoute();
+  }
+
+  /**
+   * 与请求路由时相同的客户端密钥检查
+   */
+  private isAllowedForClient(req: RequestContext, listing: ModelListing): boolean {
+    try {
+      assertClientRouteAllowed(req, listing.routeName, listing.id);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * 判断响应格式
+   */
+  private resolveFormat(req: RequestContext): ModelsResponseFormat {
+    const format = req.query?.format;
+    if (format === 'anthropic' || format === 'openai') {
+      return format;
+    }
+    return req.headers['anthropic-version'] !== undefined ? 'anthropic' : 'openai';
+  }
+
+  /**
+   * 模型创建时间取路由表生成时间
+   */
+  private getCreatedAt(): Date {
+    const generatedAt = this.requestRouter ? new Date(this.requestRouter.getGeneratedAt()) : new Date(NaN);
+    return isNaN(generatedAt.getTime()) ? new Date() : generatedAt;
+  }
+
+  /**
+   * Anthropic模型对象
+   */
+  private toAnthropicModel(listing: ModelListing, createdAt: Date): Record<string, any> {
+    return {
+      type: 'model',
+      id: listing.id,
+      display_name: listing.displayName,
+      created_at: createdAt.toISOString(),
+      rcc: listing.rcc
+    };
+  }
+
+  /**
+   * OpenAI模型对象
+   */
+  private toOpenAIModel(listing: ModelListing, createdAt: Date): Record<string, any> {
+    return {
+      id: listing.id,
+      object: 'model',
+      created: Math.floor(createdAt.getTime() / 1000),
+      owned_by: listing.rcc.provider || 'rcc',
+      rcc: listing.rcc
+    };
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * 响应用量提取
+ *
+ * 从流水线返回的响应体读取token用量，统一Anthropic和OpenAI两种格式：
+ * - Anthropic: input_tokens不含缓存，缓存读写为cache_read_input_tokens/cache_creation_input_tokens
+ * - OpenAI: prompt_tokens包含prompt_tokens_details.cached_tokens，换算为不含缓存的inputTokens
+ *
+ * 流式响应包装事件流，在流结束或HTTP响应关闭时回报累计用量
+ *
+ * @author RCC v4.0
+ */
+
+import { ModelPrice } from '../../router/src/routing-table-types';
+import { isStreamingResponseBody } from '../../pipeline/src/module-interface';
+import { ResponseContext } from './http-types';
+
+/**
+ * 一次请求的token用量
+ */
+export interface ResponseUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheCreationTokens: number;
+}
+
+/**
+ * 把响应中的usage区转换为ResponseUsage，没有用量时返回null
+ */
+export function extractResponseUsage(usage: any): ResponseUsage | null {
+  if (!usage || typeof usage !== 'object') {
+    return null;
+  }
+
+  if (usage.prompt_tokens !== undefined || usage.completion_tokens !== undefined) {
+    const cachedTokens = usage.prompt_tokens_details?.cached_tokens ?? 0;
+    return {
+      inputTokens: Math.max(0, (usage.prompt_tokens ?? 0) - cachedTokens),
+      outputTokens: usage.completion_tokens ?? 0,
+      cacheReadTokens: cachedTokens,
+      cacheCreationTokens: 0
+    };
+  }
+
+  return {
+    inputTokens: usage.input_tokens ?? 0,
+    outputTokens: usage.output_tokens ?? 0,
+    cacheReadTokens: usage.cache_read_input_tokens ?? 0,
+    cacheCreationTokens: usage.cache_creation_input_tokens ?? 0
+  };
+}
+
+/**
+ * 输入（含缓存）和输出token总数
+ */
+export function getTotalTokens(usage: ResponseUsage): number {
+  return usage.inputTokens + usage.cacheReadTokens + usage.cacheCreationTokens + usage.outputTokens;
+}
+
+/**
+ * 按模型价格（美元/百万token）估算花费，缓存token按输入价格计算，未配置价格视为免费
+ */
+export function estimateUsageCost(usage: ResponseUsage, price?: ModelPrice): number {
+  if (!price) {
+    return 0;
+  }
+  const inputTokens = usage.inputTokens + usage.cacheReadTokens + usage.cacheCreationTokens;
+  return (inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+}
+
+/**
+ * 响应完成时回报用量（只回报一次）：非流式响应立即回报；流式响应在流结束时回报，
+ * HTTP响应先关闭（客户端断开、写出出错，或事件流从未被读取）时按已收到的事件回报
+ */
+export function observeResponseUsage(res: ResponseContext, onComplete: (usage: ResponseUsage | null) => void): void {
+  if (!isStreamingResponseBody(res.body)) {
+    onComplete(extractResponseUsage(res.body?.usage));
+    return;
+  }
+
+  const tracker: StreamUsageTracker = { usage: null, completed: false };
+  const finish = () => {
+    if (!tracker.completed) {
+      tracker.completed = true;
+      onComplete(tracker.usage);
+    }
+  };
+  res.body = { ...res.body, stream: trackStreamUsage(res.body.stream, tracker, finish) };
+  if (typeof res._originalResponse?.once === 'function') {
+    res._originalResponse.once('close', finish);
+  }
+}
+
+interface StreamUsageTracker {
+  usage: ResponseUsage | null;
+  completed: boolean;
+}
+
+async function* trackStreamUsage(stream: AsyncIterable<any>, tracker: StreamUsageTracker, finish: () => void): AsyncIterable<any> {
+  try {
+    for await (const event of stream) {
+      // message_start携带输入和缓存用量，message_delta携带累计输出；OpenAI在最后一个chunk携带完整用量
+      const eventUsage = extractResponseUsage(event?.type === 'message_start' ? event.message?.usage : event?.usage);
+      if (eventUsage) {
+        const usage = tracker.usage;
+        tracker.usage = event?.type === 'message_delta' && usage
+          ? { ...usage, outputTokens: eventUsage.outputTokens, ...(event.usage.input_tokens !== undefined ? { inputTokens: eventUsage.inputTokens } : {}) }
+          : eventUsage;
+      }
+      yield event;
+    }
+  } finally {
+    finish();
+  }
+}
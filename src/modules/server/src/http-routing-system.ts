@@ -57,7 +57,6 @@ export class HTTPRoutingSystemImpl implements HTTPRoutingSystem {
    * 查找匹配的路由
    */
   private findMatchingRoute(routes: Route[], path: string): Route | null {
-    // 基本实现：先查找精确匹配，后续可以扩展支持路径参数
     for (const route of routes) {
       if (this.pathMatches(route.path, path)) {
         return route;
@@ -73,21 +72,71 @@ export class HTTPRoutingSystemImpl implements HTTPRoutingSystem {
     // 移除查询参数
     const cleanPath = requestPath.split('?')[0];
 
-    // 基本实现：精确匹配
     if (routePath === cleanPath) {
       return true;
     }
 
-    // TODO: 支持路径参数匹配 (如 /user/:id)
-    return false;
+    return this.matchPathParams(routePath, cleanPath) !== null;
+  }
+
+  /**
+   * 按路由模板匹配路径参数
+   * - :name 匹配单个路径段
+   * - *name 匹配剩余路径（可包含/，如 provider/model 形式的模型名）
+   */
+  private matchPathParams(routePath: string, path: string): Record<string, string> | null {
+    const routeSegments = routePath.split('/');
+    const pathSegments = path.split('/');
+    const params: Record<string, string> = {};
+
+    for (let i = 0; i < routeSegments.length; i++) {
+      const segment = routeSegments[i];
+
+      if (segment.startsWith('*')) {
+        const rest = pathSegments.slice(i).join('/');
+        if (!rest) {
+          return null;
+        }
+        params[segment.slice(1)] = this.decodeSegment(rest);
+        return params;
+      }
+
+      if (i >= pathSegments.length) {
+        return null;
+      }
+
+      if (segment.startsWith(':')) {
+        if (!pathSegments[i]) {
+          return null;
+        }
+        params[segment.slice(1)] = this.decodeSegment(pathSegments[i]);
+      } else if (segment !== pathSegments[i]) {
+        return null;
+      }
+    }
+
+    return routeSegments.length === pathSegments.length ? params : null;
+  }
+
+  /**
+   * 解码路径参数，格式错误时保留原值
+   */
+  private decodeSegment(segment: string): string {
+    try {
+      return decodeURIComponent(segment);
+    } catch {
+      return segment;
+    }
   }
 
   /**
    * 提取路径参数
    */
   private extractPathParams(routePath: string, requestPath: string, req: RequestContext): void {
-    // TODO: 实现路径参数提取
-    // 目前只支持精确匹配，不需要参数提取
+    const params = this.matchPathParams(routePath, requestPath.split('?')[0]);
+    if (params) {
+      req.params = { ...req.params, ...params };
+    }
   }
 
   /**
@@ -23,11 +23,21 @@ import {
 import { HTTPContextManager } from './http-context-manager';
 import { HTTPRoutingSystemImpl } from './http-routing-system';
 import { HTTPRequestHandlersImpl } from './http-handlers';
-import { AnthropicMessageHandlerImpl } from './http-anthropic-handler';
+import { AnthropicMessageHandlerImpl, FallbackExecution } from './http-anthropic-handler';
+import { ModelsHandlerImpl } from './http-models-handler';
+import { CountTokensHandlerImpl } from './http-count-tokens-handler';
+import { AdminApiHandlerImpl, AdminServices } from './http-admin-handler';
+import { ClientAuthGuard, assertClientRouteAllowed } from './http-client-auth';
+import { ClientRateLimiter, ClientLimitResponseFormat, LimitedClientKeyConfig } from './http-client-limits';
+import { UsageLedger, getUsageLedgerDir } from './http-usage-ledger';
+import { estimateUsageCost, observeResponseUsage } from './http-response-usage';
+import { ModelPrice } from '../../router/src/routing-table-types';
 import { getEnhancedErrorHandler, EnhancedErrorHandler } from '../../error-handler/src/enhanced-error-handler';
 import { HTTPErrorCenter } from './http-error-center';
 import { ModuleDebugIntegration } from '../../logging/src/debug-integration';
 import { RCCError, RCCErrorCode } from '../../types/src/index';
+import { RequestRouter, RouteDecision } from '../../router/src/request-router';
+import { _InternalRoutingTable } from '../../router/src/router-preprocessor';
 
 /**
  * HTTP服务器核心类 - 组合架构重构版本
@@ -37,6 +47,11 @@ import { RCCError, RCCErrorCode } from '../../types/src/index';
  * - HTTPRoutingSystemImpl: 路由系统
  * - HTTPRequestHandlersImpl: 基础请求处理
  * - AnthropicMessageHandlerImpl: Anthropic消息处理
+ * - ModelsHandlerImpl: 模型列表
+ * - AdminApiHandlerImpl: 运行时管理接口
+ * - ClientAuthGuard: /v1/*客户端密钥认证
+ * - ClientRateLimiter: 按客户端限流和用量预算
+ * - UsageLedger: 按客户端、路由、Provider、模型和流水线记录用量
  * - HTTPErrorCenter: 错误处理
  */
 export class HTTPServer extends EventEmitter implements HTTPServerCore {
@@ -53,6 +68,12 @@ export class HTTPServer extends EventEmitter implements HTTPServerCore {
   private routingSystem: HTTPRoutingSystemImpl;
   private requestHandlers: HTTPRequestHandlersImpl;
   private anthropicHandler: AnthropicMessageHandlerImpl;
+  private modelsHandler: ModelsHandlerImpl;
+  private countTokensHandler: CountTokensHandlerImpl;
+  private adminHandler: AdminApiHandlerImpl;
+  private clientAuth: ClientAuthGuard;
+  private clientLimiter: ClientRateLimiter;
+  private usageLedger: UsageLedger;
   private errorHandler: EnhancedErrorHandler;
   private httpErrorCenter: HTTPErrorCenter;
   private debugIntegration: ModuleDebugIntegration;
@@ -60,6 +81,7 @@ export class HTTPServer extends EventEmitter implements HTTPServerCore {
   // 外部注入的流水线组件
   private assembledPipelines: AssembledPipeline[] = [];
   private initialized: boolean = false;
+  private requestRouter: RequestRouter | null = null;
 
   constructor(config: ServerConfig, private configPath?: string) {
     super();
@@ -76,6 +98,20 @@ export class HTTPServer extends EventEmitter implements HTTPServerCore {
     this.routingSystem = new HTTPRoutingSystemImpl();
     this.requestHandlers = new HTTPRequestHandlersImpl();
     this.anthropicHandler = new AnthropicMessageHandlerImpl([], false, this.config.debug);
+    this.modelsHandler = new ModelsHandlerImpl();
+    this.countTokensHandler = new CountTokensHandlerImpl();
+    this.usageLedger = new UsageLedger({ ledgerDir: getUsageLedgerDir(this.config.port) });
+    this.adminHandler = new AdminApiHandlerImpl(this.config.adminToken, {
+      getRequestRouter: () => this.requestRouter,
+      getRouteLoadBalancer: () => this.anthropicHandler.getRouteLoadBalancer(),
+      getApiKeyPools: () => this.anthropicHandler.getApiKeyPools(),
+      explainRoute: (requestBody, requestId) => this.anthropicHandler.explainRoute(requestBody, requestId),
+      getUsageLedger: () => this.usageLedger
+    });
+    this.clientAuth = new ClientAuthGuard();
+    this.clientLimiter = new ClientRateLimiter([], {
+      getPipelinePrice: pipelineId => this.getPipelinePrice(pipelineId)
+    });
     
     // 初始化错误处理器
     this.errorHandler = getEnhancedErrorHandler(this.config.port);
@@ -97,6 +133,34 @@ export class HTTPServer extends EventEmitter implements HTTPServerCore {
     this.anthropicHandler.setPipelines(pipelines, initialized);
   }
 
+  /**
+   * 设置路由表（供外部调用）
+   * 
+   * 路由表来自RouterPreprocessor.preprocess()，用于请求时按model选择流水线
+   */
+  setRoutingTable(routingTable: _InternalRoutingTable | null): void {
+    this.requestRouter = routingTable ? new RequestRouter(routingTable) : null;
+    this.anthropicHandler.setRequestRouter(this.requestRouter);
+    this.requestHandlers.setApiKeyPools(this.anthropicHandler.getApiKeyPools());
+    this.modelsHandler.setRequestRouter(this.requestRouter);
+    this.countTokensHandler.setRequestRouter(this.requestRouter);
+  }
+
+  /**
+   * 设置客户端密钥及其限流配置（供外部调用），空列表表示/v1/*不做认证
+   */
+  setClientKeys(clientKeys: LimitedClientKeyConfig[]): void {
+    this.clientAuth.setClientKeys(clientKeys);
+    this.clientLimiter.setClientKeys(clientKeys);
+  }
+
+  /**
+   * 设置管理接口依赖的运行时服务（供外部调用）
+   */
+  setAdminServices(services: AdminServices): void {
+    this.adminHandler.setServices(services);
+  }
+
   /**
    * 设置Debug集成（供外部调用）
    */
@@ -133,14 +197,154 @@ export class HTTPServer extends EventEmitter implements HTTPServerCore {
     });
 
     // Anthropic标准messages端点
-    this.addRoute('POST', '/v1/messages', async (req, res) => {
+    this.addRoute('POST', '/v1/messages', this.withClientAuth(this.withClientLimits('anthropic', async (req, res) => {
       await this.anthropicHandler.handleAnthropicMessages(req, res);
-    });
+    })));
+
+    // Anthropic token计数端点
+    this.addRoute('POST', '/v1/messages/count_tokens', this.withClientAuth(async (req, res) => {
+      await this.countTokensHandler.handleCountTokens(req, res);
+    }));
 
     // OpenAI兼容的聊天完成端点
-    this.addRoute('POST', '/v1/chat/completions', async (req, res) => {
+    this.addRoute('POST', '/v1/chat/completions', this.withClientAuth(this.withClientLimits('openai', async (req, res) => {
       await this.handleChatCompletions(req, res);
+    })));
+
+    // 模型列表端点（Anthropic和OpenAI格式）
+    this.addRoute('GET', '/v1/models', this.withClientAuth(async (req, res) => {
+      await this.modelsHandler.handleListModels(req, res);
+    }));
+
+    this.addRoute('GET', '/v1/models/*model', this.withClientAuth(async (req, res) => {
+      await this.modelsHandler.handleGetModel(req, res);
+    }));
+
+    // 管理接口
+    this.addRoute('GET', '/admin/pipelines', async (req, res) => {
+      await this.adminHandler.handleListPipelines(req, res);
+    });
+
+    this.addRoute('POST', '/admin/pipelines/:pipelineId/drain', async (req, res) => {
+      await this.adminHandler.handleDrainPipeline(req, res);
+    });
+
+    this.addRoute('POST', '/admin/pipelines/:pipelineId/enable', async (req, res) => {
+      await this.adminHandler.handleEnablePipeline(req, res);
+    });
+
+    this.addRoute('GET', '/admin/providers/health', async (req, res) => {
+      await this.adminHandler.handleProviderHealth(req, res);
+    });
+
+    this.addRoute('POST', '/admin/providers/:provider/maintenance', async (req, res) => {
+      await this.adminHandler.handleEnterMaintenance(req, res);
+    });
+
+    this.addRoute('DELETE', '/admin/providers/:provider/maintenance', async (req, res) => {
+      await this.adminHandler.handleExitMaintenance(req, res);
+    });
+
+    this.addRoute('GET', '/admin/circuit-breakers', async (req, res) => {
+      await this.adminHandler.handleListCircuitBreakers(req, res);
+    });
+
+    this.addRoute('POST', '/admin/circuit-breakers/:pipelineId/trip', async (req, res) => {
+      await this.adminHandler.handleTripCircuitBreaker(req, res);
+    });
+
+    this.addRoute('POST', '/admin/circuit-breakers/:pipelineId/reset', async (req, res) => {
+      await this.adminHandler.handleResetCircuitBreaker(req, res);
+    });
+
+    this.addRoute('POST', '/admin/self-check', async (req, res) => {
+      await this.adminHandler.handleSelfCheck(req, res);
+    });
+
+    this.addRoute('GET', '/admin/routing-table', async (req, res) => {
+      await this.adminHandler.handleGetRoutingTable(req, res);
+    });
+
+    this.addRoute('POST', '/admin/route-test', async (req, res) => {
+      await this.adminHandler.handleRouteTest(req, res);
+    });
+
+    this.addRoute('GET', '/admin/keys', async (req, res) => {
+      await this.adminHandler.handleKeyStatus(req, res);
     });
+
+    this.addRoute('GET', '/admin/usage', async (req, res) => {
+      await this.adminHandler.handleUsage(req, res);
+    });
+
+    this.addRoute('POST', '/admin/reload', async (req, res) => {
+      await this.adminHandler.handleReload(req, res);
+    });
+  }
+
+  /**
+   * 客户端认证通过后才执行处理器
+   */
+  private withClientAuth(handler: RouteHandler): RouteHandler {
+    return async (req, res) => {
+      if (await this.clientAuth.authenticate(req, res)) {
+        await handler(req, res);
+      }
+    };
+  }
+
+  /**
+   * 客户端未超出限流和预算时才分发到流水线，超限时按端点格式返回429；
+   * 处理完成后把用量记入账本并释放客户端的并发名额
+   */
+  private withClientLimits(format: ClientLimitResponseFormat, handler: RouteHandler): RouteHandler {
+    return async (req, res) => {
+      if (!this.clientLimiter.admit(req, res, format)) {
+        return;
+      }
+      try {
+        await handler(req, res);
+        this.recordUsage(req, res);
+      } finally {
+        this.clientLimiter.complete(req, res);
+      }
+    };
+  }
+
+  /**
+   * 请求成功分发到流水线时，响应完成后把用量记入账本
+   */
+  private recordUsage(req: RequestContext, res: ResponseContext): void {
+    const pipelineId: string | undefined = res.headers['X-Pipeline-ID'];
+    if (!pipelineId) {
+      return;
+    }
+
+    const pipeline = this.assembledPipelines.find(candidate => candidate.id === pipelineId);
+    const route: string = res.headers['X-Route-Category'] || 'unknown';
+    observeResponseUsage(res, usage => {
+      if (!usage) {
+        return;
+      }
+      this.usageLedger.record({
+        requestId: req.id,
+        client: req.metadata.client?.name || 'anonymous',
+        route,
+        provider: pipeline?.provider || res.headers['X-Provider'] || 'unknown',
+        model: pipeline?.model || res.headers['X-Model'] || 'unknown',
+        pipelineId,
+        ...usage,
+        cost: estimateUsageCost(usage, this.getPipelinePrice(pipelineId))
+      });
+    });
+  }
+
+  /**
+   * 流水线所用模型的价格（美元/百万token）
+   */
+  private getPipelinePrice(pipelineId: string): ModelPrice | undefined {
+    const pipeline = this.assembledPipelines.find(candidate => candidate.id === pipelineId);
+    return pipeline ? this.requestRouter?.getModelEntry(pipeline.provider, pipeline.model)?.price : undefined;
   }
 
   /**
@@ -215,6 +419,13 @@ export class HTTPServer extends EventEmitter implements HTTPServerCore {
       return;
     }
 
+    // 停止负载均衡健康检查
+    await this.anthropicHandler.stop();
+
+    // 写入尚未落盘的用量汇总和客户端预算
+    this.usageLedger.stop();
+    this.clientLimiter.stop();
+
     return new Promise((resolve, reject) => {
       const timeout = setTimeout(() => {
         // 超时处理：强制关闭所有连接
@@ -496,67 +707,6 @@ export class HTTPServer extends EventEmitter implements HTTPServerCore {
   }
 
   
-  /**
-   * 发送响应
-   */
-  private async sendResponse(res: http.ServerResponse, context: ResponseContext): Promise<void> {
-    if (context.sent) {
-      return;
-    }
-
-    context.sent = true;
-
-    // 设置响应头
-    for (const [key, value] of Object.entries(context.headers)) {
-      if (value !== undefined && value !== null) {
-        res.setHeader(key, value);
-      }
-    }
-
-    res.statusCode = context.statusCode;
-
-    // 发送响应体
-    if (context.body !== undefined) {
-      // 检查是否为流式响应
-      if (typeof context.body === 'object' && context.body !== null && 'chunks' in context.body) {
-        // 处理流式响应
-        const streamResponse = context.body as any;
-        if (Array.isArray(streamResponse.chunks)) {
-          // 设置流式响应头
-          res.setHeader('Content-Type', 'text/event-stream');
-          res.setHeader('Cache-Control', 'no-cache');
-          res.setHeader('Connection', 'keep-alive');
-
-          // 发送每个chunk
-          for (const chunk of streamResponse.chunks) {
-            res.write(`data: ${JSON.stringify(chunk)}\n\n`);
-
-            // 添加延迟以实现流式传输效果
-            await new Promise(resolve => setTimeout(resolve, 10));
-          }
-
-          res.end();
-        } else {
-          // 如果chunks不是数组，回退到普通JSON响应
-          res.end(JSON.stringify(context.body, null, 2));
-        }
-      } else if (typeof context.body === 'object') {
-        res.end(JSON.stringify(context.body, null, 2));
-      } else {
-        res.end(String(context.body));
-      }
-    } else {
-      res.end();
-    }
-
-    if (this.config.debug) {
-      const duration = Date.now() - context.req.startTime.getTime();
-      console.log(
-        `📤 ${context.statusCode} ${context.req.method} ${context.req.url} [${context.req.id}] ${duration}ms`
-      );
-    }
-  }
-
   /**
    * 处理错误 - 使用HTTP错误中心协同机制
    * 
@@ -891,9 +1041,32 @@ export class HTTPServer extends EventEmitter implements HTTPServerCore {
 
       console.log(`🔍 [${requestId}] 开始流水线选择过程...`);
       
-      // 选择合适的流水线  
-      const selectedPipeline = this.assembledPipelines[0]; // 简单选择第一个可用流水线
-      if (!selectedPipeline) {
+      // 根据请求的model选择路由类别和流水线
+      let routeDecision: RouteDecision<AssembledPipeline> | null = null;
+      try {
+        routeDecision = this.selectRoute(req.body.model);
+        console.log(`🧭 [${requestId}] 路由解析: ${routeDecision.routeName} (${routeDecision.reason})`);
+      } catch (routingError) {
+        console.error(`❌ [${requestId}] 路由解析失败:`, routingError instanceof Error ? routingError.message : routingError);
+      }
+
+      // 客户端密钥限定了路由类别或模型时，拒绝超出范围的请求
+      if (routeDecision) {
+        try {
+          assertClientRouteAllowed(req, routeDecision.routeName, routeDecision.requestedModel);
+        } catch (permissionError) {
+          const message = permissionError instanceof Error ? permissionError.message : 'Permission denied';
+          console.error(`❌ [${requestId}] ${message}`);
+          if (this.debugIntegration) {
+            await this.debugIntegration.endSession();
+          }
+          res.statusCode = 403;
+          res.body = { error: { message, type: 'permission_error' } };
+          return;
+        }
+      }
+
+      if (!routeDecision || routeDecision.candidates.length === 0) {
         console.error(`❌ [${requestId}] 未找到合适的流水线处理此请求`);
         const error = new RCCError(
           'No suitable pipeline found for this request',
@@ -917,8 +1090,7 @@ export class HTTPServer extends EventEmitter implements HTTPServerCore {
         return;
       }
 
-      console.log(`✅ [${requestId}] 已选择流水线: ${selectedPipeline.id}`);
-      console.log(`📊 [${requestId}] 流水线信息: provider=${selectedPipeline.provider}, model=${selectedPipeline.model}`);
+      console.log(`✅ [${requestId}] 路由池候选: ${routeDecision.candidates.map(candidate => candidate.id).join(', ')}`);
 
       // 准备流水线输入数据
       const pipelineInput = {
@@ -931,13 +1103,23 @@ export class HTTPServer extends EventEmitter implements HTTPServerCore {
       };
 
       console.log(`⚡ [${requestId}] 开始执行流水线处理...`);
-      
+
+      // 与messages请求共用负载均衡、回退链和对冲：可重试错误时换用路由池中的下一个流水线
+      let execution: FallbackExecution | undefined;
+      let pipelineError: unknown;
       try {
-        // 执行流水线处理
-        const pipelineResult = await selectedPipeline.execute(pipelineInput);
+        execution = await this.anthropicHandler.executeWithFallback(routeDecision, pipelineInput, requestId, res);
+      } catch (selectionError) {
+        pipelineError = selectionError;
+      }
+
+      if (execution?.winner) {
+        const selectedPipeline = execution.winner.pipeline;
+        const pipelineResult = execution.winner.result;
         const processingTime = Date.now() - startTime;
 
         console.log(`🎉 [${requestId}] 流水线处理成功完成! 耗时: ${processingTime}ms`);
+        console.log(`📊 [${requestId}] 流水线信息: ${selectedPipeline.id} provider=${selectedPipeline.provider}, model=${selectedPipeline.model}`);
         console.log(`📤 [${requestId}] 响应状态码: ${pipelineResult.statusCode || 200}`);
         console.log(`📝 [${requestId}] 响应内容类型: ${pipelineResult.contentType || 'application/json'}`);
 
@@ -945,9 +1127,11 @@ export class HTTPServer extends EventEmitter implements HTTPServerCore {
         res.statusCode = pipelineResult.statusCode || 200;
         res.headers['Content-Type'] = pipelineResult.contentType || 'application/json';
         res.headers['X-Pipeline-ID'] = selectedPipeline.id;
+        res.headers['X-Route-Category'] = routeDecision.routeName;
         res.headers['X-Processing-Time'] = processingTime.toString();
         res.headers['X-Provider'] = selectedPipeline.provider;
         res.headers['X-Model'] = selectedPipeline.model;
+        Object.assign(res.headers, execution.headers);
         
         // 直接使用流水线返回的响应体
         res.body = pipelineResult.responseBody;
@@ -960,55 +1144,52 @@ export class HTTPServer extends EventEmitter implements HTTPServerCore {
             success: true,
             pipelineId: selectedPipeline.id,
             processingTime,
+            attempts: execution.attempts,
             statusCode: res.statusCode,
             endpoint: 'chat-completions',
             provider: selectedPipeline.provider,
             model: selectedPipeline.model
           });
         }
+        return;
+      }
 
-      } catch (pipelineError) {
-        const processingTime = Date.now() - startTime;
-        console.error(`💥 [${requestId}] 流水线执行失败! 耗时: ${processingTime}ms`);
-        console.error(`🔥 [${requestId}] 流水线错误详情:`, pipelineError);
-        
-        const error = new RCCError(
+      const processingTime = Date.now() - startTime;
+      const failedPipelineId = execution?.failure?.pipeline.id;
+      pipelineError = pipelineError ?? execution?.failure?.error;
+      console.error(`💥 [${requestId}] 流水线执行失败! 耗时: ${processingTime}ms`);
+      console.error(`🔥 [${requestId}] 流水线错误详情:`, pipelineError);
+      
+      // 密钥全部冷却（RATE_LIMIT_ERROR）、路由池为空（ROUTER_NO_PROVIDER）等选择阶段错误原样使用；
+      // 回退链失败时与messages请求相同地映射上游限流、请求无效和鉴权错误
+      const error = execution?.failure
+        ? this.anthropicHandler.getFailureError(execution.failure, execution.attempts, '/v1/chat/completions')
+        : pipelineError instanceof RCCError ? pipelineError : new RCCError(
           `Pipeline execution failed: ${pipelineError instanceof Error ? pipelineError.message : 'Unknown pipeline error'}`,
           RCCErrorCode.PIPELINE_EXECUTION_FAILED,
           'http-server',
           { 
             endpoint: '/v1/chat/completions',
-            pipelineId: selectedPipeline.id,
             details: { originalError: pipelineError, processingTime }
           }
         );
-        
-        if (this.debugIntegration) {
-          this.debugIntegration.recordError(requestId, pipelineError as Error);
-        }
-        await this.errorHandler.handleRCCError(error, { 
-          requestId, 
-          endpoint: '/v1/chat/completions',
-          pipelineId: selectedPipeline.id 
-        });
-        if (this.debugIntegration) {
-          if (this.debugIntegration) {
-        await this.debugIntegration.endSession();
-      }
-        }
-        
-        // 返回OpenAI格式的错误响应
-        res.statusCode = 500;
-        res.headers['Content-Type'] = 'application/json';
-        res.body = {
-          error: {
-            message: 'Internal server error during processing',
-            type: 'server_error',
-            code: 'pipeline_execution_failed'
-          }
-        };
-        return;
+      
+      if (this.debugIntegration) {
+        this.debugIntegration.recordError(requestId, pipelineError as Error);
       }
+      
+      // 按HTTPErrorCenter的错误码映射返回状态码，限流时附带Retry-After
+      const httpError = await this.httpErrorCenter.handleUnprocessedError(error, {
+        requestId,
+        endpoint: '/v1/chat/completions',
+        method: req.method,
+        pipelineId: failedPipelineId,
+        originalError: error
+      });
+      res.statusCode = httpError.statusCode;
+      Object.assign(res.headers, httpError.headers, execution?.headers || {});
+      res.body = httpError.body;
+      return;
 
     } catch (error) {
       const processingTime = Date.now() - startTime;
@@ -1052,242 +1233,20 @@ export class HTTPServer extends EventEmitter implements HTTPServerCore {
   }
 
   /**
-   * 处理Anthropic标准messages请求 - 纯HTTP层处理
+   * 选择路由 - 未配置路由表时退化为第一个可用流水线
    */
-  private async handleAnthropicMessages(req: RequestContext, res: ResponseContext): Promise<void> {
-    const requestId = req.id;
-    const startTime = Date.now();
-    
-    // 初始化debug系统并开始会话
-    if (this.debugIntegration) {
-      await this.debugIntegration.initialize();
+  private selectRoute(requestedModel: string | undefined): RouteDecision<AssembledPipeline> {
+    if (this.requestRouter) {
+      return this.requestRouter.route(requestedModel, this.assembledPipelines);
     }
-    let sessionId;
-    if (this.debugIntegration) {
-      sessionId = this.debugIntegration.startSession();
-    }
-    
-    console.log(`🎯 [${requestId}] 收到Anthropic Messages请求`);
-    console.log(`📡 [${requestId}] 请求详情: ${req.method} ${req.url}`);
-    console.log(`📋 [${requestId}] 请求体类型: ${typeof req.body}, 大小: ${JSON.stringify(req.body || {}).length} 字符`);
-    
-    // 记录输入
-    if (this.debugIntegration) {
-      this.debugIntegration.recordInput(requestId, {
-        method: req.method,
-        url: req.url,
-        hasBody: !!req.body,
-        bodyType: typeof req.body,
-        endpoint: 'anthropic-messages',
-        timestamp: new Date().toISOString()
-      });
-    }
-    
-    try {
-      // HTTP层基础验证
-      if (!req.body) {
-        console.error(`❌ [${requestId}] 请求体缺失`);
-        const error = new RCCError(
-          'Request body is required',
-          RCCErrorCode.VALIDATION_ERROR,
-          'http-server',
-          { endpoint: '/v1/messages' }
-        );
-        
-        if (this.debugIntegration) {
-          this.debugIntegration.recordEvent('request_error', requestId, { error: 'missing_body' });
-        }
-        await this.errorHandler.handleRCCError(error, { requestId, endpoint: '/v1/messages' });
-        if (this.debugIntegration) {
-          if (this.debugIntegration) {
-        await this.debugIntegration.endSession();
-      }
-        }
-        
-        // 直接返回错误响应
-        const httpError = await this.httpErrorCenter.handleUnprocessedError(error, {
-          requestId,
-          endpoint: '/v1/messages',
-          method: req.method,
-          originalError: error
-        });
-        await this.sendErrorResponse(res._originalResponse || res as any, httpError);
-        return;
-      }
 
-      console.log(`🔍 [${requestId}] 开始检查流水线系统状态...`);
-      console.log(`📊 [${requestId}] 系统状态: initialized=${this.initialized}, pipelines=${this.assembledPipelines.length}`);
-      
-      // 检查流水线系统状态
-      if (!this.initialized || this.assembledPipelines.length === 0) {
-        console.error(`❌ [${requestId}] 流水线系统未初始化或无可用流水线`);
-        const error = new RCCError(
-          'Pipeline system not initialized or no pipelines available',
-          RCCErrorCode.PIPELINE_MODULE_MISSING,
-          'http-server',
-          { endpoint: '/v1/messages' }
-        );
-        
-        if (this.debugIntegration) {
-          this.debugIntegration.recordEvent('service_error', requestId, { error: 'pipeline_not_ready' });
-        }
-        await this.errorHandler.handleRCCError(error, { requestId, endpoint: '/v1/messages' });
-        if (this.debugIntegration) {
-          if (this.debugIntegration) {
-        await this.debugIntegration.endSession();
-      }
-        }
-        
-        // 直接返回错误响应
-        const httpError = await this.httpErrorCenter.handleUnprocessedError(error, {
-          requestId,
-          endpoint: '/v1/messages',
-          method: req.method,
-          originalError: error
-        });
-        await this.sendErrorResponse(res._originalResponse || res as any, httpError);
-        return;
-      }
-
-      // 选择流水线
-      const selectedPipeline = this.assembledPipelines[0];
-      
-      console.log(`✅ [${requestId}] 已选择流水线: ${selectedPipeline.id}`);
-      console.log(`📊 [${requestId}] 流水线信息: provider=${selectedPipeline.provider}, model=${selectedPipeline.model}`);
-
-      // 准备流水线输入 - 发送原始请求数据
-      const pipelineInput = {
-        endpoint: '/v1/messages',
-        method: 'POST',
-        headers: req.headers,
-        body: req.body,
-        requestId: requestId,
-        isAnthropicFormat: true
-      };
-
-      console.log(`⚡ [${requestId}] 开始执行流水线处理...`);
-
-      // 通过流水线处理请求
-      const pipelineStartTime = Date.now();
-      
-      try {
-        // 执行流水线处理 - 流水线负责所有格式转换
-        const pipelineResult = await selectedPipeline.execute(pipelineInput);
-        const processingTime = Date.now() - pipelineStartTime;
-        const totalTime = Date.now() - startTime;
-
-        console.log(`🎉 [${requestId}] 流水线处理成功完成! 耗时: ${processingTime}ms`);
-        console.log(`📤 [${requestId}] 响应状态码: ${pipelineResult.statusCode || 200}`);
-        console.log(`📝 [${requestId}] 响应内容类型: ${pipelineResult.contentType || 'application/json'}`);
-
-        // 设置响应头和状态码
-        res.statusCode = pipelineResult.statusCode || 200;
-        res.headers['Content-Type'] = pipelineResult.contentType || 'application/json';
-        res.headers['X-Pipeline-ID'] = selectedPipeline.id;
-        res.headers['X-Processing-Time'] = processingTime.toString();
-        res.headers['X-Provider'] = selectedPipeline.provider;
-        res.headers['X-Model'] = selectedPipeline.model;
-        
-        // 直接使用流水线返回的响应体（已转换为Anthropic格式）
-        res.body = pipelineResult.responseBody;
-        
-        console.log(`✅ [${requestId}] 响应已准备完成，等待发送`);
-        
-        // 记录成功输出
-        if (this.debugIntegration) {
-          this.debugIntegration.recordOutput(requestId, {
-            success: true,
-            pipelineId: selectedPipeline.id,
-            processingTime,
-            statusCode: res.statusCode,
-            endpoint: 'anthropic-messages'
-          });
-        }
-
-      } catch (pipelineError) {
-        const processingTime = Date.now() - pipelineStartTime;
-        console.error(`💥 [${requestId}] 流水线执行失败! 耗时: ${processingTime}ms`);
-        console.error(`🔥 [${requestId}] 流水线错误详情:`, pipelineError);
-        console.error(`📍 [${requestId}] 失败的流水线: ${selectedPipeline.id} (${selectedPipeline.provider}/${selectedPipeline.model})`);
-        
-        const error = new RCCError(
-          `Pipeline execution failed: ${pipelineError instanceof Error ? pipelineError.message : 'Unknown pipeline error'}`,
-          RCCErrorCode.PIPELINE_EXECUTION_FAILED,
-          'http-server',
-          { 
-            endpoint: '/v1/messages',
-            pipelineId: selectedPipeline.id,
-            details: { originalError: pipelineError, processingTime }
-          }
-        );
-        
-        if (this.debugIntegration) {
-          this.debugIntegration.recordError(requestId, pipelineError as Error);
-        }
-        await this.errorHandler.handleRCCError(error, { 
-          requestId, 
-          endpoint: '/v1/messages',
-          pipelineId: selectedPipeline.id 
-        });
-        if (this.debugIntegration) {
-          if (this.debugIntegration) {
-        await this.debugIntegration.endSession();
-      }
-        }
-        
-        // 直接返回错误响应
-        const httpError = await this.httpErrorCenter.handleUnprocessedError(error, {
-          requestId,
-          endpoint: '/v1/messages',
-          method: req.method,
-          pipelineId: selectedPipeline.id,
-          originalError: pipelineError
-        });
-        await this.sendErrorResponse(res._originalResponse || res as any, httpError);
-        return;
-      }
-
-    } catch (error) {
-      const totalTime = Date.now() - startTime;
-      console.error(`💀 [${requestId}] 系统级错误! 总耗时: ${totalTime}ms`);
-      console.error(`🚨 [${requestId}] 系统错误详情:`, error);
-      
-      if (this.debugIntegration) {
-        this.debugIntegration.recordError(requestId, error as Error);
-      }
-      
-      const rccError = new RCCError(
-        `Internal server error during message processing: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        RCCErrorCode.INTERNAL_ERROR,
-        'http-server',
-        { details: { endpoint: '/v1/messages', originalError: error, totalTime } }
-      );
-      
-      await this.errorHandler.handleRCCError(rccError, { requestId, endpoint: '/v1/messages' });
-      if (this.debugIntegration) {
-        await this.debugIntegration.endSession();
-      }
-      
-      // 直接返回错误响应
-      const httpError = await this.httpErrorCenter.handleUnprocessedError(rccError, {
-        requestId,
-        endpoint: '/v1/messages',
-        method: req.method,
-        originalError: error
-      });
-      await this.sendErrorResponse(res._originalResponse || res as any, httpError);
-      return;
-    } finally {
-      const totalTime = Date.now() - startTime;
-      console.log(`🏁 [${requestId}] Anthropic Messages请求处理结束，总耗时: ${totalTime}ms`);
-      if (this.debugIntegration) {
-        if (this.debugIntegration) {
-          if (this.debugIntegration) {
-        await this.debugIntegration.endSession();
-      }
-        }
-      }
-    }
+    return {
+      requestedModel: requestedModel || '',
+      routeName: 'default',
+      matchType: 'default',
+      reason: 'no routing table configured, using first available pipeline',
+      candidates: this.assembledPipelines.slice(0, 1)
+    };
   }
 
   /**
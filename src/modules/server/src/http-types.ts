@@ -7,6 +7,7 @@
  */
 
 import { RCCError, RCCErrorCode } from '../../types/src/index';
+import { PipelineExecutionOptions } from '../../pipeline/src/module-interface';
 
 // 定义纯净的AssembledPipeline接口
 export interface AssembledPipeline {
@@ -14,7 +15,7 @@ export interface AssembledPipeline {
   provider: string;
   model: string;
   layers: any[];
-  execute(request: any): Promise<{statusCode?: number; contentType?: string; responseBody: any}>;
+  execute(request: any, options?: PipelineExecutionOptions): Promise<{statusCode?: number; contentType?: string; responseBody: any}>;
 }
 
 // 服务器状态接口
@@ -87,6 +88,8 @@ export interface ServerConfig {
   timeout?: number;
   keepAliveTimeout?: number;
   debug?: boolean;
+  // 管理接口（/admin/*）令牌，未配置时管理接口不可用
+  adminToken?: string;
 }
 
 /**
@@ -135,6 +138,76 @@ export interface AnthropicMessageHandler {
   handleAnthropicMessages(req: RequestContext, res: ResponseContext): Promise<void>;
 }
 
+/**
+ * 模型列表处理器接口
+ */
+export interface ModelsHandler {
+  handleListModels(req: RequestContext, res: ResponseContext): Promise<void>;
+  handleGetModel(req: RequestContext, res: ResponseContext): Promise<void>;
+}
+
+/**
+ * Token计数处理器接口
+ */
+export interface CountTokensHandler {
+  handleCountTokens(req: RequestContext, res: ResponseContext): Promise<void>;
+}
+
+/**
+ * 路由演练结果中的流水线
+ */
+export interface RouteExplanationPipeline {
+  pipelineId: string;
+  provider: string;
+  model: string;
+}
+
+/**
+ * 路由演练结果：请求会选择的流水线及原因
+ */
+export interface RouteExplanation {
+  requestedModel: string;
+  routeName: string;
+  matchType: string;
+  reason: string;
+  classification?: {
+    category: string;
+    reason: string;
+    estimatedTokens: number;
+  };
+  contextWindow?: {
+    action: string;
+    estimatedTokens: number;
+    contextWindow?: number;
+  };
+  candidates: RouteExplanationPipeline[];
+  selected: RouteExplanationPipeline | null;
+  strategy: string;
+  selectionReason: string;
+  fallbackChain: RouteExplanationPipeline[];
+}
+
+/**
+ * 管理接口处理器接口
+ */
+export interface AdminApiHandler {
+  handleListPipelines(req: RequestContext, res: ResponseContext): Promise<void>;
+  handleEnterMaintenance(req: RequestContext, res: ResponseContext): Promise<void>;
+  handleExitMaintenance(req: RequestContext, res: ResponseContext): Promise<void>;
+  handleListCircuitBreakers(req: RequestContext, res: ResponseContext): Promise<void>;
+  handleTripCircuitBreaker(req: RequestContext, res: ResponseContext): Promise<void>;
+  handleResetCircuitBreaker(req: RequestContext, res: ResponseContext): Promise<void>;
+  handleSelfCheck(req: RequestContext, res: ResponseContext): Promise<void>;
+  handleGetRoutingTable(req: RequestContext, res: ResponseContext): Promise<void>;
+  handleDrainPipeline(req: RequestContext, res: ResponseContext): Promise<void>;
+  handleEnablePipeline(req: RequestContext, res: ResponseContext): Promise<void>;
+  handleProviderHealth(req: RequestContext, res: ResponseContext): Promise<void>;
+  handleRouteTest(req: RequestContext, res: ResponseContext): Promise<void>;
+  handleKeyStatus(req: RequestContext, res: ResponseContext): Promise<void>;
+  handleUsage(req: RequestContext, res: ResponseContext): Promise<void>;
+  handleReload(req: RequestContext, res: ResponseContext): Promise<void>;
+}
+
 /**
  * 错误处理接口
  */
@@ -0,0 +1,384 @@
+/**
+ * 用量账本
+ *
+ * 记录每个已分发请求的输入、输出和缓存token以及按模型价格估算的花费，
+ * 按客户端密钥、路由类别、Provider、模型和流水线区分，供团队间分摊费用：
+ * - <账本目录>/usage-YYYY-MM-DD.jsonl: 按UTC日期只追加写入的明细
+ * - <账本目录>/rollups-YYYY-MM-DD.json: 按日和上述维度汇总，查询整日时不必扫描明细；
+ *   汇总在内存中累加，按间隔只重写有变化的日期文件，stop()时写入剩余汇总
+ *
+ * 查询起点落在某一天中间时，该日从明细统计，其余日期直接使用汇总
+ *
+ * @author RCC v4.0
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { JQJsonHandler } from '../../error-handler/src/utils/jq-json-handler';
+import { secureLogger } from '../../error-handler/src/utils/secure-logger';
+import { SYSTEM_PATHS } from '../../constants/src/pipeline-constants';
+import { RCCError, RCCErrorCode } from '../../types/src/index';
+
+/**
+ * 报表分组维度
+ */
+export type UsageDimension = 'client' | 'route' | 'provider' | 'model' | 'pipeline' | 'day';
+
+export const USAGE_DIMENSIONS: UsageDimension[] = ['client', 'route', 'provider', 'model', 'pipeline', 'day'];
+
+/**
+ * 用量累计值
+ */
+export interface UsageTotals {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheCreationTokens: number;
+  // 估算花费（美元）
+  cost: number;
+}
+
+/**
+ * 账本明细：一行对应一个请求
+ */
+export interface UsageLedgerEntry {
+  timestamp: string;
+  requestId: string;
+  client: string;
+  route: string;
+  provider: string;
+  model: string;
+  pipelineId: string;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheCreationTokens: number;
+  cost: number;
+}
+
+/**
+ * 用量报表
+ */
+export interface UsageReport {
+  since: string;
+  until: string;
+  by: UsageDimension[];
+  totals: UsageTotals;
+  groups: Array<UsageTotals & { key: Partial<Record<UsageDimension, string>> }>;
+}
+
+export interface UsageLedgerOptions {
+  // 账本目录，默认<RCC数据目录>/usage
+  ledgerDir?: string;
+  now?: () => number;
+  // 汇总写盘间隔，默认5秒
+  flushIntervalMs?: number;
+}
+
+type UsageRollup = UsageTotals & Pick<UsageLedgerEntry, 'client' | 'route' | 'provider' | 'model' | 'pipelineId'>;
+
+interface RollupFile {
+  version: 1;
+  day: string;
+  rollups: UsageRollup[];
+}
+
+const DEFAULT_FLUSH_INTERVAL_MS = 5000;
+
+const ROLLUP_FILE_PATTERN = /^rollups-(\d{4}-\d{2}-\d{2})\.json$/;
+
+const DURATION_UNITS_MS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000
+};
+
+/**
+ * 账本目录；每个实例按端口使用各自的目录，多实例共用数据目录时互不覆盖汇总
+ */
+export function getUsageLedgerDir(port?: number): string {
+  const usageDir = path.join(SYSTEM_PATHS.getRouteClaudeCodeHome(), 'usage');
+  return port === undefined ? usageDir : path.join(usageDir, String(port));
+}
+
+/**
+ * 解析查询起点：相对时长（30m、24h、7d、2w）或ISO日期/时间
+ */
+export function parseUsageSince(since: string, now: number = Date.now()): Date {
+  const duration = /^(\d+)([mhdw])$/.exec(since.trim());
+  if (duration) {
+    return new Date(now - parseInt(duration[1], 10) * DURATION_UNITS_MS[duration[2]]);
+  }
+
+  const timestamp = Date.parse(since);
+  if (isNaN(timestamp)) {
+    throw new RCCError(
+      `Invalid usage start '${since}': use a duration like 24h, 7d or 2w, or an ISO date`,
+      RCCErrorCode.VALIDATION_ERROR,
+      'http-server',
+      { details: { since } }
+    );
+  }
+  return new Date(timestamp);
+}
+
+/**
+ * 解析分组维度列表（逗号分隔）
+ */
+export function parseUsageDimensions(by: string): UsageDimension[] {
+  const dimensions = by.split(',').map(dimension => dimension.trim()).filter(Boolean);
+  const unknown = dimensions.filter(dimension => !USAGE_DIMENSIONS.includes(dimension as UsageDimension));
+  if (unknown.length > 0) {
+    throw new RCCError(
+      `Unknown usage dimension '${unknown[0]}': use ${USAGE_DIMENSIONS.join(', ')}`,
+      RCCErrorCode.VALIDATION_ERROR,
+      'http-server',
+      { details: { by } }
+    );
+  }
+  return dimensions as UsageDimension[];
+}
+
+function emptyTotals(): UsageTotals {
+  return { requests: 0, inputTokens: 0, outputTokens: 0, cacheReadTokens: 0, cacheCreationTokens: 0, cost: 0 };
+}
+
+function addTotals(target: UsageTotals, source: UsageTotals): void {
+  target.requests += source.requests;
+  target.inputTokens += source.inputTokens;
+  target.outputTokens += source.outputTokens;
+  target.cacheReadTokens += source.cacheReadTokens;
+  target.cacheCreationTokens += source.cacheCreationTokens;
+  target.cost += source.cost;
+}
+
+function toRollup(entry: UsageLedgerEntry): UsageRollup {
+  const { client, route, provider, model, pipelineId, inputTokens, outputTokens, cacheReadTokens, cacheCreationTokens, cost } = entry;
+  return { client, route, provider, model, pipelineId, requests: 1, inputTokens, outputTokens, cacheReadTokens, cacheCreationTokens, cost };
+}
+
+/**
+ * 用量账本
+ */
+export class UsageLedger {
+  private readonly ledgerDir: string;
+  private readonly now: () => number;
+  private readonly flushIntervalMs: number;
+  // 本进程写入过的日期汇总；写盘后只保留当天
+  private readonly rollups = new Map<string, UsageRollup[]>();
+  private readonly dirtyDays = new Set<string>();
+  private flushTimer: NodeJS.Timeout | null = null;
+
+  constructor(options: UsageLedgerOptions = {}) {
+    this.ledgerDir = options.ledgerDir || getUsageLedgerDir();
+    this.now = options.now || Date.now;
+    this.flushIntervalMs = options.flushIntervalMs ?? DEFAULT_FLUSH_INTERVAL_MS;
+  }
+
+  /**
+   * 记录一个请求的用量，写入失败只记录日志，不影响请求
+   */
+  record(entry: Omit<UsageLedgerEntry, 'timestamp'>): void {
+    const fullEntry: UsageLedgerEntry = { timestamp: new Date(this.now()).toISOString(), ...entry };
+    const day = fullEntry.timestamp.slice(0, 10);
+
+    try {
+      fs.mkdirSync(this.ledgerDir, { recursive: true });
+      fs.appendFileSync(this.getEntryFile(day), JSON.stringify(fullEntry) + '\n');
+
+      const dayRollups = this.getDayRollups(day);
+      const existing = dayRollups.find(rollup =>
+        rollup.client === fullEntry.client &&
+        rollup.route === fullEntry.route &&
+        rollup.provider === fullEntry.provider &&
+        rollup.model === fullEntry.model &&
+        rollup.pipelineId === fullEntry.pipelineId
+      );
+      if (existing) {
+        addTotals(existing, toRollup(fullEntry));
+      } else {
+        dayRollups.push(toRollup(fullEntry));
+      }
+      this.dirtyDays.add(day);
+      this.scheduleFlush();
+    } catch (error) {
+      secureLogger.error('❌ 写入用量账本失败', { ledgerDir: this.ledgerDir, requestId: entry.requestId, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  /**
+   * 停止定时写盘并写入尚未落盘的汇总
+   */
+  stop(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    this.flush();
+  }
+
+  /**
+   * 统计since之后的用量，按by中的维度分组（空列表只返回合计），分组按花费和token数降序
+   */
+  query(since: Date, by: UsageDimension[] = []): UsageReport {
+    const sinceIso = since.toISOString();
+    const sinceDay = sinceIso.slice(0, 10);
+    const partialFirstDay = sinceIso !== `${sinceDay}T00:00:00.000Z`;
+    const totals = emptyTotals();
+    const groups = new Map<string, UsageTotals & { key: Partial<Record<UsageDimension, string>> }>();
+
+    const add = (day: string, usage: UsageRollup) => {
+      addTotals(totals, usage);
+      if (by.length === 0) {
+        return;
+      }
+      const values: Record<UsageDimension, string> = {
+        client: usage.client,
+        route: usage.route,
+        provider: usage.provider,
+        model: usage.model,
+        pipeline: usage.pipelineId,
+        day
+      };
+      const key = Object.fromEntries(by.map(dimension => [dimension, values[dimension]]));
+      const groupId = JSON.stringify(key);
+      const group = groups.get(groupId) || { key, ...emptyTotals() };
+      addTotals(group, usage);
+      groups.set(groupId, group);
+    };
+
+    for (const day of this.listRollupDays()) {
+      if (day < sinceDay || (day === sinceDay && partialFirstDay)) {
+        continue;
+      }
+      (this.rollups.get(day) || this.readDayRollups(day)).forEach(rollup => add(day, rollup));
+    }
+    if (partialFirstDay) {
+      this.readEntries(sinceDay)
+        .filter(entry => entry.timestamp >= sinceIso)
+        .forEach(entry => add(sinceDay, toRollup(entry)));
+    }
+
+    return {
+      since: sinceIso,
+      until: new Date(this.now()).toISOString(),
+      by,
+      totals,
+      groups: Array.from(groups.values()).sort((a, b) =>
+        b.cost - a.cost || (b.inputTokens + b.outputTokens) - (a.inputTokens + a.outputTokens))
+    };
+  }
+
+  private getEntryFile(day: string): string {
+    return path.join(this.ledgerDir, `usage-${day}.jsonl`);
+  }
+
+  private getRollupFile(day: string): string {
+    return path.join(this.ledgerDir, `rollups-${day}.json`);
+  }
+
+  private readEntries(day: string): UsageLedgerEntry[] {
+    const entryFile = this.getEntryFile(day);
+    if (!fs.existsSync(entryFile)) {
+      return [];
+    }
+
+    const entries: UsageLedgerEntry[] = [];
+    for (const line of fs.readFileSync(entryFile, 'utf8').split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        entries.push(JQJsonHandler.parseJsonString(line));
+      } catch {
+        // 进程中途退出可能留下不完整的最后一行
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * 有汇总的日期：已落盘的日期文件加上尚未写盘的日期，按日期升序
+   */
+  private listRollupDays(): string[] {
+    const days = new Set(this.rollups.keys());
+    if (fs.existsSync(this.ledgerDir)) {
+      for (const file of fs.readdirSync(this.ledgerDir)) {
+        const match = ROLLUP_FILE_PATTERN.exec(file);
+        if (match) {
+          days.add(match[1]);
+        }
+      }
+    }
+    return Array.from(days).sort();
+  }
+
+  private getDayRollups(day: string): UsageRollup[] {
+    let dayRollups = this.rollups.get(day);
+    if (!dayRollups) {
+      dayRollups = this.readDayRollups(day);
+      this.rollups.set(day, dayRollups);
+    }
+    return dayRollups;
+  }
+
+  private readDayRollups(day: string): UsageRollup[] {
+    const rollupFile = this.getRollupFile(day);
+    if (!fs.existsSync(rollupFile)) {
+      return [];
+    }
+
+    try {
+      const data: RollupFile = JQJsonHandler.parseJsonString(fs.readFileSync(rollupFile, 'utf8'));
+      return data.rollups || [];
+    } catch (error) {
+      secureLogger.warn('⚠️ 无法读取用量汇总文件，该日汇总从零开始', { rollupFile, error: error instanceof Error ? error.message : String(error) });
+      return [];
+    }
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer) {
+      return;
+    }
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      this.flush();
+    }, this.flushIntervalMs);
+    // 不因待写入的汇总阻止进程退出
+    this.flushTimer.unref();
+  }
+
+  /**
+   * 重写有变化的日期汇总文件；写入失败的日期保留在内存中，下次写盘时重试
+   */
+  private flush(): void {
+    const today = new Date(this.now()).toISOString().slice(0, 10);
+    for (const day of Array.from(this.dirtyDays)) {
+      try {
+        this.saveDayRollups(day, this.rollups.get(day) || []);
+        this.dirtyDays.delete(day);
+        if (day !== today) {
+          this.rollups.delete(day);
+        }
+      } catch (error) {
+        secureLogger.error('❌ 写入用量汇总失败', { ledgerDir: this.ledgerDir, day, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+    if (this.dirtyDays.size > 0) {
+      this.scheduleFlush();
+    }
+  }
+
+  /**
+   * 先写临时文件再改名，避免进程中途退出留下不完整的汇总文件
+   */
+  private saveDayRollups(day: string, dayRollups: UsageRollup[]): void {
+    const data: RollupFile = { version: 1, day, rollups: dayRollups };
+    const tempFile = `${this.getRollupFile(day)}.${process.pid}.tmp`;
+    fs.writeFileSync(tempFile, JSON.stringify(data));
+    fs.renameSync(tempFile, this.getRollupFile(day));
+  }
+}
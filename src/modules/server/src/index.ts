@@ -15,6 +15,13 @@ export { HTTPContextManager } from './http-context-manager';
 export { HTTPRoutingSystemImpl } from './http-routing-system';
 export { HTTPRequestHandlersImpl } from './http-handlers';
 export { AnthropicMessageHandlerImpl } from './http-anthropic-handler';
+export { ModelsHandlerImpl } from './http-models-handler';
+export { CountTokensHandlerImpl } from './http-count-tokens-handler';
+export { AdminApiHandlerImpl, AdminServices, AdminRuntime, ProviderHealthState } from './http-admin-handler';
+export { ClientAuthGuard, AuthenticatedClient, assertClientRouteAllowed } from './http-client-auth';
+export { ClientRateLimiter, ClientLimits, ClientBudgetUsage, LimitedClientKeyConfig, getClientBudgetFile } from './http-client-limits';
+export { UsageLedger, UsageLedgerEntry, UsageReport, UsageTotals, UsageDimension, USAGE_DIMENSIONS, getUsageLedgerDir, parseUsageSince, parseUsageDimensions } from './http-usage-ledger';
+export { ResponseUsage, extractResponseUsage, estimateUsageCost, observeResponseUsage } from './http-response-usage';
 
 // 导出错误处理组件
 export { HTTPErrorCenter } from './http-error-center';
@@ -26,6 +26,16 @@ export interface AnthropicInputValidatorConfig {
   maxToolsLength: number;
 }
 
+/**
+ * Anthropic图片块支持的媒体类型
+ */
+export const SUPPORTED_IMAGE_MEDIA_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+
+/**
+ * Anthropic文档块支持的媒体类型
+ */
+export const SUPPORTED_DOCUMENT_MEDIA_TYPES = ['application/pdf', 'text/plain'];
+
 /**
  * Anthropic输入验证模块
  */
@@ -337,7 +347,7 @@ export class AnthropicInputValidator extends EventEmitter implements ModuleInter
         throw new Error(`Content block ${i} in message ${messageIndex} must have a type`);
       }
 
-      const validBlockTypes = ['text', 'image', 'tool_use', 'tool_result'];
+      const validBlockTypes = ['text', 'image', 'document', 'tool_use', 'tool_result'];
       if (!validBlockTypes.includes(block.type)) {
         throw new Error(`Content block ${i} in message ${messageIndex} has invalid type: ${block.type}`);
       }
@@ -351,10 +361,13 @@ export class AnthropicInputValidator extends EventEmitter implements ModuleInter
           break;
 
         case 'image':
-          if (!block.source || typeof block.source !== 'object') {
-            throw new Error(`Image block ${i} in message ${messageIndex} must have source field`);
+        case 'document': {
+          const sourceError = AnthropicInputValidator.validateMediaSource(block.type, block.source);
+          if (sourceError) {
+            throw new Error(`Content block ${i} in message ${messageIndex}: ${sourceError}`);
           }
           break;
+        }
 
         case 'tool_use':
           if (!block.id || typeof block.id !== 'string') {
@@ -374,6 +387,52 @@ export class AnthropicInputValidator extends EventEmitter implements ModuleInter
     }
   }
 
+  /**
+   * 验证图片/文档块的source字段
+   *
+   * @returns 错误描述，合法时返回null
+   */
+  static validateMediaSource(blockType: 'image' | 'document', source: any): string | null {
+    const label = blockType === 'image' ? 'Image' : 'Document';
+
+    if (!source || typeof source !== 'object') {
+      return `${label} block must have source field`;
+    }
+
+    switch (source.type) {
+      case 'base64': {
+        const supported = blockType === 'image' ? SUPPORTED_IMAGE_MEDIA_TYPES : SUPPORTED_DOCUMENT_MEDIA_TYPES;
+        if (!source.media_type || !supported.includes(source.media_type)) {
+          return `${label} block has unsupported media_type: ${source.media_type} (supported: ${supported.join(', ')})`;
+        }
+        if (!source.data || typeof source.data !== 'string') {
+          return `${label} block base64 source must have data field`;
+        }
+        return null;
+      }
+
+      case 'url':
+        if (!source.url || typeof source.url !== 'string') {
+          return `${label} block url source must have url field`;
+        }
+        return null;
+
+      case 'text':
+        if (blockType === 'document' && typeof source.data === 'string') {
+          return null;
+        }
+        break;
+
+      case 'content':
+        if (blockType === 'document' && (typeof source.content === 'string' || Array.isArray(source.content))) {
+          return null;
+        }
+        break;
+    }
+
+    return `${label} block has invalid source type: ${source.type}`;
+  }
+
   /**
    * 验证工具格式
    */